@@ -9,6 +9,9 @@ import Home from "@/pages/Home";
 import ProductDetail from "@/pages/ProductDetail";
 import AdminDashboard from "@/pages/AdminDashboard";
 import ProductForm from "@/pages/ProductForm";
+import UserManagement from "@/pages/UserManagement";
+import AuditLog from "@/pages/AuditLog";
+import Account from "@/pages/Account";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -17,13 +20,28 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/product/:id" component={ProductDetail} />
       <Route path="/login" component={LoginForm} />
+      <Route path="/account">
+        <ProtectedRoute permission={null}>
+          <Account />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin">
         <ProtectedRoute>
           <AdminDashboard />
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/users">
+        <ProtectedRoute permission="users:manage">
+          <UserManagement />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/audit">
+        <ProtectedRoute permission="audit:view">
+          <AuditLog />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/:action/:id?">
-        <ProtectedRoute>
+        <ProtectedRoute permission="drafts:edit">
           <ProductForm />
         </ProtectedRoute>
       </Route>
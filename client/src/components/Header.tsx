@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Shield, LogOut } from "lucide-react";
+import { Shield, LogOut, UserRound } from "lucide-react";
 import ThemeToggle from "./ThemeToggle";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "./auth/AuthProvider";
@@ -36,7 +36,15 @@ export default function Header({ showAdminLink = false }: HeaderProps) {
               </Button>
             </Link>
           )}
-          {isAdminPage && user && (
+          {!isAdminPage && user && location !== "/account" && (
+            <Link href="/account">
+              <Button variant="ghost" data-testid="link-account" className="h-9">
+                <UserRound className="h-4 w-4 mr-2" />
+                My Profile
+              </Button>
+            </Link>
+          )}
+          {(isAdminPage || location === "/account") && user && (
             <Button
               variant="ghost"
               onClick={handleLogout}
@@ -0,0 +1,132 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { Link } from "wouter";
+import SafetyBadge from "./SafetyBadge";
+import { useAuth } from "./auth/AuthProvider";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ImpactReviewListItem } from "@shared/types";
+
+interface ImpactReviewPage {
+  data: ImpactReviewListItem[];
+  pagination: { total: number };
+}
+
+const QUERY_KEY = ["/api/admin/impact-reviews?status=open"];
+
+/**
+ * Published products whose rating may be outdated because a re-analysis
+ * changed one of their ingredients. Hidden when the queue is empty.
+ */
+export default function ImpactReviewQueue() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data } = useQuery<ImpactReviewPage>({
+    queryKey: QUERY_KEY,
+    // Admin endpoints require auth, so fetch through apiRequest
+    queryFn: async () => (await apiRequest("GET", QUERY_KEY[0])).json(),
+    staleTime: 0,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "resolved" | "dismissed" }) => {
+      const response = await apiRequest("PATCH", `/api/admin/impact-reviews/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEY });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update the review. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviews = data?.data ?? [];
+  if (reviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8 p-6" data-testid="card-impact-reviews">
+      <div className="mb-4 flex items-center gap-2">
+        <AlertTriangle className="h-5 w-5 text-safety-caution" />
+        <h2 className="text-lg font-semibold">
+          Rating changes to review ({data?.pagination.total ?? reviews.length})
+        </h2>
+      </div>
+      <div className="divide-y">
+        {reviews.map((review) => (
+          <div
+            key={review.id}
+            className="flex flex-col gap-3 py-4 md:flex-row md:items-center md:justify-between"
+            data-testid={`impact-review-${review.id}`}
+          >
+            <div className="space-y-2">
+              <p className="font-medium">
+                {review.productName}
+                {review.productBrand && (
+                  <span className="text-muted-foreground"> · {review.productBrand}</span>
+                )}
+              </p>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <span className="font-medium text-foreground">{review.ingredientName}</span>
+                <SafetyBadge status={review.previousStatus} size="sm" />
+                <span>→</span>
+                <SafetyBadge status={review.newStatus} size="sm" />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <span>Overall verdict:</span>
+                {review.projectedOverallStatus === review.currentOverallStatus ? (
+                  <>
+                    <SafetyBadge status={review.currentOverallStatus} showLabel />
+                    <span>(unchanged)</span>
+                  </>
+                ) : (
+                  <>
+                    <SafetyBadge status={review.currentOverallStatus} showLabel />
+                    <span>→</span>
+                    <SafetyBadge status={review.projectedOverallStatus} showLabel />
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Link href={`/admin/edit/${review.productId}`}>
+                <Button size="sm" variant="outline">Open report</Button>
+              </Link>
+              {can("products:publish") && (
+                <>
+                  <Button
+                    size="sm"
+                    onClick={() => closeMutation.mutate({ id: review.id, status: "resolved" })}
+                    disabled={closeMutation.isPending}
+                    data-testid={`button-resolve-${review.id}`}
+                  >
+                    Resolve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => closeMutation.mutate({ id: review.id, status: "dismissed" })}
+                    disabled={closeMutation.isPending}
+                    data-testid={`button-dismiss-${review.id}`}
+                  >
+                    Dismiss
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -4,8 +4,18 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
 import SafetyBadge from "./SafetyBadge";
-import { ExternalLink } from "lucide-react";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { formatConcentration } from "@shared/concentrationThresholds";
+import {
+  INGREDIENT_FUNCTION_LABELS,
+  INGREDIENT_ORIGIN_LABELS,
+  type IngredientAttributes,
+} from "@shared/ingredientAttributes";
+import { INGREDIENT_TAG_LABELS, type IngredientTag } from "@shared/ingredientTags";
+import { findSensitivityConflicts, SENSITIVITY_LABELS, type Sensitivity } from "@shared/sensitivities";
+import type { ConcentrationBasis, ConcentrationHint, RegulatoryEffect, RegulatoryMatch } from "@shared/types";
 
 type SafetyStatus = "safe" | "caution" | "banned";
 
@@ -14,65 +24,190 @@ interface Ingredient {
   status: SafetyStatus;
   rationale: string;
   sourceUrl: string;
+  concentration?: ConcentrationHint | null;
+  concentrationBasis?: ConcentrationBasis | null;
+  regulatoryMatches?: RegulatoryMatch[] | null;
+  tags?: IngredientTag[] | null;
+  attributes?: IngredientAttributes | null;
+}
+
+// Label and value of each attribute the analysis gives
+function describeAttributes(attributes: IngredientAttributes): [string, string][] {
+  const rows: [string, string][] = [];
+  if (attributes.function) rows.push(["Function", INGREDIENT_FUNCTION_LABELS[attributes.function]]);
+  if (attributes.origin) rows.push(["Origin", INGREDIENT_ORIGIN_LABELS[attributes.origin]]);
+  if (attributes.comedogenicRating !== null) rows.push(["Comedogenic rating", `${attributes.comedogenicRating} / 5`]);
+  rows.push(["Known allergen", attributes.allergen ? "Yes" : "No"]);
+  rows.push(["Pregnancy", attributes.pregnancyCaution ? "Commonly advised against" : "No known concern"]);
+  return rows;
 }
 
+const REGULATORY_EFFECT_LABELS: Record<RegulatoryEffect, string> = {
+  ban: "Prohibited",
+  warn: "Warning required",
+  note: "Restricted",
+};
+
 interface IngredientAccordionProps {
   ingredients: Ingredient[];
+  // The signed-in consumer's profile; conflicting ingredients are highlighted
+  sensitivities?: Sensitivity[];
 }
 
-export default function IngredientAccordion({ ingredients }: IngredientAccordionProps) {
+export default function IngredientAccordion({ ingredients, sensitivities = [] }: IngredientAccordionProps) {
   return (
     <Accordion type="single" collapsible className="space-y-3">
-      {ingredients.map((ingredient, index) => (
-        <AccordionItem
-          key={index}
-          value={`item-${index}`}
-          className="border rounded-lg px-6 bg-card data-[state=open]:bg-muted/30 transition-colors"
-          data-testid={`accordion-ingredient-${index}`}
-        >
-          <AccordionTrigger className="hover:no-underline py-5">
-            <div className="flex items-center gap-3 flex-1">
-              <SafetyBadge status={ingredient.status} size="sm" />
-              <span className="font-semibold text-left text-base text-foreground">{ingredient.name}</span>
-            </div>
-          </AccordionTrigger>
-          <AccordionContent className="pb-6 pt-2 space-y-4">
-            <div className="space-y-4">
-              <div>
-                <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                  Safety Rating
-                </span>
-                <div className="mt-2">
-                  <SafetyBadge status={ingredient.status} showLabel />
-                </div>
+      {ingredients.map((ingredient, index) => {
+        const conflicts = findSensitivityConflicts(ingredient, sensitivities);
+        return (
+          <AccordionItem
+            key={index}
+            value={`item-${index}`}
+            className={`border rounded-lg px-6 bg-card data-[state=open]:bg-muted/30 transition-colors ${
+              conflicts.length > 0 ? "border-amber-500/60" : ""
+            }`}
+            data-testid={`accordion-ingredient-${index}`}
+          >
+            <AccordionTrigger className="hover:no-underline py-5">
+              <div className="flex items-center gap-3 flex-1">
+                <SafetyBadge status={ingredient.status} size="sm" />
+                <span className="font-semibold text-left text-base text-foreground">{ingredient.name}</span>
+                {ingredient.concentration && (
+                  <span className="text-sm text-muted-foreground" data-testid={`text-concentration-${index}`}>
+                    {formatConcentration(ingredient.concentration)}
+                  </span>
+                )}
+                {conflicts.length > 0 && (
+                  <span
+                    className="ml-auto mr-2 inline-flex items-center gap-1 text-sm font-medium text-amber-600 dark:text-amber-400"
+                    data-testid={`text-conflict-${index}`}
+                  >
+                    <AlertTriangle className="h-4 w-4" />
+                    {conflicts.map((conflict) => SENSITIVITY_LABELS[conflict.sensitivity]).join(", ")}
+                  </span>
+                )}
               </div>
+            </AccordionTrigger>
+            <AccordionContent className="pb-6 pt-2 space-y-4">
+              <div className="space-y-4">
+                <div>
+                  <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    Safety Rating
+                  </span>
+                  <div className="mt-2">
+                    <SafetyBadge status={ingredient.status} showLabel />
+                  </div>
+                </div>
+
+                {conflicts.length > 0 && (
+                  <div>
+                    <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                      Your Profile
+                    </span>
+                    <ul className="mt-2 space-y-1" data-testid={`list-conflicts-${index}`}>
+                      {conflicts.map((conflict) => (
+                        <li key={conflict.sensitivity} className="text-amber-700 dark:text-amber-400">
+                          <span className="font-medium">{SENSITIVITY_LABELS[conflict.sensitivity]}:</span> {conflict.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {ingredient.tags && ingredient.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-2" data-testid={`tags-${index}`}>
+                    {ingredient.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">
+                        {INGREDIENT_TAG_LABELS[tag]}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {ingredient.attributes && (
+                  <div>
+                    <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                      Attributes
+                    </span>
+                    <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-6 gap-y-1" data-testid={`list-attributes-${index}`}>
+                      {describeAttributes(ingredient.attributes).map(([label, value]) => (
+                        <div key={label} className="contents">
+                          <dt className="text-sm text-muted-foreground">{label}</dt>
+                          <dd className="text-sm text-foreground">{value}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+
+                {ingredient.concentrationBasis && (
+                  <div>
+                    <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                      Concentration Basis
+                    </span>
+                    <p className="mt-2 leading-relaxed text-foreground" data-testid={`text-concentration-basis-${index}`}>
+                      {ingredient.concentrationBasis.summary}
+                    </p>
+                    {/* A threshold moved the status away from the general analysis */}
+                    {ingredient.concentrationBasis.analysisStatus !== ingredient.status &&
+                      ingredient.concentrationBasis.kind === "threshold" && (
+                        <p className="mt-1 text-sm text-muted-foreground">
+                          Rated {ingredient.concentrationBasis.analysisStatus} at typical use levels.
+                        </p>
+                      )}
+                  </div>
+                )}
+
+                {ingredient.regulatoryMatches && ingredient.regulatoryMatches.length > 0 && (
+                  <div>
+                    <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                      Regulatory Status
+                    </span>
+                    <ul className="mt-2 space-y-2" data-testid={`list-regulatory-${index}`}>
+                      {ingredient.regulatoryMatches.map((match) => (
+                        <li key={`${match.listId}-${match.reference}`} className="leading-relaxed text-foreground">
+                          <span className="font-medium">{REGULATORY_EFFECT_LABELS[match.effect]}:</span>{" "}
+                          {match.listName}, {match.reference}
+                          {match.conditions && (
+                            <span className="block text-sm text-muted-foreground">{match.conditions}</span>
+                          )}
+                          <span className="block text-xs text-muted-foreground">
+                            List version {match.listVersion}
+                            {match.matchedBy === "name" ? "" : `, matched by ${match.matchedBy === "cas" ? "CAS number" : "alias"} ${match.matchedValue}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               
-              <div>
-                <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                  Analysis
-                </span>
-                <p className="mt-2 leading-relaxed text-foreground">{ingredient.rationale}</p>
-              </div>
+                <div>
+                  <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    Analysis
+                  </span>
+                  <p className="mt-2 leading-relaxed text-foreground">{ingredient.rationale}</p>
+                </div>
 
-              <div>
-                <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                  Source
-                </span>
-                <a
-                  href={ingredient.sourceUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="mt-2 inline-flex items-center gap-2 text-primary hover:underline font-medium"
-                  data-testid={`link-source-${index}`}
-                >
-                  <span>View Research Citation</span>
-                  <ExternalLink className="h-4 w-4" />
-                </a>
+                <div>
+                  <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    Source
+                  </span>
+                  <a
+                    href={ingredient.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-2 inline-flex items-center gap-2 text-primary hover:underline font-medium"
+                    data-testid={`link-source-${index}`}
+                  >
+                    <span>View Research Citation</span>
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </div>
               </div>
-            </div>
-          </AccordionContent>
-        </AccordionItem>
-      ))}
+            </AccordionContent>
+          </AccordionItem>
+        );
+      })}
     </Accordion>
   );
 }
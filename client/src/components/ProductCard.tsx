@@ -19,6 +19,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import { useAuth } from "./auth/AuthProvider";
 
 type SafetyStatus = "safe" | "caution" | "banned";
 
@@ -45,6 +46,7 @@ export default function ProductCard({
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const { can } = useAuth();
 
 
   const deleteMutation = useMutation({
@@ -95,19 +97,21 @@ export default function ProductCard({
         {isAdmin ? (
           <div className="flex flex-col gap-2 pt-3">
             <div className="flex gap-2">
-              <Button 
-                size="sm" 
-                variant="outline" 
-                className="flex-1"
-                onClick={() => {
-                  // Always navigate directly to edit page
-                  setLocation(`/admin/edit/${id}`);
-                }}
-                data-testid={`button-edit-${id}`}
-              >
-                <Edit2 className="mr-2 h-3 w-3" />
-                Edit
-              </Button>
+              {can("drafts:edit") && (
+                <Button 
+                  size="sm" 
+                  variant="outline" 
+                  className="flex-1"
+                  onClick={() => {
+                    // Always navigate directly to edit page
+                    setLocation(`/admin/edit/${id}`);
+                  }}
+                  data-testid={`button-edit-${id}`}
+                >
+                  <Edit2 className="mr-2 h-3 w-3" />
+                  Edit
+                </Button>
+              )}
               <Link href={`/product/${id}`}>
                 <Button 
                   size="sm" 
@@ -118,37 +122,39 @@ export default function ProductCard({
                 </Button>
               </Link>
             </div>
-            <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-              <AlertDialogTrigger asChild>
-                <Button
-                  size="sm"
-                  variant="destructive"
-                  className="w-full"
-                  data-testid={`button-delete-${id}`}
-                >
-                  <Trash2 className="mr-2 h-3 w-3" />
-                  Delete
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Delete Product?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    Are you sure you want to delete "{name}"? This action cannot be undone and will permanently remove the product from the system.
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction
-                    onClick={() => deleteMutation.mutate()}
-                    disabled={deleteMutation.isPending}
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            {can("products:delete") && (
+              <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="w-full"
+                    data-testid={`button-delete-${id}`}
                   >
-                    {deleteMutation.isPending ? "Deleting..." : "Delete"}
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+                    <Trash2 className="mr-2 h-3 w-3" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete Product?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Are you sure you want to delete "{name}"? This action cannot be undone and will permanently remove the product from the system.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => deleteMutation.mutate()}
+                      disabled={deleteMutation.isPending}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
           </div>
         ) : (
           <div className="flex items-center gap-2 pt-3 text-primary font-medium">
@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import SafetyBadge from "./SafetyBadge";
+import { Card } from "@/components/ui/card";
+import type { ProductChangelogEntry, ProductChangelogIngredient } from "@shared/types";
+
+interface ReportHistoryProps {
+  productId: string;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString(undefined, { dateStyle: "long" });
+}
+
+function IngredientChange({ change }: { change: ProductChangelogIngredient }) {
+  return (
+    <li className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-medium text-foreground">{change.name}</span>
+      {change.before && <SafetyBadge status={change.before} size="sm" />}
+      {change.before && change.after && <span className="text-muted-foreground">→</span>}
+      {change.after && <SafetyBadge status={change.after} size="sm" />}
+      {!change.before && <span className="text-muted-foreground">added</span>}
+      {!change.after && <span className="text-muted-foreground">removed</span>}
+    </li>
+  );
+}
+
+export default function ReportHistory({ productId }: ReportHistoryProps) {
+  const { data: entries = [], isLoading } = useQuery<ProductChangelogEntry[]>({
+    queryKey: [`/api/products/${productId}/changelog`],
+  });
+
+  // A report that was published once has nothing to show yet
+  if (isLoading || entries.length < 2) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4" data-testid="section-report-history">
+      <div className="space-y-3">
+        <h2 className="text-2xl font-semibold tracking-tight">Report History</h2>
+        <p className="max-w-2xl text-sm text-muted-foreground">
+          Dates on which this product's safety ratings changed, with the
+          reviewer's note on why.
+        </p>
+      </div>
+      <Card className="divide-y">
+        {entries.map((entry) => (
+          <div key={entry.revisionNumber} className="space-y-3 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-medium text-foreground">{formatDate(entry.publishedAt)}</p>
+              {entry.overallStatus && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>Overall verdict:</span>
+                  {entry.overallStatus.before && (
+                    <>
+                      <SafetyBadge status={entry.overallStatus.before} size="sm" />
+                      <span>→</span>
+                    </>
+                  )}
+                  <SafetyBadge status={entry.overallStatus.after} showLabel />
+                </div>
+              )}
+            </div>
+            {entry.changeNote && (
+              <p className="text-sm text-muted-foreground">{entry.changeNote}</p>
+            )}
+            {entry.ingredients.length > 0 && (
+              <ul className="space-y-2">
+                {entry.ingredients.map((change) => (
+                  <IngredientChange key={change.name} change={change} />
+                ))}
+              </ul>
+            )}
+            {!entry.overallStatus?.before && entry.ingredients.length === 0 && (
+              <p className="text-sm text-muted-foreground">First published.</p>
+            )}
+          </div>
+        ))}
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import SafetyBadge from "./SafetyBadge";
+import { useAuth } from "./auth/AuthProvider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getNextReviewStates, getReviewState, REVIEW_STATE_LABELS, REVIEWER_STATES } from "@shared/reviewWorkflow";
+import type { Editor, Product, ReviewState } from "@shared/types";
+
+type QueueFilter = "me" | "all";
+
+// Select items need a non-empty value, so "no assignee" gets its own
+const UNASSIGNED = "unassigned";
+
+// Review endpoints require auth, so fetch through apiRequest
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await apiRequest("GET", url);
+  return response.json();
+}
+
+/**
+ * Drafts in the editorial workflow, either the ones assigned to the signed-in
+ * editor or all of them, with their state, assignee and the moves available
+ */
+export default function ReviewQueue() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [filter, setFilter] = useState<QueueFilter>("me");
+
+  const queueUrl = filter === "me" ? "/api/admin/review-queue?assignedTo=me" : "/api/admin/review-queue";
+  const { data: drafts = [], isLoading } = useQuery<Product[]>({
+    queryKey: [queueUrl],
+    queryFn: () => fetchJson(queueUrl),
+    staleTime: 0,
+  });
+
+  const { data: editors = [] } = useQuery<Editor[]>({
+    queryKey: ["/api/admin/editors"],
+    queryFn: () => fetchJson("/api/admin/editors"),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: { reviewState?: ReviewState; assignedTo?: string | null } }) => {
+      const response = await apiRequest("PATCH", `/api/products/${id}/review`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/review-queue"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/products?includeUnpublished=true"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "Failed to update the draft. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="p-6" data-testid="card-review-queue">
+      <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <h2 className="text-lg font-semibold">Review queue</h2>
+        <ToggleGroup
+          type="single"
+          value={filter}
+          onValueChange={(value) => value && setFilter(value as QueueFilter)}
+          data-testid="toggle-review-filter"
+        >
+          <ToggleGroupItem value="me" size="sm">Assigned to me</ToggleGroupItem>
+          <ToggleGroupItem value="all" size="sm">All drafts</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {isLoading ? (
+        <p className="py-8 text-center text-muted-foreground">Loading drafts...</p>
+      ) : drafts.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">
+          {filter === "me" ? "No drafts are assigned to you" : "No drafts to review"}
+        </p>
+      ) : (
+        <div className="divide-y">
+          {drafts.map((draft) => {
+            const state = getReviewState(draft);
+            return (
+              <div
+                key={draft.id}
+                className="flex flex-col gap-3 py-4 lg:flex-row lg:items-center lg:justify-between"
+                data-testid={`review-draft-${draft.id}`}
+              >
+                <div className="space-y-2">
+                  <p className="font-medium">
+                    {draft.name}
+                    {draft.brand && <span className="text-muted-foreground"> · {draft.brand}</span>}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <Badge variant={state === "approved" ? "default" : "secondary"}>
+                      {REVIEW_STATE_LABELS[state]}
+                    </Badge>
+                    <SafetyBadge status={draft.overallStatus} size="sm" />
+                    {draft.editedFromProductId && <span>Edit of a published report</span>}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={draft.assignedTo ?? UNASSIGNED}
+                    onValueChange={(value) =>
+                      reviewMutation.mutate({
+                        id: draft.id,
+                        changes: { assignedTo: value === UNASSIGNED ? null : value },
+                      })
+                    }
+                    disabled={reviewMutation.isPending || !can("drafts:edit")}
+                  >
+                    <SelectTrigger className="w-48" data-testid={`select-assignee-${draft.id}`}>
+                      <SelectValue placeholder="Unassigned" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {editors.map((editor) => (
+                        <SelectItem key={editor.id} value={editor.id}>
+                          {editor.email ?? editor.id}
+                        </SelectItem>
+                      ))}
+                      {/* Keep an assignee who is no longer an editor selectable */}
+                      {draft.assignedTo && !editors.some((editor) => editor.id === draft.assignedTo) && (
+                        <SelectItem value={draft.assignedTo}>{draft.assignedToEmail ?? draft.assignedTo}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  {getNextReviewStates(state)
+                    .filter((next) => can(REVIEWER_STATES.includes(next) ? "drafts:review" : "drafts:edit"))
+                    .map((next) => (
+                      <Button
+                        key={next}
+                        size="sm"
+                        variant={next === "approved" ? "default" : "outline"}
+                        onClick={() => reviewMutation.mutate({ id: draft.id, changes: { reviewState: next } })}
+                        disabled={reviewMutation.isPending}
+                        data-testid={`button-review-${next}-${draft.id}`}
+                      >
+                        {REVIEW_STATE_LABELS[next]}
+                      </Button>
+                    ))}
+                  <Link href={`/admin/edit/${draft.id}`}>
+                    <Button size="sm" variant="ghost">Open</Button>
+                  </Link>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import SafetyBadge from "./SafetyBadge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { ProductRevision, ProductRevisionDiff, RevisionField } from "@shared/types";
+
+interface RevisionHistoryProps {
+  // The published product (not a draft of it)
+  productId: string;
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  name: "Name",
+  brand: "Brand",
+  summary: "Summary",
+  imageUrl: "Image URL",
+  category: "Category",
+  overallStatus: "Overall verdict",
+};
+
+// Revision endpoints require auth, so fetch through apiRequest
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await apiRequest("GET", url);
+  return response.json();
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export default function RevisionHistory({ productId }: RevisionHistoryProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<ProductRevision[]>({
+    queryKey: [`/api/products/${productId}/revisions`],
+    queryFn: () => fetchJson(`/api/products/${productId}/revisions`),
+    staleTime: 0,
+  });
+
+  // Show the latest revision's changes by default
+  useEffect(() => {
+    if (selected === null && revisions.length > 0) {
+      setSelected(revisions[0].revisionNumber);
+    }
+  }, [revisions, selected]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<ProductRevisionDiff>({
+    queryKey: [`/api/products/${productId}/revisions/diff?to=${selected}`],
+    queryFn: () => fetchJson(`/api/products/${productId}/revisions/diff?to=${selected}`),
+    enabled: selected !== null,
+  });
+
+  const selectedRevision = revisions.find((revision) => revision.revisionNumber === selected);
+
+  const hasChanges =
+    diff &&
+    (diff.fields.length > 0 ||
+      diff.addedIngredients.length > 0 ||
+      diff.removedIngredients.length > 0 ||
+      diff.changedIngredients.length > 0);
+
+  return (
+    <Card data-testid="card-revision-history">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading revisions...</p>
+        )}
+
+        {!isLoading && revisions.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No published revisions yet. A revision is recorded each time this
+            report is published with changes.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {revisions.map((revision) => (
+            <Button
+              key={revision.id}
+              type="button"
+              variant="ghost"
+              className={cn(
+                "h-auto w-full justify-between px-3 py-2 text-left",
+                selected === revision.revisionNumber && "bg-muted",
+              )}
+              onClick={() => setSelected(revision.revisionNumber)}
+              data-testid={`button-revision-${revision.revisionNumber}`}
+            >
+              <span className="flex items-center gap-2">
+                <Badge variant="outline">v{revision.revisionNumber}</Badge>
+                <span className="text-sm">{formatDate(revision.publishedAt)}</span>
+              </span>
+              <span className="truncate text-xs text-muted-foreground">
+                {revision.publishedByEmail ?? "Unknown publisher"}
+              </span>
+            </Button>
+          ))}
+        </div>
+
+        {selected !== null && (
+          <>
+            <Separator />
+            <div className="space-y-3 text-sm">
+              <p className="font-medium">
+                {diff?.fromRevision
+                  ? `Changes from v${diff.fromRevision} to v${diff.toRevision}`
+                  : `Initial version (v${selected})`}
+              </p>
+
+              {selectedRevision?.changeNote && (
+                <p className="rounded-md bg-muted/50 p-3 italic">
+                  {selectedRevision.changeNote}
+                </p>
+              )}
+
+              {isDiffLoading && (
+                <p className="text-muted-foreground">Loading changes...</p>
+              )}
+
+              {diff && !hasChanges && (
+                <p className="text-muted-foreground">No content changes.</p>
+              )}
+
+              {diff?.fields.map((change) => (
+                <div key={change.field} className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    {FIELD_LABELS[change.field]}
+                  </p>
+                  <p className="text-muted-foreground line-through">{change.before || "(empty)"}</p>
+                  <p>{change.after || "(empty)"}</p>
+                </div>
+              ))}
+
+              {diff && diff.addedIngredients.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    {diff.fromRevision ? "Added ingredients" : "Ingredients"}
+                  </p>
+                  {diff.addedIngredients.map((ingredient) => (
+                    <div key={ingredient.name} className="flex items-center gap-2">
+                      <SafetyBadge status={ingredient.status} size="sm" />
+                      <span>{ingredient.name}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {diff && diff.removedIngredients.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    Removed ingredients
+                  </p>
+                  {diff.removedIngredients.map((ingredient) => (
+                    <div key={ingredient.name} className="flex items-center gap-2 text-muted-foreground line-through">
+                      <SafetyBadge status={ingredient.status} size="sm" />
+                      <span>{ingredient.name}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {diff && diff.changedIngredients.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                    Changed ingredients
+                  </p>
+                  {diff.changedIngredients.map((change) => (
+                    <div key={change.name} className="flex flex-wrap items-center gap-2">
+                      <span>{change.name}</span>
+                      {change.fields.includes("status") ? (
+                        <>
+                          <SafetyBadge status={change.before.status} size="sm" />
+                          <span className="text-muted-foreground">→</span>
+                          <SafetyBadge status={change.after.status} size="sm" />
+                        </>
+                      ) : null}
+                      <span className="text-xs text-muted-foreground">
+                        ({change.fields.join(", ")})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,16 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase";
+import { apiRequest } from "@/lib/queryClient";
+import type { CurrentUser, Permission } from "@shared/permissions";
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  // Role and permissions from /api/me; null when signed out or without a role
+  profile: CurrentUser | null;
+  can: (permission: Permission) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
@@ -18,6 +23,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<CurrentUser | null>(null);
+  // Id of the user the profile was last loaded (or failed to load) for
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
 
   useEffect(() => {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -63,6 +71,35 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Load the signed-in user's role whenever the account changes
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      return;
+    }
+
+    let cancelled = false;
+    apiRequest("GET", "/api/me")
+      .then((response) => response.json())
+      .then((me: CurrentUser) => {
+        if (!cancelled) setProfile(me);
+      })
+      .catch((error) => {
+        // 403 for accounts without a role
+        console.warn("Unable to load user role:", error);
+        if (!cancelled) setProfile(null);
+      })
+      .finally(() => {
+        if (!cancelled) setProfileUserId(user.id);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const can = (permission: Permission) => profile?.permissions.includes(permission) ?? false;
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -95,7 +132,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         user,
         session,
-        loading,
+        loading: loading || (user !== null && profileUserId !== user.id),
+        profile,
+        can,
         signIn,
         signUp,
         signOut,
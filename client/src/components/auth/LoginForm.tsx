@@ -12,16 +12,16 @@ export default function LoginForm() {
   const [password, setPassword] = useState("");
   const [isSignUp, setIsSignUp] = useState(false);
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp, user, loading: authLoading } = useAuth();
+  const { signIn, signUp, user, loading: authLoading, can } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
-  // Redirect to admin if already logged in
+  // Redirect once logged in: staff to the admin panel, consumers to their profile
   useEffect(() => {
     if (!authLoading && user) {
-      setLocation("/admin");
+      setLocation(can("dashboard:view") ? "/admin" : "/account");
     }
-  }, [user, authLoading, setLocation]);
+  }, [user, authLoading, can, setLocation]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -45,10 +45,6 @@ export default function LoginForm() {
             ? "Please check your email to verify your account."
             : "Welcome back!",
         });
-        // Navigate to admin dashboard after successful login
-        if (!isSignUp) {
-          setLocation("/admin");
-        }
       }
     } catch (error: any) {
       toast({
@@ -82,11 +78,11 @@ export default function LoginForm() {
     <div className="min-h-screen flex items-center justify-center bg-muted/20 p-4">
       <Card className="w-full max-w-md">
         <CardHeader>
-          <CardTitle>{isSignUp ? "Create Account" : "Admin Login"}</CardTitle>
+          <CardTitle>{isSignUp ? "Create Account" : "Login"}</CardTitle>
           <CardDescription>
             {isSignUp
               ? "Sign up for a new account"
-              : "Enter your credentials to access the admin panel"}
+              : "Enter your credentials to sign in"}
           </CardDescription>
         </CardHeader>
         <CardContent>
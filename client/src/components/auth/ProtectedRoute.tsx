@@ -1,15 +1,19 @@
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "./AuthProvider";
-import { Loader2 } from "lucide-react";
+import { Loader2, ShieldOff } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { Permission } from "@shared/permissions";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requireAdmin?: boolean;
+  // Permission the signed-in user's role needs to see the page; null lets any
+  // signed-in account through
+  permission?: Permission | null;
 }
 
-export default function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { user, loading } = useAuth();
+export default function ProtectedRoute({ children, permission = "dashboard:view" }: ProtectedRouteProps) {
+  const { user, loading, profile, can } = useAuth();
   const [, setLocation] = useLocation();
 
   useEffect(() => {
@@ -37,14 +41,20 @@ export default function ProtectedRoute({ children, requireAdmin = false }: Prote
     );
   }
 
-  // TODO: Check admin role from user_profiles table
-  // For now, allow all authenticated users
-  if (requireAdmin) {
-    // In a real implementation, check user role from Supabase
-    // const { data: profile } = await supabase.from('user_profiles').select('role').eq('id', user.id).single();
-    // if (profile?.role !== 'admin') {
-    //   return <div>Access denied. Admin role required.</div>;
-    // }
+  if (permission && !can(permission)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-muted/20 p-4">
+        <Card className="max-w-md p-8 text-center space-y-3" data-testid="card-access-denied">
+          <ShieldOff className="h-8 w-8 mx-auto text-muted-foreground" />
+          <h1 className="text-xl font-semibold">Access denied</h1>
+          <p className="text-sm text-muted-foreground">
+            {profile
+              ? `Your role (${profile.role}) does not allow this page.`
+              : "Your account has no role yet. Ask an administrator to give you access."}
+          </p>
+        </Card>
+      </div>
+    );
   }
 
   return <>{children}</>;
@@ -10,7 +10,7 @@ async function throwIfResNotOk(res: Response) {
 /**
  * Get auth token from Supabase session or localStorage fallback
  */
-async function getAuthToken(): Promise<string | null> {
+export async function getAuthToken(): Promise<string | null> {
   if (typeof window === 'undefined') return null;
   
   // Try to get token from Supabase session
@@ -98,7 +98,10 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
+    // Sent when signed in, e.g. for ?includeUnpublished=true
+    const token = await getAuthToken();
     const res = await fetch(queryKey.join("/") as string, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
       credentials: "include",
     });
 
@@ -0,0 +1,79 @@
+import type { VetIngredientsRequest, VetStreamEventMap } from "@shared/types";
+import { getAuthToken } from "./queryClient";
+
+export type VetStreamHandlers = {
+  [K in keyof VetStreamEventMap]?: (data: VetStreamEventMap[K]) => void;
+};
+
+/**
+ * Vet an ingredient list over Server-Sent Events, calling the handlers as
+ * events arrive. Resolves to false when the streaming endpoint is not
+ * available (older server, or a host that does not support streaming) so
+ * the caller can fall back to a polled vetting job.
+ */
+export async function streamVetIngredients(
+  request: VetIngredientsRequest,
+  handlers: VetStreamHandlers,
+): Promise<boolean> {
+  const token = await getAuthToken();
+  let res: Response;
+  try {
+    res = await fetch("/api/vet-ingredients/stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(request),
+      credentials: "include",
+    });
+  } catch {
+    return false;
+  }
+
+  const isEventStream = res.headers.get("content-type")?.includes("text/event-stream");
+  if (res.status === 404 || res.status === 405 || (res.ok && !isEventStream) || (res.ok && !res.body)) {
+    return false;
+  }
+
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let receivedSummary = false;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() ?? "";
+
+    for (const message of messages) {
+      let event = "message";
+      const data: string[] = [];
+      for (const line of message.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length === 0) continue; // heartbeat comment
+
+      const payload = JSON.parse(data.join("\n"));
+      if (event === "error") {
+        throw new Error(payload.details || payload.error);
+      }
+      if (event === "summary") receivedSummary = true;
+      (handlers[event as keyof VetStreamEventMap] as ((data: unknown) => void) | undefined)?.(payload);
+    }
+  }
+
+  if (!receivedSummary) {
+    throw new Error("Vetting stream ended before all ingredients were analyzed");
+  }
+  return true;
+}
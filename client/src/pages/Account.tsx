@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { Link } from "wouter";
+import { useAuth } from "@/components/auth/AuthProvider";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { SENSITIVITIES, SENSITIVITY_LABELS, type Sensitivity, type SensitivityProfile } from "@shared/sensitivities";
+
+const PROFILE_KEY = "/api/me/sensitivities";
+
+const SENSITIVITY_DESCRIPTIONS: Record<Sensitivity, string> = {
+  pregnancy: "Flags retinoids, hydroquinone and listed reproductive toxicants",
+  "fragrance-sensitivity": "Flags fragrance and the fragrance allergens required on labels",
+  "nut-allergy": "Flags tree nut and peanut derived ingredients such as sweet almond oil",
+  "acne-prone": "Flags comedogenic (pore-clogging) ingredients",
+  vegan: "Flags animal-derived ingredients such as beeswax, lanolin and carmine",
+};
+
+export default function Account() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Sensitivity[]>([]);
+
+  const { data: profile, isLoading } = useQuery<SensitivityProfile>({
+    queryKey: [PROFILE_KEY],
+    queryFn: async () => (await apiRequest("GET", PROFILE_KEY)).json(),
+  });
+
+  useEffect(() => {
+    if (profile) setSelected(profile.sensitivities);
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (sensitivities: Sensitivity[]) => {
+      const response = await apiRequest("PUT", PROFILE_KEY, { sensitivities });
+      return response.json() as Promise<SensitivityProfile>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData([PROFILE_KEY], saved);
+      toast({ title: "Profile saved", description: "Products now highlight ingredients that conflict with it." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save failed",
+        description: error.message || "Failed to save your profile. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (sensitivity: Sensitivity, checked: boolean) => {
+    setSelected((current) =>
+      checked ? [...current, sensitivity] : current.filter((value) => value !== sensitivity),
+    );
+  };
+
+  const unchanged =
+    profile !== undefined &&
+    selected.length === profile.sensitivities.length &&
+    selected.every((sensitivity) => profile.sensitivities.includes(sensitivity));
+
+  return (
+    <div className="min-h-screen bg-muted/20">
+      <Header />
+
+      <div className="container max-w-3xl mx-auto px-4 md:px-6 py-8 space-y-6">
+        <div>
+          <Link href="/">
+            <Button variant="ghost" size="sm" className="-ml-3 mb-2">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Products
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">My Profile</h1>
+          <p className="text-muted-foreground mt-1">{user?.email}</p>
+        </div>
+
+        <Card className="p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold">Allergies and sensitivities</h2>
+            <p className="text-sm text-muted-foreground mt-1">
+              Product pages highlight the ingredients that conflict with what you select here.
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            {SENSITIVITIES.map((sensitivity) => (
+              <div key={sensitivity} className="flex items-start gap-3">
+                <Checkbox
+                  id={`sensitivity-${sensitivity}`}
+                  checked={selected.includes(sensitivity)}
+                  onCheckedChange={(checked) => toggle(sensitivity, checked === true)}
+                  disabled={isLoading || saveMutation.isPending}
+                  data-testid={`checkbox-sensitivity-${sensitivity}`}
+                />
+                <div className="space-y-1 leading-none">
+                  <Label htmlFor={`sensitivity-${sensitivity}`}>{SENSITIVITY_LABELS[sensitivity]}</Label>
+                  <p className="text-sm text-muted-foreground">{SENSITIVITY_DESCRIPTIONS[sensitivity]}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              {profile?.updatedAt ? `Last saved ${new Date(profile.updatedAt).toLocaleString()}` : "Not saved yet"}
+            </p>
+            <Button
+              onClick={() => saveMutation.mutate(selected)}
+              disabled={isLoading || unchanged || saveMutation.isPending}
+              data-testid="button-save-sensitivities"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/components/auth/AuthProvider";
 import Header from "@/components/Header";
+import ImpactReviewQueue from "@/components/ImpactReviewQueue";
 import ProductCard from "@/components/ProductCard";
+import ReviewQueue from "@/components/ReviewQueue";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus } from "lucide-react";
+import { History, Plus, Users } from "lucide-react";
 import { Link } from "wouter";
 
 interface Product {
@@ -21,6 +24,7 @@ interface Product {
 
 function AdminDashboardContent() {
   const [activeTab, setActiveTab] = useState("all");
+  const { can } = useAuth();
 
   const { data: productsData, isLoading } = useQuery<Product[]>({
     queryKey: ["/api/products?includeUnpublished=true"],
@@ -56,12 +60,32 @@ function AdminDashboardContent() {
             <h1 className="text-3xl font-bold tracking-tight">Admin Dashboard</h1>
             <p className="text-muted-foreground mt-1">Manage product safety reports</p>
           </div>
-          <Link href="/admin/new">
-            <Button data-testid="button-new-product" className="w-full sm:w-auto">
-              <Plus className="mr-2 h-4 w-4" />
-              New Product
-            </Button>
-          </Link>
+          <div className="flex w-full sm:w-auto gap-2">
+            {can("audit:view") && (
+              <Link href="/admin/audit">
+                <Button variant="outline" data-testid="button-audit-log" className="w-full sm:w-auto">
+                  <History className="mr-2 h-4 w-4" />
+                  Audit Log
+                </Button>
+              </Link>
+            )}
+            {can("users:manage") && (
+              <Link href="/admin/users">
+                <Button variant="outline" data-testid="button-manage-users" className="w-full sm:w-auto">
+                  <Users className="mr-2 h-4 w-4" />
+                  Users
+                </Button>
+              </Link>
+            )}
+            {can("drafts:edit") && (
+              <Link href="/admin/new">
+                <Button data-testid="button-new-product" className="w-full sm:w-auto">
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Product
+                </Button>
+              </Link>
+            )}
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -87,17 +111,22 @@ function AdminDashboardContent() {
           </Card>
         </div>
 
+        <ImpactReviewQueue />
+
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           <TabsList data-testid="tabs-filter" className="w-full sm:w-auto">
             <TabsTrigger value="all" data-testid="tab-all">All</TabsTrigger>
             <TabsTrigger value="drafts" data-testid="tab-drafts">Drafts ({draftProducts.length})</TabsTrigger>
+            <TabsTrigger value="queue" data-testid="tab-queue">Review Queue</TabsTrigger>
             <TabsTrigger value="safe" data-testid="tab-safe">Safe</TabsTrigger>
             <TabsTrigger value="caution" data-testid="tab-caution">Caution</TabsTrigger>
             <TabsTrigger value="banned" data-testid="tab-banned">Banned</TabsTrigger>
           </TabsList>
 
           <TabsContent value={activeTab} className="space-y-4">
-            {isLoading ? (
+            {activeTab === "queue" ? (
+              <ReviewQueue />
+            ) : isLoading ? (
               <div className="text-center py-12 text-muted-foreground">
                 Loading products...
               </div>
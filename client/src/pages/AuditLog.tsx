@@ -0,0 +1,257 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, ChevronDown, ChevronRight } from "lucide-react";
+import { Link } from "wouter";
+import Header from "@/components/Header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import type { AuditEvent } from "@shared/types";
+
+interface AuditPage {
+  data: AuditEvent[];
+  pagination: { page: number; total: number; totalPages: number };
+}
+
+// Target type filters; the server matches "product." against every product action
+const TARGET_FILTERS = [
+  { value: "all", label: "All actions" },
+  { value: "product.", label: "Products" },
+  { value: "user.", label: "Users" },
+  { value: "api_key.", label: "API keys" },
+  { value: "analysis.", label: "Ingredient analyses" },
+  { value: "alias.", label: "Ingredient aliases" },
+  { value: "impact_review.", label: "Impact reviews" },
+];
+
+const PAGE_SIZE = 50;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "—";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function ChangesTable({ changes }: { changes: NonNullable<AuditEvent["changes"]> }) {
+  return (
+    <div className="grid gap-2 text-xs">
+      {Object.entries(changes).map(([field, change]) => (
+        <div key={field} className="grid gap-2 md:grid-cols-[10rem_1fr_1fr]">
+          <span className="font-medium">{field}</span>
+          <pre className="whitespace-pre-wrap break-all rounded bg-red-50 p-2 dark:bg-red-950/30">
+            {formatValue(change.before)}
+          </pre>
+          <pre className="whitespace-pre-wrap break-all rounded bg-green-50 p-2 dark:bg-green-950/30">
+            {formatValue(change.after)}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function AuditLog() {
+  const [action, setAction] = useState("all");
+  const [actor, setActor] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+  if (action !== "all") params.set("action", action);
+  if (actor.trim()) params.set("actor", actor.trim());
+  if (targetId.trim()) params.set("targetId", targetId.trim());
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  // Include the whole of the last day
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  const auditUrl = `/api/admin/audit?${params}`;
+
+  const { data, isLoading, error } = useQuery<AuditPage>({
+    queryKey: [auditUrl],
+    // The audit log requires auth, so fetch through apiRequest
+    queryFn: async () => (await apiRequest("GET", auditUrl)).json(),
+    staleTime: 0,
+  });
+
+  // Any filter change starts again from the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const events = data?.data ?? [];
+
+  return (
+    <div className="min-h-screen bg-muted/20">
+      <Header showAdminLink={false} />
+
+      <div className="container max-w-7xl mx-auto px-4 md:px-6 py-8 space-y-6">
+        <div>
+          <Link href="/admin">
+            <Button variant="ghost" size="sm" className="-ml-3 mb-2">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">Who changed what, and when</p>
+        </div>
+
+        <Card className="p-6 space-y-4">
+          <div className="flex flex-wrap gap-3">
+            <Select value={action} onValueChange={withReset(setAction)}>
+              <SelectTrigger className="w-48" data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TARGET_FILTERS.map((filter) => (
+                  <SelectItem key={filter.value} value={filter.value}>
+                    {filter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Actor id"
+              value={actor}
+              onChange={(e) => withReset(setActor)(e.target.value)}
+              className="w-56"
+              data-testid="input-audit-actor"
+            />
+            <Input
+              placeholder="Target id"
+              value={targetId}
+              onChange={(e) => withReset(setTargetId)(e.target.value)}
+              className="w-56"
+              data-testid="input-audit-target"
+            />
+            <Input
+              type="date"
+              value={from}
+              onChange={(e) => withReset(setFrom)(e.target.value)}
+              className="w-40"
+              aria-label="From"
+              data-testid="input-audit-from"
+            />
+            <Input
+              type="date"
+              value={to}
+              onChange={(e) => withReset(setTo)(e.target.value)}
+              className="w-40"
+              aria-label="To"
+              data-testid="input-audit-to"
+            />
+          </div>
+
+          {isLoading ? (
+            <p className="py-8 text-center text-muted-foreground">Loading audit log...</p>
+          ) : error ? (
+            <p className="py-8 text-center text-muted-foreground">Unable to load the audit log.</p>
+          ) : events.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No matching events</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const isExpanded = expandedId === event.id;
+                  return (
+                    <Fragment key={event.id}>
+                      <TableRow
+                        className={event.changes ? "cursor-pointer" : undefined}
+                        onClick={() => event.changes && setExpandedId(isExpanded ? null : event.id)}
+                        data-testid={`row-audit-${event.id}`}
+                      >
+                        <TableCell>
+                          {event.changes &&
+                            (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <button
+                            type="button"
+                            className="text-left hover:underline"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              withReset(setActor)(event.actorId ?? "");
+                            }}
+                          >
+                            {event.actorEmail ?? event.actorId ?? "Unknown"}
+                          </button>
+                          {event.actorRole && <span className="text-muted-foreground"> · {event.actorRole}</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{event.action}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {event.targetId && (
+                            <button
+                              type="button"
+                              className="hover:underline"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                withReset(setTargetId)(event.targetId ?? "");
+                              }}
+                            >
+                              {event.targetId}
+                            </button>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{event.ip}</TableCell>
+                      </TableRow>
+                      {isExpanded && event.changes && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            <ChangesTable changes={event.changes} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {data && data.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Page {data.pagination.page} of {data.pagination.totalPages} · {data.pagination.total} events
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= data.pagination.totalPages}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,22 @@
 import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
 import { Link } from "wouter";
 
+import { useAuth } from "@/components/auth/AuthProvider";
 import Header from "@/components/Header";
 import IngredientAccordion from "@/components/IngredientAccordion";
+import ReportHistory from "@/components/ReportHistory";
 import SafetyBadge from "@/components/SafetyBadge";
 import SafetyMeter from "@/components/SafetyMeter";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { SafetyStatus } from "@shared/types";
+import { apiRequest } from "@/lib/queryClient";
+import type { IngredientAttributes } from "@shared/ingredientAttributes";
+import type { IngredientTag } from "@shared/ingredientTags";
+import { DEFAULT_PRODUCT_CATEGORY, PRODUCT_CATEGORY_LABELS, type ProductCategory } from "@shared/productCategories";
+import { findSensitivityConflicts, SENSITIVITY_LABELS, type SensitivityProfile } from "@shared/sensitivities";
+import type { RegulatoryMatch, SafetyStatus } from "@shared/types";
 
 interface ProductDetailParams {
   params: {
@@ -22,6 +30,9 @@ interface Ingredient {
   status: SafetyStatus;
   rationale: string;
   sourceUrl: string;
+  tags?: IngredientTag[] | null;
+  attributes?: IngredientAttributes | null;
+  regulatoryMatches?: RegulatoryMatch[] | null;
 }
 
 interface Product {
@@ -30,6 +41,7 @@ interface Product {
   brand: string;
   summary: string;
   imageUrl: string;
+  category?: ProductCategory;
   status: "draft" | "published";
   overallStatus: SafetyStatus;
   ingredients: Ingredient[];
@@ -45,7 +57,19 @@ export default function ProductDetail({ params }: ProductDetailParams) {
     queryKey: [`/api/products/${productId}`],
   });
 
+  // Signed-in consumers see the ingredients that conflict with their profile
+  const { user } = useAuth();
+  const { data: sensitivityProfile } = useQuery<SensitivityProfile>({
+    queryKey: ["/api/me/sensitivities"],
+    queryFn: async () => (await apiRequest("GET", "/api/me/sensitivities")).json(),
+    enabled: Boolean(user),
+  });
+  const sensitivities = sensitivityProfile?.sensitivities ?? [];
+
   const ingredients = product?.ingredients || [];
+  const conflicting = ingredients
+    .map((ingredient) => ({ ingredient, conflicts: findSensitivityConflicts(ingredient, sensitivities) }))
+    .filter(({ conflicts }) => conflicts.length > 0);
   const safeCount = ingredients.filter((ingredient) => ingredient.status === "safe").length;
   const cautionCount = ingredients.filter((ingredient) => ingredient.status === "caution").length;
   const bannedCount = ingredients.filter((ingredient) => ingredient.status === "banned").length;
@@ -100,6 +124,10 @@ export default function ProductDetail({ params }: ProductDetailParams) {
                       </h1>
                       <p className="text-lg text-foreground/80">
                         {product.brand}
+                        <span className="text-muted-foreground">
+                          {" · "}
+                          {PRODUCT_CATEGORY_LABELS[product.category ?? DEFAULT_PRODUCT_CATEGORY]}
+                        </span>
                       </p>
                     </div>
                   </div>
@@ -171,8 +199,44 @@ export default function ProductDetail({ params }: ProductDetailParams) {
                   source citation used to support the current safety status.
                 </p>
               </div>
-              <IngredientAccordion ingredients={ingredients} />
+              {conflicting.length > 0 && (
+                <Card className="border-amber-500/60 bg-amber-500/5 p-6" data-testid="card-profile-conflicts">
+                  <div className="flex items-start gap-3">
+                    <AlertTriangle className="mt-0.5 h-5 w-5 shrink-0 text-amber-600 dark:text-amber-400" />
+                    <div className="space-y-2">
+                      <p className="font-medium text-foreground">
+                        {conflicting.length === 1
+                          ? "1 ingredient conflicts with your profile"
+                          : `${conflicting.length} ingredients conflict with your profile`}
+                      </p>
+                      <ul className="space-y-1 text-sm text-muted-foreground">
+                        {conflicting.map(({ ingredient, conflicts }) => (
+                          <li key={ingredient.id}>
+                            <span className="font-medium text-foreground">{ingredient.name}</span>
+                            {": "}
+                            {conflicts.map((conflict) => SENSITIVITY_LABELS[conflict.sensitivity]).join(", ")}
+                          </li>
+                        ))}
+                      </ul>
+                      <Link href="/account" className="text-sm text-primary hover:underline">
+                        Edit your profile
+                      </Link>
+                    </div>
+                  </div>
+                </Card>
+              )}
+              {!user && (
+                <p className="text-sm text-muted-foreground">
+                  <Link href="/login" className="text-primary hover:underline">
+                    Sign in
+                  </Link>{" "}
+                  to check these ingredients against your allergies and sensitivities.
+                </p>
+              )}
+              <IngredientAccordion ingredients={ingredients} sensitivities={sensitivities} />
             </section>
+
+            {product.status === "published" && <ReportHistory productId={product.id} />}
           </div>
         )}
       </main>
@@ -9,11 +9,14 @@ import { Link, useLocation, useRoute } from "wouter";
 
 import Header from "@/components/Header";
 import IngredientAccordion from "@/components/IngredientAccordion";
+import RevisionHistory from "@/components/RevisionHistory";
 import SafetyBadge from "@/components/SafetyBadge";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
@@ -30,7 +33,29 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { VetIngredientResult, SafetyStatus } from "@shared/types";
+import { streamVetIngredients } from "@/lib/vetStream";
+import { formatConcentration } from "@shared/concentrationThresholds";
+import {
+  DEFAULT_PRODUCT_CATEGORY,
+  PRODUCT_CATEGORIES,
+  PRODUCT_CATEGORY_LABELS,
+  type ProductCategory,
+} from "@shared/productCategories";
+import { getReviewState, REVIEW_STATE_LABELS } from "@shared/reviewWorkflow";
+import {
+  ConcentrationBasis,
+  ConcentrationHint,
+  VetJob,
+  VetStreamErrorEvent,
+  VetStreamSummaryEvent,
+  RegulatoryMatch,
+  ReviewState,
+  SafetyStatus,
+} from "@shared/types";
+import type { IngredientAttributes } from "@shared/ingredientAttributes";
+import type { IngredientTag } from "@shared/ingredientTags";
+import { parseIngredientList } from "@shared/ingredientParser";
+import { useAuth } from "@/components/auth/AuthProvider";
 
 interface IngredientInput {
   id: string;
@@ -38,6 +63,13 @@ interface IngredientInput {
   status: SafetyStatus;
   rationale: string;
   sourceUrl: string;
+  needsReview?: boolean;
+  concentration?: ConcentrationHint | null;
+  position?: number | null;
+  concentrationBasis?: ConcentrationBasis | null;
+  regulatoryMatches?: RegulatoryMatch[] | null;
+  tags?: IngredientTag[] | null;
+  attributes?: IngredientAttributes | null;
 }
 
 interface ProductFormValues {
@@ -45,6 +77,8 @@ interface ProductFormValues {
   brand: string;
   summary: string;
   imageUrl: string;
+  // Selects the vetting profile
+  category: ProductCategory;
   status: "draft" | "published";
   overallStatus: SafetyStatus;
 }
@@ -53,10 +87,13 @@ interface ProductResponse extends ProductFormValues {
   id: string;
   ingredients: IngredientInput[];
   editedFromProductId?: string | null;
+  reviewState?: ReviewState;
 }
 
 const statusCycle: SafetyStatus[] = ["safe", "caution", "banned"];
 
+const VET_JOB_POLL_MS = 1500;
+
 const generateId = () =>
   typeof crypto !== "undefined" && "randomUUID" in crypto
     ? crypto.randomUUID()
@@ -69,16 +106,26 @@ export default function ProductForm() {
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const [ingredients, setIngredients] = useState<IngredientInput[]>([]);
   const [ingredientsText, setIngredientsText] = useState("");
+  // Names the last vetting run could not analyze
+  const [failedIngredients, setFailedIngredients] = useState<string[]>([]);
   const [showPublishDialog, setShowPublishDialog] = useState(false);
+  // Shown with the revision in the public report history
+  const [changeNote, setChangeNote] = useState("");
   const [showUnpublishDialog, setShowUnpublishDialog] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
   const [isOverallStatusOverridden, setIsOverallStatusOverridden] = useState(false);
   const [originalProductId, setOriginalProductId] = useState<string | null>(null);
   const [originalProductStatus, setOriginalProductStatus] = useState<"draft" | "published" | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // The running vetting job is remembered per product so a refresh picks it back up
+  const vetJobStorageKey = `product-form:vet-job:${productId ?? "new"}`;
+  const [vetJobId, setVetJobId] = useState<string | null>(() =>
+    typeof window !== "undefined" ? localStorage.getItem(vetJobStorageKey) : null,
+  );
   const [initialFormData, setInitialFormData] = useState<ProductFormValues | null>(null);
   const [initialIngredients, setInitialIngredients] = useState<IngredientInput[]>([]);
   const [newIngredient, setNewIngredient] = useState({
@@ -94,6 +141,7 @@ export default function ProductForm() {
       brand: "",
       summary: "",
       imageUrl: "",
+      category: DEFAULT_PRODUCT_CATEGORY,
       status: "draft",
       overallStatus: "safe",
     },
@@ -153,6 +201,7 @@ export default function ProductForm() {
         brand: productData.brand || "",
         summary: productData.summary || "",
         imageUrl: productData.imageUrl || "",
+        category: productData.category || DEFAULT_PRODUCT_CATEGORY,
         status: productData.status || "draft",
         overallStatus: productData.overallStatus || calculatedStatus,
       };
@@ -175,6 +224,7 @@ export default function ProductForm() {
         brand: "",
         summary: "",
         imageUrl: "",
+        category: DEFAULT_PRODUCT_CATEGORY,
         status: "draft",
         overallStatus: "safe",
       });
@@ -192,6 +242,10 @@ export default function ProductForm() {
   // Check if product is published and should be locked
   const isPublishedAndLocked = !isCreate && productData?.status === "published" && !originalProductId;
 
+  // The server only publishes drafts a reviewer approved
+  const draftReviewState = !isCreate && productData?.status === "draft" ? getReviewState(productData) : null;
+  const awaitingApproval = draftReviewState !== null && draftReviewState !== "approved";
+
   // Watch for form and ingredient changes to track unsaved changes
   useEffect(() => {
     if (isCreate || !initialFormData) {
@@ -205,6 +259,7 @@ export default function ProductForm() {
       currentData.brand !== initialFormData.brand ||
       currentData.summary !== initialFormData.summary ||
       currentData.imageUrl !== initialFormData.imageUrl ||
+      currentData.category !== initialFormData.category ||
       currentData.overallStatus !== initialFormData.overallStatus;
     
     // Compare ingredients by serializing to JSON (deep comparison, ignoring IDs)
@@ -218,6 +273,7 @@ export default function ProductForm() {
     form.watch("brand"),
     form.watch("summary"),
     form.watch("imageUrl"),
+    form.watch("category"),
     form.watch("overallStatus"),
     ingredients,
     initialFormData,
@@ -226,29 +282,71 @@ export default function ProductForm() {
     form,
   ]);
 
+  const clearVetJob = () => {
+    localStorage.removeItem(vetJobStorageKey);
+    setVetJobId(null);
+  };
+
+  // Results stream in row by row; hosts without streaming support fall back to a polled job
   const vetMutation = useMutation({
     mutationFn: async (text: string) => {
-      const response = await apiRequest("POST", "/api/vet-ingredients", {
+      const rows: IngredientInput[] = [];
+      const failures: VetStreamErrorEvent[] = [];
+      let summary: VetStreamSummaryEvent | null = null;
+
+      setIngredients([]);
+      setFailedIngredients([]);
+      const category = form.getValues("category");
+      const streamed = await streamVetIngredients({ ingredientsText: text, category }, {
+        ingredient: ({ index, ingredient }) => {
+          rows[index] = ingredient;
+          setIngredients(rows.filter(Boolean));
+        },
+        "ingredient-error": (failure) => {
+          failures.push(failure);
+        },
+        summary: (event) => {
+          summary = event;
+        },
+      });
+
+      if (streamed) {
+        return { mode: "stream" as const, summary: summary as VetStreamSummaryEvent | null, failures };
+      }
+
+      const response = await apiRequest("POST", "/api/vet-jobs", {
         ingredientsText: text,
+        category,
       });
-      return (await response.json()) as VetIngredientResult;
+      return { mode: "job" as const, job: (await response.json()) as VetJob };
     },
     onSuccess: (result) => {
-      setIngredients(result.ingredients);
+      if (result.mode === "job") {
+        localStorage.setItem(vetJobStorageKey, result.job.id);
+        setVetJobId(result.job.id);
+        return;
+      }
+
       // Reset override flag when new ingredients are analyzed
       setIsOverallStatusOverridden(false);
-      // Auto-update overall status based on new ingredients
-      const newCalculatedStatus = (() => {
-        if (result.ingredients.some((i) => i.status === "banned")) return "banned";
-        if (result.ingredients.some((i) => i.status === "caution")) return "caution";
-        return "safe";
-      })();
-      form.setValue("overallStatus", newCalculatedStatus);
-      toast({
-        title: "Ingredients analyzed",
-        description:
-          "AI analysis completed. Review the ingredient list before publishing.",
-      });
+      setFailedIngredients(result.failures.map((failure) => failure.name));
+      // Without a summary the stream broke off; keep the status the editor had
+      if (result.summary) {
+        form.setValue("overallStatus", result.summary.overallStatus);
+      }
+      if (result.failures.length > 0) {
+        toast({
+          title: "Some ingredients could not be analyzed",
+          description: `${result.failures.map((failure) => failure.name).join(", ")}. Add them manually or vet again.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Ingredients analyzed",
+          description:
+            "AI analysis completed. Review the ingredient list before publishing.",
+        });
+      }
     },
     onError: () => {
       toast({
@@ -259,6 +357,62 @@ export default function ProductForm() {
     },
   });
 
+  const { data: vetJob, error: vetJobError } = useQuery<VetJob>({
+    queryKey: [`/api/vet-jobs/${vetJobId}`],
+    // Vetting requires auth, so poll through apiRequest
+    queryFn: async () => (await apiRequest("GET", `/api/vet-jobs/${vetJobId}`)).json(),
+    enabled: Boolean(vetJobId),
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : VET_JOB_POLL_MS;
+    },
+  });
+
+  // Fill the ingredient list as results arrive, then apply the final verdict
+  useEffect(() => {
+    // Wait for the product to load so its saved ingredients don't overwrite the results
+    if (!vetJobId || !vetJob || vetJob.id !== vetJobId || isLoading) return;
+
+    const vetted = vetJob.items.flatMap((item) => (item.result ? [item.result] : []));
+    if (vetted.length > 0) {
+      setIngredients(vetted);
+    }
+
+    if (vetJob.status === "completed") {
+      clearVetJob();
+      // Reset override flag when new ingredients are analyzed
+      setIsOverallStatusOverridden(false);
+      setFailedIngredients(vetJob.items.filter((item) => item.status === "failed").map((item) => item.name));
+      // Auto-update overall status based on new ingredients
+      form.setValue("overallStatus", vetJob.result?.overallStatus ?? "safe");
+      toast({
+        title: "Ingredients analyzed",
+        description:
+          "AI analysis completed. Review the ingredient list before publishing.",
+      });
+    } else if (vetJob.status === "failed") {
+      clearVetJob();
+      toast({
+        title: "Vetting stopped early",
+        description: `${vetJob.completed} of ${vetJob.total} ingredients were analyzed. ${vetJob.error ?? ""}`.trim(),
+        variant: "destructive",
+      });
+    }
+  }, [vetJob, vetJobId, isLoading]);
+
+  // The job may have expired (e.g. in-memory jobs after a server restart)
+  useEffect(() => {
+    if (vetJobError) {
+      clearVetJob();
+    }
+  }, [vetJobError]);
+
+  const isVetting = vetMutation.isPending || Boolean(vetJobId);
+  // Failed ingredients are done too
+  const vetJobDone = vetJob ? vetJob.items.filter((item) => item.status !== "pending").length : 0;
+  const vetProgress = vetJob && vetJob.total > 0 ? Math.round((vetJobDone / vetJob.total) * 100) : 0;
+
   const saveMutation = useMutation({
     mutationFn: async (values: ProductFormValues) => {
       const payload = { ...values, ingredients };
@@ -300,6 +454,7 @@ export default function ProductForm() {
           brand: savedProduct.brand || "",
           summary: savedProduct.summary || "",
           imageUrl: savedProduct.imageUrl || "",
+          category: savedProduct.category || DEFAULT_PRODUCT_CATEGORY,
           status: savedProduct.status || "draft",
           overallStatus: savedProduct.overallStatus || "safe",
         };
@@ -331,6 +486,12 @@ export default function ProductForm() {
     },
   });
 
+  // Preview how the pasted label will be split before sending it for vetting
+  const parsedIngredients = useMemo(
+    () => parseIngredientList(ingredientsText),
+    [ingredientsText],
+  );
+
   const safeCount = useMemo(
     () => ingredients.filter((ingredient) => ingredient.status === "safe").length,
     [ingredients],
@@ -346,12 +507,22 @@ export default function ProductForm() {
     [ingredients],
   );
 
-  // Auto-calculate overall status from ingredients (banned > caution > safe)
+  // Failed ingredients stay listed until one with the same name is added
+  const unanalyzedIngredients = useMemo(
+    () =>
+      failedIngredients.filter(
+        (name) => !ingredients.some((ingredient) => ingredient.name.toLowerCase() === name.toLowerCase()),
+      ),
+    [failedIngredients, ingredients],
+  );
+
+  // Auto-calculate overall status from ingredients (banned > caution > safe);
+  // ingredients that were never analyzed keep it at caution or worse
   const calculatedOverallStatus = useMemo(() => {
     if (bannedCount > 0) return "banned";
-    if (cautionCount > 0) return "caution";
+    if (cautionCount > 0 || unanalyzedIngredients.length > 0) return "caution";
     return "safe";
-  }, [bannedCount, cautionCount]);
+  }, [bannedCount, cautionCount, unanalyzedIngredients.length]);
 
   // Update overall status when ingredients change (unless manually overridden)
   useEffect(() => {
@@ -399,7 +570,8 @@ export default function ProductForm() {
         if (ingredient.id !== id) return ingredient;
         const currentIndex = statusCycle.indexOf(ingredient.status);
         const nextIndex = (currentIndex + 1) % statusCycle.length;
-        return { ...ingredient, status: statusCycle[nextIndex] };
+        // Choosing a status by hand counts as the editorial review
+        return { ...ingredient, status: statusCycle[nextIndex], needsReview: false };
       }),
     );
   };
@@ -441,11 +613,11 @@ export default function ProductForm() {
         await apiRequest("PATCH", `/api/products/${productId}`, draftPayload);
         
         // Then merge the draft into the original
-        const response = await apiRequest("POST", `/api/products/${productId}/merge`, {});
+        const response = await apiRequest("POST", `/api/products/${productId}/merge`, { changeNote });
         return response.json();
       } else {
         // Regular publish - just update status
-        const payload = { ...values, ingredients, status: "published" };
+        const payload = { ...values, ingredients, status: "published", changeNote };
         const response = await apiRequest("PATCH", `/api/products/${productId}`, payload);
         return response.json();
       }
@@ -459,6 +631,7 @@ export default function ProductForm() {
       
       // Reset unsaved changes tracking after successful publish
       setHasUnsavedChanges(false);
+      setChangeNote("");
       
       toast({
         title: "Product published",
@@ -584,6 +757,11 @@ export default function ProductForm() {
               if (!isCreate && isLoading) {
                 return null;
               }
+
+              // Editors save drafts; publishing and unpublishing is up to reviewers
+              if (!can("products:publish")) {
+                return null;
+              }
               
               // Published product - show only Unpublish button
               if (isPublishedAndLocked) {
@@ -622,7 +800,8 @@ export default function ProductForm() {
                   <AlertDialogTrigger asChild>
                     <Button
                       variant="default"
-                      disabled={publishMutation.isPending || saveMutation.isPending || isLoading}
+                      disabled={publishMutation.isPending || saveMutation.isPending || isLoading || awaitingApproval}
+                      title={awaitingApproval && draftReviewState ? `Awaiting approval (${REVIEW_STATE_LABELS[draftReviewState]})` : undefined}
                       data-testid="button-publish-product"
                     >
                       {publishMutation.isPending ? "Publishing..." : "Publish"}
@@ -637,6 +816,20 @@ export default function ProductForm() {
                           : "This will make the product report publicly visible. Make sure all information is accurate and complete before publishing."}
                       </AlertDialogDescription>
                     </AlertDialogHeader>
+                    <div className="space-y-2">
+                      <Label htmlFor="change-note">Change note (optional)</Label>
+                      <Textarea
+                        id="change-note"
+                        value={changeNote}
+                        onChange={(e) => setChangeNote(e.target.value)}
+                        placeholder="e.g. Fragrance re-rated after new allergen research"
+                        maxLength={1000}
+                        data-testid="input-change-note"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Shown to consumers in the report history when a rating changes.
+                      </p>
+                    </div>
                     <AlertDialogFooter>
                       <AlertDialogCancel>Cancel</AlertDialogCancel>
                       <AlertDialogAction onClick={handlePublish}>
@@ -673,9 +866,33 @@ export default function ProductForm() {
                   <Input id="brand" {...form.register("brand", { required: true })} disabled={isPublishedAndLocked} />
                 </div>
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="imageUrl">Image URL</Label>
-                <Input id="imageUrl" {...form.register("imageUrl")} disabled={isPublishedAndLocked} />
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="imageUrl">Image URL</Label>
+                  <Input id="imageUrl" {...form.register("imageUrl")} disabled={isPublishedAndLocked} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={form.watch("category")}
+                    onValueChange={(value: ProductCategory) => form.setValue("category", value)}
+                    disabled={isPublishedAndLocked}
+                  >
+                    <SelectTrigger disabled={isPublishedAndLocked} data-testid="select-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRODUCT_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {PRODUCT_CATEGORY_LABELS[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Decides the reference data and safety criteria used when vetting ingredients.
+                  </p>
+                </div>
               </div>
               <div className="space-y-2">
                 <Label htmlFor="summary">Summary</Label>
@@ -767,35 +984,42 @@ export default function ProductForm() {
             </CardContent>
           </Card>
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Safety Snapshot</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-2 rounded-xl border bg-card/60 p-4">
-                <p className="text-sm font-medium uppercase tracking-wide text-muted-foreground">
-                  Overall Verdict
-                </p>
-                <SafetyBadge status={form.watch("overallStatus")} showLabel />
-                <p className="text-sm text-muted-foreground">
-                  Publish when the safety summary is ready for consumers. Drafts
-                  remain visible only to administrators.
-                </p>
-              </div>
-              <Separator />
-              <div className="space-y-3 text-sm text-muted-foreground">
-                <p>
-                  Drafts can be generated automatically from published reports.
-                  Use the ingredient vetting workflow below to accelerate
-                  research.
-                </p>
-                <p>
-                  Override the AI verdict to capture final editorial decisions
-                  before publishing.
-                </p>
-              </div>
-            </CardContent>
-          </Card>
+          <div className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Safety Snapshot</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2 rounded-xl border bg-card/60 p-4">
+                  <p className="text-sm font-medium uppercase tracking-wide text-muted-foreground">
+                    Overall Verdict
+                  </p>
+                  <SafetyBadge status={form.watch("overallStatus")} showLabel />
+                  <p className="text-sm text-muted-foreground">
+                    Publish when the safety summary is ready for consumers. Drafts
+                    remain visible only to administrators.
+                  </p>
+                </div>
+                <Separator />
+                <div className="space-y-3 text-sm text-muted-foreground">
+                  <p>
+                    Drafts can be generated automatically from published reports.
+                    Use the ingredient vetting workflow below to accelerate
+                    research.
+                  </p>
+                  <p>
+                    Override the AI verdict to capture final editorial decisions
+                    before publishing.
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {!isCreate && productId && (
+              // Drafts show the history of the published product they edit
+              <RevisionHistory productId={originalProductId ?? productId} />
+            )}
+          </div>
         </div>
 
         <div className="grid gap-8 lg:grid-cols-3">
@@ -808,23 +1032,76 @@ export default function ProductForm() {
                 rows={6}
                 value={ingredientsText}
                 onChange={(event) => setIngredientsText(event.target.value)}
-                placeholder="Paste the full ingredient list here. Separate ingredients with commas or new lines."
+                placeholder="Paste the full ingredient list from the label, e.g. Water (Aqua), Glycerin*, 1,2-Hexanediol. May contain (+/-): CI 77891."
                 disabled={isPublishedAndLocked}
               />
+              {parsedIngredients.length > 0 && (
+                <div className="space-y-2" data-testid="parsed-ingredients-preview">
+                  <p className="text-xs text-muted-foreground">
+                    {parsedIngredients.length} ingredient{parsedIngredients.length === 1 ? "" : "s"} detected
+                    {parsedIngredients.some((entry) => entry.mayContain) &&
+                      ` (${parsedIngredients.filter((entry) => entry.mayContain).length} in "may contain")`}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {parsedIngredients.map((entry) => (
+                      <Badge
+                        key={`${entry.position}-${entry.name}`}
+                        variant={entry.mayContain ? "outline" : "secondary"}
+                        title={[
+                          entry.aliases.length > 0 && `Also: ${entry.aliases.join(", ")}`,
+                          entry.footnotes.length > 0 && `Notes: ${entry.footnotes.join(", ")}`,
+                        ]
+                          .filter(Boolean)
+                          .join("\n") || undefined}
+                      >
+                        {entry.position}. {entry.name}
+                        {entry.concentration &&
+                          ` (${entry.concentration.qualifier === "max" ? "≤" : ""}${entry.concentration.percent}%)`}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="flex flex-wrap items-center gap-3">
                 <Button
                   type="button"
                   onClick={() => vetMutation.mutate(ingredientsText)}
-                  disabled={vetMutation.isPending || !ingredientsText.trim() || isPublishedAndLocked}
+                  disabled={isVetting || !ingredientsText.trim() || isPublishedAndLocked}
                   data-testid="button-vet-ingredients"
                 >
-                  {vetMutation.isPending ? "Analyzing..." : "Vet with AI"}
+                  {isVetting ? "Analyzing..." : "Vet with AI"}
                 </Button>
                 <p className="text-sm text-muted-foreground">
                   The AI researcher parses every ingredient, assigns a safety
                   level, and returns citations for manual review.
                 </p>
               </div>
+              {vetJobId && (
+                <div className="space-y-2" data-testid="vet-job-progress">
+                  <Progress value={vetProgress} />
+                  <p className="text-xs text-muted-foreground">
+                    {vetJob
+                      ? `Analyzed ${vetJob.completed} of ${vetJob.total} ingredient${vetJob.total === 1 ? "" : "s"}. Results appear in the overview as they finish.`
+                      : "Starting vetting job..."}
+                  </p>
+                </div>
+              )}
+              {unanalyzedIngredients.length > 0 && (
+                <div
+                  className="rounded-md border border-destructive/50 bg-destructive/5 p-4 space-y-1"
+                  data-testid="vet-failed-ingredients"
+                >
+                  <p className="text-sm font-medium text-destructive">
+                    {unanalyzedIngredients.length === 1
+                      ? "1 ingredient could not be analyzed"
+                      : `${unanalyzedIngredients.length} ingredients could not be analyzed`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {unanalyzedIngredients.join(", ")}. Add them manually below or vet again; the overall
+                    status stays at caution or worse until then.
+                  </p>
+                </div>
+              )}
               <Separator />
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold">Add Ingredient Manually</h3>
@@ -935,7 +1212,23 @@ export default function ProductForm() {
                     className="flex items-start justify-between gap-4 rounded-lg border bg-card/60 p-4"
                   >
                     <div className="space-y-1">
-                      <p className="font-medium">{ingredient.name}</p>
+                      <p className="font-medium">
+                        {ingredient.name}
+                        {ingredient.concentration && (
+                          <span className="ml-2 text-sm font-normal text-muted-foreground">
+                            {formatConcentration(ingredient.concentration)}
+                          </span>
+                        )}
+                        {ingredient.needsReview && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 border-safety-caution text-safety-caution"
+                            title="AI providers disagreed on this rating. Confirm the status before publishing."
+                          >
+                            Needs review
+                          </Badge>
+                        )}
+                      </p>
                       <p className="text-xs text-muted-foreground line-clamp-3">
                         {ingredient.rationale}
                       </p>
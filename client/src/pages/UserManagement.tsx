@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, UserPlus } from "lucide-react";
+import { Link } from "wouter";
+import { useAuth } from "@/components/auth/AuthProvider";
+import Header from "@/components/Header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ROLES, type Role } from "@shared/permissions";
+import type { ManagedUser } from "@shared/types";
+
+interface UserPage {
+  data: ManagedUser[];
+  pagination: { total: number };
+}
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  reviewer: "Reviewer",
+  editor: "Editor",
+  viewer: "Viewer",
+  user: "No access",
+};
+
+const USERS_KEY = "/api/admin/users";
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+  testId,
+}: {
+  value: Role;
+  onChange: (role: Role) => void;
+  disabled?: boolean;
+  testId?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as Role)} disabled={disabled}>
+      <SelectTrigger className="w-36" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function UserManagement() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const [search, setSearch] = useState("");
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("editor");
+
+  const usersUrl = search.trim() ? `${USERS_KEY}?search=${encodeURIComponent(search.trim())}` : USERS_KEY;
+  const { data, isLoading, error } = useQuery<UserPage>({
+    queryKey: [usersUrl],
+    // User management requires auth, so fetch through apiRequest
+    queryFn: async () => (await apiRequest("GET", usersUrl)).json(),
+    staleTime: 0,
+  });
+
+  const onMutationSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(USERS_KEY),
+    });
+    toast({ title });
+  };
+
+  const onMutationError = (error: any) => {
+    toast({
+      title: "Update failed",
+      description: error.message || "Failed to update the user. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${USERS_KEY}/invite`, { email: inviteEmail, role: inviteRole });
+      return response.json();
+    },
+    onSuccess: () => {
+      onMutationSuccess("Invitation sent")();
+      setInviteOpen(false);
+      setInviteEmail("");
+    },
+    onError: onMutationError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: Role }) => {
+      const response = await apiRequest("PATCH", `${USERS_KEY}/${id}`, { role });
+      return response.json();
+    },
+    onSuccess: onMutationSuccess("Role updated"),
+    onError: onMutationError,
+  });
+
+  const activationMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "deactivate" | "reactivate" }) => {
+      const response = await apiRequest("POST", `${USERS_KEY}/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (user: ManagedUser) =>
+      onMutationSuccess(user.deactivatedAt ? "Account deactivated" : "Account reactivated")(),
+    onError: onMutationError,
+  });
+
+  const users = data?.data ?? [];
+  const isPending = roleMutation.isPending || activationMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-muted/20">
+      <Header showAdminLink={false} />
+
+      <div className="container max-w-7xl mx-auto px-4 md:px-6 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <Link href="/admin">
+              <Button variant="ghost" size="sm" className="-ml-3 mb-2">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+            <p className="text-muted-foreground mt-1">Invite people and choose what they can do</p>
+          </div>
+          <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-invite-user" className="w-full sm:w-auto">
+                <UserPlus className="mr-2 h-4 w-4" />
+                Invite User
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Invite User</DialogTitle>
+                <DialogDescription>
+                  They will get an email with a link to set a password and sign in.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    placeholder="editor@example.com"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    data-testid="input-invite-email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <RoleSelect value={inviteRole} onChange={setInviteRole} testId="select-invite-role" />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  onClick={() => inviteMutation.mutate()}
+                  disabled={!inviteEmail.trim() || inviteMutation.isPending}
+                  data-testid="button-send-invite"
+                >
+                  {inviteMutation.isPending ? "Sending..." : "Send Invitation"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Card className="p-6 space-y-4">
+          <Input
+            placeholder="Search by email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="max-w-sm"
+            data-testid="input-user-search"
+          />
+
+          {isLoading ? (
+            <p className="py-8 text-center text-muted-foreground">Loading users...</p>
+          ) : error ? (
+            <p className="py-8 text-center text-muted-foreground">
+              {(error as Error).message.startsWith("503")
+                ? "User management needs Supabase to be configured."
+                : "Unable to load users."}
+            </p>
+          ) : users.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No users found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => {
+                  const isSelf = user.id === profile?.id;
+                  return (
+                    <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                      <TableCell className="font-medium">
+                        {user.email}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={user.role}
+                          onChange={(role) => roleMutation.mutate({ id: user.id, role })}
+                          disabled={isSelf || isPending}
+                          testId={`select-role-${user.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {user.deactivatedAt ? (
+                          <Badge variant="secondary">Deactivated</Badge>
+                        ) : (
+                          <Badge variant="outline">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!isSelf && (
+                          <Button
+                            size="sm"
+                            variant={user.deactivatedAt ? "outline" : "ghost"}
+                            onClick={() =>
+                              activationMutation.mutate({
+                                id: user.id,
+                                action: user.deactivatedAt ? "reactivate" : "deactivate",
+                              })
+                            }
+                            disabled={isPending}
+                            data-testid={`button-toggle-active-${user.id}`}
+                          >
+                            {user.deactivatedAt ? "Reactivate" : "Deactivate"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          {data && data.pagination.total > users.length && (
+            <p className="text-sm text-muted-foreground">
+              Showing {users.length} of {data.pagination.total}. Search by email to find others.
+            </p>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import cors from "cors";
 import express from "express";
-import { randomUUID } from "node:crypto";
+import { timingSafeEqual } from "node:crypto";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import dotenv from "dotenv";
@@ -8,86 +8,67 @@ import dotenv from "dotenv";
 // Load environment variables
 dotenv.config();
 
+import { ImpactReviewStatus, VetIngredientsRequest, VetStreamEventMap } from "../shared/types";
+import { parseIngredientList } from "../shared/ingredientParser";
+import { buildChangelog, diffRevisions } from "../shared/revisionDiff";
+import { API_KEY_SCOPES, isApiKeyScope, isRole, ROLES } from "../shared/permissions";
+import { DEFAULT_PRODUCT_CATEGORY, isProductCategory, PRODUCT_CATEGORIES } from "../shared/productCategories";
+import { isSensitivity, SENSITIVITIES } from "../shared/sensitivities";
 import {
-  VetIngredientResult,
-  VetIngredientsRequest,
-  SafetyStatus,
-} from "../shared/types";
-import { SupabaseStorage } from "./storage/supabaseStorage";
-import { buildSourceUrl as buildEwgSourceUrl } from "./utils/ewgUrlBuilder";
-import { AIVettingService } from "./services/aiVettingService";
+  canTransition,
+  changesReviewedContent,
+  getNextReviewStates,
+  getReviewState,
+  isReviewState,
+  REVIEW_STATES,
+  REVIEWER_STATES,
+} from "../shared/reviewWorkflow";
+import {
+  createProductStorage,
+  createSensitivityProfileStore,
+  getStorageBackend,
+  type ProductStorage,
+  type SensitivityProfileStore,
+} from "./storage";
+import type { ReviewChanges, RevisionActor } from "./storage/productStorage";
+import type { AIVettingService } from "./services/aiVettingService";
+import { AnalysisRefreshService, getRefreshBudget } from "./services/analysisRefreshService";
 import { CitationService } from "./services/citationService";
-import { requireAuth } from "./middleware/auth";
+import { RegulatoryLists } from "./services/regulatoryLists";
+import { listEditors } from "./services/editorDirectory";
+import { UserManagementService } from "./services/userManagementService";
+import { getApiKeyService } from "./services/apiKeyService";
+import { ImpactReviewService } from "./services/impactReviewService";
+import { listProviders, resolveProviderConfig } from "./services/providers";
+import { createAIVettingService, resolveVettingSetup } from "./services/vettingSetup";
+import { VettingPipeline } from "./services/vettingPipeline";
+import { VettingJobService } from "./services/vettingJobService";
+import { requireAccount, requirePermission, userHasPermission } from "./middleware/auth";
+import { audit } from "./middleware/audit";
+import { getAuditLogService } from "./services/auditLogService";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const PORT = Number(process.env.PORT ?? 3000);
 const CLIENT_ORIGIN = process.env.CLIENT_ORIGIN ?? "http://localhost:5173";
+const MAX_CHANGE_NOTE_LENGTH = 1000;
+const MAX_PAGE_SIZE = 200;
+const MAX_API_KEY_LIFETIME_DAYS = 365;
 
 // Initialize AI and Citation services
-// Default to Groq for generous free tier (14,400 requests/day, 30 requests/minute)
-const aiProviderType = (process.env.AI_PROVIDER || "groq") as "gemini" | "openai" | "groq";
-const geminiApiKey = process.env.GEMINI_API_KEY;
-const openaiApiKey = process.env.OPENAI_API_KEY;
-const groqApiKey = process.env.GROQ_API_KEY;
-const googleApiKey = process.env.GOOGLE_API_KEY;
-const googleCxId = process.env.GOOGLE_CX_ID;
-
-// Validate AI provider configuration
-if (!["groq", "gemini", "openai"].includes(aiProviderType)) {
-  console.warn(`⚠️  Invalid AI_PROVIDER "${aiProviderType}". Defaulting to "groq".`);
-}
-
-// Select API key based on provider
-let aiApiKey: string | undefined;
-switch (aiProviderType) {
-  case "openai":
-    aiApiKey = openaiApiKey;
-    if (!aiApiKey) {
-      console.warn(`⚠️  AI_PROVIDER is set to "openai" but OPENAI_API_KEY is not set. AI vetting will use fallback keyword matching.`);
-    }
-    break;
-  case "groq":
-    aiApiKey = groqApiKey;
-    if (!aiApiKey) {
-      console.warn(`⚠️  AI_PROVIDER is set to "groq" but GROQ_API_KEY is not set. AI vetting will use fallback keyword matching.`);
-    }
-    break;
-  case "gemini":
-  default:
-    aiApiKey = geminiApiKey;
-    if (!aiApiKey) {
-      console.warn(`⚠️  AI_PROVIDER is set to "gemini" but GEMINI_API_KEY is not set. AI vetting will use fallback keyword matching.`);
-    }
-    break;
-}
+const vettingSetup = resolveVettingSetup();
+const aiProviderTypes = vettingSetup.providerTypes;
+const isOfflineVetting = vettingSetup.isOffline;
 
-let aiVettingService: AIVettingService | null = null;
+const aiVettingService: AIVettingService | null = createAIVettingService(vettingSetup);
 let citationService: CitationService | null = null;
 
 try {
-  if (aiApiKey) {
-    const useAnalysisStorage = process.env.USE_SUPABASE_STORAGE === "true";
-    aiVettingService = new AIVettingService(aiProviderType, aiApiKey, googleApiKey, googleCxId, useAnalysisStorage);
-    console.log(`✅ AI Vetting Service initialized with ${aiProviderType.toUpperCase()} provider`);
-    if (aiProviderType === "groq") {
-      console.log(`   📊 Groq free tier: 14,400 requests/day, 30 requests/minute`);
-    }
-  } else {
-    console.warn(`⚠️  ${aiProviderType.toUpperCase()}_API_KEY not set. AI vetting will use fallback keyword matching.`);
-    if (aiProviderType === "groq") {
-      console.warn(`   💡 Get your free Groq API key at: https://console.groq.com`);
-      console.warn(`   💡 Add GROQ_API_KEY=your_key to your .env file`);
-    }
-  }
-} catch (error) {
-  console.error("❌ Failed to initialize AI Vetting Service:", error);
-}
-
-try {
-  if (googleApiKey && googleCxId) {
-    citationService = new CitationService(googleApiKey, googleCxId);
+  if (isOfflineVetting) {
+    console.log("💡 Offline vetting: citation search disabled");
+  } else if (vettingSetup.googleApiKey && vettingSetup.googleCxId) {
+    citationService = new CitationService(vettingSetup.googleApiKey, vettingSetup.googleCxId);
     console.log("✅ Citation Service initialized");
   } else {
     console.warn("⚠️  GOOGLE_API_KEY or GOOGLE_CX_ID not set. Citation search disabled.");
@@ -96,18 +77,25 @@ try {
   console.error("❌ Failed to initialize Citation Service:", error);
 }
 
+const vettingPipeline = new VettingPipeline(aiVettingService, citationService);
+const vettingJobService = new VettingJobService(vettingPipeline);
+
 const app = express();
 
+// Vercel's proxy appends the client address to x-forwarded-for; trusting that
+// one hop makes req.ip the client rather than whatever the client sent
+app.set("trust proxy", process.env.VERCEL ? 1 : false);
+
 // Note: Supabase validation is now done lazily in getStorage() function
 // This allows the Express app to start even if Supabase is not configured
 // Routes will handle errors gracefully
 
-// Initialize Supabase storage (mandatory)
+// Initialize product storage (Supabase, or a local JSON file with STORAGE_BACKEND=file)
 // Use a function to initialize storage lazily to avoid crashing the function on startup
-let storage: SupabaseStorage | null = null;
+let storage: ProductStorage | null = null;
 let storageInitError: Error | null = null;
 
-function getStorage(): SupabaseStorage {
+function getStorage(): ProductStorage {
   // If we already have an initialization error, throw it
   if (storageInitError) {
     throw storageInitError;
@@ -120,17 +108,23 @@ function getStorage(): SupabaseStorage {
   
   // Try to initialize storage
   try {
+    if (getStorageBackend() === "file") {
+      storage = createProductStorage();
+      console.log("✅ Local file storage initialized (STORAGE_BACKEND=file)");
+      return storage;
+    }
+
     console.log("Initializing Supabase storage...");
     console.log("SUPABASE_URL:", process.env.SUPABASE_URL ? "✅ Set" : "❌ Missing");
     console.log("SUPABASE_SERVICE_ROLE_KEY:", process.env.SUPABASE_SERVICE_ROLE_KEY ? "✅ Set (length: " + process.env.SUPABASE_SERVICE_ROLE_KEY.length + ")" : "❌ Missing");
     
     if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
-      const error = new Error("Missing required Supabase environment variables. Check SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.");
+      const error = new Error("Missing required Supabase environment variables. Check SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or set STORAGE_BACKEND=file to use local storage.");
       storageInitError = error;
       throw error;
     }
     
-    storage = new SupabaseStorage();
+    storage = createProductStorage();
     console.log("✅ Supabase storage initialized successfully");
     return storage;
   } catch (error) {
@@ -150,6 +144,56 @@ Please verify your Supabase credentials are correct in Vercel environment variab
   }
 }
 
+// The product as it was before an audited request changed it
+function loadProductForAudit(req: express.Request) {
+  return getStorage().getById(req.params.id, { includeUnpublished: true });
+}
+
+// Merging changes the original, so diff against it rather than the draft
+async function loadMergeTargetForAudit(req: express.Request) {
+  const draft = await loadProductForAudit(req);
+  return draft?.editedFromProductId
+    ? getStorage().getById(draft.editedFromProductId, { includeUnpublished: true })
+    : null;
+}
+
+// Invite, change roles of and deactivate accounts (Supabase only)
+const userManagementService = UserManagementService.fromEnv(`${CLIENT_ORIGIN.split(",")[0]}/login`);
+
+// Queue product reviews when a re-analysis changes an ingredient's status
+let impactReviewService: ImpactReviewService | null = null;
+try {
+  const analysisService = aiVettingService?.getAnalysisService();
+  if (analysisService) {
+    impactReviewService = ImpactReviewService.attach(analysisService, getStorage);
+  }
+} catch (error) {
+  console.error("❌ Failed to initialize impact reviews:", error);
+}
+
+// The signed-in user (set by the auth middleware) and the optional `changeNote` from
+// the request body, recorded on published revisions
+function getRevisionActor(req: express.Request): RevisionActor {
+  const user = (req as any).user;
+  const changeNote = typeof req.body?.changeNote === "string"
+    ? req.body.changeNote.trim().slice(0, MAX_CHANGE_NOTE_LENGTH)
+    : undefined;
+  return { id: user?.id, email: user?.email, changeNote: changeNote || undefined };
+}
+
+// ?page= and ?limit= of an admin list, with the limit capped at MAX_PAGE_SIZE;
+// null when either is not a positive whole number
+function parsePagination(req: express.Request): { page: number; limit: number; offset: number } | null {
+  const page = Number(req.query.page || 1);
+  const limit = Number(req.query.limit || 50);
+  if (!Number.isInteger(page) || !Number.isInteger(limit) || page < 1 || limit < 1) {
+    return null;
+  }
+
+  const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+  return { page, limit: pageSize, offset: (page - 1) * pageSize };
+}
+
 // Request logging middleware (for debugging)
 app.use((req, res, next) => {
   console.log(`${new Date().toISOString()} ${req.method} ${req.path}`);
@@ -183,8 +227,17 @@ app.get("/api/debug/storage", (_req, res) => {
     initErrorMessage: storageInitError?.message || null
   };
   
+  let backend: string | null = null;
+  try {
+    backend = getStorageBackend();
+  } catch (err) {
+    storageInfo.hasInitError = true;
+    storageInfo.initErrorMessage = err instanceof Error ? err.message : String(err);
+  }
+  storageInfo.backend = backend;
+
   // Try to initialize if not already done (for testing)
-  if (!storageReady && !hasInitError && hasUrl && hasKey) {
+  if (!storageReady && !hasInitError && (backend === "file" || (backend === "supabase" && hasUrl && hasKey))) {
     try {
       const testStorage = getStorage();
       storageInfo.initialized = !!testStorage;
@@ -208,8 +261,17 @@ app.get("/api/debug/storage", (_req, res) => {
   });
 });
 
+// ?includeUnpublished=true also returns drafts, which needs dashboard:view
+// (an editorial role or an API key with the read:drafts scope)
+function requireDraftAccess(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (req.query.includeUnpublished !== "true") {
+    return next();
+  }
+  return requirePermission("dashboard:view")(req, res, next);
+}
+
 // Public routes (no auth required)
-app.get("/api/products", async (req, res) => {
+app.get("/api/products", requireDraftAccess, async (req, res) => {
   try {
     const storageInstance = getStorage();
     const includeUnpublished = req.query.includeUnpublished === "true";
@@ -245,7 +307,7 @@ app.get("/api/products", async (req, res) => {
   }
 });
 
-app.get("/api/products/:id", async (req, res) => {
+app.get("/api/products/:id", requireDraftAccess, async (req, res) => {
   try {
     const storageInstance = getStorage();
     const includeUnpublished = req.query.includeUnpublished === "true";
@@ -266,19 +328,120 @@ app.get("/api/products/:id", async (req, res) => {
   }
 });
 
+// Rating changes of a published product, newest first. Only published
+// products are listed, and publisher details are left out.
+app.get("/api/products/:id/changelog", async (req, res) => {
+  try {
+    const storageInstance = getStorage();
+    const product = await storageInstance.getById(req.params.id);
+    if (!product) {
+      res.status(404).json({ error: "Product not found" });
+      return;
+    }
+
+    const revisions = await storageInstance.listRevisions(product.id);
+    res.json(buildChangelog(revisions));
+  } catch (error) {
+    console.error("Error fetching changelog:", error);
+    res.status(500).json({
+      error: "Failed to fetch changelog",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
 // Admin routes (auth required)
-app.post("/api/products", requireAuth, async (req, res) => {
+
+// The signed-in user with their role's permissions
+// Consumer accounts ('user' role) get an empty permission list
+app.get("/api/me", requireAccount, (req, res) => {
+  const user = (req as any).user;
+  res.json({
+    id: user.id,
+    email: user.email ?? null,
+    role: user.role,
+    permissions: user.permissions,
+  });
+});
+
+let sensitivityProfileStore: SensitivityProfileStore | null | undefined;
+
+function getSensitivityProfileStore(): SensitivityProfileStore | null {
+  if (sensitivityProfileStore === undefined) {
+    sensitivityProfileStore = createSensitivityProfileStore();
+  }
+  return sensitivityProfileStore;
+}
+
+// The signed-in user's sensitivity profile, checked against ingredients on product pages
+app.get("/api/me/sensitivities", requireAccount, async (req, res) => {
+  try {
+    const store = getSensitivityProfileStore();
+    if (!store) {
+      return res.status(503).json({ error: "Sensitivity profiles not available" });
+    }
+
+    res.json(await store.get((req as any).user.id));
+  } catch (error) {
+    console.error("Error fetching sensitivity profile:", error);
+    res.status(500).json({
+      error: "Failed to fetch sensitivity profile",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Replace the profile: { sensitivities: ("pregnancy" | "fragrance-sensitivity" | "nut-allergy" | "acne-prone" | "vegan")[] }
+app.put("/api/me/sensitivities", requireAccount, async (req, res) => {
+  const sensitivities = req.body?.sensitivities;
+  if (!Array.isArray(sensitivities) || !sensitivities.every(isSensitivity)) {
+    return res.status(400).json({ error: `sensitivities must be a list of ${SENSITIVITIES.join(", ")}` });
+  }
+
+  const user = (req as any).user;
+  if (user.role === "api_key") {
+    return res.status(403).json({ error: "Forbidden", message: "API keys do not have a sensitivity profile." });
+  }
+
+  try {
+    const store = getSensitivityProfileStore();
+    if (!store) {
+      return res.status(503).json({ error: "Sensitivity profiles not available" });
+    }
+
+    const unique = SENSITIVITIES.filter((sensitivity) => sensitivities.includes(sensitivity));
+    res.json(await store.save(user.id, user.email ?? null, unique));
+  } catch (error) {
+    console.error("Error saving sensitivity profile:", error);
+    res.status(500).json({
+      error: "Failed to save sensitivity profile",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+app.post("/api/products", requirePermission("drafts:edit"), audit("product.create"), async (req, res) => {
+  if (req.body.category !== undefined && !isProductCategory(req.body.category)) {
+    return res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
+  }
+
   try {
+    if (req.body.status === "published" && !userHasPermission(req, "products:publish")) {
+      res.status(403).json({ error: "Forbidden", message: "Your role can create drafts but not publish them." });
+      return;
+    }
+
     const storageInstance = getStorage();
     const product = await storageInstance.create({
       name: req.body.name,
       brand: req.body.brand,
       summary: req.body.summary ?? "",
       imageUrl: req.body.imageUrl ?? "",
+      category: req.body.category,
       overallStatus: req.body.overallStatus,
       status: req.body.status,
       ingredients: req.body.ingredients ?? [],
-    });
+    }, getRevisionActor(req));
 
     res.status(201).json(product);
   } catch (err) {
@@ -290,18 +453,55 @@ app.post("/api/products", requireAuth, async (req, res) => {
   }
 });
 
-app.patch("/api/products/:id", requireAuth, async (req, res) => {
+app.patch("/api/products/:id", requirePermission("drafts:edit"), audit("product.update", { before: loadProductForAudit }), async (req, res) => {
+  if (req.body.category !== undefined && !isProductCategory(req.body.category)) {
+    return res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
+  }
+
   try {
     const storageInstance = getStorage();
-    const product = await storageInstance.update(req.params.id, {
+    const existing = await storageInstance.getById(req.params.id, { includeUnpublished: true });
+    if (!existing) {
+      res.status(404).json({ error: "Product not found" });
+      return;
+    }
+
+    // Changing what the public sees needs publish rights; drafts only need edit rights
+    if (!userHasPermission(req, "products:publish")) {
+      if (existing.status === "published" || req.body.status === "published") {
+        res.status(403).json({ error: "Forbidden", message: "Your role can edit drafts but not published products." });
+        return;
+      }
+    }
+
+    const changes = {
       name: req.body.name,
       brand: req.body.brand,
       summary: req.body.summary,
       imageUrl: req.body.imageUrl,
+      category: req.body.category,
       overallStatus: req.body.overallStatus,
       status: req.body.status,
       ingredients: req.body.ingredients,
-    });
+    };
+
+    // Editing an approved draft sends it back to review, and only an approved
+    // draft can be published
+    const isDraft = existing.status === "draft";
+    const reopensReview = isDraft && getReviewState(existing) === "approved" && changesReviewedContent(existing, changes);
+    if (isDraft && changes.status === "published" && (getReviewState(existing) !== "approved" || reopensReview)) {
+      res.status(409).json({
+        error: reopensReview
+          ? "The draft changed since it was approved and needs another review before it is published"
+          : "Only approved drafts can be published",
+      });
+      return;
+    }
+
+    let product = await storageInstance.update(req.params.id, changes, getRevisionActor(req));
+    if (product && reopensReview) {
+      product = await storageInstance.updateReview(product.id, { reviewState: "in_review" });
+    }
 
     if (!product) {
       res.status(404).json({ error: "Product not found" });
@@ -318,7 +518,7 @@ app.patch("/api/products/:id", requireAuth, async (req, res) => {
   }
 });
 
-app.delete("/api/products/:id", requireAuth, async (req, res) => {
+app.delete("/api/products/:id", requirePermission("products:delete"), audit("product.delete", { before: loadProductForAudit }), async (req, res) => {
   try {
     const storageInstance = getStorage();
     const deleted = await storageInstance.delete(req.params.id);
@@ -337,7 +537,9 @@ app.delete("/api/products/:id", requireAuth, async (req, res) => {
   }
 });
 
-app.post("/api/products/:id/edit", requireAuth, async (req, res) => {
+app.post("/api/products/:id/edit", requirePermission("drafts:edit"), audit("product.draft", {
+  targetId: (_req, draft) => draft?.id,
+}), async (req, res) => {
   try {
     const storageInstance = getStorage();
     const draft = await storageInstance.createDraftFromProduct(req.params.id);
@@ -356,10 +558,19 @@ app.post("/api/products/:id/edit", requireAuth, async (req, res) => {
   }
 });
 
-app.post("/api/products/:id/merge", requireAuth, async (req, res) => {
+app.post("/api/products/:id/merge", requirePermission("products:publish"), audit("product.merge", {
+  before: loadMergeTargetForAudit,
+  targetId: (_req, merged) => merged?.id,
+}), async (req, res) => {
   try {
     const storageInstance = getStorage();
-    const merged = await storageInstance.mergeDraftIntoOriginal(req.params.id);
+    const draft = await storageInstance.getById(req.params.id, { includeUnpublished: true });
+    if (draft && getReviewState(draft) !== "approved") {
+      res.status(409).json({ error: "Only approved drafts can be merged" });
+      return;
+    }
+
+    const merged = await storageInstance.mergeDraftIntoOriginal(req.params.id, getRevisionActor(req));
     if (!merged) {
       res.status(404).json({ error: "Draft not found or invalid" });
       return;
@@ -375,319 +586,1057 @@ app.post("/api/products/:id/merge", requireAuth, async (req, res) => {
   }
 });
 
-// Admin API for ingredient analysis management
-app.get("/api/admin/ingredient-analyses/:name", requireAuth, async (req, res) => {
+// Published revisions of a product, newest first
+app.get("/api/products/:id/revisions", requirePermission("dashboard:view"), async (req, res) => {
   try {
-    if (!aiVettingService || !(aiVettingService as any).analysisService) {
-      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    const storageInstance = getStorage();
+    const product = await storageInstance.getById(req.params.id, { includeUnpublished: true });
+    if (!product) {
+      res.status(404).json({ error: "Product not found" });
+      return;
     }
 
-    const analysisService = (aiVettingService as any).analysisService;
-    const analysis = await analysisService.getAnalysis(req.params.name);
+    const revisions = await storageInstance.listRevisions(req.params.id);
+    res.json(revisions);
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    res.status(500).json({
+      error: "Failed to fetch revisions",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
 
-    if (!analysis) {
-      return res.status(404).json({ error: "Analysis not found" });
+// Changes between two revisions (?from=&to=); defaults to the latest revision
+// against the one before it
+app.get("/api/products/:id/revisions/diff", requirePermission("dashboard:view"), async (req, res) => {
+  try {
+    const storageInstance = getStorage();
+    const parseRevision = (value: unknown) => {
+      if (value === undefined) return undefined;
+      const number = Number(value);
+      return Number.isInteger(number) && number > 0 ? number : NaN;
+    };
+
+    let to = parseRevision(req.query.to);
+    let from = parseRevision(req.query.from);
+    if (Number.isNaN(to) || Number.isNaN(from)) {
+      res.status(400).json({ error: "from and to must be positive revision numbers" });
+      return;
     }
 
-    res.json(analysis);
+    if (to === undefined) {
+      const [latest] = await storageInstance.listRevisions(req.params.id);
+      if (!latest) {
+        res.status(404).json({ error: "Product has no published revisions" });
+        return;
+      }
+      to = latest.revisionNumber;
+    }
+    if (from === undefined) {
+      from = to - 1;
+    }
+
+    const toRevision = await storageInstance.getRevision(req.params.id, to);
+    if (!toRevision) {
+      res.status(404).json({ error: `Revision ${to} not found` });
+      return;
+    }
+
+    // Revision 1 is diffed against nothing
+    const fromRevision = from > 0 ? await storageInstance.getRevision(req.params.id, from) : null;
+    if (from > 0 && !fromRevision) {
+      res.status(404).json({ error: `Revision ${from} not found` });
+      return;
+    }
+
+    res.json(diffRevisions(fromRevision, toRevision));
   } catch (error) {
-    console.error("Error fetching analysis:", error);
-    res.status(500).json({ error: "Failed to fetch analysis" });
+    console.error("Error diffing revisions:", error);
+    res.status(500).json({
+      error: "Failed to diff revisions",
+      details: error instanceof Error ? error.message : String(error)
+    });
   }
 });
 
-app.post("/api/admin/ingredient-analyses/:name/refresh", requireAuth, async (req, res) => {
+// Move a draft through the review workflow and/or assign it:
+// { reviewState?, assignedTo?: editor id | null }
+app.patch("/api/products/:id/review", requirePermission("drafts:edit"), audit("product.review", { before: loadProductForAudit }), async (req, res) => {
   try {
-    if (!aiVettingService) {
-      return res.status(503).json({ error: "AI Vetting Service not available" });
+    const storageInstance = getStorage();
+    const product = await storageInstance.getById(req.params.id, { includeUnpublished: true });
+    if (!product) {
+      res.status(404).json({ error: "Product not found" });
+      return;
+    }
+    if (product.status !== "draft") {
+      res.status(409).json({ error: "Only drafts have a review state" });
+      return;
     }
 
-    // Force re-analysis by analyzing the ingredient
-    const analysis = await aiVettingService.analyzeIngredient(req.params.name);
-    res.json(analysis);
+    const { reviewState, assignedTo } = req.body ?? {};
+    if (reviewState === undefined && assignedTo === undefined) {
+      res.status(400).json({ error: "reviewState or assignedTo is required" });
+      return;
+    }
+
+    const changes: ReviewChanges = {};
+    if (reviewState !== undefined) {
+      if (!isReviewState(reviewState)) {
+        res.status(400).json({ error: `reviewState must be one of ${REVIEW_STATES.join(", ")}` });
+        return;
+      }
+
+      if (REVIEWER_STATES.includes(reviewState) && !userHasPermission(req, "drafts:review")) {
+        res.status(403).json({ error: "Forbidden", message: "Only reviewers can approve drafts or request changes." });
+        return;
+      }
+
+      const current = getReviewState(product);
+      if (reviewState !== current && !canTransition(current, reviewState)) {
+        res.status(409).json({
+          error: `Cannot move a draft from ${current} to ${reviewState}`,
+          allowed: getNextReviewStates(current),
+        });
+        return;
+      }
+      changes.reviewState = reviewState;
+    }
+
+    if (assignedTo === null) {
+      changes.assignedTo = null;
+      changes.assignedToEmail = null;
+    } else if (assignedTo !== undefined) {
+      const editors = await listEditors((req as any).user);
+      const editor = editors.find((item) => item.id === assignedTo);
+      if (!editor) {
+        res.status(400).json({ error: "assignedTo must be the id of an editor" });
+        return;
+      }
+      changes.assignedTo = editor.id;
+      changes.assignedToEmail = editor.email;
+    }
+
+    const updated = await storageInstance.updateReview(product.id, changes);
+    if (!updated) {
+      res.status(404).json({ error: "Product not found" });
+      return;
+    }
+
+    res.json(updated);
   } catch (error) {
-    console.error("Error refreshing analysis:", error);
-    res.status(500).json({ error: "Failed to refresh analysis" });
+    console.error("Error updating review:", error);
+    res.status(500).json({
+      error: "Failed to update review",
+      details: error instanceof Error ? error.message : String(error)
+    });
   }
 });
 
-app.get("/api/admin/ingredient-analyses", requireAuth, async (req, res) => {
+// Drafts in the review workflow, longest waiting first.
+// ?assignedTo=me, unassigned or an editor id; ?reviewState= one of the states
+app.get("/api/admin/review-queue", requirePermission("dashboard:view"), async (req, res) => {
   try {
-    if (!aiVettingService || !(aiVettingService as any).analysisService) {
-      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    const assignedTo = req.query.assignedTo as string | undefined;
+    const reviewState = req.query.reviewState as string | undefined;
+    if (reviewState !== undefined && !isReviewState(reviewState)) {
+      res.status(400).json({ error: `reviewState must be one of ${REVIEW_STATES.join(", ")}` });
+      return;
     }
 
-    const analysisService = (aiVettingService as any).analysisService;
-    const supabase = (analysisService as any).supabase;
-    
-    const page = parseInt(req.query.page as string || "1", 10);
-    const limit = parseInt(req.query.limit as string || "50", 10);
-    const offset = (page - 1) * limit;
+    const assignee = assignedTo === "me" ? (req as any).user?.id : assignedTo;
+    const products = await getStorage().list({ includeUnpublished: true });
+    const drafts = products
+      .filter((product) => product.status === "draft")
+      .filter((product) => !reviewState || getReviewState(product) === reviewState)
+      .filter((product) => {
+        if (assignedTo === undefined) return true;
+        if (assignedTo === "unassigned") return !product.assignedTo;
+        return product.assignedTo === assignee;
+      })
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+
+    res.json(drafts);
+  } catch (error) {
+    console.error("Error listing review queue:", error);
+    res.status(500).json({
+      error: "Failed to list review queue",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Editors drafts can be assigned to
+app.get("/api/admin/editors", requirePermission("dashboard:view"), async (req, res) => {
+  try {
+    res.json(await listEditors((req as any).user));
+  } catch (error) {
+    console.error("Error listing editors:", error);
+    res.status(500).json({
+      error: "Failed to list editors",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
 
-    const { data, error, count } = await supabase
-      .from("ingredient_analyses")
-      .select("*", { count: "exact" })
-      .order("updated_at", { ascending: false })
-      .range(offset, offset + limit - 1);
+// Accounts in user_profiles; ?role=, ?search= (email), ?page=, ?limit=
+app.get("/api/admin/users", requirePermission("users:manage"), async (req, res) => {
+  try {
+    if (!userManagementService) {
+      return res.status(503).json({ error: "User management requires Supabase" });
+    }
 
-    if (error) {
-      throw error;
+    const role = req.query.role as string | undefined;
+    if (role !== undefined && !isRole(role)) {
+      return res.status(400).json({ error: `role must be one of ${ROLES.join(", ")}` });
+    }
+
+    const pagination = parsePagination(req);
+    if (!pagination) {
+      return res.status(400).json({ error: "page and limit must be positive whole numbers" });
     }
+    const { page, limit, offset } = pagination;
+    const search = (req.query.search as string | undefined)?.trim();
 
+    const { rows, total } = await userManagementService.list({ role, search: search || undefined, offset, limit });
     res.json({
-      data: data || [],
+      data: rows,
       pagination: {
         page,
         limit,
-        total: count || 0,
-        totalPages: Math.ceil((count || 0) / limit),
+        total,
+        totalPages: Math.ceil(total / limit),
       },
     });
   } catch (error) {
-    console.error("Error listing analyses:", error);
-    res.status(500).json({ error: "Failed to list analyses" });
+    console.error("Error listing users:", error);
+    res.status(500).json({
+      error: "Failed to list users",
+      details: error instanceof Error ? error.message : String(error)
+    });
   }
 });
 
-app.post("/api/vet-ingredients", async (req, res) => {
-  const payload = req.body as VetIngredientsRequest;
-  if (!payload?.ingredientsText?.trim()) {
-    res.status(400).json({ error: "ingredientsText is required" });
-    return;
+// Invite a new account by email: { email, role }
+app.post("/api/admin/users/invite", requirePermission("users:manage"), audit("user.invite"), async (req, res) => {
+  const email = typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : "";
+  const { role } = req.body ?? {};
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    return res.status(400).json({ error: "A valid email is required" });
+  }
+  if (!isRole(role)) {
+    return res.status(400).json({ error: `role must be one of ${ROLES.join(", ")}` });
   }
 
-  const lines = payload.ingredientsText
-    .split(/[\n,]/)
-    .map((item) => item.trim())
-    .filter(Boolean);
+  try {
+    if (!userManagementService) {
+      return res.status(503).json({ error: "User management requires Supabase" });
+    }
 
-  if (lines.length === 0) {
-    res.status(400).json({ error: "No valid ingredients found" });
-    return;
+    const user = await userManagementService.invite(email, role);
+    res.status(201).json(user);
+  } catch (error) {
+    console.error("Error inviting user:", error);
+    res.status(400).json({
+      error: "Unable to invite user",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Change an account's role: { role }
+app.patch("/api/admin/users/:id", requirePermission("users:manage"), audit("user.role_change", {
+  before: async (req) => userManagementService?.getById(req.params.id),
+}), async (req, res) => {
+  const { role } = req.body ?? {};
+  if (!isRole(role)) {
+    return res.status(400).json({ error: `role must be one of ${ROLES.join(", ")}` });
+  }
+  // Keeps the last admin from locking everyone out by demoting themselves
+  if (req.params.id === (req as any).user?.id) {
+    return res.status(400).json({ error: "You cannot change your own role" });
   }
 
   try {
-    let results: VetIngredientResult;
-
-    if (aiVettingService) {
-      // Use real AI analysis
-      console.log(`🤖 Analyzing ${lines.length} ingredient(s) with AI...`);
-      
-      const analyses = await aiVettingService.analyzeIngredients(lines);
-      
-      // Enhance with citation search if available
-      const ingredients = await Promise.all(
-        analyses.map(async (analysis) => {
-          let sourceUrl = analysis.sourceUrl;
-          
-          // If citation service is available and URL doesn't look like a real EWG URL, try to find better citation
-          if (citationService) {
-            // Only search if the URL is NOT a proper EWG ingredient page (i.e., it's a search URL or generic URL)
-            const isProperEwgIngredientPage = sourceUrl.includes("ewg.org/skindeep/ingredients/") && !sourceUrl.includes("/search/");
-            if (!isProperEwgIngredientPage) {
-              try {
-                const betterUrl = await citationService.findBestCitation(analysis.name);
-                sourceUrl = betterUrl;
-              } catch (error) {
-                console.error(`Error finding citation for ${analysis.name}:`, error);
-                // Keep the original URL from AI
-              }
-            }
-          }
-
-          return {
-            id: cryptoRandomId(),
-            name: analysis.name,
-            status: analysis.status,
-            rationale: analysis.rationale,
-            sourceUrl,
-            originalStatus: analysis.status,
-            isOverride: false,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-            // Include new fields if available (these may not be in the Ingredient type yet)
-            ...(analysis.description && { description: analysis.description }),
-            ...(analysis.edgeCases && { edgeCases: analysis.edgeCases }),
-            ...(analysis.ewgScore !== undefined && { ewgScore: analysis.ewgScore }),
-            ...(analysis.researchSources && { researchSources: analysis.researchSources }),
-            ...(analysis.suggestedMatches && { suggestedMatches: analysis.suggestedMatches }),
-          };
-        })
-      );
-
-      const overallStatus = deriveOverallStatus(ingredients.map(i => i.status));
-      const summary = buildSummary(overallStatus, ingredients.length);
-
-      results = { overallStatus, summary, ingredients };
-      console.log(`✅ AI analysis complete for ${ingredients.length} ingredient(s)`);
-    } else {
-      // Fallback to keyword matching
-      console.warn("⚠️  Using fallback keyword matching (no AI available)");
-      results = buildVetResult(lines);
+    if (!userManagementService) {
+      return res.status(503).json({ error: "User management requires Supabase" });
     }
 
-    res.json(results);
+    const user = await userManagementService.updateRole(req.params.id, role);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.json(user);
   } catch (error) {
-    console.error("❌ Error in vet-ingredients:", error);
-    res.status(500).json({ 
-      error: "Failed to analyze ingredients",
-      details: error instanceof Error ? error.message : "Unknown error",
-      fallback: "Try again or check API keys configuration"
+    console.error("Error updating user role:", error);
+    res.status(500).json({
+      error: "Failed to update user",
+      details: error instanceof Error ? error.message : String(error)
     });
   }
 });
 
-const assetsDirectory = path.resolve(
-  __dirname,
-  "../attached_assets/generated_images",
-);
-app.use(
-  "/generated_images",
-  express.static(assetsDirectory, {
-    maxAge: "7d",
-  }),
-);
+// Deactivate (ban) or reactivate an account
+app.post("/api/admin/users/:id/:action(deactivate|reactivate)", requirePermission("users:manage"), audit("user.activation", {
+  before: async (req) => userManagementService?.getById(req.params.id),
+}), async (req, res) => {
+  if (req.params.id === (req as any).user?.id) {
+    return res.status(400).json({ error: "You cannot deactivate your own account" });
+  }
 
-const publicDir = path.resolve(__dirname, "../dist/public");
-app.use(express.static(publicDir, { maxAge: "7d" }));
+  try {
+    if (!userManagementService) {
+      return res.status(503).json({ error: "User management requires Supabase" });
+    }
 
-app.get("*", (_req, res) => {
-  const indexPath = path.join(publicDir, "index.html");
-  res.sendFile(indexPath, (err) => {
-    if (err) {
-      res.status(200).send("<!doctype html><title>FirstPledge</title><div id=\"root\"></div>");
+    const user = req.params.action === "deactivate"
+      ? await userManagementService.deactivate(req.params.id)
+      : await userManagementService.reactivate(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
     }
-  });
+
+    res.json(user);
+  } catch (error) {
+    console.error(`Error during user ${req.params.action}:`, error);
+    res.status(500).json({
+      error: `Failed to ${req.params.action} user`,
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
 });
 
-// Global error handler middleware (must be last, before export)
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error("Unhandled error:", err);
-  res.status(500).json({
-    error: "Internal server error",
-    message: err.message || "An unexpected error occurred",
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
-  });
+// API keys for integrations, newest first (secrets are never returned)
+app.get("/api/admin/api-keys", requirePermission("users:manage"), async (_req, res) => {
+  try {
+    const apiKeyService = getApiKeyService();
+    if (!apiKeyService) {
+      return res.status(503).json({ error: "API keys not available" });
+    }
+
+    res.json(await apiKeyService.list());
+  } catch (error) {
+    console.error("Error listing API keys:", error);
+    res.status(500).json({
+      error: "Failed to list API keys",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
 });
 
-// 404 handler for undefined routes
-app.use((req: express.Request, res: express.Response) => {
-  res.status(404).json({
-    error: "Not found",
-    path: req.path,
-    method: req.method
-  });
+// Create a key: { name, scopes: ("read:drafts" | "write:products" | "vet")[], expiresInDays? }.
+// The response holds the full key; it cannot be retrieved again.
+app.post("/api/admin/api-keys", requirePermission("users:manage"), audit("api_key.create", {
+  // Never log the key itself
+  after: (created) => created.apiKey,
+}), async (req, res) => {
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  const { scopes, expiresInDays } = req.body ?? {};
+  if (!name) {
+    return res.status(400).json({ error: "name is required" });
+  }
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+    return res.status(400).json({ error: `scopes must be a non-empty list of ${API_KEY_SCOPES.join(", ")}` });
+  }
+  if (
+    expiresInDays !== undefined &&
+    (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_API_KEY_LIFETIME_DAYS)
+  ) {
+    return res.status(400).json({ error: `expiresInDays must be a whole number from 1 to ${MAX_API_KEY_LIFETIME_DAYS}` });
+  }
+
+  try {
+    const apiKeyService = getApiKeyService();
+    if (!apiKeyService) {
+      return res.status(503).json({ error: "API keys not available" });
+    }
+
+    const user = (req as any).user;
+    const created = await apiKeyService.create({
+      name,
+      scopes: Array.from(new Set(scopes)),
+      // Keys expire after a year unless a shorter lifetime is given
+      expiresAt: new Date(Date.now() + (expiresInDays ?? MAX_API_KEY_LIFETIME_DAYS) * 24 * 60 * 60 * 1000).toISOString(),
+      createdBy: user?.email ?? user?.id ?? null,
+    });
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    res.status(500).json({
+      error: "Failed to create API key",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
 });
 
-// Export app for Vercel serverless function
-export default app;
+// Revoke a key; requests using it are rejected from then on
+app.post("/api/admin/api-keys/:id/revoke", requirePermission("users:manage"), audit("api_key.revoke", {
+  before: async (req) => (await getApiKeyService()?.list())?.find((apiKey) => apiKey.id === req.params.id),
+}), async (req, res) => {
+  try {
+    const apiKeyService = getApiKeyService();
+    if (!apiKeyService) {
+      return res.status(503).json({ error: "API keys not available" });
+    }
 
-// Only listen on port when running locally (not in Vercel environment)
-if (process.env.VERCEL !== "1") {
-  app.listen(PORT, () => {
-    console.log(`✅ API server listening on http://localhost:${PORT}`);
-  });
-} else {
-  console.log("✅ Running in Vercel serverless environment");
-}
+    const apiKey = await apiKeyService.revoke(req.params.id);
+    if (!apiKey) {
+      return res.status(404).json({ error: "API key not found" });
+    }
 
-const bannedKeywords = [
-  "phthalate",
-  "paraben",
-  "synthetic fragrance",
-  "benzene",
-  "formaldehyde",
-];
-const cautionKeywords = [
-  "phenoxyethanol",
-  "chloride",
-  "sulfate",
-  "titanium dioxide",
-  "aluminum",
-];
+    res.json(apiKey);
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    res.status(500).json({
+      error: "Failed to revoke API key",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Audit log, newest first. Filters: ?actor= user id, ?action= an action
+// ("product.update") or a target type ("product."), ?targetId=, ?from=, ?to= (ISO dates)
+app.get("/api/admin/audit", requirePermission("audit:view"), async (req, res) => {
+  try {
+    const auditLog = getAuditLogService();
+    if (!auditLog) {
+      return res.status(503).json({ error: "Audit log not available" });
+    }
+
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return res.status(400).json({ error: "from and to must be ISO dates" });
+    }
 
-function classifyIngredient(name: string): SafetyStatus {
-  const normalized = name.toLowerCase();
-  if (bannedKeywords.some((keyword) => normalized.includes(keyword))) {
-    return "banned";
+    const pagination = parsePagination(req);
+    if (!pagination) {
+      return res.status(400).json({ error: "page and limit must be positive whole numbers" });
+    }
+    const { page, limit, offset } = pagination;
+
+    const { rows, total } = await auditLog.list({
+      actorId: (req.query.actor as string | undefined) || undefined,
+      action: (req.query.action as string | undefined) || undefined,
+      targetId: (req.query.targetId as string | undefined) || undefined,
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? new Date(to).toISOString() : undefined,
+      offset,
+      limit,
+    });
+
+    res.json({
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error listing audit events:", error);
+    res.status(500).json({
+      error: "Failed to list audit events",
+      details: error instanceof Error ? error.message : String(error)
+    });
   }
+});
 
-  if (cautionKeywords.some((keyword) => normalized.includes(keyword))) {
-    return "caution";
+// Admin API for ingredient analysis management
+// Analyses are stored per product category: ?category= (default skincare)
+app.get("/api/admin/ingredient-analyses/:name", requirePermission("dashboard:view"), async (req, res) => {
+  const category = req.query.category ?? DEFAULT_PRODUCT_CATEGORY;
+  if (!isProductCategory(category)) {
+    return res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
   }
 
-  return "safe";
-}
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+    const analysis = await analysisService.getAnalysis(req.params.name, category);
 
-function buildVetResult(lines: string[]): VetIngredientResult {
-  const ingredients = lines.map((line) => {
-    const status = classifyIngredient(line);
-    return {
-      id: cryptoRandomId(),
-      name: line,
-      status,
-      rationale: buildRationale(line, status),
-      sourceUrl: buildEwgSourceUrl(line, status),
-      originalStatus: status,
-      isOverride: false,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    if (!analysis) {
+      return res.status(404).json({ error: "Analysis not found" });
+    }
+
+    res.json(analysis);
+  } catch (error) {
+    console.error("Error fetching analysis:", error);
+    res.status(500).json({ error: "Failed to fetch analysis" });
+  }
+});
+
+app.post("/api/admin/ingredient-analyses/:name/refresh", requirePermission("analyses:manage"), audit("analysis.refresh", {
+  before: async (req) => {
+    const category = req.query.category ?? DEFAULT_PRODUCT_CATEGORY;
+    return isProductCategory(category)
+      ? aiVettingService?.getAnalysisService()?.getAnalysis(req.params.name, category)
+      : null;
+  },
+  targetId: (req) => req.params.name,
+}), async (req, res) => {
+  const category = req.query.category ?? DEFAULT_PRODUCT_CATEGORY;
+  if (!isProductCategory(category)) {
+    return res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
+  }
+
+  try {
+    if (!aiVettingService) {
+      return res.status(503).json({ error: "AI Vetting Service not available" });
+    }
+
+    // Force re-analysis by analyzing the ingredient
+    const analysis = await aiVettingService.analyzeIngredient(req.params.name, null, category);
+    res.json(analysis);
+  } catch (error) {
+    console.error("Error refreshing analysis:", error);
+    res.status(500).json({ error: "Failed to refresh analysis" });
+  }
+});
+
+app.get("/api/admin/ingredient-analyses", requirePermission("dashboard:view"), async (req, res) => {
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+    
+    const pagination = parsePagination(req);
+    if (!pagination) {
+      return res.status(400).json({ error: "page and limit must be positive whole numbers" });
+    }
+    const { page, limit, offset } = pagination;
+
+    const category = req.query.category;
+    if (category !== undefined && !isProductCategory(category)) {
+      return res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
+    }
+
+    // ?needsReview=true lists analyses where providers disagreed or all failed;
+    // ?category= lists one category's analyses
+    const { rows, total } = await analysisService.listAnalyses({
+      needsReview: req.query.needsReview === "true",
+      category,
+      offset,
+      limit,
+    });
+
+    res.json({
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error listing analyses:", error);
+    res.status(500).json({ error: "Failed to list analyses" });
+  }
+});
+
+// Refresh log: ?statusChanged=true lists only re-analyses that changed an ingredient's status
+app.get("/api/admin/analysis-refreshes", requirePermission("dashboard:view"), async (req, res) => {
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+
+    const pagination = parsePagination(req);
+    if (!pagination) {
+      return res.status(400).json({ error: "page and limit must be positive whole numbers" });
+    }
+    const { page, limit, offset } = pagination;
+
+    const { rows, total } = await analysisService.listRefreshes({
+      statusChanged: req.query.statusChanged === "true",
+      offset,
+      limit,
+    });
+
+    res.json({
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error listing analysis refreshes:", error);
+    res.status(500).json({ error: "Failed to list analysis refreshes" });
+  }
+});
+
+// Scheduled re-vetting of stale analyses (vercel.json cron). Callers send
+// "Authorization: Bearer <CRON_SECRET>"; ?budget= overrides ANALYSIS_REFRESH_BUDGET.
+app.get("/api/cron/refresh-analyses", async (req, res) => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return res.status(503).json({ error: "CRON_SECRET is not configured" });
+  }
+
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  const provided = Buffer.from(req.headers.authorization || "");
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  if (!aiVettingService?.getAnalysisService()) {
+    return res.status(503).json({ error: "Ingredient analysis storage not available" });
+  }
+
+  const budget = req.query.budget === undefined ? getRefreshBudget() : Number(req.query.budget);
+  if (!Number.isInteger(budget) || budget < 1) {
+    return res.status(400).json({ error: "budget must be a positive integer" });
+  }
+
+  try {
+    const summary = await new AnalysisRefreshService(aiVettingService).run(budget);
+    res.json(summary);
+  } catch (error) {
+    console.error("Error refreshing analyses:", error);
+    res.status(500).json({
+      error: "Failed to refresh analyses",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Products whose rating may be outdated after an ingredient's status changed;
+// ?status=open (default), resolved, dismissed or all
+app.get("/api/admin/impact-reviews", requirePermission("dashboard:view"), async (req, res) => {
+  try {
+    if (!impactReviewService) {
+      return res.status(503).json({ error: "Impact reviews not available" });
+    }
+
+    const status = (req.query.status as string) || "open";
+    if (!["open", "resolved", "dismissed", "all"].includes(status)) {
+      return res.status(400).json({ error: "status must be open, resolved, dismissed or all" });
+    }
+
+    const pagination = parsePagination(req);
+    if (!pagination) {
+      return res.status(400).json({ error: "page and limit must be positive whole numbers" });
+    }
+    const { page, limit, offset } = pagination;
+
+    const { rows, total } = await impactReviewService.list({
+      status: status === "all" ? undefined : (status as ImpactReviewStatus),
+      offset,
+      limit,
+    });
+
+    res.json({
+      data: rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error listing impact reviews:", error);
+    res.status(500).json({ error: "Failed to list impact reviews" });
+  }
+});
+
+// Close a review: { status: "resolved" | "dismissed" }
+app.patch("/api/admin/impact-reviews/:id", requirePermission("products:publish"), audit("impact_review.close"), async (req, res) => {
+  try {
+    if (!impactReviewService) {
+      return res.status(503).json({ error: "Impact reviews not available" });
+    }
+
+    const { status } = req.body;
+    if (status !== "resolved" && status !== "dismissed") {
+      return res.status(400).json({ error: "status must be resolved or dismissed" });
+    }
+
+    const user = (req as any).user;
+    const review = await impactReviewService.close(req.params.id, status, user?.email ?? user?.id ?? null);
+    if (!review) {
+      return res.status(404).json({ error: "Impact review not found" });
+    }
+
+    res.json(review);
+  } catch (error) {
+    console.error("Error updating impact review:", error);
+    res.status(500).json({
+      error: "Failed to update impact review",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// List registered AI providers and whether each one is configured
+app.get("/api/admin/ai-providers", requirePermission("dashboard:view"), (_req, res) => {
+  res.json(
+    listProviders().map((provider) => {
+      const config = resolveProviderConfig(provider.type);
+      return {
+        type: provider.type,
+        label: provider.label,
+        models: provider.models,
+        defaultModel: provider.defaultModel,
+        capabilities: provider.capabilities,
+        configured: config.ok,
+        configError: config.ok ? null : config.error,
+        active: Boolean(aiVettingService) && aiProviderTypes.includes(provider.type),
+        // 1-based position in the failover chain (null when not in use)
+        chainPosition: aiProviderTypes.includes(provider.type) ? aiProviderTypes.indexOf(provider.type) + 1 : null,
+      };
+    }),
+  );
+});
+
+// Imported regulatory lists and their versions (npm run import:regulatory)
+app.get("/api/admin/regulatory-lists", requirePermission("dashboard:view"), (_req, res) => {
+  try {
+    res.json(RegulatoryLists.load().summaries());
+  } catch (error) {
+    console.error("Error loading regulatory lists:", error);
+    res.status(500).json({
+      error: "Failed to load regulatory lists",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Admin API for ingredient alias management
+app.get("/api/admin/ingredient-aliases", requirePermission("dashboard:view"), async (req, res) => {
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+    const canonicalName = typeof req.query.canonicalName === "string" ? req.query.canonicalName : undefined;
+    const aliases = await analysisService.aliasService.listAliases(canonicalName);
+    res.json(aliases);
+  } catch (error) {
+    console.error("Error listing aliases:", error);
+    res.status(500).json({ error: "Failed to list aliases" });
+  }
+});
+
+app.get("/api/admin/ingredient-aliases/resolve/:name", requirePermission("dashboard:view"), async (req, res) => {
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+    const canonicalName = await analysisService.resolveIngredientName(req.params.name);
+    res.json({ name: req.params.name, canonicalName });
+  } catch (error) {
+    console.error("Error resolving alias:", error);
+    res.status(500).json({ error: "Failed to resolve ingredient name" });
+  }
+});
+
+app.post("/api/admin/ingredient-aliases", requirePermission("analyses:manage"), audit("alias.create", {
+  targetId: (req) => req.body?.alias,
+}), async (req, res) => {
+  const { alias, canonicalName, aliasType } = req.body ?? {};
+  if (!alias?.trim() || !canonicalName?.trim()) {
+    return res.status(400).json({ error: "alias and canonicalName are required" });
+  }
+  if (aliasType !== undefined && !["inci", "common", "cas"].includes(aliasType)) {
+    return res.status(400).json({ error: "aliasType must be one of inci, common, cas" });
+  }
+
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+    const created = await analysisService.aliasService.addAlias(alias, canonicalName, aliasType);
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("Error adding alias:", error);
+    res.status(400).json({
+      error: "Unable to add alias",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+app.delete("/api/admin/ingredient-aliases/:alias", requirePermission("analyses:manage"), audit("alias.delete", {
+  targetId: (req) => req.params.alias,
+}), async (req, res) => {
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+    const deleted = await analysisService.aliasService.removeAlias(req.params.alias);
+    if (!deleted) {
+      return res.status(404).json({ error: "Alias not found" });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting alias:", error);
+    res.status(500).json({ error: "Failed to delete alias" });
+  }
+});
+
+app.post("/api/admin/ingredient-analyses/merge", requirePermission("analyses:manage"), audit("analysis.merge", {
+  before: async (req) => aiVettingService?.getAnalysisService()?.getAnalysis(req.body?.targetName ?? ""),
+  targetId: (req) => req.body?.targetName,
+}), async (req, res) => {
+  const { sourceName, targetName } = req.body ?? {};
+  if (!sourceName?.trim() || !targetName?.trim()) {
+    return res.status(400).json({ error: "sourceName and targetName are required" });
+  }
+
+  try {
+    const analysisService = aiVettingService?.getAnalysisService();
+    if (!analysisService) {
+      return res.status(503).json({ error: "Ingredient analysis storage not available" });
+    }
+    const merged = await analysisService.mergeAnalyses(sourceName, targetName);
+    res.json(merged);
+  } catch (error) {
+    console.error("Error merging analyses:", error);
+    res.status(400).json({
+      error: "Unable to merge analyses",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+app.post("/api/vet-ingredients", requirePermission("vetting:run"), async (req, res) => {
+  const payload = req.body as VetIngredientsRequest;
+  if (!payload?.ingredientsText?.trim()) {
+    res.status(400).json({ error: "ingredientsText is required" });
+    return;
+  }
+  if (payload.category !== undefined && !isProductCategory(payload.category)) {
+    res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
+    return;
+  }
+
+  // Entries keep their label concentration and position for the rating
+  const entries = parseIngredientList(payload.ingredientsText);
+
+  if (entries.length === 0) {
+    res.status(400).json({ error: "No valid ingredients found" });
+    return;
+  }
+
+  try {
+    console.log(`🤖 Analyzing ${entries.length} ingredient(s) with ${isOfflineVetting ? "offline fixtures" : "AI"}...`);
+
+    const results = await vettingPipeline.vetIngredients(entries, {}, { category: payload.category });
+    console.log(`✅ Vetting complete for ${results.ingredients.length} ingredient(s)`);
+
+    res.json(results);
+  } catch (error) {
+    console.error("❌ Error in vet-ingredients:", error);
+    res.status(500).json({ 
+      error: "Failed to analyze ingredients",
+      details: error instanceof Error ? error.message : "Unknown error",
+      fallback: "Try again or check API keys configuration"
+    });
+  }
+});
+
+// Same as /api/vet-ingredients, but streams one Server-Sent Event per ingredient
+// as soon as it is analyzed, then a final "summary" event
+app.post("/api/vet-ingredients/stream", requirePermission("vetting:run"), async (req, res) => {
+  const payload = req.body as VetIngredientsRequest;
+  if (!payload?.ingredientsText?.trim()) {
+    res.status(400).json({ error: "ingredientsText is required" });
+    return;
+  }
+  if (payload.category !== undefined && !isProductCategory(payload.category)) {
+    res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
+    return;
+  }
+
+  const entries = parseIngredientList(payload.ingredientsText);
+  if (entries.length === 0) {
+    res.status(400).json({ error: "No valid ingredients found" });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Disable proxy buffering (nginx) so events arrive one by one
+    "X-Accel-Buffering": "no",
   });
 
-  const overallStatus = deriveOverallStatus(ingredients.map((item) => item.status));
-  const summary = buildSummary(overallStatus, ingredients.length);
+  // Listen on the response: the request emits "close" as soon as its body has been read.
+  // A client that disconnects stops the ingredients still waiting to be analyzed.
+  let closed = false;
+  const disconnected = new AbortController();
+  res.on("close", () => {
+    closed = true;
+    disconnected.abort();
+  });
 
-  return { overallStatus, summary, ingredients };
-}
+  const send = <K extends keyof VetStreamEventMap>(event: K, data: VetStreamEventMap[K]) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
 
-function deriveOverallStatus(statuses: SafetyStatus[]): SafetyStatus {
-  if (statuses.includes("banned")) return "banned";
-  if (statuses.includes("caution")) return "caution";
-  return "safe";
-}
+  // Comment lines keep idle connections open while slow providers are rate limited
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(": ping\n\n");
+  }, 15000);
+
+  let failed = 0;
+  try {
+    console.log(`🤖 Streaming analysis of ${entries.length} ingredient(s)...`);
+    const results = await vettingPipeline.vetIngredients(entries, {
+      onIngredient: (ingredient, index) => {
+        send("ingredient", { index, ingredient });
+      },
+      onError: (error, name, index) => {
+        failed++;
+        send("ingredient-error", {
+          index,
+          name,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      },
+    }, { category: payload.category, signal: disconnected.signal });
 
-function buildSummary(status: SafetyStatus, count: number): string {
-  const prefix =
-    status === "safe"
-      ? "Overall assessment: Safe."
-      : status === "caution"
-        ? "Overall assessment: Needs caution."
-        : "Overall assessment: Avoid use.";
+    if (closed) {
+      console.log(`⚠️  Client disconnected; stopped after ${results.ingredients.length} of ${entries.length} ingredient(s)`);
+      return;
+    }
 
-  return `${prefix} ${count} ingredient${count === 1 ? "" : "s"} analyzed with automated vetting. Review individual rationales before publishing.`;
-}
+    send("summary", {
+      overallStatus: results.overallStatus,
+      summary: results.summary,
+      total: entries.length,
+      failed,
+    });
+    console.log(`✅ Streamed ${results.ingredients.length} of ${entries.length} ingredient(s)`);
+  } catch (error) {
+    console.error("❌ Error in vet-ingredients stream:", error);
+    send("error", {
+      error: "Failed to analyze ingredients",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+});
 
-function buildRationale(name: string, status: SafetyStatus): string {
-  switch (status) {
-    case "safe":
-      return `${name} is widely recognized as low-risk in topical consumer products.`;
-    case "caution":
-      return `${name} has mixed safety data. Consider concentration and product context before final approval.`;
-    case "banned":
-      return `${name} is flagged for exclusion due to regulatory or scientific concerns.`;
-    default:
-      return "No rationale available.";
+// Start a background vetting job; its creator polls GET /api/vet-jobs/:id for progress
+app.post("/api/vet-jobs", requirePermission("vetting:run"), async (req, res) => {
+  const payload = req.body as VetIngredientsRequest;
+  if (!payload?.ingredientsText?.trim()) {
+    res.status(400).json({ error: "ingredientsText is required" });
+    return;
+  }
+  if (payload.category !== undefined && !isProductCategory(payload.category)) {
+    res.status(400).json({ error: `category must be one of ${PRODUCT_CATEGORIES.join(", ")}` });
+    return;
   }
-}
 
-// buildSourceUrl function moved to server/utils/ewgUrlBuilder.ts
-// This function is kept for backward compatibility but is no longer used
-// Kept here temporarily in case of any direct references
-function buildSourceUrl(status: SafetyStatus): string {
-  switch (status) {
-    case "safe":
-      return "https://www.ewg.org/skindeep/";
-    case "caution":
-      return "https://www.ewg.org/skindeep/";
-    case "banned":
-      return "https://www.ewg.org/skindeep/";
-    default:
-      return "https://www.ewg.org/skindeep/";
+  const entries = parseIngredientList(payload.ingredientsText);
+  if (entries.length === 0) {
+    res.status(400).json({ error: "No valid ingredients found" });
+    return;
   }
-}
 
-function cryptoRandomId(): string {
-  return randomUUID();
-}
+  try {
+    const job = await vettingJobService.createJob(entries, payload.category, (req as any).user?.id ?? null);
+    res.status(202).json(job);
+  } catch (error) {
+    console.error("❌ Error creating vetting job:", error);
+    res.status(500).json({
+      error: "Failed to start vetting job",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+app.get("/api/vet-jobs/:id", requirePermission("vetting:run"), async (req, res) => {
+  try {
+    // Someone else's job is reported as missing
+    const job = await vettingJobService.getJob(req.params.id, (req as any).user?.id ?? null);
+    if (!job) {
+      res.status(404).json({ error: "Vetting job not found" });
+      return;
+    }
+    res.json(job);
+  } catch (error) {
+    console.error("❌ Error fetching vetting job:", error);
+    res.status(500).json({
+      error: "Failed to fetch vetting job",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+const assetsDirectory = path.resolve(
+  __dirname,
+  "../attached_assets/generated_images",
+);
+app.use(
+  "/generated_images",
+  express.static(assetsDirectory, {
+    maxAge: "7d",
+  }),
+);
+
+const publicDir = path.resolve(__dirname, "../dist/public");
+app.use(express.static(publicDir, { maxAge: "7d" }));
+
+app.get("*", (_req, res) => {
+  const indexPath = path.join(publicDir, "index.html");
+  res.sendFile(indexPath, (err) => {
+    if (err) {
+      res.status(200).send("<!doctype html><title>FirstPledge</title><div id=\"root\"></div>");
+    }
+  });
+});
+
+// Global error handler middleware (must be last, before export)
+app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  console.error("Unhandled error:", err);
+  res.status(500).json({
+    error: "Internal server error",
+    message: err.message || "An unexpected error occurred",
+    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+  });
+});
+
+// 404 handler for undefined routes
+app.use((req: express.Request, res: express.Response) => {
+  res.status(404).json({
+    error: "Not found",
+    path: req.path,
+    method: req.method
+  });
+});
 
+// Export app for Vercel serverless function
+export default app;
+
+// Only listen on port when running locally (not in Vercel environment)
+if (process.env.VERCEL !== "1") {
+  app.listen(PORT, () => {
+    console.log(`✅ API server listening on http://localhost:${PORT}`);
+  });
+} else {
+  console.log("✅ Running in Vercel serverless environment");
+}
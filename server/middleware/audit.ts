@@ -0,0 +1,88 @@
+/**
+ * Audit Middleware
+ * Wraps an administrative route so that each successful request is written
+ * to the audit log with the actor, the target record and the fields that
+ * changed. Place it after requirePermission, which sets req.user.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { diffRecords, getAuditLogService } from '../services/auditLogService';
+
+export interface AuditOptions {
+  // Load the target as it is before the request, for the before side of the diff
+  before?: (req: Request) => Promise<unknown>;
+  // The record after the request, from the JSON response body (default: the body itself)
+  after?: (body: any) => unknown;
+  // Default: req.params.id, else the id of the record after the request
+  targetId?: (req: Request, after: any) => string | null | undefined;
+}
+
+/**
+ * Record `action` (e.g. "product.update") for requests that succeed.
+ * Failed requests change nothing, so they are not recorded.
+ */
+export function audit(action: string, options: AuditOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const auditLog = getAuditLogService();
+    if (!auditLog) {
+      return next();
+    }
+
+    let before: unknown = null;
+    if (options.before) {
+      try {
+        before = await options.before(req);
+      } catch (error) {
+        // A missing before state should not block the action itself
+        console.error(`Error loading audit state for ${action}:`, error);
+      }
+    }
+
+    // The event is written before the response goes out: on Vercel the
+    // function may be frozen as soon as the response is sent, dropping
+    // writes still in flight
+    let responseBody: unknown;
+    let recorded = false;
+    const json = res.json.bind(res);
+    const send = res.send.bind(res);
+    res.json = (body?: any) => {
+      responseBody = body;
+      // Calls res.send below with the serialized body
+      return json(body);
+    };
+    res.send = (body?: any) => {
+      if (recorded || res.statusCode >= 400) {
+        return send(body);
+      }
+      recorded = true;
+
+      const after = responseBody === undefined
+        ? null
+        : options.after ? options.after(responseBody) : responseBody;
+      const user = (req as any).user;
+      const targetId = options.targetId
+        ? options.targetId(req, after)
+        : req.params.id ?? (after as any)?.id;
+
+      auditLog.record({
+        actorId: user?.id ?? null,
+        actorEmail: user?.email ?? null,
+        actorRole: user?.role ?? null,
+        action,
+        targetType: action.split('.')[0],
+        targetId: targetId ?? null,
+        changes: diffRecords(before, after),
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        statusCode: res.statusCode,
+        ip: req.ip ?? null,
+      }).catch((error) => {
+        // The action itself succeeded, so still answer the request
+        console.error(`Error recording audit event ${action}:`, error);
+      }).finally(() => send(body));
+      return res;
+    };
+
+    next();
+  };
+}
@@ -1,6 +1,7 @@
 /**
  * Authentication Middleware
- * Protects admin routes using Supabase JWT tokens or API key fallback
+ * Protects admin routes using Supabase JWT tokens or API key fallback, and
+ * checks the signed-in user's role against the permission matrix
  */
 
 import dotenv from 'dotenv';
@@ -8,6 +9,8 @@ dotenv.config();
 
 import { Request, Response, NextFunction } from 'express';
 import { createClient } from '@supabase/supabase-js';
+import { getPermissions, getScopePermissions, type Permission } from '../../shared/permissions';
+import { API_KEY_PREFIX, getApiKeyService } from '../services/apiKeyService';
 
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
@@ -31,9 +34,25 @@ if (!supabaseAnonKey) {
 
 /**
  * Middleware to require authentication for admin routes
- * Supports both Supabase JWT tokens and API key fallback
+ * Supports Supabase JWT tokens, scoped API keys from the api_keys table and
+ * the global API key fallback. Any role with at least one permission is let
+ * through; use requirePermission to check what the user may do.
+ * Sets req.user = { id, email?, role, permissions, apiKeyId? }.
  */
-export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  return authenticate(req, res, next, false);
+}
+
+/**
+ * Like requireAuth, but also lets through signed-in consumer accounts
+ * ('user' role, or no user_profiles row yet) that have no permissions,
+ * for routes about the user's own account
+ */
+export function requireAccount(req: Request, res: Response, next: NextFunction) {
+  return authenticate(req, res, next, true);
+}
+
+async function authenticate(req: Request, res: Response, next: NextFunction, allowWithoutRole: boolean) {
   // In development mode, allow requests without auth if no keys are configured
   const isDevelopment = process.env.NODE_ENV === 'development';
   // Check if we have proper auth configuration
@@ -43,7 +62,7 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
   
   if (isDevelopment && !hasProperAuthConfig && !hasApiKeyFallback) {
     console.warn("⚠️  Development mode: Admin routes are unprotected (no auth keys configured)");
-    (req as any).user = { id: 'dev', role: 'admin' };
+    (req as any).user = { id: 'dev', role: 'admin', permissions: getPermissions('admin') };
     return next();
   }
   
@@ -73,6 +92,31 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
   console.log(`   Token length: ${token?.length || 0}`);
   console.log(`   Token preview: ${token ? token.substring(0, 20) + '...' : 'none'}`);
 
+  // Scoped API keys are recognizable by their prefix, so they skip JWT verification
+  if (token.startsWith(API_KEY_PREFIX)) {
+    try {
+      const apiKeyService = getApiKeyService();
+      const apiKey = apiKeyService ? await apiKeyService.verify(token) : null;
+      if (apiKey) {
+        console.log(`   ✅ API key "${apiKey.name}" (${apiKey.scopes.join(", ")})`);
+        (req as any).user = {
+          id: `api-key:${apiKey.id}`,
+          role: 'api_key',
+          permissions: getScopePermissions(apiKey.scopes),
+          apiKeyId: apiKey.id
+        };
+        return next();
+      }
+      console.error("   ❌ API key is unknown, revoked or expired");
+    } catch (error: any) {
+      console.error("   ❌ API key check failed:", error?.message);
+    }
+    return res.status(403).json({
+      error: "Forbidden",
+      message: "Invalid, revoked or expired API key."
+    });
+  }
+
   // Try Supabase JWT verification first
   if (supabaseClient) {
     try {
@@ -91,29 +135,39 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
           console.log("   Checking user profile...");
           const { data: profile, error: profileError } = await adminClient
             .from("user_profiles")
-            .select("role")
+            .select("role, deactivated_at")
             .eq("id", user.id)
             .single();
 
-          if (profileError) {
+          // PGRST116: no row; consumers get one when they first save their profile
+          const isConsumerWithoutProfile = allowWithoutRole && profileError?.code === "PGRST116";
+          if (profileError && !isConsumerWithoutProfile) {
             console.error("   ❌ Error fetching user profile:", profileError);
-            // If profile doesn't exist, treat as non-admin
+            // If profile doesn't exist, treat as a user without access
             return res.status(403).json({
               error: "Forbidden",
-              message: "Admin role required. Please contact an administrator.",
+              message: "No role assigned. Please contact an administrator.",
               details: profileError.message
             });
           }
 
+          if (profile?.deactivated_at) {
+            console.error("   ❌ User account is deactivated");
+            return res.status(403).json({
+              error: "Forbidden",
+              message: "This account has been deactivated."
+            });
+          }
+
           const role = profile?.role || 'user';
           console.log(`   User role: ${role}`);
           
-          // Only allow admin users
-          if (role !== 'admin') {
-            console.error(`   ❌ User does not have admin role (current: ${role})`);
+          // Signed-up accounts ('user') have no permissions until given a role
+          if (getPermissions(role).length === 0 && !allowWithoutRole) {
+            console.error(`   ❌ User role has no access (current: ${role})`);
             return res.status(403).json({
               error: "Forbidden",
-              message: `Admin role required. Current role: ${role}`
+              message: `An editor, reviewer or admin role is required. Current role: ${role}`
             });
           }
 
@@ -122,7 +176,8 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
           (req as any).user = {
             id: user.id,
             email: user.email,
-            role: role
+            role: role,
+            permissions: getPermissions(role)
           };
           return next();
         } catch (profileErr: any) {
@@ -154,7 +209,8 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
       console.log("   ✅ API key authentication successful");
       (req as any).user = {
         id: 'admin',
-        role: 'admin'
+        role: 'admin',
+        permissions: getPermissions('admin')
       };
       return next();
     } else {
@@ -179,46 +235,33 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
 }
 
 /**
- * Optional auth - doesn't fail if not authenticated, but attaches user if valid
+ * Middleware to require authentication and every one of the given permissions
  */
-export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader) {
-    return next();
-  }
-
-  const token = authHeader.startsWith('Bearer ') 
-    ? authHeader.substring(7) 
-    : authHeader;
-
-  // Try Supabase JWT verification
-  if (supabaseClient) {
-    try {
-      const { data: { user }, error } = await supabaseClient.auth.getUser(token);
-      if (!error && user) {
-        (req as any).user = {
-          id: user.id,
-          email: user.email,
-          role: 'admin'
-        };
-        return next();
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) =>
+    requireAuth(req, res, () => {
+      const role = (req as any).user?.role;
+      const missing = permissions.filter((permission) => !userHasPermission(req, permission));
+      if (missing.length > 0) {
+        console.error(`   ❌ ${role} lacks permission: ${missing.join(", ")}`);
+        return res.status(403).json({
+          error: "Forbidden",
+          message: role === 'api_key'
+            ? "This API key's scopes do not allow this action."
+            : `Your role (${role}) does not allow this action.`,
+          missingPermissions: missing
+        });
       }
-    } catch (error) {
-      // Continue to API key check
-    }
-  }
-
-  // Fallback to API key
-  const validApiKey = ADMIN_API_KEY || supabaseServiceRoleKey;
-  if (validApiKey && token === validApiKey) {
-    (req as any).user = {
-      id: 'admin',
-      role: 'admin'
-    };
-  }
+      next();
+    });
+}
 
-  next();
+/**
+ * Whether the user set by requireAuth holds the permission
+ */
+export function userHasPermission(req: Request, permission: Permission): boolean {
+  const permissions: Permission[] = (req as any).user?.permissions ?? [];
+  return permissions.includes(permission);
 }
 
 /**
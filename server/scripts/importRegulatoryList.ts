@@ -0,0 +1,86 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import {
+  getListFilePath,
+  parseRegulatoryCsv,
+  REGULATORY_LISTS,
+  type RegulatoryListFile,
+} from "../services/regulatoryLists";
+
+/**
+ * Import a regulatory list from CSV, replacing the stored version of the list
+ * in REGULATORY_LISTS_DIR (server/data/regulatory), and print what changed.
+ *
+ *   npm run import:regulatory -- eu-annex-ii annex-ii.csv
+ *   npm run import:regulatory -- ca-prop-65 prop65.csv --version 2025-01-03
+ *
+ * The version defaults to today's date. See parseRegulatoryCsv for the columns.
+ */
+function parseArgs(): { listId: string; csvPath: string; version: string } {
+  const args = process.argv.slice(2);
+  const versionIndex = args.indexOf("--version");
+  let version = new Date().toISOString().slice(0, 10);
+  if (versionIndex !== -1) {
+    version = args[versionIndex + 1];
+    if (!version) {
+      console.error("❌ --version needs a value");
+      process.exit(1);
+    }
+    args.splice(versionIndex, 2);
+  }
+
+  const [listId, csvPath] = args;
+  if (!listId || !csvPath) {
+    console.error("❌ Usage: npm run import:regulatory -- <list id> <file.csv> [--version <version>]");
+    process.exit(1);
+  }
+  if (!REGULATORY_LISTS.some((list) => list.id === listId)) {
+    console.error(`❌ Unknown list "${listId}". Lists: ${REGULATORY_LISTS.map((list) => list.id).join(", ")}`);
+    process.exit(1);
+  }
+  return { listId, csvPath, version };
+}
+
+function importRegulatoryList() {
+  const { listId, csvPath, version } = parseArgs();
+  const csv = readFileSync(csvPath, "utf8");
+  const entries = parseRegulatoryCsv(csv).sort((a, b) => a.name.localeCompare(b.name));
+
+  const outputPath = getListFilePath(listId);
+  const previous = existsSync(outputPath)
+    ? (JSON.parse(readFileSync(outputPath, "utf8")) as RegulatoryListFile)
+    : null;
+
+  const list: RegulatoryListFile = {
+    id: listId,
+    version,
+    importedAt: new Date().toISOString(),
+    sourceHash: createHash("sha256").update(csv).digest("hex"),
+    entries,
+  };
+
+  mkdirSync(path.dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, `${JSON.stringify(list, null, 2)}\n`);
+  console.log(`✅ Imported ${entries.length} entries into ${listId} (version ${version}) at ${outputPath}`);
+
+  if (previous) {
+    const previousNames = new Set(previous.entries.map((entry) => entry.name));
+    const names = new Set(entries.map((entry) => entry.name));
+    const added = entries.filter((entry) => !previousNames.has(entry.name));
+    const removed = previous.entries.filter((entry) => !names.has(entry.name));
+    console.log(`   Replaced version ${previous.version}: ${added.length} added, ${removed.length} removed`);
+    added.forEach((entry) => console.log(`   + ${entry.name}`));
+    removed.forEach((entry) => console.log(`   - ${entry.name}`));
+  }
+}
+
+try {
+  importRegulatoryList();
+} catch (error) {
+  console.error("❌ Regulatory list import failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,57 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { createProductStorage, type ProductStorage } from "../storage";
+import { AnalysisRefreshService, getRefreshBudget } from "../services/analysisRefreshService";
+import { ImpactReviewService } from "../services/impactReviewService";
+import { createAIVettingService, resolveVettingSetup } from "../services/vettingSetup";
+
+/**
+ * Re-vet stored ingredient analyses past INGREDIENT_REFRESH_DAYS, using the
+ * same providers and analysis storage as the server, and print the summary.
+ * Status changes queue impact reviews for the affected products.
+ *
+ *   npm run refresh:analyses
+ *   npm run refresh:analyses -- --budget 50
+ *
+ * The budget defaults to ANALYSIS_REFRESH_BUDGET (20).
+ */
+function parseBudget(): number {
+  const index = process.argv.indexOf("--budget");
+  if (index === -1) {
+    return getRefreshBudget();
+  }
+
+  const budget = Number(process.argv[index + 1]);
+  if (!Number.isInteger(budget) || budget < 1) {
+    console.error("❌ --budget must be a positive integer");
+    process.exit(1);
+  }
+  return budget;
+}
+
+async function refreshAnalyses() {
+  const budget = parseBudget();
+  const aiVettingService = createAIVettingService(resolveVettingSetup());
+  if (!aiVettingService) {
+    process.exit(1);
+  }
+
+  const analysisService = aiVettingService.getAnalysisService();
+  if (analysisService) {
+    let productStorage: ProductStorage | null = null;
+    ImpactReviewService.attach(analysisService, () => (productStorage ??= createProductStorage()));
+  }
+
+  const summary = await new AnalysisRefreshService(aiVettingService).run(budget);
+  console.log(JSON.stringify(summary, null, 2));
+
+  if (summary.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+refreshAnalyses().catch((error) => {
+  console.error("❌ Analysis refresh failed:", error);
+  process.exit(1);
+});
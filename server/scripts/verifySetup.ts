@@ -34,7 +34,7 @@ async function verifySetup() {
 
   // Check 1: Tables exist
   console.log("1️⃣  Checking tables exist...");
-  const requiredTables = ["products", "ingredients", "ingredient_analyses", "user_profiles"];
+  const requiredTables = ["products", "ingredients", "ingredient_analyses", "ingredient_aliases", "vetting_jobs", "product_revisions", "ingredient_refreshes", "impact_reviews", "api_keys", "audit_events", "user_profiles"];
   
   for (const tableName of requiredTables) {
     const { data, error } = await supabase
@@ -50,8 +50,22 @@ async function verifySetup() {
     }
   }
 
-  // Check 2: Admin users exist
-  console.log("\n2️⃣  Checking admin users...");
+  // Check 2: Product write functions exist (a nonexistent id is a no-op that returns false)
+  console.log("\n2️⃣  Checking product write functions...");
+  const { error: rpcError } = await supabase.rpc("update_product", {
+    p_product_id: "00000000-0000-0000-0000-000000000000",
+    p_changes: {},
+  });
+
+  if (rpcError) {
+    console.error(`   ❌ Product write functions missing (run 007_product_write_functions.sql): ${rpcError.message}`);
+    allChecksPassed = false;
+  } else {
+    console.log("   ✅ Product write functions exist");
+  }
+
+  // Check 3: Admin users exist
+  console.log("\n3️⃣  Checking admin users...");
   const { data: adminUsers, error: adminError } = await supabase
     .from("user_profiles")
     .select("id, email, role")
@@ -70,8 +84,8 @@ async function verifySetup() {
     });
   }
 
-  // Check 3: Products count
-  console.log("\n3️⃣  Checking products...");
+  // Check 4: Products count
+  console.log("\n4️⃣  Checking products...");
   const { count: productCount, error: productError } = await supabase
     .from("products")
     .select("*", { count: "exact", head: true });
@@ -86,8 +100,8 @@ async function verifySetup() {
     }
   }
 
-  // Check 4: Environment variables
-  console.log("\n4️⃣  Checking environment variables...");
+  // Check 5: Environment variables
+  console.log("\n5️⃣  Checking environment variables...");
   const requiredEnvVars = {
     SUPABASE_URL: process.env.SUPABASE_URL,
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY,
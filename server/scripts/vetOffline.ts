@@ -0,0 +1,57 @@
+import { parseIngredientList } from "../../shared/ingredientParser";
+import { AIVettingService } from "../services/aiVettingService";
+import { FixtureEWGService } from "../services/offlineFixtures";
+import { VettingPipeline } from "../services/vettingPipeline";
+import { VettingScheduler } from "../services/vettingScheduler";
+
+/**
+ * Vet an ingredient list through the real pipeline using only the offline
+ * fixtures (no API keys, no network) and print the result as JSON.
+ *
+ *   npm run vet:offline -- "Water (Aqua), Glycerin, Propylparaben"
+ *   echo "Water, Fragrance" | npm run vet:offline
+ *
+ * OFFLINE_VETTING_FIXTURES points at a different fixture file.
+ */
+async function readInput(): Promise<string> {
+  const fromArgs = process.argv.slice(2).join(" ");
+  if (fromArgs.trim() || process.stdin.isTTY) {
+    return fromArgs;
+  }
+
+  let text = "";
+  for await (const chunk of process.stdin) {
+    text += chunk;
+  }
+  return text;
+}
+
+async function vetOffline() {
+  const ingredientsText = await readInput();
+  const entries = parseIngredientList(ingredientsText);
+  if (entries.length === 0) {
+    console.error("❌ Pass an ingredient list as an argument or on stdin");
+    process.exit(1);
+  }
+
+  const aiVettingService = new AIVettingService(
+    ["offline"],
+    {},
+    undefined,
+    undefined,
+    false,
+    VettingScheduler.fromEnv(),
+    new FixtureEWGService(),
+  );
+  const pipeline = new VettingPipeline(aiVettingService, null);
+
+  const result = await pipeline.vetIngredients(entries);
+  // Ingredient ids and timestamps are generated per run; leave them out so the output can be diffed
+  const ingredients = result.ingredients.map(({ id, createdAt, updatedAt, ...ingredient }) => ingredient);
+  console.log(JSON.stringify({ ...result, ingredients }, null, 2));
+}
+
+vetOffline().catch((error) => {
+  console.error("❌ Offline vetting failed:", error);
+  process.exit(1);
+});
@@ -1,21 +1,31 @@
 /**
  * AI Provider Interface
- * Supports multiple AI providers: Gemini, OpenAI, Anthropic, Groq
+ * Supports multiple AI providers: Gemini, OpenAI, Anthropic, Groq, a local
+ * OpenAI-compatible endpoint, and deterministic offline fixtures. Providers register themselves in providers/registry.ts.
  */
 
+import type { IngredientContext } from "@shared/types";
+import type { IngredientAnalysisResponse } from "./ingredientPrompt";
+import type { ReferenceData } from "./referenceSources";
+import type { VettingProfile } from "./vettingProfiles";
+
 export interface AIProvider {
+  // Resolves to a schema-validated analysis (see ingredientPrompt.ts).
+  // `context` is the ingredient's concentration and list position in the product being vetted;
+  // `profile` is the vetting profile of the product's category.
   analyzeIngredient(
     ingredientName: string,
-    ewgData: any,
-    researchSources: any[]
-  ): Promise<{
-    status: "safe" | "caution" | "banned";
-    rationale: string;
-    description: string;
-    edgeCases: string;
-    confidence: number;
-  }>;
+    referenceData: ReferenceData | null,
+    researchSources: any[],
+    context: IngredientContext | null | undefined,
+    profile: VettingProfile
+  ): Promise<IngredientAnalysisResponse>;
 }
 
-export type AIProviderType = "gemini" | "openai" | "anthropic" | "groq" | "huggingface";
+export type AIProviderType = "gemini" | "openai" | "anthropic" | "groq" | "local" | "offline";
 
+export interface AIProviderCapabilities {
+  jsonMode: boolean; // Provider can be forced to return a JSON object
+  runsLocally: boolean; // No data leaves the machine; works offline
+  requiresApiKey: boolean;
+}
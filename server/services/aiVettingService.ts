@@ -1,11 +1,22 @@
-import { SafetyStatus } from "@shared/types";
-import { EWGService, EWGIngredientData } from "./ewgService";
+import { IngredientContext, RegulatoryMatch, SafetyStatus } from "@shared/types";
+import {
+  emptyAttributes,
+  tagsFromAttributes,
+  withKnownAttributes,
+  type IngredientAttributes,
+} from "@shared/ingredientAttributes";
+import { findKnownTags, mergeTags, type IngredientTag } from "@shared/ingredientTags";
+import { DEFAULT_PRODUCT_CATEGORY, type ProductCategory } from "@shared/productCategories";
+import type { EWGSource } from "./ewgService";
+import type { ReferenceData } from "./referenceSources";
 import { ResearchService, ResearchResult } from "./researchService";
 import { IngredientAnalysisService } from "./ingredientAnalysisService";
-import type { AIProvider } from "./aiProvider";
-import { GeminiProvider } from "./providers/geminiProvider";
-import { OpenAIProvider } from "./providers/openaiProvider";
-import { GroqProvider } from "./providers/groqProvider";
+import { createAnalysisStore } from "../storage";
+import type { AIProviderType } from "./aiProvider";
+import { ProviderChain, type ConsensusDetails, type ProviderChainOptions } from "./providerChain";
+import { DailyQuotaExceededError, VettingScheduler } from "./vettingScheduler";
+import { createVettingProfiles, type VettingProfile } from "./vettingProfiles";
+import { applyRegulatoryStatus, RegulatoryLists } from "./regulatoryLists";
 
 export interface IngredientAnalysis {
   name: string;
@@ -18,50 +29,64 @@ export interface IngredientAnalysis {
   ewgScore?: number | null;
   researchSources?: ResearchResult[];
   suggestedMatches?: string[]; // For misspellings
+  provider?: AIProviderType | null; // Provider whose analysis was used
+  consensus?: ConsensusDetails | null; // Votes and failures across providers
+  needsReview?: boolean; // Providers disagreed or all failed
+  regulatoryMatches?: RegulatoryMatch[]; // Regulatory list entries that set or annotate the status
+  tags?: IngredientTag[]; // Allergen, fragrance, comedogenic, animal-derived
+  attributes?: IngredientAttributes; // Function, origin, allergen, comedogenic rating, pregnancy caution
+  // Set on analyses read from storage, for refresh checking
+  analysisVersion?: number; // PROMPT_VERSION the analysis was produced with
+  lastAnalyzedAt?: string;
+}
+
+export interface IngredientToAnalyze {
+  name: string;
+  // Concentration and list position in the product being vetted
+  context?: IngredientContext | null;
+}
+
+export interface AnalysisHandlers {
+  onResult?: (analysis: IngredientAnalysis, index: number) => void | Promise<void>;
+  // When set, a failing ingredient is reported here instead of failing the whole batch
+  onError?: (error: unknown, ingredientName: string, index: number) => void | Promise<void>;
 }
 
 export class AIVettingService {
-  private aiProvider: AIProvider | null = null;
-  private ewgService: EWGService;
+  private providerChain: ProviderChain;
+  private profiles: Record<ProductCategory, VettingProfile>;
+  private regulatoryLists: RegulatoryLists;
   private researchService?: ResearchService;
   private analysisService?: IngredientAnalysisService;
-  private providerType: string;
+  private scheduler: VettingScheduler;
 
+  /**
+   * `providerTypes` is an ordered failover chain (or the consensus voters).
+   * Each provider's config is validated against its registered schema; providers
+   * without an entry in `providerOptions.configs` read theirs from the environment.
+   * `ewgSource` is the skincare profile's reference source and defaults to the live
+   * EWG Skin Deep site (FixtureEWGService for offline runs).
+   */
   constructor(
-    providerType: "gemini" | "openai" | "groq" = "gemini",
-    apiKey?: string,
+    providerTypes: AIProviderType | AIProviderType[] = "groq",
+    providerOptions: ProviderChainOptions = {},
     googleApiKey?: string,
     googleCxId?: string,
-    useAnalysisStorage: boolean = true
+    useAnalysisStorage: boolean = true,
+    scheduler: VettingScheduler = VettingScheduler.fromEnv(),
+    ewgSource?: EWGSource
   ) {
-    this.providerType = providerType;
+    this.scheduler = scheduler;
     
-    // Initialize AI provider based on type
-    if (apiKey) {
-      try {
-        switch (providerType) {
-          case "gemini":
-            this.aiProvider = new GeminiProvider(apiKey);
-            break;
-          case "openai":
-            this.aiProvider = new OpenAIProvider(apiKey);
-            break;
-          case "groq":
-            this.aiProvider = new GroqProvider(apiKey);
-            break;
-          default:
-            console.warn(`Unknown provider type: ${providerType}, using Gemini`);
-            if (apiKey) this.aiProvider = new GeminiProvider(apiKey);
-        }
-        console.log(`✅ AI Provider initialized: ${providerType}`);
-      } catch (error) {
-        console.error(`❌ Failed to initialize ${providerType} provider:`, error);
-      }
-    } else {
-      console.warn(`⚠️  No API key provided for ${providerType}. AI analysis disabled.`);
+    // Initialize AI providers from the registry
+    const types = Array.isArray(providerTypes) ? providerTypes : [providerTypes];
+    this.providerChain = new ProviderChain(types, scheduler, providerOptions);
+    if (this.providerChain.size === 0) {
+      console.warn(`⚠️  No AI provider could be initialized (${types.join(", ")}). AI analysis disabled.`);
     }
     
-    this.ewgService = new EWGService();
+    this.profiles = createVettingProfiles({ ewgSource });
+    this.regulatoryLists = RegulatoryLists.load();
     if (googleApiKey && googleCxId) {
       this.researchService = new ResearchService(googleApiKey, googleCxId);
     }
@@ -69,14 +94,13 @@ export class AIVettingService {
     // Initialize ingredient analysis storage if enabled
     if (useAnalysisStorage) {
       try {
-        const supabaseUrl = process.env.SUPABASE_URL;
-        const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+        const analysisStore = createAnalysisStore();
         
-        if (!supabaseUrl || !supabaseServiceRoleKey) {
+        if (!analysisStore) {
           console.warn("⚠️  Ingredient analysis storage disabled: Supabase credentials not configured");
         } else {
           const refreshDays = parseInt(process.env.INGREDIENT_REFRESH_DAYS || "30", 10);
-          this.analysisService = new IngredientAnalysisService(refreshDays);
+          this.analysisService = new IngredientAnalysisService(analysisStore, refreshDays);
           console.log("✅ Ingredient analysis storage initialized");
         }
       } catch (error) {
@@ -85,72 +109,136 @@ export class AIVettingService {
     }
   }
 
-  async analyzeIngredient(ingredientName: string): Promise<IngredientAnalysis> {
+  /**
+   * Stored analyses, when analysis storage is enabled
+   */
+  getAnalysisService(): IngredientAnalysisService | undefined {
+    return this.analysisService;
+  }
+
+  /**
+   * The prompt, reference source and thresholds used for a product category
+   */
+  getProfile(category: ProductCategory = DEFAULT_PRODUCT_CATEGORY): VettingProfile {
+    return this.profiles[category];
+  }
+
+  async analyzeIngredient(
+    ingredientName: string,
+    context?: IngredientContext | null,
+    category: ProductCategory = DEFAULT_PRODUCT_CATEGORY
+  ): Promise<IngredientAnalysis> {
     // Step 0: Check permanent storage first
-    if (this.analysisService) {
-      const storedAnalysis = await this.analysisService.getAnalysis(ingredientName);
+    const storedAnalysis = await this.getFreshStoredAnalysis(ingredientName, category);
+    if (storedAnalysis) {
+      return this.withRegulatoryMatches(storedAnalysis, category);
+    }
+
+    return this.runAnalysis(ingredientName, context, this.getProfile(category));
+  }
+
+  /**
+   * Return the category's stored analysis if it exists and is still within the refresh window
+   */
+  private async getFreshStoredAnalysis(ingredientName: string, category: ProductCategory): Promise<IngredientAnalysis | null> {
+    if (!this.analysisService) {
+      return null;
+    }
+
+    try {
+      const storedAnalysis = await this.analysisService.getAnalysis(ingredientName, category);
       if (storedAnalysis && !this.analysisService.shouldRefreshAnalysis(storedAnalysis)) {
         console.debug(`Using stored analysis for "${ingredientName}"`);
-        return storedAnalysis;
+        // Keep the name as written on the label; the stored row uses the canonical name
+        return { ...storedAnalysis, name: ingredientName };
       }
+    } catch (error) {
+      console.error(`Failed to read stored analysis for "${ingredientName}":`, error);
     }
 
-    // Step 1: Check EWG first
-    const ewgData = await this.ewgService.searchIngredient(ingredientName);
+    return null;
+  }
+
+  private async runAnalysis(
+    ingredientName: string,
+    context: IngredientContext | null | undefined,
+    profile: VettingProfile
+  ): Promise<IngredientAnalysis> {
+    // Step 1: Check the profile's reference source first (EWG Skin Deep for skincare)
+    const referenceData = await profile.referenceSource.lookup(ingredientName);
     
-    // If EWG has a score, use it to determine status
-    let status: SafetyStatus | null = null;
-    if (ewgData.score !== null) {
-      status = EWGService.getStatusFromScore(ewgData.score) || null;
-    }
+    // If the source rates the ingredient, use it to determine status
+    const status: SafetyStatus | null = referenceData.status;
 
-    // Step 2: Only search research sources if EWG data is unavailable (not found or no score)
-    // This significantly reduces Google API calls - only used as fallback when EWG fails
+    // Step 2: Only search research sources if the reference source has no rating
+    // This significantly reduces Google API calls - only used as fallback when the source fails
     let researchSources: ResearchResult[] = [];
-    const ewgDataUnavailable = !ewgData.found || ewgData.score === null;
     
-    if (ewgDataUnavailable && this.researchService) {
-      console.debug(`EWG data unavailable for "${ingredientName}", searching research sources...`);
-      researchSources = await this.researchService.searchIngredient(ingredientName);
-    } else if (ewgData.found && ewgData.score !== null) {
-      console.debug(`EWG data available for "${ingredientName}" (score: ${ewgData.score}), skipping research search to save API quota.`);
-    }
-
-    // Step 3: Generate AI analysis (provider handles retries internally)
-    let aiAnalysis: Partial<IngredientAnalysis> = {};
-    if (this.aiProvider) {
+    if (!status && this.researchService) {
+      console.debug(`${referenceData.source} data unavailable for "${ingredientName}", searching research sources...`);
+      const researchService = this.researchService;
+      // One research search issues three Google CSE queries (Healthline, PubMed, FDA)
       try {
-        aiAnalysis = await this.aiProvider.analyzeIngredient(
-          ingredientName,
-          ewgData,
-          researchSources
+        researchSources = await this.scheduler.schedule(
+          "google-cse",
+          () => researchService.searchIngredient(ingredientName),
+          3
         );
       } catch (error) {
-        console.error(`Error analyzing ingredient ${ingredientName} with ${this.providerType}:`, error);
+        // Research is optional; the AI analysis runs without it until the quota refills
+        if (!(error instanceof DailyQuotaExceededError)) throw error;
+        console.warn(`⚠️  Google CSE daily quota exhausted, analyzing "${ingredientName}" without research sources`);
       }
+    } else if (status) {
+      console.debug(`${referenceData.source} data available for "${ingredientName}" (${referenceData.designation}), skipping research search to save API quota.`);
     }
 
-    // Step 4: Combine EWG data with AI analysis
-    // Prefer EWG status if available, otherwise use AI status
+    // Step 3: Generate AI analysis (failover chain or consensus vote across providers)
+    const chainResult = await this.providerChain.analyze(
+      ingredientName,
+      referenceData,
+      researchSources,
+      toAnalysisContext(context),
+      profile
+    );
+    const aiAnalysis = chainResult.analysis;
+
+    // Step 4: Combine reference data with AI analysis
+    // Prefer the reference status if available, otherwise use AI status
     const finalStatus = status || aiAnalysis.status || "caution";
 
-    const result: IngredientAnalysis = {
+    // The AI's tags and attributes, completed from the keyword lists and each other
+    const knownTags = mergeTags(aiAnalysis.tags, findKnownTags(ingredientName));
+    const attributes = withKnownAttributes(aiAnalysis.attributes ?? emptyAttributes(), ingredientName, knownTags);
+
+    const analysis: IngredientAnalysis = {
       name: ingredientName,
       status: finalStatus,
-      rationale: aiAnalysis.rationale || this.buildRationaleFromEWG(ewgData, finalStatus),
-      description: aiAnalysis.description || this.buildDefaultDescription(ingredientName, finalStatus),
+      rationale: aiAnalysis.rationale || this.buildRationaleFromReference(referenceData),
+      description: aiAnalysis.description || this.buildDefaultDescription(ingredientName, finalStatus, profile),
       edgeCases: aiAnalysis.edgeCases || this.buildDefaultEdgeCases(ingredientName, finalStatus),
-      sourceUrl: ewgData.url,
-      confidence: ewgData.found ? 0.9 : (aiAnalysis.confidence || 0.5),
-      ewgScore: ewgData.score,
+      sourceUrl: referenceData.url,
+      confidence: referenceData.found ? 0.9 : (aiAnalysis.confidence || 0.5),
+      ewgScore: referenceData.score,
       researchSources: researchSources.length > 0 ? researchSources : undefined,
-      suggestedMatches: ewgData.suggestedMatches,
+      suggestedMatches: referenceData.suggestedMatches,
+      provider: chainResult.provider,
+      consensus: chainResult.consensus,
+      needsReview: chainResult.needsReview,
+      tags: mergeTags(knownTags, tagsFromAttributes(attributes)),
+      attributes,
     };
 
-    // Step 5: Save analysis permanently to database
-    if (this.analysisService) {
+    // Step 5: Save analysis permanently to database, for every product of the
+    // category. The placeholder left when every provider failed is not saved;
+    // the next vet tries the providers again. The status is
+    // stored as rated: regulatory lists are applied when it is read, so a
+    // relaxed list lifts a ban it set.
+    if (chainResult.provider === null) {
+      console.warn(`⚠️  No provider analyzed "${ingredientName}"; the result needs review and is not stored`);
+    } else if (this.analysisService) {
       try {
-        await this.analysisService.upsertAnalysis(ingredientName, result);
+        await this.analysisService.upsertAnalysis(ingredientName, analysis, profile.category);
         console.debug(`Saved analysis for "${ingredientName}" to permanent storage`);
       } catch (error) {
         console.error(`Failed to save analysis for "${ingredientName}":`, error);
@@ -158,174 +246,90 @@ export class AIVettingService {
       }
     }
 
-    return result;
+    // Step 6: Regulatory lists ban the ingredient or raise it to caution regardless of the rating
+    return this.withRegulatoryMatches(analysis, profile.category);
   }
 
-  // Note: Retry logic is now handled by individual AI provider implementations
-  // The analyzeWithRetry method has been removed as it referenced non-existent properties
-  // and is no longer used in the current implementation
-
   /**
-   * Sleep utility for delays between requests
+   * Analyze a full ingredient list. Stored analyses are returned without
+   * touching the queue; the rest run concurrently under the scheduler's
+   * per-provider rate limits. `onResult` fires as each analysis is ready;
+   * ingredients reported to `onError` are left out of the returned list.
+   * `category` selects the vetting profile. Once `signal` is aborted, the
+   * ingredients still waiting in the queue are skipped.
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  async analyzeIngredients(ingredientNames: string[]): Promise<IngredientAnalysis[]> {
-    if (ingredientNames.length === 0) {
+  async analyzeIngredients(
+    ingredients: IngredientToAnalyze[],
+    handlers: AnalysisHandlers = {},
+    category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
+    signal?: AbortSignal
+  ): Promise<IngredientAnalysis[]> {
+    const { onResult, onError } = handlers;
+    if (ingredients.length === 0) {
       return [];
     }
 
-    // Process ingredients sequentially with delays to avoid rate limits
-    // This helps prevent 429 errors by spacing out requests
-    const analyses: IngredientAnalysis[] = [];
-    const delayBetweenRequests = 2000; // 2 seconds between requests
-
-    for (let i = 0; i < ingredientNames.length; i++) {
-      const analysis = await this.analyzeIngredient(ingredientNames[i]);
-      analyses.push(analysis);
-      
-      // Add delay between requests (except for the last one)
-      if (i < ingredientNames.length - 1) {
-        await this.sleep(delayBetweenRequests);
-      }
-    }
-
-    return analyses;
-  }
-
-  private buildPrompt(
-    ingredientName: string,
-    ewgData: EWGIngredientData,
-    researchSources: ResearchResult[]
-  ): string {
-    let ewgContext = "";
-    if (ewgData.found && ewgData.score !== null) {
-      ewgContext = `\nEWG Skin Deep Score: ${ewgData.score}/10 (Data Availability: ${ewgData.dataAvailability || "Unknown"})`;
-      if (ewgData.concerns.length > 0) {
-        ewgContext += `\nEWG Concerns: ${ewgData.concerns.join(", ")}`;
-      }
-    } else {
-      ewgContext = "\nEWG Skin Deep: Not found or score unavailable";
-      if (ewgData.suggestedMatches && ewgData.suggestedMatches.length > 0) {
-        ewgContext += `\nSuggested similar ingredients: ${ewgData.suggestedMatches.join(", ")}`;
-      }
-    }
-
-    let researchContext = "";
-    if (researchSources.length > 0) {
-      researchContext = "\nAdditional Research Sources Found:\n";
-      researchSources.forEach(source => {
-        researchContext += `- ${source.source.toUpperCase()}: ${source.title} (${source.url})\n`;
-      });
-    }
-
-    return `You are a cosmetic ingredient safety researcher. Analyze the safety of this ingredient: "${ingredientName}"
-
-${ewgContext}
-${researchContext}
-
-Provide your analysis in JSON format:
-{
-  "status": "safe" | "caution" | "banned",
-  "rationale": "Detailed explanation based on scientific evidence. Be specific about why this ingredient received this rating. Include information about known health concerns, regulatory status, and scientific research findings.",
-  "description": "A concise 3-line description of the ingredient. First line: What it is and its primary use. Second line: Safety profile and key characteristics. Third line: Common applications in cosmetics.",
-  "edgeCases": "A one-line statement mentioning any edge cases, special considerations, or specific conditions where this ingredient should be used with extra caution (e.g., 'May cause irritation in sensitive skin' or 'Avoid during pregnancy' or 'None known').",
-  "confidence": 0.0-1.0
-}
-
-Guidelines:
-- "safe": Generally recognized as safe, low risk, well-studied with no major concerns (EWG score 1-4)
-- "caution": Mixed evidence, potential concerns at high concentrations, needs careful consideration (EWG score 5-7)
-- "banned": Known health risks, regulatory restrictions, or significant safety concerns (EWG score 8-10)
-
-If EWG score is provided, use it as the primary basis for status determination:
-- Score 1-4 → "safe"
-- Score 5-7 → "caution"  
-- Score 8-10 → "banned"
+    const stored = await Promise.all(
+      ingredients.map(({ name }) => this.getFreshStoredAnalysis(name, category))
+    );
 
-The description must be exactly 3 lines, each line being a complete sentence.
-The edgeCases must be a single concise line.
+    const pending = ingredients
+      .map(({ name, context }, index) => ({ name, context, index }))
+      .filter(({ index }) => !stored[index]);
 
-Be specific and evidence-based. The rationale should be unique to this ingredient, not generic.`;
-  }
-
-  private parseAIResponse(ingredientName: string, text: string): Partial<IngredientAnalysis> {
-    // Extract JSON from markdown code blocks if present
-    let jsonText = text.trim();
-    
-    // Remove markdown code fences
-    jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "");
-    
-    // Try to find JSON object
-    const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      jsonText = jsonMatch[0];
+    if (pending.length < ingredients.length) {
+      console.debug(`${ingredients.length - pending.length} of ${ingredients.length} ingredient(s) served from stored analyses`);
     }
 
-    try {
-      const parsed = JSON.parse(jsonText);
-      
-      // Validate and normalize status
-      let status: SafetyStatus = "caution";
-      if (parsed.status === "safe" || parsed.status === "caution" || parsed.status === "banned") {
-        status = parsed.status;
-      }
-
-      // Ensure rationale exists and is meaningful
-      let rationale = parsed.rationale || parsed.analysis || parsed.explanation || "";
-      if (!rationale || rationale.length < 20) {
-        rationale = `${ingredientName} requires further research. ${parsed.rationale || "Manual review recommended."}`;
+    const analyses = stored.map((analysis) => analysis && this.withRegulatoryMatches(analysis, category)) as IngredientAnalysis[];
+    if (onResult) {
+      for (let index = 0; index < stored.length; index++) {
+        if (stored[index]) await onResult(analyses[index], index);
       }
+    }
 
-      // Parse description (should be 3 lines)
-      let description = parsed.description || "";
-      if (description) {
-        // Ensure it's formatted as 3 lines
-        const lines = description.split('\n').filter((line: string) => line.trim()).slice(0, 3);
-        if (lines.length < 3) {
-          // Pad with default lines if needed
-          while (lines.length < 3) {
-            lines.push(`${ingredientName} is commonly used in cosmetic formulations.`);
-          }
-        }
-        description = lines.join('\n');
+    const profile = this.getProfile(category);
+    await this.scheduler.map(pending, async ({ name, context, index }) => {
+      if (signal?.aborted) return;
+      try {
+        analyses[index] = await this.runAnalysis(name, context, profile);
+      } catch (error) {
+        if (!onError) throw error;
+        console.error(`Failed to analyze "${name}":`, error);
+        await onError(error, name, index);
+        return;
       }
+      await onResult?.(analyses[index], index);
+    });
 
-      // Parse edge cases (should be one line)
-      let edgeCases = parsed.edgeCases || parsed.edgeCase || "";
-      if (!edgeCases || edgeCases.trim().length === 0) {
-        edgeCases = "No specific edge cases known. Use as directed.";
-      }
+    return analyses.filter(Boolean);
+  }
 
-      const confidence = typeof parsed.confidence === "number" 
-        ? Math.max(0, Math.min(1, parsed.confidence))
-        : 0.7;
-
-      return {
-        status,
-        rationale: rationale.trim(),
-        description: description.trim(),
-        edgeCases: edgeCases.trim(),
-        confidence
-      };
-    } catch (error) {
-      console.error(`Failed to parse AI response for ${ingredientName}:`, error);
-      console.error("Raw response:", text.substring(0, 500));
-      return {};
+  /**
+   * Match the ingredient against the regulatory lists. Stored analyses are
+   * matched again when read, so a newly imported list version applies at once.
+   */
+  private withRegulatoryMatches(analysis: IngredientAnalysis, category: ProductCategory): IngredientAnalysis {
+    const regulatoryMatches = this.regulatoryLists.match(analysis.name, category);
+    if (regulatoryMatches.length === 0) {
+      return analysis;
     }
+    return {
+      ...analysis,
+      status: applyRegulatoryStatus(analysis.status, regulatoryMatches),
+      regulatoryMatches,
+    };
   }
 
-  private buildRationaleFromEWG(ewgData: EWGIngredientData, status: SafetyStatus): string {
-    if (ewgData.found && ewgData.score !== null) {
-      return `EWG Skin Deep score: ${ewgData.score}/10. ${ewgData.dataAvailability ? `Data availability: ${ewgData.dataAvailability}.` : ""} ${ewgData.concerns.length > 0 ? `Concerns: ${ewgData.concerns.join(", ")}.` : ""}`;
+  private buildRationaleFromReference(referenceData: ReferenceData): string {
+    if (referenceData.found && referenceData.designation) {
+      return `${referenceData.source}: ${referenceData.designation}. ${referenceData.concerns.length > 0 ? `Concerns: ${referenceData.concerns.join(", ")}.` : ""}`;
     }
-    return `${ewgData.name} requires manual review. EWG Skin Deep data was unavailable. Please research this ingredient using EWG Skin Deep and other reliable sources before publishing.`;
+    return `${referenceData.name} requires manual review. ${referenceData.source} data was unavailable. Please research this ingredient using ${referenceData.source} and other reliable sources before publishing.`;
   }
 
-  private buildDefaultDescription(ingredientName: string, status: SafetyStatus): string {
-    return `${ingredientName} is a cosmetic ingredient used in various formulations.\nSafety assessment indicates ${status} status based on available data.\nFurther research may be needed to fully understand its safety profile.`;
+  private buildDefaultDescription(ingredientName: string, status: SafetyStatus, profile: VettingProfile): string {
+    return `${ingredientName} is a ${profile.ingredientKind} used in various formulations.\nSafety assessment indicates ${status} status based on available data.\nFurther research may be needed to fully understand its safety profile.`;
   }
 
   private buildDefaultEdgeCases(ingredientName: string, status: SafetyStatus): string {
@@ -339,3 +343,13 @@ Be specific and evidence-based. The rationale should be unique to this ingredien
   }
 }
 
+
+/**
+ * The product context the AI rates the ingredient in. Analyses are stored and
+ * reused for every product of the category, so the label's concentration is
+ * left out: rateAtConcentration applies it where a known limit exists, and
+ * without one the ingredient is rated at typical use levels.
+ */
+function toAnalysisContext(context: IngredientContext | null | undefined): IngredientContext | null {
+  return context ? { ...context, concentration: null } : null;
+}
@@ -0,0 +1,134 @@
+/**
+ * Analysis Refresh Service
+ * Re-vets stored ingredient analyses that are past INGREDIENT_REFRESH_DAYS (or
+ * were produced by an older prompt) instead of waiting for someone to vet the
+ * ingredient again. Each run handles at most `budget` ingredients, least
+ * recently analyzed first, so a scheduled run stays within the providers'
+ * daily quotas; the rest are picked up by later runs. Every re-analysis is
+ * logged to ingredient_refreshes with whether the status changed.
+ *
+ * Run with `npm run refresh:analyses` or GET /api/cron/refresh-analyses.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { SafetyStatus } from "@shared/types";
+import { PRODUCT_CATEGORIES } from "@shared/productCategories";
+import type { AIVettingService } from "./aiVettingService";
+import type { AnalysisStatusChange } from "./ingredientAnalysisService";
+import { applyRegulatoryStatus } from "./regulatoryLists";
+import type { RefreshRowInput, StoredAnalysis } from "../storage/analysisStore";
+
+export const DEFAULT_REFRESH_BUDGET = 20;
+
+export interface AnalysisRefreshSummary {
+  runId: string;
+  startedAt: string;
+  finishedAt: string;
+  budget: number;
+  // Stale analyses found, including those left for later runs
+  stale: number;
+  refreshed: number;
+  failed: number;
+  statusChanges: AnalysisStatusChange[];
+}
+
+/**
+ * Ingredients re-analyzed per run (ANALYSIS_REFRESH_BUDGET). Each one costs a
+ * call per provider tried, plus three Google CSE queries when EWG has no score.
+ */
+export function getRefreshBudget(env: NodeJS.ProcessEnv = process.env): number {
+  const budget = parseInt(env.ANALYSIS_REFRESH_BUDGET || "", 10);
+  return Number.isFinite(budget) && budget > 0 ? budget : DEFAULT_REFRESH_BUDGET;
+}
+
+export class AnalysisRefreshService {
+  constructor(private vettingService: AIVettingService) {}
+
+  async run(budget: number = getRefreshBudget()): Promise<AnalysisRefreshSummary> {
+    const analysisService = this.vettingService.getAnalysisService();
+    if (!analysisService) {
+      // Storage is off with offline vetting, and with Supabase unless USE_SUPABASE_STORAGE=true
+      throw new Error("Ingredient analysis storage is not enabled, so there are no stored analyses to refresh.");
+    }
+
+    const runId = randomUUID();
+    const startedAt = new Date().toISOString();
+    const { rows: stale, total } = await analysisService.listStaleAnalyses(budget);
+    console.log(`🔄 Refreshing ${stale.length} of ${total} stale ingredient analyses (budget ${budget})`);
+
+    // analyzeIngredients re-runs each stale analysis under the scheduler's rate
+    // limits, with the vetting profile of the category it is stored under
+    const refreshes: RefreshRowInput[] = [];
+    const logRefresh = (
+      row: StoredAnalysis,
+      newStatus: SafetyStatus | null,
+      error: string | null,
+      previousStatus: SafetyStatus = row.status,
+    ) => {
+      refreshes.push({
+        run_id: runId,
+        ingredient_name: row.ingredient_name,
+        category: row.category,
+        previous_status: previousStatus,
+        new_status: newStatus,
+        status_changed: newStatus !== null && newStatus !== previousStatus,
+        previous_analyzed_at: row.last_analyzed_at,
+        error,
+      });
+    };
+
+    for (const category of PRODUCT_CATEGORIES) {
+      const rows = stale.filter((row) => row.category === category);
+      if (rows.length === 0) continue;
+
+      await this.vettingService.analyzeIngredients(
+        rows.map((row) => ({ name: row.ingredient_name })),
+        {
+          onResult: (analysis, index) => {
+            // A placeholder from failed providers is not a new rating
+            if (analysis.provider === null) {
+              logRefresh(rows[index], null, "Every AI provider failed");
+              return;
+            }
+            // Stored statuses are as rated and the result has the regulatory
+            // lists applied; compare both with the lists applied
+            const previousStatus = applyRegulatoryStatus(rows[index].status, analysis.regulatoryMatches);
+            logRefresh(rows[index], analysis.status, null, previousStatus);
+          },
+          onError: (error, _ingredientName, index) => {
+            logRefresh(rows[index], null, error instanceof Error ? error.message : String(error));
+          },
+        },
+        category,
+      );
+    }
+
+    await analysisService.recordRefreshes(refreshes);
+
+    const statusChanges = refreshes
+      .filter((refresh) => refresh.status_changed && refresh.new_status)
+      .map((refresh) => ({
+        ingredientName: refresh.ingredient_name,
+        category: refresh.category,
+        previousStatus: refresh.previous_status,
+        newStatus: refresh.new_status as SafetyStatus,
+      }));
+    const failed = refreshes.filter((refresh) => refresh.error).length;
+
+    statusChanges.forEach((change) => {
+      console.log(`   ⚠️  "${change.ingredientName}" (${change.category}) changed from ${change.previousStatus} to ${change.newStatus}`);
+    });
+    console.log(`✅ Refreshed ${refreshes.length - failed} analyses (${statusChanges.length} status change(s), ${failed} failed)`);
+
+    return {
+      runId,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      budget,
+      stale: total,
+      refreshed: refreshes.length - failed,
+      failed,
+      statusChanges,
+    };
+  }
+}
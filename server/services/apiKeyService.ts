@@ -0,0 +1,112 @@
+/**
+ * API Key Service
+ * Scoped, revocable keys for integrations, instead of sharing ADMIN_API_KEY.
+ * A key is `fp_<prefix>_<secret>`; only its SHA-256 hash is stored, so the
+ * full key is shown once when it is created. Each scope grants a fixed set of
+ * permissions (see SCOPE_PERMISSIONS), never user management or deletes.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import type { ApiKeyScope } from "@shared/permissions";
+import type { ApiKey } from "@shared/types";
+import { createApiKeyStore, type ApiKeyStore } from "../storage";
+
+export const API_KEY_PREFIX = "fp_";
+
+// lastUsedAt is only written when it is older than this, so busy keys don't write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  createdBy: string | null;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export class ApiKeyService {
+  constructor(private store: ApiKeyStore) {}
+
+  /**
+   * Create the service, or return null when there is nowhere to store keys
+   */
+  static fromEnv(): ApiKeyService | null {
+    const store = createApiKeyStore();
+    if (!store) {
+      console.warn("⚠️  API keys disabled: Supabase credentials not configured");
+      return null;
+    }
+    return new ApiKeyService(store);
+  }
+
+  /**
+   * Returns the stored key and the full key, which cannot be retrieved later
+   */
+  async create(input: CreateApiKeyInput): Promise<{ apiKey: ApiKey; key: string }> {
+    const prefix = randomBytes(4).toString("hex");
+    const key = `${API_KEY_PREFIX}${prefix}_${randomBytes(24).toString("base64url")}`;
+
+    const apiKey = await this.store.insert({
+      name: input.name,
+      prefix: `${API_KEY_PREFIX}${prefix}`,
+      keyHash: hashApiKey(key),
+      scopes: input.scopes,
+      createdBy: input.createdBy,
+      expiresAt: input.expiresAt,
+    });
+    console.log(`🔑 API key "${apiKey.name}" created with scopes ${apiKey.scopes.join(", ")}`);
+    return { apiKey, key };
+  }
+
+  /**
+   * The key `token` belongs to, or null when it is unknown, revoked or expired
+   */
+  async verify(token: string): Promise<ApiKey | null> {
+    const stored = await this.store.findByHash(hashApiKey(token));
+    if (!stored || stored.revokedAt) {
+      return null;
+    }
+
+    const now = new Date();
+    if (stored.expiresAt && new Date(stored.expiresAt) <= now) {
+      return null;
+    }
+
+    if (!stored.lastUsedAt || now.getTime() - new Date(stored.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+      // Failing to record usage should not fail the request
+      this.store.markUsed(stored.id, now.toISOString()).catch((error) => {
+        console.error("Error recording API key usage:", error);
+      });
+    }
+
+    const { keyHash: _keyHash, ...apiKey } = stored;
+    return apiKey;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    return this.store.list();
+  }
+
+  async revoke(id: string): Promise<ApiKey | null> {
+    const apiKey = await this.store.revoke(id);
+    if (apiKey) {
+      console.log(`🔑 API key "${apiKey.name}" revoked`);
+    }
+    return apiKey;
+  }
+}
+
+let sharedService: ApiKeyService | null | undefined;
+
+/**
+ * The service used by requireAuth and the API key routes, created on first use
+ */
+export function getApiKeyService(): ApiKeyService | null {
+  if (sharedService === undefined) {
+    sharedService = ApiKeyService.fromEnv();
+  }
+  return sharedService;
+}
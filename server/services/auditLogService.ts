@@ -0,0 +1,75 @@
+/**
+ * Audit Log Service
+ * Records who created, edited, published, merged or deleted something, with
+ * the fields that changed. Events are written by the audit middleware
+ * (server/middleware/audit.ts) and read by GET /api/admin/audit.
+ */
+
+import { isDeepStrictEqual } from "node:util";
+import type { AuditEvent, AuditFieldChange } from "@shared/types";
+import { createAuditStore, type AuditEventInput, type AuditStore, type ListAuditEventsOptions } from "../storage";
+
+// Bumped on every write, so they would show up in every diff
+const IGNORED_FIELDS = ["updatedAt"];
+
+/**
+ * Top-level fields that differ between two versions of a record. Either side
+ * may be missing: a create has no before, a delete no after.
+ */
+export function diffRecords(before: unknown, after: unknown): Record<string, AuditFieldChange> | null {
+  const beforeRecord = isRecord(before) ? before : {};
+  const afterRecord = isRecord(after) ? after : {};
+  const fields = Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]));
+
+  const changes: Record<string, AuditFieldChange> = {};
+  for (const field of fields) {
+    const change = { before: beforeRecord[field] ?? null, after: afterRecord[field] ?? null };
+    if (!IGNORED_FIELDS.includes(field) && !isDeepStrictEqual(change.before, change.after)) {
+      changes[field] = change;
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export class AuditLogService {
+  constructor(private store: AuditStore) {}
+
+  /**
+   * Create the service, or return null when there is nowhere to store events
+   */
+  static fromEnv(): AuditLogService | null {
+    const store = createAuditStore();
+    if (!store) {
+      console.warn("⚠️  Audit log disabled: Supabase credentials not configured");
+      return null;
+    }
+    return new AuditLogService(store);
+  }
+
+  async record(event: AuditEventInput): Promise<AuditEvent> {
+    const recorded = await this.store.insert(event);
+    console.log(`📝 Audit: ${recorded.actorEmail ?? recorded.actorId ?? "unknown"} ${recorded.action} ${recorded.targetId ?? ""}`.trimEnd());
+    return recorded;
+  }
+
+  async list(options: ListAuditEventsOptions): Promise<{ rows: AuditEvent[]; total: number }> {
+    return this.store.list(options);
+  }
+}
+
+let sharedService: AuditLogService | null | undefined;
+
+/**
+ * The service used by the audit middleware and GET /api/admin/audit, created on first use
+ */
+export function getAuditLogService(): AuditLogService | null {
+  if (sharedService === undefined) {
+    sharedService = AuditLogService.fromEnv();
+  }
+  return sharedService;
+}
@@ -0,0 +1,35 @@
+/**
+ * Editor Directory
+ * The people drafts can be assigned to: users whose role can edit drafts,
+ * plus the signed-in user, who has no profile when signed in with the API key
+ * or running unprotected in development.
+ */
+
+import type { Editor } from "@shared/types";
+import { getRolesWith } from "@shared/permissions";
+import { getSupabaseAdminClient } from "../middleware/auth";
+
+export async function listEditors(currentUser?: { id?: string; email?: string }): Promise<Editor[]> {
+  const editors: Editor[] = [];
+
+  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("user_profiles")
+      .select("id, email")
+      .in("role", getRolesWith("drafts:edit"))
+      .is("deactivated_at", null)
+      .order("email");
+
+    if (error) {
+      console.error("Error listing editors:", error);
+      throw new Error(`Failed to list editors: ${error.message}`);
+    }
+    editors.push(...(data || []).map((row) => ({ id: row.id, email: row.email })));
+  }
+
+  if (currentUser?.id && !editors.some((editor) => editor.id === currentUser.id)) {
+    editors.unshift({ id: currentUser.id, email: currentUser.email ?? null });
+  }
+
+  return editors;
+}
@@ -14,7 +14,12 @@ export interface EWGIngredientData {
   suggestedMatches?: string[]; // For misspelling detection
 }
 
-export class EWGService {
+// Anything that can look up EWG data (the live site, or offline fixtures)
+export interface EWGSource {
+  searchIngredient(ingredientName: string): Promise<EWGIngredientData>;
+}
+
+export class EWGService implements EWGSource {
   /**
    * Search for ingredient in EWG Skin Deep database
    * Returns score and data availability information
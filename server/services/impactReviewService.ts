@@ -0,0 +1,166 @@
+/**
+ * Impact Review Service
+ * When a re-analysis changes an ingredient's status, every published product
+ * of the analysis's category listing that ingredient (under any of its
+ * aliases) may now show a wrong rating. Each affected product gets an entry in the impact review queue with
+ * the overall verdict it would have if the new status were applied.
+ */
+
+import { rateAtConcentration } from "@shared/concentrationThresholds";
+import { DEFAULT_PRODUCT_CATEGORY } from "@shared/productCategories";
+import type { ImpactReview, ImpactReviewListItem, Product } from "@shared/types";
+import { createImpactReviewStore, type ImpactReviewStore, type ProductStorage } from "../storage";
+import type { ListImpactReviewsOptions } from "../storage/impactReviewStore";
+import { deriveOverallStatus } from "../storage/productStorage";
+import type { AnalysisStatusChange, IngredientAnalysisService } from "./ingredientAnalysisService";
+import type { IngredientAliasService } from "./ingredientAliasService";
+import { applyRegulatoryStatus } from "./regulatoryLists";
+
+export class ImpactReviewService {
+  constructor(
+    private store: ImpactReviewStore,
+    // Product storage is created lazily by the server, so it is looked up per call
+    private getProductStorage: () => ProductStorage,
+    private aliasService: IngredientAliasService,
+  ) {}
+
+  /**
+   * Create the service and have it handle status changes of `analysisService`.
+   * Returns null when there is nowhere to store reviews.
+   */
+  static attach(
+    analysisService: IngredientAnalysisService,
+    getProductStorage: () => ProductStorage,
+  ): ImpactReviewService | null {
+    const store = createImpactReviewStore();
+    if (!store) {
+      console.warn("⚠️  Impact reviews disabled: Supabase credentials not configured");
+      return null;
+    }
+
+    const service = new ImpactReviewService(store, getProductStorage, analysisService.aliasService);
+    analysisService.onStatusChange(async (change) => {
+      await service.handleStatusChange(change);
+    });
+    return service;
+  }
+
+  /**
+   * Queue a review for each published product affected by the change. A
+   * product that already has an open review for the ingredient has it updated
+   * instead, or dismissed when the product is no longer affected. Ingredients
+   * an editor overrode keep their status in the projection.
+   */
+  async handleStatusChange(change: AnalysisStatusChange): Promise<ImpactReview[]> {
+    // Products of other categories are rated from their own category's analysis
+    const products = (await this.getProductStorage().list())
+      .filter((product) => (product.category ?? DEFAULT_PRODUCT_CATEGORY) === change.category);
+    const reviews: ImpactReview[] = [];
+
+    for (const product of products) {
+      const projected = await this.projectIngredients(product, change);
+      const existing = await this.store.findOpen(product.id, change.ingredientName);
+
+      if (!projected) {
+        // The status went back to what the product already shows
+        if (existing) {
+          await this.store.update(existing.id, { status: "dismissed", resolvedAt: new Date().toISOString() });
+        }
+        continue;
+      }
+
+      const fields = {
+        newStatus: change.newStatus,
+        currentOverallStatus: product.overallStatus,
+        projectedOverallStatus: deriveOverallStatus(projected),
+      };
+
+      // An open review keeps the status it was opened with, which the product still shows
+      const review = existing
+        ? await this.store.update(existing.id, fields)
+        : await this.store.insert({
+            ...fields,
+            previousStatus: change.previousStatus,
+            productId: product.id,
+            ingredientName: change.ingredientName,
+            status: "open",
+          });
+      if (review) {
+        reviews.push(review);
+      }
+    }
+
+    if (reviews.length > 0) {
+      console.log(`⚠️  "${change.ingredientName}" changed from ${change.previousStatus} to ${change.newStatus}: ${reviews.length} product(s) queued for review`);
+    }
+    return reviews;
+  }
+
+  /**
+   * Reviews with the name and brand of their product, newest first
+   */
+  async list(options: ListImpactReviewsOptions): Promise<{ rows: ImpactReviewListItem[]; total: number }> {
+    const { rows, total } = await this.store.list(options);
+    const products = await this.getProductStorage().list({ includeUnpublished: true });
+    const productsById = new Map(products.map((product) => [product.id, product]));
+
+    return {
+      rows: rows.map((review) => ({
+        ...review,
+        productName: productsById.get(review.productId)?.name ?? "Deleted product",
+        productBrand: productsById.get(review.productId)?.brand ?? "",
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Close a review as resolved (the report was updated) or dismissed
+   */
+  async close(id: string, status: "resolved" | "dismissed", closedBy: string | null): Promise<ImpactReview | null> {
+    return this.store.update(id, {
+      status,
+      resolvedAt: new Date().toISOString(),
+      resolvedBy: closedBy,
+    });
+  }
+
+  /**
+   * The product's ingredients with the new status applied, or null when none
+   * of its ingredients would change
+   */
+  private async projectIngredients(product: Product, change: AnalysisStatusChange) {
+    let affected = false;
+    const ingredients = [];
+
+    for (const ingredient of product.ingredients) {
+      const canonical = await this.aliasService.resolve(ingredient.name);
+      if (canonical !== change.ingredientName || ingredient.isOverride) {
+        ingredients.push(ingredient);
+        continue;
+      }
+
+      // Analyses are stored as rated; the product shows them at its label
+      // concentration and with its regulatory matches applied, as vetting does
+      const rated = rateAtConcentration(
+        ingredient.name,
+        change.newStatus,
+        {
+          concentration: ingredient.concentration ?? null,
+          position: ingredient.position ?? null,
+          ingredientCount: product.ingredients.length,
+        },
+        change.category,
+      );
+      const status = applyRegulatoryStatus(rated.status, ingredient.regulatoryMatches);
+      if (ingredient.status !== status) {
+        affected = true;
+        ingredients.push({ ...ingredient, status });
+      } else {
+        ingredients.push(ingredient);
+      }
+    }
+
+    return affected ? ingredients : null;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Ingredient Alias Service
+ * Resolves INCI names, common names and CAS numbers to one canonical ingredient
+ * so that "Aqua", "Water" and "Water (Aqua)" share a single analysis.
+ */
+
+import { parseIngredientName } from "@shared/ingredientParser";
+import type { AnalysisStore, IngredientAliasType, StoredAlias } from "../storage/analysisStore";
+
+export type { IngredientAliasType } from "../storage/analysisStore";
+
+export interface IngredientAlias {
+  alias: string;
+  canonicalName: string;
+  aliasType: IngredientAliasType;
+  createdAt?: string;
+}
+
+const CAS_NUMBER_PATTERN = /^\d{2,7}-\d{2}-\d$/;
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export class IngredientAliasService {
+  private store: AnalysisStore;
+  private cache: Map<string, string> | null = null;
+  private cacheLoadedAt = 0;
+
+  constructor(store: AnalysisStore) {
+    this.store = store;
+  }
+
+  /**
+   * Normalize a name for alias and analysis lookups (lowercase, trim, collapse whitespace)
+   */
+  static normalize(name: string): string {
+    return name.toLowerCase().trim().replace(/\s+/g, " ");
+  }
+
+  static isCasNumber(value: string): boolean {
+    return CAS_NUMBER_PATTERN.test(value.trim());
+  }
+
+  /**
+   * Resolve any ingredient name to its canonical name.
+   * "Water (Aqua)" is checked as written, then as "water", then as "aqua".
+   */
+  async resolve(name: string): Promise<string> {
+    const aliases = await this.loadAliases();
+    const normalized = IngredientAliasService.normalize(name);
+    const parsed = parseIngredientName(name);
+
+    const candidates = [normalized];
+    if (parsed) {
+      candidates.push(
+        IngredientAliasService.normalize(parsed.name),
+        ...parsed.aliases.map((alias) => IngredientAliasService.normalize(alias)),
+      );
+    }
+
+    for (const candidate of candidates) {
+      const canonical = aliases.get(candidate);
+      if (canonical) {
+        return canonical;
+      }
+    }
+
+    // Unknown name: the primary name (without synonyms) becomes the canonical key
+    return parsed ? IngredientAliasService.normalize(parsed.name) : normalized;
+  }
+
+  /**
+   * List aliases, optionally only those of one canonical ingredient
+   */
+  async listAliases(canonicalName?: string): Promise<IngredientAlias[]> {
+    const rows = await this.store.listAliases(
+      canonicalName ? await this.resolve(canonicalName) : undefined,
+    );
+    return rows.map((row) => this.mapRowToAlias(row));
+  }
+
+  /**
+   * Add (or repoint) an alias. The target is resolved first so aliases never chain.
+   */
+  async addAlias(
+    alias: string,
+    canonicalName: string,
+    aliasType?: IngredientAliasType,
+  ): Promise<IngredientAlias> {
+    const normalizedAlias = IngredientAliasService.normalize(alias);
+    const canonical = await this.resolve(canonicalName);
+
+    if (!normalizedAlias) {
+      throw new Error("Alias must not be empty");
+    }
+    if (normalizedAlias === canonical) {
+      throw new Error(`"${alias}" already resolves to "${canonical}"`);
+    }
+
+    const type = aliasType ?? (IngredientAliasService.isCasNumber(normalizedAlias) ? "cas" : "inci");
+
+    const row = await this.store.upsertAlias({
+      alias: normalizedAlias,
+      canonical_name: canonical,
+      alias_type: type,
+    });
+
+    // Anything that pointed at the alias now points at its new canonical name
+    await this.repointAliases(normalizedAlias, canonical);
+    this.invalidate();
+    return this.mapRowToAlias(row);
+  }
+
+  async removeAlias(alias: string): Promise<boolean> {
+    const deleted = await this.store.deleteAlias(IngredientAliasService.normalize(alias));
+    this.invalidate();
+    return deleted;
+  }
+
+  /**
+   * Move every alias of one canonical name to another (used when merging duplicates)
+   */
+  async repointAliases(fromCanonical: string, toCanonical: string): Promise<void> {
+    await this.store.repointAliases(fromCanonical, toCanonical);
+    this.invalidate();
+  }
+
+  private invalidate(): void {
+    this.cache = null;
+  }
+
+  /**
+   * The alias table is small, so it is cached in memory and refreshed periodically
+   */
+  private async loadAliases(): Promise<Map<string, string>> {
+    if (this.cache && Date.now() - this.cacheLoadedAt < CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    let rows: StoredAlias[];
+    try {
+      rows = await this.store.listAliases();
+    } catch (error) {
+      console.warn(`⚠️  Unable to load ingredient aliases: ${error instanceof Error ? error.message : error}`);
+      return this.cache ?? new Map();
+    }
+
+    this.cache = new Map(rows.map((row) => [row.alias, row.canonical_name]));
+    this.cacheLoadedAt = Date.now();
+    return this.cache;
+  }
+
+  private mapRowToAlias(row: StoredAlias): IngredientAlias {
+    return {
+      alias: row.alias,
+      canonicalName: row.canonical_name,
+      aliasType: row.alias_type,
+      createdAt: row.created_at,
+    };
+  }
+}
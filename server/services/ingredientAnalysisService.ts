@@ -1,70 +1,92 @@
-import { createClient } from "@supabase/supabase-js";
+import type { SafetyStatus } from "@shared/types";
+import { DEFAULT_PRODUCT_CATEGORY, PRODUCT_CATEGORIES, type ProductCategory } from "@shared/productCategories";
 import type { IngredientAnalysis } from "./aiVettingService";
+import { PROMPT_VERSION } from "./ingredientPrompt";
+import { IngredientAliasService } from "./ingredientAliasService";
+import type {
+  AnalysisRowUpdate,
+  AnalysisStore,
+  ListAnalysesOptions,
+  ListRefreshesOptions,
+  RefreshRowInput,
+  StoredAnalysis,
+  StoredRefresh,
+} from "../storage/analysisStore";
 
-interface StoredAnalysis {
-  id: string;
-  ingredient_name: string;
-  status: "safe" | "caution" | "banned";
-  rationale: string;
-  description: string;
-  edge_cases: string;
-  source_url: string;
-  ewg_score: number | null;
-  ewg_data_availability: string | null;
-  research_sources: any | null;
-  suggested_matches: string[] | null;
-  confidence: number;
-  analysis_version: number;
-  created_at: string;
-  updated_at: string;
-  last_analyzed_at: string;
+export interface AnalysisStatusChange {
+  // Canonical name the analysis is stored under
+  ingredientName: string;
+  // Only products of this category use the analysis
+  category: ProductCategory;
+  previousStatus: SafetyStatus;
+  newStatus: SafetyStatus;
 }
 
+export type StatusChangeListener = (change: AnalysisStatusChange) => void | Promise<void>;
+
 export class IngredientAnalysisService {
-  private supabase;
+  private store: AnalysisStore;
   private refreshDays: number;
+  private statusChangeListeners: StatusChangeListener[] = [];
+  readonly aliasService: IngredientAliasService;
 
-  constructor(refreshDays: number = 30) {
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    if (!supabaseUrl || !supabaseServiceRoleKey) {
-      throw new Error("Supabase URL and Service Role Key must be set in environment variables");
-    }
-
-    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+  constructor(store: AnalysisStore, refreshDays: number = 30) {
+    this.store = store;
     this.refreshDays = refreshDays;
+    this.aliasService = new IngredientAliasService(store);
   }
 
   /**
    * Normalize ingredient name for consistent lookups
    */
   normalizeIngredientName(name: string): string {
-    return name.toLowerCase().trim();
+    return IngredientAliasService.normalize(name);
   }
 
   /**
-   * Get existing analysis from permanent database storage
+   * Resolve an ingredient name (INCI, common name or CAS number) to the
+   * canonical name its analysis is stored under
    */
-  async getAnalysis(ingredientName: string): Promise<IngredientAnalysis | null> {
-    const normalizedName = this.normalizeIngredientName(ingredientName);
+  async resolveIngredientName(name: string): Promise<string> {
+    return this.aliasService.resolve(name);
+  }
 
-    const { data, error } = await this.supabase
-      .from("ingredient_analyses")
-      .select("*")
-      .eq("ingredient_name", normalizedName)
-      .single();
+  /**
+   * Get existing analysis for the category from permanent database storage
+   */
+  async getAnalysis(
+    ingredientName: string,
+    category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
+  ): Promise<IngredientAnalysis | null> {
+    const normalizedName = await this.resolveIngredientName(ingredientName);
 
-    if (error || !data) {
-      return null;
-    }
+    const row = await this.store.getAnalysis(normalizedName, category);
+    return row ? this.mapRowToAnalysis(row) : null;
+  }
 
-    return this.mapRowToAnalysis(data);
+  /**
+   * List stored analyses as raw rows (the admin API returns them unchanged)
+   */
+  async listAnalyses(options: ListAnalysesOptions): Promise<{ rows: StoredAnalysis[]; total: number }> {
+    return this.store.listAnalyses(options);
+  }
+
+  /**
+   * Stored analyses that shouldRefreshAnalysis would re-run (older than the
+   * refresh window, from an older prompt or from no provider), least recently
+   * analyzed first
+   */
+  async listStaleAnalyses(limit: number): Promise<{ rows: StoredAnalysis[]; total: number }> {
+    const analyzedBefore = new Date(Date.now() - this.refreshDays * 24 * 60 * 60 * 1000).toISOString();
+    return this.store.listStaleAnalyses({ analyzedBefore, belowVersion: PROMPT_VERSION, limit });
+  }
+
+  async recordRefreshes(rows: RefreshRowInput[]): Promise<void> {
+    await this.store.insertRefreshes(rows);
+  }
+
+  async listRefreshes(options: ListRefreshesOptions): Promise<{ rows: StoredRefresh[]; total: number }> {
+    return this.store.listRefreshes(options);
   }
 
   /**
@@ -75,8 +97,21 @@ export class IngredientAnalysisService {
       return true;
     }
 
+    // Every provider failed: the placeholder must never be served as a result
+    if (!analysis.provider) {
+      return true;
+    }
+
+    // Analyses produced by an older prompt are re-run with the current one
+    if (analysis.analysisVersion !== undefined && analysis.analysisVersion < PROMPT_VERSION) {
+      return true;
+    }
+
     // Check if analysis is older than refresh window
-    const lastAnalyzed = new Date((analysis as any).lastAnalyzedAt || (analysis as any).updatedAt);
+    if (!analysis.lastAnalyzedAt) {
+      return false;
+    }
+    const lastAnalyzed = new Date(analysis.lastAnalyzedAt);
     const daysSinceAnalysis = (Date.now() - lastAnalyzed.getTime()) / (1000 * 60 * 60 * 24);
     
     return daysSinceAnalysis > this.refreshDays;
@@ -88,92 +123,135 @@ export class IngredientAnalysisService {
   async saveAnalysis(
     ingredientName: string,
     analysis: IngredientAnalysis,
+    category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
   ): Promise<void> {
-    const normalizedName = this.normalizeIngredientName(ingredientName);
+    const normalizedName = await this.resolveIngredientName(ingredientName);
     const now = new Date().toISOString();
 
-    const { error } = await this.supabase
-      .from("ingredient_analyses")
-      .insert({
+    try {
+      await this.store.insertAnalysis({
         ingredient_name: normalizedName,
-        status: analysis.status,
-        rationale: analysis.rationale,
-        description: analysis.description,
-        edge_cases: analysis.edgeCases,
-        source_url: analysis.sourceUrl,
-        ewg_score: analysis.ewgScore ?? null,
-        ewg_data_availability: null, // Can be added if needed
-        research_sources: analysis.researchSources || null,
-        suggested_matches: analysis.suggestedMatches ?? null,
-        confidence: analysis.confidence,
-        analysis_version: 1,
-        last_analyzed_at: now,
+        category,
+        ...this.mapAnalysisToRow(analysis, now),
       });
-
-    if (error) {
+    } catch (error) {
       console.error(`Error saving analysis for ${ingredientName}:`, error);
-      throw new Error(`Failed to save analysis: ${error.message}`);
+      throw error;
     }
   }
 
   /**
-   * Update existing analysis (increment version, preserve history)
+   * Update existing analysis; analysis_version records the prompt version that produced it
    */
   async updateAnalysis(
     ingredientName: string,
     analysis: IngredientAnalysis,
+    category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
   ): Promise<void> {
-    const normalizedName = this.normalizeIngredientName(ingredientName);
+    const normalizedName = await this.resolveIngredientName(ingredientName);
     const now = new Date().toISOString();
 
-    // Get current version
-    const { data: existing } = await this.supabase
-      .from("ingredient_analyses")
-      .select("analysis_version")
-      .eq("ingredient_name", normalizedName)
-      .single();
-
-    const newVersion = existing ? existing.analysis_version + 1 : 1;
-
-    const { error } = await this.supabase
-      .from("ingredient_analyses")
-      .update({
-        status: analysis.status,
-        rationale: analysis.rationale,
-        description: analysis.description,
-        edge_cases: analysis.edgeCases,
-        source_url: analysis.sourceUrl,
-        ewg_score: analysis.ewgScore ?? null,
-        ewg_data_availability: null,
-        research_sources: analysis.researchSources || null,
-        suggested_matches: analysis.suggestedMatches ?? null,
-        confidence: analysis.confidence,
-        analysis_version: newVersion,
-        last_analyzed_at: now,
-        // updated_at is set automatically by trigger
-      })
-      .eq("ingredient_name", normalizedName);
-
-    if (error) {
+    try {
+      await this.store.updateAnalysis(normalizedName, category, this.mapAnalysisToRow(analysis, now));
+    } catch (error) {
       console.error(`Error updating analysis for ${ingredientName}:`, error);
-      throw new Error(`Failed to update analysis: ${error.message}`);
+      throw error;
     }
   }
 
   /**
-   * Upsert analysis (save if new, update if exists)
+   * Upsert analysis (save if new, update if exists). Status change listeners
+   * run when an existing analysis gets a different status.
    */
   async upsertAnalysis(
     ingredientName: string,
     analysis: IngredientAnalysis,
+    category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
   ): Promise<void> {
-    const existing = await this.getAnalysis(ingredientName);
+    const existing = await this.getAnalysis(ingredientName, category);
     
     if (existing) {
-      await this.updateAnalysis(ingredientName, analysis);
+      await this.updateAnalysis(ingredientName, analysis, category);
+      if (existing.status !== analysis.status) {
+        await this.notifyStatusChange({
+          ingredientName: existing.name,
+          category,
+          previousStatus: existing.status,
+          newStatus: analysis.status,
+        });
+      }
     } else {
-      await this.saveAnalysis(ingredientName, analysis);
+      await this.saveAnalysis(ingredientName, analysis, category);
+    }
+  }
+
+  /**
+   * Run `listener` whenever an update changes an analysis's status
+   */
+  onStatusChange(listener: StatusChangeListener): void {
+    this.statusChangeListeners.push(listener);
+  }
+
+  // A failing listener is logged; the analysis itself is already saved
+  private async notifyStatusChange(change: AnalysisStatusChange): Promise<void> {
+    for (const listener of this.statusChangeListeners) {
+      try {
+        await listener(change);
+      } catch (error) {
+        console.error(`Status change handler failed for "${change.ingredientName}":`, error);
+      }
+    }
+  }
+
+  /**
+   * Merge a duplicate analysis into another: the source rows (of every
+   * category) are removed and the source name (plus any of its aliases)
+   * becomes an alias of the target. Returns the target's first stored analysis.
+   */
+  async mergeAnalyses(sourceName: string, targetName: string): Promise<IngredientAnalysis> {
+    const source = await this.resolveIngredientName(sourceName);
+    const target = await this.resolveIngredientName(targetName);
+
+    if (source === target) {
+      throw new Error(`"${sourceName}" and "${targetName}" already resolve to "${target}"`);
+    }
+
+    let targetAnalysis: IngredientAnalysis | null = null;
+    for (const category of PRODUCT_CATEGORIES) {
+      targetAnalysis ??= await this.getAnalysis(target, category);
+    }
+    if (!targetAnalysis) {
+      throw new Error(`No analysis found for "${targetName}"`);
     }
+
+    await this.aliasService.repointAliases(source, target);
+    await this.aliasService.addAlias(source, target);
+
+    await this.store.deleteAnalysis(source);
+
+    return targetAnalysis;
+  }
+
+  private mapAnalysisToRow(analysis: IngredientAnalysis, now: string): AnalysisRowUpdate {
+    return {
+      status: analysis.status,
+      rationale: analysis.rationale,
+      description: analysis.description,
+      edge_cases: analysis.edgeCases,
+      source_url: analysis.sourceUrl,
+      ewg_score: analysis.ewgScore ?? null,
+      ewg_data_availability: null, // Can be added if needed
+      research_sources: analysis.researchSources || null,
+      suggested_matches: analysis.suggestedMatches ?? null,
+      confidence: analysis.confidence,
+      provider: analysis.provider ?? null,
+      consensus: analysis.consensus ?? null,
+      needs_review: analysis.needsReview ?? false,
+      tags: analysis.tags ?? [],
+      attributes: analysis.attributes ?? null,
+      analysis_version: PROMPT_VERSION,
+      last_analyzed_at: now,
+    };
   }
 
   /**
@@ -191,10 +269,15 @@ export class IngredientAnalysisService {
       ewgScore: row.ewg_score,
       researchSources: row.research_sources || undefined,
       suggestedMatches: row.suggested_matches ?? undefined,
+      provider: (row.provider as IngredientAnalysis["provider"]) ?? null,
+      consensus: row.consensus ?? null,
+      needsReview: row.needs_review ?? false,
+      tags: row.tags ?? [],
+      attributes: row.attributes ?? undefined,
       // Include metadata for refresh checking
+      analysisVersion: row.analysis_version,
       lastAnalyzedAt: row.last_analyzed_at,
-      updatedAt: row.updated_at,
-    } as IngredientAnalysis & { lastAnalyzedAt?: string; updatedAt?: string };
+    };
   }
 }
 
@@ -0,0 +1,201 @@
+/**
+ * Ingredient Prompt
+ * The single prompt template and response schema used by every AI provider.
+ * The vetting profile fills in the category-specific parts (researcher, status
+ * guidelines, reference data); the skincare profile gives the original prompt.
+ *
+ * PROMPT_VERSION is stored in ingredient_analyses.analysis_version. Bump it
+ * whenever the prompt or schema changes in a way that should re-analyze
+ * existing ingredients.
+ */
+
+import { z } from "zod";
+import { formatConcentration } from "@shared/concentrationThresholds";
+import {
+  emptyAttributes,
+  INGREDIENT_FUNCTIONS,
+  INGREDIENT_ORIGINS,
+  isIngredientFunction,
+  isIngredientOrigin,
+} from "@shared/ingredientAttributes";
+import { INGREDIENT_TAGS } from "@shared/ingredientTags";
+import type { IngredientContext } from "@shared/types";
+import type { ReferenceData } from "./referenceSources";
+import type { ResearchResult } from "./researchService";
+import type { VettingProfile } from "./vettingProfiles";
+
+export const PROMPT_VERSION = 4;
+
+const descriptionLines = (value: string) =>
+  value.split("\n").map((line) => line.trim()).filter(Boolean);
+
+const lowercase = (value: string | null) => value?.trim().toLowerCase() || null;
+
+const attributesSchema = z.object({
+  // A function outside the list is "other"; an unknown origin is left out
+  function: z
+    .string()
+    .nullable()
+    .default(null)
+    .transform(lowercase)
+    .transform((value) => (value === null ? null : isIngredientFunction(value) ? value : "other")),
+  origin: z
+    .string()
+    .nullable()
+    .default(null)
+    .transform(lowercase)
+    .transform((value) => (isIngredientOrigin(value) ? value : null)),
+  allergen: z.boolean().default(false),
+  comedogenicRating: z.number().int().min(0).max(5).nullable().default(null),
+  pregnancyCaution: z.boolean().default(false),
+});
+
+export const ingredientAnalysisSchema = z.object({
+  status: z.enum(["safe", "caution", "banned"]),
+  rationale: z
+    .string()
+    .trim()
+    .min(40, "rationale must explain the rating in at least one full sentence"),
+  description: z
+    .string()
+    .trim()
+    .refine((value) => descriptionLines(value).length === 3, "description must be exactly 3 lines separated by \\n")
+    .transform((value) => descriptionLines(value).join("\n")),
+  edgeCases: z
+    .string()
+    .trim()
+    .min(1, "edgeCases must not be empty")
+    .refine((value) => !value.includes("\n"), "edgeCases must be a single line"),
+  confidence: z.coerce.number().min(0).max(1),
+  // Unknown tags are dropped rather than failing the analysis
+  tags: z
+    .array(z.string())
+    .default([])
+    .transform((tags) => INGREDIENT_TAGS.filter((tag) => tags.includes(tag))),
+  attributes: attributesSchema.default(emptyAttributes()),
+});
+
+export type IngredientAnalysisResponse = z.infer<typeof ingredientAnalysisSchema>;
+
+export type ParsedAnalysis =
+  | { success: true; data: IngredientAnalysisResponse }
+  | { success: false; issues: string[] };
+
+/**
+ * Raised when a provider still returns an invalid analysis after the repair
+ * attempt; the provider chain treats it like any other provider failure
+ */
+export class AnalysisValidationError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly issues: string[],
+    readonly rawResponse: string,
+  ) {
+    super(`${provider} returned an invalid analysis: ${issues.join("; ")}`);
+    this.name = "AnalysisValidationError";
+  }
+}
+
+export function buildIngredientPrompt(
+  ingredientName: string,
+  referenceData: ReferenceData | null,
+  researchSources: ResearchResult[],
+  context: IngredientContext | null | undefined,
+  profile: VettingProfile,
+): string {
+  const referenceContext = referenceData ? `\n${referenceData.promptLines.join("\n")}` : "";
+
+  let researchContext = "";
+  if (researchSources.length > 0) {
+    researchContext = "\nAdditional Research Sources Found:\n";
+    researchSources.forEach((source) => {
+      researchContext += `- ${source.source.toUpperCase()}: ${source.title} (${source.url})\n`;
+    });
+  }
+
+  let productContext = "";
+  if (context?.concentration || context?.position) {
+    productContext = "\nIn this product:";
+    if (context.concentration) {
+      productContext += `\n- Concentration: ${formatConcentration(context.concentration)} (from the label)`;
+    }
+    if (context.position) {
+      const count = context.ingredientCount ? ` of ${context.ingredientCount}` : "";
+      productContext += `\n- Position: ${context.position}${count} in the ingredient list (ingredients above 1% are listed in descending order of concentration)`;
+    }
+  }
+
+  return `You are a ${profile.researcher}. Analyze the safety of this ingredient: "${ingredientName}"
+${referenceContext}${researchContext}${productContext}
+
+Respond with a single JSON object and nothing else:
+{
+  "status": "safe" | "caution" | "banned",
+  "rationale": "Detailed explanation based on scientific evidence. Be specific about why this ingredient received this rating. Include information about known health concerns, regulatory status, and scientific research findings.",
+  "description": "Exactly 3 lines separated by \\n. Line 1: What it is and its primary use. Line 2: Safety profile and key characteristics. Line 3: Common applications in ${profile.applications}.",
+  "edgeCases": "A single line about edge cases or conditions where extra caution is needed (e.g. 'May cause irritation in sensitive skin', 'Avoid during pregnancy' or 'None known').",
+  "confidence": 0.0-1.0,
+  "tags": Any of ${INGREDIENT_TAGS.map((tag) => `"${tag}"`).join(", ")} that apply, e.g. ["fragrance", "allergen"] for limonene, or [],
+  "attributes": {
+    "function": Its main role in the formula, one of ${INGREDIENT_FUNCTIONS.map((value) => `"${value}"`).join(", ")},
+    "origin": ${INGREDIENT_ORIGINS.map((value) => `"${value}"`).join(" | ")} | null if it varies by supplier,
+    "allergen": true if it is a recognized contact or food allergen,
+    "comedogenicRating": 0-5 on the standard comedogenic scale, or null if it is not applied to skin or there is no data,
+    "pregnancyCaution": true if it is commonly advised against during pregnancy or breastfeeding
+  }
+}
+
+Guidelines:
+- "safe": ${profile.statusGuidelines.safe}
+- "caution": ${profile.statusGuidelines.caution}
+- "banned": ${profile.statusGuidelines.banned}
+
+${profile.referenceGuideline}
+If a concentration is given, rate the ingredient at that concentration and state it in the rationale; otherwise rate it at ${profile.typicalUse}.
+Be specific and evidence-based. The rationale should be unique to this ingredient, not generic.`;
+}
+
+/**
+ * Ask the model to fix its own previous answer, listing exactly what was wrong
+ */
+export function buildRepairPrompt(originalPrompt: string, previousResponse: string, issues: string[]): string {
+  return `${originalPrompt}
+
+Your previous answer could not be used:
+"""
+${previousResponse.substring(0, 2000)}
+"""
+
+Problems:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Return the corrected JSON object only, with every field present and valid.`;
+}
+
+/**
+ * Extract and validate the JSON object in a model response
+ * (tolerates code fences and surrounding prose)
+ */
+export function parseIngredientAnalysis(text: string): ParsedAnalysis {
+  const jsonText = text.replace(/```(?:json)?/g, "").match(/\{[\s\S]*\}/)?.[0];
+  if (!jsonText) {
+    return { success: false, issues: ["response did not contain a JSON object"] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(jsonText);
+  } catch (error) {
+    return { success: false, issues: [`response is not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+
+  const result = ingredientAnalysisSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
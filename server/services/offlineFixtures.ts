@@ -0,0 +1,161 @@
+/**
+ * Offline Fixtures
+ * Ingredient rules and EWG scores read from a local JSON file
+ * (server/fixtures/offlineVetting.json, or OFFLINE_VETTING_FIXTURES) so the
+ * full vetting pipeline can run deterministically without network access.
+ * Used by the "offline" AI provider and FixtureEWGService.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { parseIngredientName } from "@shared/ingredientParser";
+import type { EWGIngredientData, EWGSource } from "./ewgService";
+
+export const DEFAULT_OFFLINE_FIXTURES_PATH = "server/fixtures/offlineVetting.json";
+
+const statusSchema = z.enum(["safe", "caution", "banned"]);
+
+const fixtureIngredientSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  status: statusSchema,
+  rationale: z.string().min(1),
+  description: z.string().min(1),
+  edgeCases: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  // Checked by ingredientAnalysisSchema when the offline provider answers with it
+  attributes: z.unknown().optional(),
+  ewg: z
+    .object({
+      score: z.number().int().min(1).max(10),
+      dataAvailability: z.string().nullable().default(null),
+      concerns: z.array(z.string()).default([]),
+    })
+    .optional(),
+});
+
+const fixtureFileSchema = z.object({
+  ingredients: z.array(fixtureIngredientSchema).default([]),
+  // Substring rules for ingredients without their own entry, checked in order
+  keywordRules: z
+    .array(z.object({ keyword: z.string().min(1), status: statusSchema }))
+    .default([]),
+});
+
+export type FixtureIngredient = z.infer<typeof fixtureIngredientSchema>;
+export type FixtureKeywordRule = z.infer<typeof fixtureFileSchema>["keywordRules"][number];
+
+const loaded = new Map<string, OfflineFixtures>();
+
+export class OfflineFixtures {
+  private byName = new Map<string, FixtureIngredient>();
+
+  private constructor(
+    readonly filePath: string,
+    private keywordRules: FixtureKeywordRule[],
+    ingredients: FixtureIngredient[],
+  ) {
+    ingredients.forEach((ingredient) => {
+      [ingredient.name, ...ingredient.aliases].forEach((name) => {
+        this.byName.set(normalize(name), ingredient);
+      });
+    });
+  }
+
+  /**
+   * Read and validate a fixture file; each path is only read once per process
+   */
+  static load(filePath: string = process.env.OFFLINE_VETTING_FIXTURES || DEFAULT_OFFLINE_FIXTURES_PATH): OfflineFixtures {
+    const resolved = path.resolve(filePath);
+    const cached = loaded.get(resolved);
+    if (cached) {
+      return cached;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(readFileSync(resolved, "utf8"));
+    } catch (error) {
+      throw new Error(`Failed to read offline vetting fixtures ${resolved}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const parsed = fixtureFileSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+      throw new Error(`Invalid offline vetting fixtures ${resolved}: ${issues.join("; ")}`);
+    }
+
+    const fixtures = new OfflineFixtures(resolved, parsed.data.keywordRules, parsed.data.ingredients);
+    loaded.set(resolved, fixtures);
+    return fixtures;
+  }
+
+  /**
+   * Find an ingredient's entry by name or alias.
+   * "Water (Aqua)" is checked as written, then as "water", then as "aqua".
+   */
+  findIngredient(name: string): FixtureIngredient | null {
+    const parsed = parseIngredientName(name);
+    const candidates = [name, ...(parsed ? [parsed.name, ...parsed.aliases] : [])];
+
+    for (const candidate of candidates) {
+      const ingredient = this.byName.get(normalize(candidate));
+      if (ingredient) {
+        return ingredient;
+      }
+    }
+    return null;
+  }
+
+  findKeywordRule(name: string): FixtureKeywordRule | null {
+    const normalized = normalize(name);
+    return this.keywordRules.find((rule) => normalized.includes(normalize(rule.keyword))) ?? null;
+  }
+}
+
+/**
+ * Drop-in replacement for EWGService that answers from the fixture file
+ */
+export class FixtureEWGService implements EWGSource {
+  private fixtures: OfflineFixtures;
+
+  constructor(fixturesPath?: string) {
+    this.fixtures = OfflineFixtures.load(fixturesPath);
+  }
+
+  async searchIngredient(ingredientName: string): Promise<EWGIngredientData> {
+    const ingredient = this.fixtures.findIngredient(ingredientName);
+    if (!ingredient?.ewg) {
+      return {
+        name: ingredientName,
+        score: null,
+        dataAvailability: null,
+        url: `https://www.ewg.org/skindeep/search/?query=${encodeURIComponent(ingredientName)}`,
+        concerns: [],
+        found: false,
+      };
+    }
+
+    return {
+      name: ingredient.name,
+      score: ingredient.ewg.score,
+      dataAvailability: ingredient.ewg.dataAvailability,
+      url: `https://www.ewg.org/skindeep/ingredients/${slugify(ingredient.name)}/`,
+      concerns: ingredient.ewg.concerns,
+      found: true,
+    };
+  }
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
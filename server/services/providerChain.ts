@@ -0,0 +1,246 @@
+/**
+ * Provider Chain
+ * Runs ingredient analysis across several AI providers.
+ * - failover: providers are tried in order until one succeeds
+ * - consensus: the first two or three providers rate the ingredient
+ *   independently; any disagreement is flagged for editorial review
+ *   rather than resolved silently
+ */
+
+import { mergeAttributes, type IngredientAttributes } from "@shared/ingredientAttributes";
+import { mergeTags, type IngredientTag } from "@shared/ingredientTags";
+import type { IngredientContext, SafetyStatus } from "@shared/types";
+import type { AIProvider, AIProviderType } from "./aiProvider";
+import { createProvider } from "./providers";
+import type { ReferenceData } from "./referenceSources";
+import type { VettingProfile } from "./vettingProfiles";
+import type { VettingScheduler } from "./vettingScheduler";
+
+export type ProviderMode = "failover" | "consensus";
+
+export interface ProviderChainOptions {
+  mode?: ProviderMode;
+  // Number of providers that vote in consensus mode (2 or 3)
+  consensusSize?: number;
+  // Per-provider config; providers without an entry read theirs from the environment
+  configs?: Partial<Record<AIProviderType, Record<string, unknown>>>;
+}
+
+export interface ProviderVote {
+  provider: AIProviderType;
+  status: SafetyStatus;
+  confidence: number;
+  rationale: string;
+}
+
+export interface ProviderFailure {
+  provider: AIProviderType;
+  error: string;
+}
+
+export interface ConsensusDetails {
+  mode: ProviderMode;
+  agreed: boolean;
+  votes: ProviderVote[];
+  failures: ProviderFailure[];
+}
+
+export interface ProviderAnalysis {
+  status: SafetyStatus;
+  rationale: string;
+  description: string;
+  edgeCases: string;
+  confidence: number;
+  tags: IngredientTag[];
+  attributes: IngredientAttributes;
+}
+
+export interface ChainResult {
+  analysis: Partial<ProviderAnalysis>;
+  // Provider whose analysis was used (null when every provider failed)
+  provider: AIProviderType | null;
+  consensus: ConsensusDetails | null;
+  needsReview: boolean;
+}
+
+const SEVERITY: Record<SafetyStatus, number> = { safe: 0, caution: 1, banned: 2 };
+
+export class ProviderChain {
+  private entries: { type: AIProviderType; provider: AIProvider }[] = [];
+  private mode: ProviderMode;
+  private consensusSize: number;
+
+  constructor(
+    types: AIProviderType[],
+    private scheduler: VettingScheduler,
+    options: ProviderChainOptions = {},
+  ) {
+    for (const type of types) {
+      try {
+        this.entries.push({ type, provider: createProvider(type, options.configs?.[type]) });
+        console.log(`✅ AI Provider initialized: ${type}`);
+      } catch (error) {
+        console.warn(`⚠️  ${error instanceof Error ? error.message : error}. Skipping ${type}.`);
+      }
+    }
+
+    this.mode = options.mode ?? "failover";
+    this.consensusSize = Math.min(3, Math.max(2, options.consensusSize ?? 3));
+
+    if (this.mode === "consensus" && this.entries.length < 2) {
+      console.warn("⚠️  Consensus mode needs at least two configured providers. Falling back to failover.");
+      this.mode = "failover";
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get types(): AIProviderType[] {
+    return this.entries.map((entry) => entry.type);
+  }
+
+  get currentMode(): ProviderMode {
+    return this.mode;
+  }
+
+  async analyze(
+    ingredientName: string,
+    referenceData: ReferenceData | null,
+    researchSources: any[],
+    context: IngredientContext | null | undefined,
+    profile: VettingProfile,
+  ): Promise<ChainResult> {
+    return this.mode === "consensus"
+      ? this.analyzeWithConsensus(ingredientName, referenceData, researchSources, context, profile)
+      : this.analyzeWithFailover(ingredientName, referenceData, researchSources, context, profile);
+  }
+
+  private async analyzeWithFailover(
+    ingredientName: string,
+    referenceData: ReferenceData | null,
+    researchSources: any[],
+    context: IngredientContext | null | undefined,
+    profile: VettingProfile,
+  ): Promise<ChainResult> {
+    const failures: ProviderFailure[] = [];
+
+    for (const entry of this.entries) {
+      try {
+        const analysis = await this.run(entry, ingredientName, referenceData, researchSources, context, profile);
+        if (failures.length > 0) {
+          console.warn(`⚠️  "${ingredientName}" analyzed by ${entry.type} after ${failures.map((f) => f.provider).join(", ")} failed`);
+        }
+        return {
+          analysis,
+          provider: entry.type,
+          consensus: failures.length > 0 ? { mode: "failover", agreed: true, votes: [toVote(entry.type, analysis)], failures } : null,
+          needsReview: false,
+        };
+      } catch (error) {
+        console.error(`Error analyzing ingredient ${ingredientName} with ${entry.type}:`, error);
+        failures.push({ provider: entry.type, error: errorMessage(error) });
+      }
+    }
+
+    // Every provider failed: the caller falls back to reference/default text, which an editor must check
+    return {
+      analysis: {},
+      provider: null,
+      consensus: failures.length > 0 ? { mode: "failover", agreed: false, votes: [], failures } : null,
+      needsReview: this.entries.length > 0,
+    };
+  }
+
+  private async analyzeWithConsensus(
+    ingredientName: string,
+    referenceData: ReferenceData | null,
+    researchSources: any[],
+    context: IngredientContext | null | undefined,
+    profile: VettingProfile,
+  ): Promise<ChainResult> {
+    const voters = this.entries.slice(0, this.consensusSize);
+    const settled = await Promise.allSettled(
+      voters.map((entry) => this.run(entry, ingredientName, referenceData, researchSources, context, profile)),
+    );
+
+    const votes: ProviderVote[] = [];
+    const analyses: { provider: AIProviderType; analysis: ProviderAnalysis }[] = [];
+    const failures: ProviderFailure[] = [];
+
+    settled.forEach((outcome, index) => {
+      const provider = voters[index].type;
+      if (outcome.status === "fulfilled") {
+        votes.push(toVote(provider, outcome.value));
+        analyses.push({ provider, analysis: outcome.value });
+      } else {
+        console.error(`Error analyzing ingredient ${ingredientName} with ${provider}:`, outcome.reason);
+        failures.push({ provider, error: errorMessage(outcome.reason) });
+      }
+    });
+
+    if (analyses.length === 0) {
+      return {
+        analysis: {},
+        provider: null,
+        consensus: { mode: "consensus", agreed: false, votes, failures },
+        needsReview: true,
+      };
+    }
+
+    const agreed = new Set(votes.map((vote) => vote.status)).size === 1;
+
+    // Use the most severe rating (then the most confident) so a disagreement never
+    // downgrades an ingredient; the editor decides which provider was right
+    const chosen = analyses.reduce((best, current) => {
+      const severity = (SEVERITY[current.analysis.status] ?? 1) - (SEVERITY[best.analysis.status] ?? 1);
+      if (severity !== 0) return severity > 0 ? current : best;
+      return current.analysis.confidence > best.analysis.confidence ? current : best;
+    });
+
+    if (!agreed) {
+      console.warn(`⚠️  Providers disagree on "${ingredientName}": ${votes.map((v) => `${v.provider}=${v.status}`).join(", ")}`);
+    }
+
+    return {
+      // Tags and attributes are not a rating, so every voter's are kept, the
+      // chosen analysis first
+      analysis: {
+        ...chosen.analysis,
+        tags: mergeTags(...analyses.map(({ analysis }) => analysis.tags)),
+        attributes: mergeAttributes(chosen.analysis.attributes, ...analyses.map(({ analysis }) => analysis.attributes)),
+      },
+      provider: chosen.provider,
+      consensus: { mode: "consensus", agreed, votes, failures },
+      // A single surviving vote is not a consensus either
+      needsReview: !agreed || analyses.length < 2,
+    };
+  }
+
+  private run(
+    entry: { type: AIProviderType; provider: AIProvider },
+    ingredientName: string,
+    referenceData: ReferenceData | null,
+    researchSources: any[],
+    context: IngredientContext | null | undefined,
+    profile: VettingProfile,
+  ): Promise<ProviderAnalysis> {
+    return this.scheduler.schedule(entry.type, () =>
+      entry.provider.analyzeIngredient(ingredientName, referenceData, researchSources, context, profile),
+    );
+  }
+}
+
+function toVote(provider: AIProviderType, analysis: ProviderAnalysis): ProviderVote {
+  return {
+    provider,
+    status: analysis.status,
+    confidence: analysis.confidence,
+    rationale: analysis.rationale,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
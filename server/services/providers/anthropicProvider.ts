@@ -0,0 +1,80 @@
+/**
+ * Anthropic Provider
+ * Uses the Anthropic Messages API (Claude models) over plain HTTP
+ */
+
+import { z } from "zod";
+import { BaseAIProvider } from "./baseProvider";
+import { registerProvider } from "./registry";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MODELS = ["claude-3-5-haiku-latest", "claude-3-5-sonnet-latest", "claude-3-7-sonnet-latest"];
+
+export class AnthropicProvider extends BaseAIProvider {
+  protected label = "Anthropic";
+  private apiKey: string;
+  private model: string;
+  private baseURL: string;
+
+  constructor(apiKey: string, model: string = ANTHROPIC_MODELS[0], baseURL: string = ANTHROPIC_API_URL) {
+    super();
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseURL = baseURL;
+  }
+
+  protected async complete(prompt: string): Promise<string> {
+    const response = await fetch(this.baseURL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: 1024,
+        temperature: 0.3,
+        messages: [
+          { role: "user", content: prompt },
+          // Prefilling the opening brace keeps the reply a bare JSON object
+          { role: "assistant", content: "{" },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      // status and headers let the VettingScheduler detect 429s and honor retry-after
+      throw Object.assign(new Error(`Anthropic API error ${response.status}: ${body.substring(0, 300)}`), {
+        status: response.status,
+        headers: response.headers,
+      });
+    }
+
+    const data = await response.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+    if (!text) throw new Error("No response from Anthropic");
+
+    return `{${text}`;
+  }
+}
+
+registerProvider({
+  type: "anthropic",
+  label: "Anthropic",
+  configSchema: z.object({
+    apiKey: z.string({ required_error: "ANTHROPIC_API_KEY is not set" }).min(1, "ANTHROPIC_API_KEY is not set"),
+    model: z.string().default(ANTHROPIC_MODELS[0]),
+  }),
+  configFromEnv: (env) => ({ apiKey: env.ANTHROPIC_API_KEY, model: env.ANTHROPIC_MODEL || undefined }),
+  models: ANTHROPIC_MODELS,
+  defaultModel: ANTHROPIC_MODELS[0],
+  capabilities: { jsonMode: false, runsLocally: false, requiresApiKey: true },
+  defaultRequestsPerMinute: 50,
+  create: (config) => new AnthropicProvider(config.apiKey, config.model),
+});
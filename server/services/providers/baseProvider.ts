@@ -0,0 +1,54 @@
+/**
+ * Base AI Provider
+ * Shared analyze flow for every provider: build the versioned prompt, call the
+ * model, validate the response against the schema and, if it is invalid, ask
+ * the model once to repair it. Providers only implement `complete`.
+ */
+
+import type { IngredientContext } from "@shared/types";
+import type { AIProvider } from "../aiProvider";
+import {
+  AnalysisValidationError,
+  buildIngredientPrompt,
+  buildRepairPrompt,
+  parseIngredientAnalysis,
+  type IngredientAnalysisResponse,
+} from "../ingredientPrompt";
+import type { ReferenceData } from "../referenceSources";
+import type { VettingProfile } from "../vettingProfiles";
+
+const MAX_REPAIR_ATTEMPTS = 1;
+
+export abstract class BaseAIProvider implements AIProvider {
+  protected abstract label: string;
+
+  /**
+   * Send one prompt to the model and return its raw text reply
+   */
+  protected abstract complete(prompt: string): Promise<string>;
+
+  async analyzeIngredient(
+    ingredientName: string,
+    referenceData: ReferenceData | null,
+    researchSources: any[],
+    context: IngredientContext | null | undefined,
+    profile: VettingProfile
+  ): Promise<IngredientAnalysisResponse> {
+    const prompt = buildIngredientPrompt(ingredientName, referenceData, researchSources, context, profile);
+
+    let response = await this.complete(prompt);
+    let parsed = parseIngredientAnalysis(response);
+
+    for (let attempt = 0; !parsed.success && attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`⚠️  ${this.label} returned an invalid analysis for "${ingredientName}" (${parsed.issues.join("; ")}). Asking for a repair...`);
+      response = await this.complete(buildRepairPrompt(prompt, response, parsed.issues));
+      parsed = parseIngredientAnalysis(response);
+    }
+
+    if (!parsed.success) {
+      throw new AnalysisValidationError(this.label, parsed.issues, response);
+    }
+
+    return parsed.data;
+  }
+}
@@ -5,35 +5,29 @@
  */
 
 import Groq from "groq-sdk";
-import type { AIProvider } from "../aiProvider";
-
-export class GroqProvider implements AIProvider {
+import { z } from "zod";
+import { BaseAIProvider } from "./baseProvider";
+import { registerProvider } from "./registry";
+
+const GROQ_MODELS = [
+  "llama-3.3-70b-versatile",  // Latest version
+  "llama-3.1-8b-instant",     // Fast alternative
+  "mixtral-8x7b-32768"         // Mixtral model
+];
+
+export class GroqProvider extends BaseAIProvider {
+  protected label = "Groq";
   private client: Groq;
   private model: string;
-  private fallbackModels: string[] = [
-    "llama-3.3-70b-versatile",  // Latest version
-    "llama-3.1-8b-instant",     // Fast alternative
-    "mixtral-8x7b-32768"         // Mixtral model
-  ];
+  private fallbackModels: string[] = GROQ_MODELS;
 
   constructor(apiKey: string, model: string = "llama-3.3-70b-versatile") {
+    super();
     this.client = new Groq({ apiKey });
     this.model = model;
   }
 
-  async analyzeIngredient(
-    ingredientName: string,
-    ewgData: any,
-    researchSources: any[]
-  ): Promise<{
-    status: "safe" | "caution" | "banned";
-    rationale: string;
-    description: string;
-    edgeCases: string;
-    confidence: number;
-  }> {
-    const prompt = this.buildPrompt(ingredientName, ewgData, researchSources);
-    
+  protected async complete(prompt: string): Promise<string> {
     // Try current model first, then fallback models if decommissioned
     const modelsToTry = [this.model, ...this.fallbackModels.filter(m => m !== this.model)];
     
@@ -55,7 +49,7 @@ export class GroqProvider implements AIProvider {
           this.model = modelToUse;
         }
 
-        return this.parseResponse(content, ingredientName);
+        return content;
       } catch (error: any) {
         // Check if model is decommissioned (error structure may vary)
         const isDecommissioned = 
@@ -71,10 +65,9 @@ export class GroqProvider implements AIProvider {
           }
         }
         
-        // If rate limit, retry with same model
+        // Rate limits are retried by the VettingScheduler with a shared backoff
         if (error.status === 429) {
-          await this.sleep(1000);
-          return this.analyzeIngredient(ingredientName, ewgData, researchSources);
+          throw error;
         }
         
         // If this was the last model, throw the error
@@ -91,79 +84,19 @@ export class GroqProvider implements AIProvider {
     
     throw new Error("All Groq models failed");
   }
-
-  private buildPrompt(ingredientName: string, ewgData: any, researchSources: any[]): string {
-    let ewgContext = "";
-    if (ewgData.found && ewgData.score !== null) {
-      ewgContext = `\nEWG Skin Deep Score: ${ewgData.score}/10 (Data Availability: ${ewgData.dataAvailability || "Unknown"})`;
-      if (ewgData.concerns && ewgData.concerns.length > 0) {
-        ewgContext += `\nEWG Concerns: ${ewgData.concerns.join(", ")}`;
-      }
-    } else {
-      ewgContext = "\nEWG Skin Deep: Not found or score unavailable";
-      if (ewgData.suggestedMatches && ewgData.suggestedMatches.length > 0) {
-        ewgContext += `\nSuggested similar ingredients: ${ewgData.suggestedMatches.join(", ")}`;
-      }
-    }
-
-    let researchContext = "";
-    if (researchSources && researchSources.length > 0) {
-      researchContext = "\nAdditional Research Sources Found:\n";
-      researchSources.forEach((source: any) => {
-        researchContext += `- ${source.source.toUpperCase()}: ${source.title} (${source.url})\n`;
-      });
-    }
-
-    return `You are a cosmetic ingredient safety researcher. Analyze the safety of this ingredient: "${ingredientName}"
-
-${ewgContext}${researchContext}
-
-Provide your analysis in JSON format:
-{
-  "status": "safe" | "caution" | "banned",
-  "rationale": "Detailed explanation based on scientific evidence. Be specific about why this ingredient received this rating. Include information about known health concerns, regulatory status, and scientific research findings.",
-  "description": "A concise 3-line description of the ingredient. First line: What it is and its primary use. Second line: Safety profile and key characteristics. Third line: Common applications in cosmetics.",
-  "edgeCases": "A one-line statement mentioning any edge cases, special considerations, or specific conditions where this ingredient should be used with extra caution (e.g., 'May cause irritation in sensitive skin' or 'Avoid during pregnancy' or 'None known').",
-  "confidence": 0.0-1.0
-}
-
-Guidelines:
-- "safe": Generally recognized as safe, low risk, well-studied with no major concerns (EWG score 1-4)
-- "caution": Mixed evidence, potential concerns at high concentrations, needs careful consideration (EWG score 5-7)
-- "banned": Known health risks, regulatory restrictions, or significant safety concerns (EWG score 8-10)
-
-If EWG score is provided, use it as the primary basis for status determination:
-- Score 1-4 → "safe"
-- Score 5-7 → "caution"  
-- Score 8-10 → "banned"
-
-The description must be exactly 3 lines, each line being a complete sentence.
-The edgeCases must be a single concise line.
-
-Be specific and evidence-based. The rationale should be unique to this ingredient, not generic.`;
-  }
-
-  private parseResponse(text: string, ingredientName: string): any {
-    try {
-      const parsed = JSON.parse(text);
-      return {
-        status: parsed.status || "caution",
-        rationale: parsed.rationale || `${ingredientName} requires review.`,
-        description: parsed.description || this.defaultDescription(ingredientName),
-        edgeCases: parsed.edgeCases || "No specific edge cases known.",
-        confidence: parsed.confidence || 0.7,
-      };
-    } catch (error) {
-      throw new Error(`Failed to parse Groq response: ${error}`);
-    }
-  }
-
-  private defaultDescription(name: string): string {
-    return `${name} is a cosmetic ingredient.\nSafety assessment indicates caution status.\nFurther research may be needed.`;
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
+registerProvider({
+  type: "groq",
+  label: "Groq",
+  configSchema: z.object({
+    apiKey: z.string({ required_error: "GROQ_API_KEY is not set" }).min(1, "GROQ_API_KEY is not set"),
+    model: z.string().default(GROQ_MODELS[0]),
+  }),
+  configFromEnv: (env) => ({ apiKey: env.GROQ_API_KEY, model: env.GROQ_MODEL || undefined }),
+  models: GROQ_MODELS,
+  defaultModel: GROQ_MODELS[0],
+  capabilities: { jsonMode: true, runsLocally: false, requiresApiKey: true },
+  defaultRequestsPerMinute: 30,
+  create: (config) => new GroqProvider(config.apiKey, config.model),
+});
@@ -0,0 +1,18 @@
+/**
+ * Importing this module registers every built-in AI provider
+ */
+
+import "./geminiProvider";
+import "./openaiProvider";
+import "./groqProvider";
+import "./anthropicProvider";
+import "./localProvider";
+import "./offlineProvider";
+
+export {
+  createProvider,
+  getProviderDefinition,
+  listProviders,
+  resolveProviderConfig,
+  type AIProviderDefinition,
+} from "./registry";
@@ -0,0 +1,43 @@
+/**
+ * Local Provider
+ * Any OpenAI-compatible chat completions endpoint running on your own
+ * hardware (Ollama, llama.cpp server, LM Studio, vLLM), so vetting can run
+ * fully offline. Defaults to Ollama's endpoint.
+ */
+
+import { z } from "zod";
+import { OpenAIProvider } from "./openaiProvider";
+import { registerProvider } from "./registry";
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const LOCAL_MODELS = ["llama3.1:8b", "qwen2.5:7b", "mistral:7b"];
+
+export class LocalProvider extends OpenAIProvider {
+  constructor(baseURL: string, model: string, apiKey: string = "local", jsonMode: boolean = true) {
+    // Local servers ignore the API key, but the OpenAI client requires one
+    super(apiKey, model, { baseURL, jsonMode, label: `local model (${model})` });
+  }
+}
+
+registerProvider({
+  type: "local",
+  label: "Local (OpenAI-compatible)",
+  configSchema: z.object({
+    baseURL: z.string().url("LOCAL_AI_BASE_URL must be a URL").default(DEFAULT_BASE_URL),
+    model: z.string().default(LOCAL_MODELS[0]),
+    apiKey: z.string().default("local"),
+    jsonMode: z.boolean().default(true),
+  }),
+  configFromEnv: (env) => ({
+    baseURL: env.LOCAL_AI_BASE_URL || undefined,
+    model: env.LOCAL_AI_MODEL || undefined,
+    apiKey: env.LOCAL_AI_API_KEY || undefined,
+    // llama.cpp builds without grammar support reject response_format
+    jsonMode: env.LOCAL_AI_JSON_MODE ? env.LOCAL_AI_JSON_MODE !== "false" : undefined,
+  }),
+  models: LOCAL_MODELS,
+  defaultModel: LOCAL_MODELS[0],
+  capabilities: { jsonMode: true, runsLocally: true, requiresApiKey: false },
+  defaultRequestsPerMinute: 600,
+  create: (config) => new LocalProvider(config.baseURL, config.model, config.apiKey, config.jsonMode),
+});
@@ -0,0 +1,70 @@
+/**
+ * Offline Provider
+ * Deterministic analyses from the offline fixture file instead of a model:
+ * a fixture entry when the ingredient has one (fixtures are skincare
+ * analyses), otherwise a keyword rule or the reference listing, otherwise
+ * "caution" with low confidence. No network access, so tests and local
+ * development exercise the real vetting orchestration.
+ */
+
+import { z } from "zod";
+import type { IngredientContext, SafetyStatus } from "@shared/types";
+import type { AIProvider } from "../aiProvider";
+import { ingredientAnalysisSchema, type IngredientAnalysisResponse } from "../ingredientPrompt";
+import { OfflineFixtures } from "../offlineFixtures";
+import type { ReferenceData } from "../referenceSources";
+import type { VettingProfile } from "../vettingProfiles";
+import { registerProvider } from "./registry";
+
+export class OfflineProvider implements AIProvider {
+  private fixtures: OfflineFixtures;
+
+  constructor(fixturesPath?: string) {
+    this.fixtures = OfflineFixtures.load(fixturesPath);
+  }
+
+  async analyzeIngredient(
+    ingredientName: string,
+    referenceData: ReferenceData | null,
+    _researchSources: any[],
+    _context: IngredientContext | null | undefined,
+    profile: VettingProfile
+  ): Promise<IngredientAnalysisResponse> {
+    const ingredient = profile.category === "skincare" ? this.fixtures.findIngredient(ingredientName) : null;
+    if (ingredient) {
+      // Validated like a model reply, so a bad fixture fails the same way a bad answer would
+      return ingredientAnalysisSchema.parse(ingredient);
+    }
+
+    const rule = this.fixtures.findKeywordRule(ingredientName);
+    const referenceStatus = referenceData?.status ?? null;
+    const status: SafetyStatus = rule?.status ?? referenceStatus ?? "caution";
+    const basis = rule
+      ? `its name matches the offline "${rule.keyword}" rule`
+      : referenceStatus
+        ? `${referenceData!.source} lists it as ${referenceData!.designation}`
+        : "it has no offline fixture entry";
+
+    return ingredientAnalysisSchema.parse({
+      status,
+      rationale: `${ingredientName} is rated ${status} by the offline vetting fixtures because ${basis}.`,
+      description: `${ingredientName} is a ${profile.ingredientKind} without a detailed offline fixture entry.\nOffline vetting rates it ${status}.\nRun vetting with a configured AI provider for a full analysis.`,
+      edgeCases: "Not analyzed offline; verify before publishing.",
+      confidence: rule || referenceStatus ? 0.6 : 0.3,
+    });
+  }
+}
+
+registerProvider({
+  type: "offline",
+  label: "Offline fixtures (deterministic)",
+  configSchema: z.object({
+    fixturesPath: z.string().min(1).optional(),
+  }),
+  configFromEnv: (env) => ({ fixturesPath: env.OFFLINE_VETTING_FIXTURES || undefined }),
+  models: ["fixtures"],
+  defaultModel: "fixtures",
+  capabilities: { jsonMode: true, runsLocally: true, requiresApiKey: false },
+  defaultRequestsPerMinute: 6000,
+  create: (config) => new OfflineProvider(config.fixturesPath),
+});
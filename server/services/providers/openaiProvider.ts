@@ -4,91 +4,58 @@
  */
 
 import OpenAI from "openai";
-import type { AIProvider } from "../aiProvider";
+import { z } from "zod";
+import { BaseAIProvider } from "./baseProvider";
+import { registerProvider } from "./registry";
 
-export class OpenAIProvider implements AIProvider {
+const OPENAI_MODELS = ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini"];
+
+export interface OpenAIProviderOptions {
+  baseURL?: string; // Any OpenAI-compatible endpoint
+  jsonMode?: boolean; // Send response_format: json_object (not every server supports it)
+  label?: string;
+}
+
+export class OpenAIProvider extends BaseAIProvider {
+  protected label: string;
   private client: OpenAI;
   private model: string;
+  private jsonMode: boolean;
 
-  constructor(apiKey: string, model: string = "gpt-4o-mini") {
-    this.client = new OpenAI({ apiKey });
+  constructor(apiKey: string, model: string = "gpt-4o-mini", options: OpenAIProviderOptions = {}) {
+    super();
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
     this.model = model;
+    this.jsonMode = options.jsonMode ?? true;
+    this.label = options.label ?? "OpenAI";
   }
 
-  async analyzeIngredient(
-    ingredientName: string,
-    ewgData: any,
-    researchSources: any[]
-  ): Promise<{
-    status: "safe" | "caution" | "banned";
-    rationale: string;
-    description: string;
-    edgeCases: string;
-    confidence: number;
-  }> {
-    const prompt = this.buildPrompt(ingredientName, ewgData, researchSources);
-    
-    try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error("No response from OpenAI");
-
-      return this.parseResponse(content, ingredientName);
-    } catch (error: any) {
-      if (error.status === 429) {
-        // OpenAI rate limits - wait and retry
-        await this.sleep(60000); // Wait 1 minute
-        return this.analyzeIngredient(ingredientName, ewgData, researchSources);
-      }
-      throw error;
-    }
-  }
-
-  private buildPrompt(ingredientName: string, ewgData: any, researchSources: any[]): string {
-    let ewgContext = "";
-    if (ewgData.found && ewgData.score !== null) {
-      ewgContext = `\nEWG Score: ${ewgData.score}/10 (1-4=safe, 5-7=caution, 8-10=banned)`;
-    }
-
-    return `You are a cosmetic ingredient safety researcher. Analyze: "${ingredientName}"${ewgContext}
-
-Return JSON only:
-{
-  "status": "safe" | "caution" | "banned",
-  "rationale": "Detailed scientific explanation",
-  "description": "3-line description. Line 1: What it is and primary use. Line 2: Safety profile. Line 3: Common applications.",
-  "edgeCases": "One concise line about edge cases or special considerations",
-  "confidence": 0.0-1.0
-}`;
-  }
-
-  private parseResponse(text: string, ingredientName: string): any {
-    try {
-      const parsed = JSON.parse(text);
-      return {
-        status: parsed.status || "caution",
-        rationale: parsed.rationale || `${ingredientName} requires review.`,
-        description: parsed.description || this.defaultDescription(ingredientName),
-        edgeCases: parsed.edgeCases || "No specific edge cases known.",
-        confidence: parsed.confidence || 0.7,
-      };
-    } catch (error) {
-      throw new Error(`Failed to parse OpenAI response: ${error}`);
-    }
-  }
-
-  private defaultDescription(name: string): string {
-    return `${name} is a cosmetic ingredient.\nSafety assessment indicates caution status.\nFurther research may be needed.`;
-  }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  protected async complete(prompt: string): Promise<string> {
+    // Rate limits (429) are retried by the VettingScheduler with a shared backoff
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: "user", content: prompt }],
+      ...(this.jsonMode && { response_format: { type: "json_object" as const } }),
+      temperature: 0.3,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) throw new Error(`No response from ${this.label}`);
+    return content;
   }
 }
 
+registerProvider({
+  type: "openai",
+  label: "OpenAI",
+  configSchema: z.object({
+    apiKey: z.string({ required_error: "OPENAI_API_KEY is not set" }).min(1, "OPENAI_API_KEY is not set"),
+    model: z.string().default(OPENAI_MODELS[0]),
+  }),
+  configFromEnv: (env) => ({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL || undefined }),
+  models: OPENAI_MODELS,
+  defaultModel: OPENAI_MODELS[0],
+  capabilities: { jsonMode: true, runsLocally: false, requiresApiKey: true },
+  defaultRequestsPerMinute: 60,
+  create: (config) => new OpenAIProvider(config.apiKey, config.model),
+});
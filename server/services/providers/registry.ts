@@ -0,0 +1,73 @@
+/**
+ * AI Provider Registry
+ * Every provider registers itself with its config schema, known models,
+ * capabilities and default rate limit. AIVettingService and the scheduler
+ * look providers up here instead of switch-casing on the provider type.
+ */
+
+import type { z } from "zod";
+import type { AIProvider, AIProviderCapabilities, AIProviderType } from "../aiProvider";
+
+export interface AIProviderDefinition<TConfig = any> {
+  type: AIProviderType;
+  label: string;
+  configSchema: z.ZodType<TConfig, z.ZodTypeDef, unknown>;
+  // Raw config read from environment variables, validated by configSchema
+  configFromEnv: (env: NodeJS.ProcessEnv) => Record<string, unknown>;
+  models: string[];
+  defaultModel: string;
+  capabilities: AIProviderCapabilities;
+  defaultRequestsPerMinute: number;
+  create: (config: TConfig) => AIProvider;
+}
+
+export type ProviderConfigResult =
+  | { ok: true; config: unknown }
+  | { ok: false; error: string };
+
+const providers = new Map<AIProviderType, AIProviderDefinition>();
+
+export function registerProvider<TConfig>(definition: AIProviderDefinition<TConfig>): void {
+  if (providers.has(definition.type)) {
+    throw new Error(`AI provider "${definition.type}" is already registered`);
+  }
+  providers.set(definition.type, definition);
+}
+
+export function getProviderDefinition(type: string): AIProviderDefinition | undefined {
+  return providers.get(type as AIProviderType);
+}
+
+export function listProviders(): AIProviderDefinition[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Validate a provider's config, reading it from the environment when none is given
+ */
+export function resolveProviderConfig(
+  type: string,
+  rawConfig?: Record<string, unknown>,
+  env: NodeJS.ProcessEnv = process.env,
+): ProviderConfigResult {
+  const definition = getProviderDefinition(type);
+  if (!definition) {
+    return { ok: false, error: `Unknown AI provider "${type}". Available: ${listProviders().map((p) => p.type).join(", ")}` };
+  }
+
+  const parsed = definition.configSchema.safeParse(rawConfig ?? definition.configFromEnv(env));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`);
+    return { ok: false, error: issues.join("; ") };
+  }
+
+  return { ok: true, config: parsed.data };
+}
+
+export function createProvider(type: string, rawConfig?: Record<string, unknown>): AIProvider {
+  const result = resolveProviderConfig(type, rawConfig);
+  if (!result.ok) {
+    throw new Error(`Invalid ${type} provider config: ${result.error}`);
+  }
+  return (getProviderDefinition(type) as AIProviderDefinition).create(result.config);
+}
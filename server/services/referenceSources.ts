@@ -0,0 +1,203 @@
+/**
+ * Reference Sources
+ * The published data a vetting profile consults before the AI: EWG Skin Deep
+ * for skincare, and curated lists (FDA food substances, EPA Safer Choice)
+ * read from a JSON file for the other categories. Every lookup is returned as
+ * ReferenceData, so the prompt and the analysis work the same way whichever
+ * source answered.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { parseIngredientName } from "@shared/ingredientParser";
+import type { SafetyStatus } from "@shared/types";
+import { EWGService, type EWGIngredientData, type EWGSource } from "./ewgService";
+
+export interface ReferenceData {
+  // e.g. "EWG Skin Deep" or "FDA food substances"
+  source: string;
+  name: string;
+  found: boolean;
+  // The status the listing implies; used over the AI's status when set
+  status: SafetyStatus | null;
+  // EWG Skin Deep hazard score (1-10); null for sources without scores
+  score: number | null;
+  // How the source lists the ingredient, e.g. "GRAS (21 CFR 184.1033)"
+  designation: string | null;
+  concerns: string[];
+  url: string;
+  // What the prompt is told about the lookup
+  promptLines: string[];
+  suggestedMatches?: string[];
+}
+
+export interface ReferenceSource {
+  lookup(ingredientName: string): Promise<ReferenceData>;
+}
+
+/**
+ * EWG Skin Deep (or FixtureEWGService offline) as a reference source
+ */
+export class EWGReferenceSource implements ReferenceSource {
+  constructor(private ewg: EWGSource = new EWGService()) {}
+
+  async lookup(ingredientName: string): Promise<ReferenceData> {
+    return fromEWGData(await this.ewg.searchIngredient(ingredientName));
+  }
+}
+
+export function fromEWGData(data: EWGIngredientData): ReferenceData {
+  const hasScore = data.found && data.score !== null;
+
+  const promptLines: string[] = [];
+  if (hasScore) {
+    promptLines.push(`EWG Skin Deep Score: ${data.score}/10 (Data Availability: ${data.dataAvailability || "Unknown"})`);
+    if (data.concerns.length > 0) {
+      promptLines.push(`EWG Concerns: ${data.concerns.join(", ")}`);
+    }
+  } else {
+    promptLines.push("EWG Skin Deep: Not found or score unavailable");
+    if (data.suggestedMatches && data.suggestedMatches.length > 0) {
+      promptLines.push(`Suggested similar ingredients: ${data.suggestedMatches.join(", ")}`);
+    }
+  }
+
+  return {
+    source: "EWG Skin Deep",
+    name: data.name,
+    found: data.found,
+    status: EWGService.getStatusFromScore(data.score),
+    score: data.score,
+    designation: hasScore
+      ? `score ${data.score}/10${data.dataAvailability ? ` (data availability: ${data.dataAvailability})` : ""}`
+      : null,
+    concerns: data.concerns,
+    url: data.url,
+    promptLines,
+    suggestedMatches: data.suggestedMatches,
+  };
+}
+
+const listedIngredientSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  status: z.enum(["safe", "caution", "banned"]),
+  designation: z.string().min(1),
+  concerns: z.array(z.string()).default([]),
+  // The ingredient's own entry (e.g. its eCFR section); the list page otherwise
+  url: z.string().url().optional(),
+});
+
+const referenceListSchema = z.object({
+  source: z.string().min(1),
+  listUrl: z.string().url(),
+  ingredients: z.array(listedIngredientSchema).default([]),
+});
+
+type ListedIngredient = z.infer<typeof listedIngredientSchema>;
+
+const loadedLists = new Map<string, ReferenceListSource>();
+
+/**
+ * A curated reference list in a JSON file. Ingredients that are not on the
+ * list are "not listed" rather than rated, so the AI analysis decides them.
+ */
+export class ReferenceListSource implements ReferenceSource {
+  private byName = new Map<string, ListedIngredient>();
+
+  private constructor(
+    readonly filePath: string,
+    private source: string,
+    private listUrl: string,
+    ingredients: ListedIngredient[],
+  ) {
+    ingredients.forEach((ingredient) => {
+      [ingredient.name, ...ingredient.aliases].forEach((name) => {
+        this.byName.set(normalize(name), ingredient);
+      });
+    });
+  }
+
+  /**
+   * Read and validate a list file; each path is only read once per process
+   */
+  static load(filePath: string): ReferenceListSource {
+    const resolved = path.resolve(filePath);
+    const cached = loadedLists.get(resolved);
+    if (cached) {
+      return cached;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(readFileSync(resolved, "utf8"));
+    } catch (error) {
+      throw new Error(`Failed to read reference list ${resolved}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const parsed = referenceListSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+      throw new Error(`Invalid reference list ${resolved}: ${issues.join("; ")}`);
+    }
+
+    const list = new ReferenceListSource(resolved, parsed.data.source, parsed.data.listUrl, parsed.data.ingredients);
+    loadedLists.set(resolved, list);
+    return list;
+  }
+
+  async lookup(ingredientName: string): Promise<ReferenceData> {
+    const ingredient = this.find(ingredientName);
+    if (!ingredient) {
+      return {
+        source: this.source,
+        name: ingredientName,
+        found: false,
+        status: null,
+        score: null,
+        designation: null,
+        concerns: [],
+        url: this.listUrl,
+        promptLines: [`${this.source}: Not listed`],
+      };
+    }
+
+    const promptLines = [`${this.source}: ${ingredient.designation}`];
+    if (ingredient.concerns.length > 0) {
+      promptLines.push(`${this.source} concerns: ${ingredient.concerns.join(", ")}`);
+    }
+
+    return {
+      source: this.source,
+      name: ingredient.name,
+      found: true,
+      status: ingredient.status,
+      score: null,
+      designation: ingredient.designation,
+      concerns: ingredient.concerns,
+      url: ingredient.url ?? this.listUrl,
+      promptLines,
+    };
+  }
+
+  /**
+   * "Sugar (Sucrose)" is checked as written, then as "sugar", then as "sucrose"
+   */
+  private find(name: string): ListedIngredient | null {
+    const parsed = parseIngredientName(name);
+    const candidates = [name, ...(parsed ? [parsed.name, ...parsed.aliases] : [])];
+
+    for (const candidate of candidates) {
+      const ingredient = this.byName.get(normalize(candidate));
+      if (ingredient) {
+        return ingredient;
+      }
+    }
+    return null;
+  }
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, " ");
+}
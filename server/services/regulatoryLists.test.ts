@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { RegulatoryMatch } from "@shared/types";
+import { applyRegulatoryStatus, isValidCasNumber, parseRegulatoryCsv, RegulatoryLists } from "./regulatoryLists";
+
+const match = (effect: RegulatoryMatch["effect"]): RegulatoryMatch => ({
+  listId: "test",
+  listName: "Test list",
+  listVersion: "1",
+  effect,
+  reference: "",
+  conditions: null,
+  matchedBy: "name",
+  matchedValue: "",
+});
+
+describe("parseRegulatoryCsv", () => {
+  it("reads the optional columns, splitting cells on ';'", () => {
+    const [entry] = parseRegulatoryCsv(
+      'Name,Aliases,CAS,Reference,Conditions,Effect,Categories\n' +
+        'Formaldehyde,Formalin; Methanal,50-00-0,"Annex II, entry 1",,Note,skincare;food\n',
+    );
+    expect(entry).toEqual({
+      name: "Formaldehyde",
+      aliases: ["Formalin", "Methanal"],
+      casNumbers: ["50-00-0"],
+      reference: "Annex II, entry 1",
+      conditions: null,
+      effect: "note",
+      categories: ["skincare", "food"],
+    });
+  });
+
+  it("defaults the effect and categories to the list's", () => {
+    const [entry] = parseRegulatoryCsv("name,reference\nTriclosan,21 CFR 310.545\n");
+    expect(entry).toMatchObject({ effect: null, categories: null });
+  });
+
+  it("rejects a CSV without a required column", () => {
+    expect(() => parseRegulatoryCsv("name,cas\nFormaldehyde,50-00-0\n")).toThrow('missing the "reference" column');
+  });
+
+  it("reports the row of an invalid entry", () => {
+    expect(() => parseRegulatoryCsv("name,reference,cas\nWater,ref,\nFormaldehyde,ref,50-00-1\n")).toThrow(
+      "Row 3: casNumbers.0: invalid CAS number",
+    );
+  });
+});
+
+describe("isValidCasNumber", () => {
+  it("checks the format and check digit", () => {
+    expect(isValidCasNumber("50-00-0")).toBe(true);
+    expect(isValidCasNumber("7732-18-5")).toBe(true);
+    expect(isValidCasNumber("7732-18-4")).toBe(false);
+    expect(isValidCasNumber("7732185")).toBe(false);
+  });
+});
+
+describe("applyRegulatoryStatus", () => {
+  it("bans on any ban and raises safe to caution on a warning", () => {
+    expect(applyRegulatoryStatus("safe", [match("note"), match("ban")])).toBe("banned");
+    expect(applyRegulatoryStatus("safe", [match("warn")])).toBe("caution");
+  });
+
+  it("never lowers a status, and notes never change it", () => {
+    expect(applyRegulatoryStatus("banned", [match("warn")])).toBe("banned");
+    expect(applyRegulatoryStatus("safe", [match("note")])).toBe("safe");
+    expect(applyRegulatoryStatus("caution", null)).toBe("caution");
+  });
+});
+
+describe("RegulatoryLists.match", () => {
+  const lists = RegulatoryLists.load();
+
+  it("finds a substance listed under other names by its CAS number, most severe first", () => {
+    const matches = lists.match("Di(2-ethylhexyl) phthalate", "skincare");
+    expect(matches.map((entry) => [entry.listId, entry.matchedBy])).toEqual([
+      ["eu-annex-ii", "cas"],
+      ["ca-prop-65", "name"],
+    ]);
+  });
+
+  it("only cites Prop 65 entries listed as airborne particles", () => {
+    for (const name of ["Titanium Dioxide", "Carbon Black"]) {
+      const prop65 = lists.match(name, "skincare").find((entry) => entry.listId === "ca-prop-65");
+      expect(prop65?.effect).toBe("note");
+      expect(applyRegulatoryStatus("safe", [prop65!])).toBe("safe");
+    }
+  });
+
+  it("only warns about FDA entries prohibited under conditions", () => {
+    const fda = (name: string) =>
+      lists.match(name, "skincare").find((entry) => entry.listId === "fda-prohibited");
+    expect(fda("Zirconium-containing complexes")?.effect).toBe("warn");
+    expect(fda("Chloroform")?.effect).toBe("warn");
+    expect(fda("Methylene Chloride")?.effect).toBe("ban");
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Regulatory Lists
+ * Local, versioned copies of regulatory lists (EU Cosmetics Regulation
+ * Annexes II and III, California Proposition 65, FDA prohibited substances)
+ * checked deterministically for every analyzed ingredient, by name, alias and
+ * CAS number. Depending on the list (or the entry) a match bans the
+ * ingredient, raises it to at least caution, or is only cited. Lists are
+ * imported from CSV with `npm run import:regulatory` into
+ * server/data/regulatory/<list id>.json (or REGULATORY_LISTS_DIR).
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { parseIngredientName } from "@shared/ingredientParser";
+import { isProductCategory, PRODUCT_CATEGORIES, type ProductCategory } from "@shared/productCategories";
+import type { RegulatoryEffect, RegulatoryMatch, SafetyStatus } from "@shared/types";
+
+export const DEFAULT_REGULATORY_LISTS_DIR = "server/data/regulatory";
+
+export interface RegulatoryListDefinition {
+  id: string;
+  name: string;
+  effect: RegulatoryEffect;
+  // Categories the list applies to, unless an entry names its own
+  categories: ProductCategory[];
+  sourceUrl: string;
+}
+
+export const REGULATORY_LISTS: RegulatoryListDefinition[] = [
+  {
+    id: "eu-annex-ii",
+    name: "EU Cosmetics Regulation Annex II (prohibited substances)",
+    effect: "ban",
+    categories: ["skincare"],
+    sourceUrl: "https://eur-lex.europa.eu/eli/reg/2009/1223/oj",
+  },
+  {
+    id: "eu-annex-iii",
+    name: "EU Cosmetics Regulation Annex III (restricted substances)",
+    effect: "note",
+    categories: ["skincare"],
+    sourceUrl: "https://eur-lex.europa.eu/eli/reg/2009/1223/oj",
+  },
+  {
+    id: "ca-prop-65",
+    name: "California Proposition 65",
+    effect: "warn",
+    categories: PRODUCT_CATEGORIES,
+    sourceUrl: "https://oehha.ca.gov/proposition-65/proposition-65-list",
+  },
+  {
+    id: "fda-prohibited",
+    name: "FDA prohibited substances",
+    effect: "ban",
+    categories: ["skincare", "food"],
+    sourceUrl: "https://www.fda.gov/cosmetics/cosmetics-laws-regulations/prohibited-restricted-ingredients-cosmetics",
+  },
+];
+
+const CAS_PATTERN = /\b\d{2,7}-\d{2}-\d\b/g;
+
+const EFFECT_ORDER: Record<RegulatoryEffect, number> = { ban: 0, warn: 1, note: 2 };
+
+const entrySchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)).default([]),
+  casNumbers: z.array(z.string().refine(isValidCasNumber, "invalid CAS number")).default([]),
+  reference: z.string().min(1),
+  conditions: z.string().nullable().default(null),
+  // null: the list's effect; "note" cites entries only listed under conditions
+  // vetting cannot check, e.g. Prop 65's airborne particles
+  effect: z.enum(["ban", "warn", "note"]).nullable().default(null),
+  // null: the list's categories
+  categories: z.array(z.custom<ProductCategory>(isProductCategory, "unknown category")).nullable().default(null),
+});
+
+const listFileSchema = z.object({
+  id: z.string().min(1),
+  version: z.string().min(1),
+  importedAt: z.string().min(1),
+  // SHA-256 of the imported CSV
+  sourceHash: z.string().min(1),
+  entries: z.array(entrySchema),
+});
+
+export type RegulatoryEntry = z.infer<typeof entrySchema>;
+export type RegulatoryListFile = z.infer<typeof listFileSchema>;
+
+// GET /api/admin/regulatory-lists
+export interface RegulatoryListSummary extends RegulatoryListDefinition {
+  // null when the list has not been imported
+  version: string | null;
+  importedAt: string | null;
+  entryCount: number;
+}
+
+interface IndexedEntry {
+  list: RegulatoryListDefinition & { version: string };
+  entry: RegulatoryEntry;
+}
+
+const loadedDirectories = new Map<string, RegulatoryLists>();
+
+export class RegulatoryLists {
+  private byName = new Map<string, (IndexedEntry & { matchedBy: "name" | "alias" })[]>();
+  private byCas = new Map<string, IndexedEntry[]>();
+
+  private constructor(
+    readonly directory: string,
+    private files: Map<string, RegulatoryListFile>,
+  ) {
+    REGULATORY_LISTS.forEach((definition) => {
+      const file = files.get(definition.id);
+      if (!file) return;
+
+      const list = { ...definition, version: file.version };
+      file.entries.forEach((entry) => {
+        addTo(this.byName, normalize(entry.name), { list, entry, matchedBy: "name" });
+        entry.aliases.forEach((alias) => addTo(this.byName, normalize(alias), { list, entry, matchedBy: "alias" }));
+        entry.casNumbers.forEach((cas) => addTo(this.byCas, cas, { list, entry }));
+      });
+    });
+  }
+
+  /**
+   * Read and validate every imported list; each directory is only read once per process
+   */
+  static load(directory: string = process.env.REGULATORY_LISTS_DIR || DEFAULT_REGULATORY_LISTS_DIR): RegulatoryLists {
+    const resolved = path.resolve(directory);
+    const cached = loadedDirectories.get(resolved);
+    if (cached) {
+      return cached;
+    }
+
+    const files = new Map<string, RegulatoryListFile>();
+    for (const definition of REGULATORY_LISTS) {
+      const filePath = getListFilePath(definition.id, resolved);
+      let json: unknown;
+      try {
+        json = JSON.parse(readFileSync(filePath, "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          console.warn(`⚠️  Regulatory list ${definition.id} has not been imported (${filePath})`);
+          continue;
+        }
+        throw new Error(`Failed to read regulatory list ${filePath}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const parsed = listFileSchema.safeParse(json);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+        throw new Error(`Invalid regulatory list ${filePath}: ${issues.join("; ")}`);
+      }
+      files.set(definition.id, parsed.data);
+    }
+
+    const lists = new RegulatoryLists(resolved, files);
+    loadedDirectories.set(resolved, lists);
+    return lists;
+  }
+
+  summaries(): RegulatoryListSummary[] {
+    return REGULATORY_LISTS.map((definition) => {
+      const file = this.files.get(definition.id);
+      return {
+        ...definition,
+        version: file?.version ?? null,
+        importedAt: file?.importedAt ?? null,
+        entryCount: file?.entries.length ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Every list entry the ingredient matches for this category, most severe
+   * first. "Formaldehyde (50-00-0)" is matched as written, as "formaldehyde"
+   * and by CAS number; a name match also brings in other lists' entries with
+   * the same CAS number, so one substance listed under different names is
+   * still found on every list.
+   */
+  match(ingredientName: string, category: ProductCategory): RegulatoryMatch[] {
+    const parsed = parseIngredientName(ingredientName);
+    const candidates = [ingredientName, ...(parsed ? [parsed.name, ...parsed.aliases] : [])];
+
+    const found = new Map<RegulatoryEntry, RegulatoryMatch>();
+    const casNumbers = new Set(candidates.flatMap(extractCasNumbers));
+
+    for (const candidate of candidates) {
+      for (const { list, entry, matchedBy } of this.byName.get(normalize(candidate)) ?? []) {
+        if (!found.has(entry)) {
+          found.set(entry, toMatch(list, entry, matchedBy, candidate));
+        }
+        entry.casNumbers.forEach((cas) => casNumbers.add(cas));
+      }
+    }
+
+    casNumbers.forEach((cas) => {
+      for (const { list, entry } of this.byCas.get(cas) ?? []) {
+        if (!found.has(entry)) {
+          found.set(entry, toMatch(list, entry, "cas", cas));
+        }
+      }
+    });
+
+    return Array.from(found.entries())
+      .filter(([entry, match]) => {
+        const definition = REGULATORY_LISTS.find((list) => list.id === match.listId);
+        return (entry.categories ?? definition?.categories ?? []).includes(category);
+      })
+      .map(([, match]) => match)
+      .sort((a, b) => EFFECT_ORDER[a.effect] - EFFECT_ORDER[b.effect]);
+  }
+}
+
+/**
+ * The status after regulatory matches: a ban always wins and a warning
+ * raises "safe" to "caution"; notes never change it
+ */
+export function applyRegulatoryStatus(status: SafetyStatus, matches: RegulatoryMatch[] | null | undefined): SafetyStatus {
+  if (!matches || matches.length === 0) return status;
+  if (matches.some((match) => match.effect === "ban")) return "banned";
+  if (status === "safe" && matches.some((match) => match.effect === "warn")) return "caution";
+  return status;
+}
+
+export function getListFilePath(
+  listId: string,
+  directory: string = process.env.REGULATORY_LISTS_DIR || DEFAULT_REGULATORY_LISTS_DIR,
+): string {
+  return path.resolve(directory, `${listId}.json`);
+}
+
+/**
+ * Parse a regulatory list CSV. A header row names the columns: name and
+ * reference are required; aliases, cas, conditions, effect and categories
+ * are optional. Multiple aliases, CAS numbers or categories in one cell are
+ * separated by ";".
+ */
+export function parseRegulatoryCsv(text: string): RegulatoryEntry[] {
+  const [header, ...rows] = parseCsv(text).filter((row) => row.some((cell) => cell.trim()));
+  if (!header) {
+    throw new Error("CSV is empty");
+  }
+
+  const columns = header.map((cell) => cell.trim().toLowerCase());
+  for (const required of ["name", "reference"]) {
+    if (!columns.includes(required)) {
+      throw new Error(`CSV is missing the "${required}" column`);
+    }
+  }
+
+  return rows.map((row, index) => {
+    const cell = (column: string) => {
+      const columnIndex = columns.indexOf(column);
+      return columnIndex === -1 ? "" : (row[columnIndex] ?? "").trim();
+    };
+    const list = (column: string) =>
+      cell(column)
+        .split(";")
+        .map((value) => value.trim())
+        .filter(Boolean);
+
+    const categories = list("categories");
+    const parsed = entrySchema.safeParse({
+      name: cell("name"),
+      aliases: list("aliases"),
+      casNumbers: list("cas"),
+      reference: cell("reference"),
+      conditions: cell("conditions") || null,
+      effect: cell("effect").toLowerCase() || null,
+      categories: categories.length > 0 ? categories : null,
+    });
+
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+      // +2: the header row, and rows are numbered from 1
+      throw new Error(`Row ${index + 2}: ${issues.join("; ")}`);
+    }
+    return parsed.data;
+  });
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, newlines and "" for a quote
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * CAS registry numbers end in a check digit: the other digits, weighted
+ * 1, 2, 3... from the right, summed modulo 10
+ */
+export function isValidCasNumber(value: string): boolean {
+  if (!/^\d{2,7}-\d{2}-\d$/.test(value)) return false;
+  const digits = value.replace(/-/g, "");
+  const check = Number(digits[digits.length - 1]);
+  const sum = digits
+    .slice(0, -1)
+    .split("")
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index + 1), 0);
+  return sum % 10 === check;
+}
+
+function extractCasNumbers(text: string): string[] {
+  return (text.match(CAS_PATTERN) ?? []).filter(isValidCasNumber);
+}
+
+function toMatch(
+  list: RegulatoryListDefinition & { version: string },
+  entry: RegulatoryEntry,
+  matchedBy: RegulatoryMatch["matchedBy"],
+  matchedValue: string,
+): RegulatoryMatch {
+  return {
+    listId: list.id,
+    listName: list.name,
+    listVersion: list.version,
+    effect: entry.effect ?? list.effect,
+    reference: entry.reference,
+    conditions: entry.conditions,
+    matchedBy,
+    matchedValue,
+  };
+}
+
+function addTo<T>(index: Map<string, T[]>, key: string, value: T): void {
+  const existing = index.get(key);
+  if (existing) {
+    existing.push(value);
+  } else {
+    index.set(key, [value]);
+  }
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, " ");
+}
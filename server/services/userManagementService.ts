@@ -0,0 +1,172 @@
+/**
+ * User Management Service
+ * Lists accounts from user_profiles, invites new ones through Supabase Auth
+ * and changes their role or deactivates them. Replaces running
+ * createAdminUser.ts / checkUserRole.ts from a shell. Needs Supabase: with
+ * the file backend there are no accounts to manage.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Role } from "@shared/permissions";
+import type { ManagedUser } from "@shared/types";
+import { getSupabaseAdminClient } from "../middleware/auth";
+
+// Supabase Auth has no permanent ban, so deactivation bans for ~100 years
+const DEACTIVATED_BAN_DURATION = "876000h";
+
+export interface ListUsersOptions {
+  role?: Role;
+  // Case-insensitive match on email
+  search?: string;
+  offset: number;
+  limit: number;
+}
+
+export class UserManagementService {
+  constructor(
+    private supabase: SupabaseClient,
+    // Where the invitation email links to (the client's login page)
+    private inviteRedirectUrl?: string,
+  ) {}
+
+  /**
+   * Create the service, or return null when Supabase is not configured
+   */
+  static fromEnv(inviteRedirectUrl?: string): UserManagementService | null {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      console.warn("⚠️  User management disabled: Supabase credentials not configured");
+      return null;
+    }
+    return new UserManagementService(getSupabaseAdminClient(), inviteRedirectUrl);
+  }
+
+  async list(options: ListUsersOptions): Promise<{ rows: ManagedUser[]; total: number }> {
+    let query = this.supabase
+      .from("user_profiles")
+      .select("*", { count: "exact" })
+      .order("email")
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (options.role) {
+      query = query.eq("role", options.role);
+    }
+    if (options.search) {
+      query = query.ilike("email", `%${escapeLikePattern(options.search)}%`);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      console.error("Error listing users:", error);
+      throw new Error(`Failed to list users: ${error.message}`);
+    }
+
+    return { rows: (data || []).map((row) => this.mapRowToUser(row)), total: count || 0 };
+  }
+
+  async getById(id: string): Promise<ManagedUser | null> {
+    const { data, error } = await this.supabase
+      .from("user_profiles")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching user:", error);
+      throw new Error(`Failed to fetch user: ${error.message}`);
+    }
+
+    return data ? this.mapRowToUser(data) : null;
+  }
+
+  /**
+   * Send a Supabase invitation email and create the profile with `role`
+   */
+  async invite(email: string, role: Role): Promise<ManagedUser> {
+    const { data, error } = await this.supabase.auth.admin.inviteUserByEmail(email, {
+      redirectTo: this.inviteRedirectUrl,
+    });
+    if (error || !data.user) {
+      throw new Error(`Failed to invite ${email}: ${error?.message ?? "no user returned"}`);
+    }
+
+    // A profile may already exist if a trigger creates one on sign-up
+    const { data: profile, error: profileError } = await this.supabase
+      .from("user_profiles")
+      .upsert({ id: data.user.id, email, role })
+      .select("*")
+      .single();
+
+    if (profileError) {
+      throw new Error(`Invited ${email} but failed to create their profile: ${profileError.message}`);
+    }
+
+    console.log(`✅ Invited ${email} as ${role}`);
+    return this.mapRowToUser(profile);
+  }
+
+  async updateRole(id: string, role: Role): Promise<ManagedUser | null> {
+    return this.updateProfile(id, { role });
+  }
+
+  /**
+   * Ban the account in Supabase Auth so it cannot sign in, and mark the
+   * profile so requireAuth rejects tokens issued before the ban
+   */
+  async deactivate(id: string): Promise<ManagedUser | null> {
+    return this.setBanned(id, true);
+  }
+
+  async reactivate(id: string): Promise<ManagedUser | null> {
+    return this.setBanned(id, false);
+  }
+
+  private async setBanned(id: string, banned: boolean): Promise<ManagedUser | null> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const { error } = await this.supabase.auth.admin.updateUserById(id, {
+      ban_duration: banned ? DEACTIVATED_BAN_DURATION : "none",
+    });
+    if (error) {
+      throw new Error(`Failed to ${banned ? "deactivate" : "reactivate"} user: ${error.message}`);
+    }
+
+    return this.updateProfile(id, { deactivated_at: banned ? new Date().toISOString() : null });
+  }
+
+  private async updateProfile(id: string, changes: Record<string, unknown>): Promise<ManagedUser | null> {
+    const { data, error } = await this.supabase
+      .from("user_profiles")
+      .update(changes)
+      .eq("id", id)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error updating user:", error);
+      throw new Error(`Failed to update user: ${error.message}`);
+    }
+
+    return data ? this.mapRowToUser(data) : null;
+  }
+
+  private mapRowToUser(row: any): ManagedUser {
+    return {
+      id: row.id,
+      email: row.email,
+      role: row.role,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deactivatedAt: row.deactivated_at ?? null,
+    };
+  }
+}
+
+/**
+ * Match `%`, `_` and `\` in search text literally rather than as LIKE wildcards
+ */
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { Ingredient } from "@shared/types";
+import type { VettingHandlers, VettingInput, VettingPipeline } from "./vettingPipeline";
+import { VettingJobService } from "./vettingJobService";
+
+const ingredient = (name: string): Ingredient => ({
+  id: name,
+  name,
+  status: "safe",
+  rationale: "",
+  sourceUrl: "",
+  createdAt: "",
+  updatedAt: "",
+});
+
+/**
+ * A pipeline that fails the ingredients named "Unknown" and analyzes at most
+ * `perRun` ingredients per run, as if the rest were cut off by an aborted slice
+ */
+function fakePipeline(perRun = Infinity): VettingPipeline {
+  return {
+    vetIngredients: async (entries: VettingInput[], handlers: VettingHandlers) => {
+      for (const [index, entry] of entries.slice(0, perRun).entries()) {
+        if (entry.name === "Unknown") {
+          await handlers.onError?.(new Error("No provider answered"), entry.name, index);
+        } else {
+          await handlers.onIngredient?.(ingredient(entry.name), index);
+        }
+      }
+    },
+  } as unknown as VettingPipeline;
+}
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("VettingJobService", () => {
+  it("records a failing ingredient on its item and finishes the rest", async () => {
+    const service = new VettingJobService(fakePipeline(), true);
+    const job = await service.createJob([{ name: "Water" }, { name: "Unknown" }], "skincare", "user-1");
+    await waitFor(() => job.status === "completed");
+
+    expect(job.status).toBe("completed");
+    expect(job.completed).toBe(1);
+    expect(job.items[1]).toMatchObject({ status: "failed", error: "No provider answered" });
+    expect(job.result?.overallStatus).toBe("caution");
+  });
+
+  it("only returns a job to whoever started it", async () => {
+    const service = new VettingJobService(fakePipeline(), true);
+    const job = await service.createJob([{ name: "Water" }], "skincare", "user-1");
+
+    expect(await service.getJob(job.id, "user-2")).toBeNull();
+    expect((await service.getJob(job.id, "user-1"))?.id).toBe(job.id);
+  });
+
+  it("runs the job during polls when it cannot run in the background", async () => {
+    const service = new VettingJobService(fakePipeline(1), false);
+    const job = await service.createJob([{ name: "Water" }, { name: "Glycerin" }], "skincare", "user-1");
+    expect(job.status).toBe("queued");
+
+    expect(await service.getJob(job.id, "user-1")).toMatchObject({ status: "queued", completed: 1 });
+    expect(await service.getJob(job.id, "user-1")).toMatchObject({ status: "completed", completed: 2 });
+  });
+});
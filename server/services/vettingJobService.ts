@@ -0,0 +1,347 @@
+/**
+ * Vetting Job Service
+ * Runs ingredient vetting in the background so long lists are not bound to a
+ * single HTTP request. Progress and partial results are persisted after every
+ * ingredient (Supabase `vetting_jobs`, or in memory when Supabase is not
+ * configured) so clients can poll, and a page refresh does not lose the run.
+ * On serverless hosting (Vercel) nothing runs once a response is sent, so
+ * there each poll runs the job for up to POLL_SLICE_MS instead.
+ */
+
+import { randomUUID } from "node:crypto";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { DEFAULT_PRODUCT_CATEGORY, type ProductCategory } from "@shared/productCategories";
+import type { VetJob, VetJobItem, VetJobStatus, VetIngredientResult } from "@shared/types";
+import { buildVetResult, type VettingInput, type VettingPipeline } from "./vettingPipeline";
+
+interface StoredJob {
+  id: string;
+  status: VetJobStatus;
+  category: ProductCategory;
+  total: number;
+  completed: number;
+  created_by: string | null;
+  items: VetJobItem[];
+  result: VetIngredientResult | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// A queued/running job nobody has touched for this long was orphaned by a
+// server restart (or a frozen serverless instance) and is resumed on the next poll
+const STALE_JOB_MS = 2 * 60 * 1000;
+// In-memory jobs are kept this long after they finish
+const MEMORY_JOB_TTL_MS = 60 * 60 * 1000;
+// How long one poll runs a job on serverless hosting; ingredients already
+// being analyzed finish after it, within the function's 30s maxDuration
+const POLL_SLICE_MS = 15 * 1000;
+
+export class VettingJobService {
+  private supabase: SupabaseClient | null = null;
+  private memoryJobs = new Map<string, VetJob>();
+  private activeJobs = new Set<string>();
+  private pendingWrites = new Map<string, Promise<void>>();
+
+  constructor(
+    private pipeline: VettingPipeline,
+    // False on serverless hosting, where polls run the job
+    private runInBackground: boolean = !process.env.VERCEL,
+  ) {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (supabaseUrl && supabaseServiceRoleKey) {
+      this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      });
+    } else {
+      console.warn("⚠️  Vetting jobs are kept in memory: Supabase credentials not configured");
+    }
+  }
+
+  /**
+   * Create a job for the given ingredients and start it in the background.
+   * `createdBy` (req.user.id) is the only caller that can poll it.
+   */
+  async createJob(
+    entries: VettingInput[],
+    category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
+    createdBy: string | null = null,
+  ): Promise<VetJob> {
+    const now = new Date().toISOString();
+    const job: VetJob = {
+      id: randomUUID(),
+      status: "queued",
+      category,
+      total: entries.length,
+      completed: 0,
+      createdBy,
+      items: entries.map(({ name, concentration, position }) => ({
+        name,
+        concentration: concentration ?? null,
+        position: position ?? null,
+        status: "pending",
+      })),
+      result: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+
+    if (this.supabase) {
+      const { error } = await this.supabase.from("vetting_jobs").insert(this.mapJobToRow(job));
+      if (error) {
+        throw new Error(`Failed to create vetting job: ${error.message}`);
+      }
+    } else {
+      this.pruneMemoryJobs();
+      this.memoryJobs.set(job.id, job);
+    }
+
+    if (this.runInBackground) {
+      await this.start(job);
+    }
+    return job;
+  }
+
+  /**
+   * The job, or null when it does not exist or `requestedBy` did not start it.
+   * An orphaned job is resumed; on serverless hosting an unfinished job runs
+   * for a slice of this poll before it is returned.
+   */
+  async getJob(id: string, requestedBy: string | null): Promise<VetJob | null> {
+    const job = await this.loadJob(id);
+    if (!job || !job.createdBy || job.createdBy !== requestedBy) {
+      return null;
+    }
+
+    const isUnfinished = job.status === "queued" || job.status === "running";
+    if (!isUnfinished || this.activeJobs.has(job.id)) {
+      return job;
+    }
+
+    const isStale = Date.now() - new Date(job.updatedAt).getTime() > STALE_JOB_MS;
+    if (this.runInBackground) {
+      if (isStale) {
+        console.warn(`⚠️  Resuming orphaned vetting job ${job.id} (${job.completed}/${job.total} done)`);
+        await this.start(job);
+      }
+      return job;
+    }
+
+    if (job.status === "queued" || isStale) {
+      await this.start(job, AbortSignal.timeout(POLL_SLICE_MS));
+    }
+    return job;
+  }
+
+  /**
+   * Claim the job and run it: in the background, or until `slice` aborts and
+   * awaited. Another instance that claimed the job first keeps it.
+   */
+  private async start(job: VetJob, slice?: AbortSignal): Promise<void> {
+    this.activeJobs.add(job.id);
+    let claimed = false;
+    try {
+      claimed = await this.claim(job);
+    } finally {
+      if (!claimed) this.activeJobs.delete(job.id);
+    }
+    if (!claimed) return;
+
+    const running = this.run(job, slice)
+      .catch((error) => console.error(`❌ Vetting job ${job.id} crashed:`, error))
+      .finally(() => this.activeJobs.delete(job.id));
+    if (slice) {
+      await running;
+    }
+    // Otherwise not awaited: the HTTP request returns while the job keeps running
+  }
+
+  /**
+   * Mark the job running, unless another instance is already running it
+   * (it is queued, or running but stale)
+   */
+  private async claim(job: VetJob): Promise<boolean> {
+    const updatedAt = new Date().toISOString();
+    if (this.supabase) {
+      const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+      const { data, error } = await this.supabase
+        .from("vetting_jobs")
+        .update({ status: "running", error: null, updated_at: updatedAt })
+        .eq("id", job.id)
+        .or(`status.eq.queued,and(status.eq.running,updated_at.lt.${staleBefore})`)
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to claim vetting job: ${error.message}`);
+      }
+      if (!data || data.length === 0) {
+        return false;
+      }
+    }
+
+    job.status = "running";
+    job.error = null;
+    job.updatedAt = updatedAt;
+    return true;
+  }
+
+  private async run(job: VetJob, slice?: AbortSignal): Promise<void> {
+    const pendingIndexes = job.items
+      .map((item, index) => (item.status === "pending" ? index : -1))
+      .filter((index) => index !== -1);
+
+    this.persist(job);
+    console.log(`🤖 Vetting job ${job.id}: analyzing ${pendingIndexes.length} of ${job.total} ingredient(s)...`);
+
+    try {
+      await this.pipeline.vetIngredients(
+        pendingIndexes.map((index) => job.items[index]),
+        {
+          onIngredient: (ingredient, index) => {
+            const itemIndex = pendingIndexes[index];
+            job.items[itemIndex] = { ...job.items[itemIndex], status: "completed", result: ingredient };
+            job.completed = job.items.filter((item) => item.status === "completed").length;
+            this.persist(job);
+          },
+          // One failing ingredient is recorded on its item; the rest of the list still runs
+          onError: (error, _ingredientName, index) => {
+            const itemIndex = pendingIndexes[index];
+            job.items[itemIndex] = {
+              ...job.items[itemIndex],
+              status: "failed",
+              error: error instanceof Error ? error.message : "Unknown error",
+            };
+            this.persist(job);
+          },
+        },
+        { ingredientCount: job.total, category: job.category, signal: slice },
+      );
+
+      const remaining = job.items.filter((item) => item.status === "pending").length;
+      if (remaining > 0) {
+        // The poll's slice ran out; the next poll picks the job up again
+        job.status = "queued";
+        console.log(`⏸️  Vetting job ${job.id} paused with ${remaining} ingredient(s) left`);
+      } else {
+        const failed = job.items.filter((item) => item.status === "failed").length;
+        const analyzed = job.items.flatMap((item) => (item.result ? [item.result] : []));
+        job.result = buildVetResult(analyzed, failed);
+        job.status = "completed";
+        job.completedAt = new Date().toISOString();
+        console.log(`✅ Vetting job ${job.id} complete for ${job.total} ingredient(s) (${failed} failed)`);
+      }
+    } catch (error) {
+      console.error(`❌ Vetting job ${job.id} failed:`, error);
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : "Unknown error";
+      job.completedAt = new Date().toISOString();
+    }
+
+    this.persist(job);
+    await this.pendingWrites.get(job.id);
+  }
+
+  /**
+   * Queue a write of the job's current state. Writes for one job run one at a
+   * time so a slow earlier write can never overwrite newer progress.
+   */
+  private persist(job: VetJob): void {
+    job.updatedAt = new Date().toISOString();
+
+    const previous = this.pendingWrites.get(job.id) ?? Promise.resolve();
+    const next = previous.then(() => this.saveJob(job)).catch((error) => {
+      console.error(`Failed to save vetting job ${job.id}:`, error);
+    });
+    this.pendingWrites.set(job.id, next);
+    next.then(() => {
+      if (this.pendingWrites.get(job.id) === next) {
+        this.pendingWrites.delete(job.id);
+      }
+    });
+  }
+
+  private async saveJob(job: VetJob): Promise<void> {
+    if (!this.supabase) {
+      this.memoryJobs.set(job.id, job);
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from("vetting_jobs")
+      .update(this.mapJobToRow(job))
+      .eq("id", job.id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  private async loadJob(id: string): Promise<VetJob | null> {
+    if (!this.supabase) {
+      return this.memoryJobs.get(id) ?? null;
+    }
+
+    const { data, error } = await this.supabase
+      .from("vetting_jobs")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load vetting job: ${error.message}`);
+    }
+
+    return data ? this.mapRowToJob(data) : null;
+  }
+
+  private pruneMemoryJobs(): void {
+    const cutoff = Date.now() - MEMORY_JOB_TTL_MS;
+    this.memoryJobs.forEach((job, id) => {
+      if (job.completedAt && new Date(job.completedAt).getTime() < cutoff) {
+        this.memoryJobs.delete(id);
+      }
+    });
+  }
+
+  private mapJobToRow(job: VetJob): StoredJob {
+    return {
+      id: job.id,
+      status: job.status,
+      category: job.category ?? DEFAULT_PRODUCT_CATEGORY,
+      total: job.total,
+      completed: job.completed,
+      created_by: job.createdBy ?? null,
+      items: job.items,
+      result: job.result ?? null,
+      error: job.error ?? null,
+      created_at: job.createdAt,
+      updated_at: job.updatedAt,
+      completed_at: job.completedAt ?? null,
+    };
+  }
+
+  private mapRowToJob(row: StoredJob): VetJob {
+    return {
+      id: row.id,
+      status: row.status,
+      category: row.category ?? DEFAULT_PRODUCT_CATEGORY,
+      total: row.total,
+      completed: row.completed,
+      createdBy: row.created_by ?? null,
+      items: row.items || [],
+      result: row.result,
+      error: row.error,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at,
+    };
+  }
+}
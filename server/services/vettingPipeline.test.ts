@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import type { Ingredient, SafetyStatus } from "@shared/types";
+import { buildVetResult } from "./vettingPipeline";
+
+const ingredient = (name: string, status: SafetyStatus): Ingredient => ({
+  id: name,
+  name,
+  status,
+  rationale: "",
+  sourceUrl: "",
+  createdAt: "",
+  updatedAt: "",
+});
+
+describe("buildVetResult", () => {
+  it("takes the most severe ingredient status", () => {
+    expect(buildVetResult([ingredient("Water", "safe"), ingredient("Glycerin", "safe")]).overallStatus).toBe("safe");
+    expect(buildVetResult([ingredient("Water", "safe"), ingredient("Triclosan", "banned")]).overallStatus).toBe("banned");
+  });
+
+  it("never reports safe when some ingredients could not be analyzed", () => {
+    const result = buildVetResult([ingredient("Water", "safe")], 2);
+    expect(result.overallStatus).toBe("caution");
+    expect(result.summary).toContain("2 ingredients could not be analyzed");
+  });
+
+  it("keeps a ban when some ingredients could not be analyzed", () => {
+    expect(buildVetResult([ingredient("Triclosan", "banned")], 1).overallStatus).toBe("banned");
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Vetting Pipeline
+ * Turns a list of ingredient names into reviewed-ready Ingredient entries:
+ * AI analysis (the offline fixture provider when no API key is configured),
+ * citation lookup, and the overall verdict. Shared by the synchronous vet endpoint
+ * and background vetting jobs.
+ */
+
+import { randomUUID } from "node:crypto";
+import { rateAtConcentration } from "@shared/concentrationThresholds";
+import { DEFAULT_PRODUCT_CATEGORY, type ProductCategory } from "@shared/productCategories";
+import type {
+  ConcentrationHint,
+  Ingredient,
+  IngredientContext,
+  SafetyStatus,
+  VetIngredientResult,
+} from "@shared/types";
+import type { AIVettingService, IngredientAnalysis } from "./aiVettingService";
+import type { CitationService } from "./citationService";
+import { applyRegulatoryStatus } from "./regulatoryLists";
+import type { VettingProfile } from "./vettingProfiles";
+
+// One entry of the list being vetted; parseIngredientList entries can be passed as they are
+export interface VettingInput {
+  name: string;
+  concentration?: ConcentrationHint | null;
+  position?: number | null;
+}
+
+export interface VettingOptions {
+  // Length of the whole label list when only part of it is passed
+  ingredientCount?: number;
+  // Selects the vetting profile; defaults to skincare
+  category?: ProductCategory;
+  // Aborting stops analyzing the ingredients that have not started yet
+  signal?: AbortSignal;
+}
+
+export interface VettingHandlers {
+  onIngredient?: (ingredient: Ingredient, index: number) => void | Promise<void>;
+  // When set, a failing ingredient is reported here and skipped instead of failing the run
+  onError?: (error: unknown, ingredientName: string, index: number) => void | Promise<void>;
+}
+
+export class VettingPipeline {
+  constructor(
+    private aiVettingService: AIVettingService | null,
+    private citationService: CitationService | null,
+  ) {}
+
+  /**
+   * Vet every ingredient, calling `onIngredient` as each one finishes
+   * (in completion order, not list order).
+   */
+  async vetIngredients(
+    entries: VettingInput[],
+    handlers: VettingHandlers = {},
+    options: VettingOptions = {},
+  ): Promise<VetIngredientResult> {
+    const { onIngredient, onError } = handlers;
+    const { ingredientCount = entries.length, category = DEFAULT_PRODUCT_CATEGORY, signal } = options;
+    if (!this.aiVettingService) {
+      throw new Error("AI Vetting Service failed to initialize. Check the server logs.");
+    }
+    const profile = this.aiVettingService.getProfile(category);
+
+    const contexts = entries.map((entry): IngredientContext => ({
+      concentration: entry.concentration ?? null,
+      position: entry.position ?? null,
+      ingredientCount,
+    }));
+
+    const ingredients = new Array<Ingredient>(entries.length);
+    let failed = 0;
+    const toAnalyze = entries.map((entry, index) => ({ name: entry.name, context: contexts[index] }));
+    await this.aiVettingService.analyzeIngredients(
+      toAnalyze,
+      {
+        onResult: async (analysis, index) => {
+          ingredients[index] = await this.toIngredient(analysis, contexts[index], profile);
+          await onIngredient?.(ingredients[index], index);
+        },
+        onError: onError && (async (error, name, index) => {
+          failed++;
+          await onError(error, name, index);
+        }),
+      },
+      category,
+      signal,
+    );
+
+    return buildVetResult(ingredients.filter(Boolean), failed);
+  }
+
+  private async toIngredient(
+    analysis: IngredientAnalysis,
+    context: IngredientContext,
+    profile: VettingProfile,
+  ): Promise<Ingredient> {
+    let sourceUrl = analysis.sourceUrl;
+
+    // If citation service is available and URL doesn't look like a real EWG URL, try to find better citation.
+    // Other profiles keep their reference source's page (citations are searched EWG first).
+    if (this.citationService && profile.searchCitations) {
+      // Only search if the URL is NOT a proper EWG ingredient page (i.e., it's a search URL or generic URL)
+      const isProperEwgIngredientPage = sourceUrl.includes("ewg.org/skindeep/ingredients/") && !sourceUrl.includes("/search/");
+      if (!isProperEwgIngredientPage) {
+        try {
+          sourceUrl = await this.citationService.findBestCitation(analysis.name);
+        } catch (error) {
+          console.error(`Error finding citation for ${analysis.name}:`, error);
+          // Keep the original URL from AI
+        }
+      }
+    }
+
+    // A known concentration limit can move the status either way, but not past a regulatory ban or warning
+    const rated = rateAtConcentration(analysis.name, analysis.status, context, profile.category);
+    const status = applyRegulatoryStatus(rated.status, analysis.regulatoryMatches);
+
+    return {
+      id: randomUUID(),
+      name: analysis.name,
+      status,
+      rationale: analysis.rationale,
+      sourceUrl,
+      originalStatus: status,
+      isOverride: false,
+      concentration: context.concentration,
+      position: context.position,
+      concentrationBasis: rated.basis,
+      regulatoryMatches: analysis.regulatoryMatches ?? null,
+      tags: analysis.tags ?? [],
+      attributes: analysis.attributes ?? null,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      // Include new fields if available (these may not be in the Ingredient type yet)
+      ...(analysis.description && { description: analysis.description }),
+      ...(analysis.edgeCases && { edgeCases: analysis.edgeCases }),
+      ...(analysis.ewgScore !== undefined && { ewgScore: analysis.ewgScore }),
+      ...(analysis.confidence !== undefined && { confidence: analysis.confidence }),
+      ...(analysis.needsReview && { needsReview: true, consensus: analysis.consensus }),
+      ...(analysis.researchSources && { researchSources: analysis.researchSources }),
+      ...(analysis.suggestedMatches && { suggestedMatches: analysis.suggestedMatches }),
+    };
+  }
+}
+
+/**
+ * The verdict for the analyzed ingredients. Ingredients that could not be
+ * analyzed keep the product at caution or worse, since nothing is known about them.
+ */
+export function buildVetResult(ingredients: Ingredient[], failed: number = 0): VetIngredientResult {
+  const statuses = ingredients.map((item) => item.status);
+  const overallStatus = deriveOverallStatus(failed > 0 ? [...statuses, "caution"] : statuses);
+  const summary = buildSummary(overallStatus, ingredients.length, failed);
+
+  return { overallStatus, summary, ingredients };
+}
+
+export function deriveOverallStatus(statuses: SafetyStatus[]): SafetyStatus {
+  if (statuses.includes("banned")) return "banned";
+  if (statuses.includes("caution")) return "caution";
+  return "safe";
+}
+
+export function buildSummary(status: SafetyStatus, count: number, failed: number = 0): string {
+  const prefix =
+    status === "safe"
+      ? "Overall assessment: Safe."
+      : status === "caution"
+        ? "Overall assessment: Needs caution."
+        : "Overall assessment: Avoid use.";
+
+  const unanalyzed = failed > 0 ? ` ${failed} ingredient${failed === 1 ? "" : "s"} could not be analyzed and need manual review.` : "";
+  return `${prefix} ${count} ingredient${count === 1 ? "" : "s"} analyzed with automated vetting.${unanalyzed} Review individual rationales before publishing.`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Vetting Profiles
+ * What vetting does differently per product category: the researcher the AI
+ * is asked to be and how it defines each status, and the reference source
+ * checked before the AI. The category also selects the concentration
+ * thresholds (CONCENTRATION_THRESHOLDS in shared/concentrationThresholds.ts).
+ * The skincare profile produces the original EWG-based prompt, so stored
+ * analyses (which are skincare ratings) stay valid.
+ */
+
+import type { ProductCategory } from "@shared/productCategories";
+import type { SafetyStatus } from "@shared/types";
+import type { EWGSource } from "./ewgService";
+import { EWGReferenceSource, ReferenceListSource, type ReferenceSource } from "./referenceSources";
+
+export const DEFAULT_FOOD_REFERENCE_PATH = "server/data/fdaFoodSubstances.json";
+export const DEFAULT_CLEANING_REFERENCE_PATH = "server/data/epaSaferChoice.json";
+
+export interface VettingProfile {
+  category: ProductCategory;
+  // "You are a <researcher>."
+  researcher: string;
+  // e.g. "cosmetic ingredient", for fallback descriptions
+  ingredientKind: string;
+  // Where the ingredient is used: "Common applications in <applications>."
+  applications: string;
+  // What an ingredient is rated at when the label gives no concentration
+  typicalUse: string;
+  statusGuidelines: Record<SafetyStatus, string>;
+  // How much weight the reference data gets
+  referenceGuideline: string;
+  referenceSource: ReferenceSource;
+  // Search for a citation (EWG Skin Deep first) when the reference source has no page for the ingredient
+  searchCitations: boolean;
+}
+
+export interface VettingProfileOptions {
+  // Defaults to the live EWG Skin Deep site (FixtureEWGService for offline runs)
+  ewgSource?: EWGSource;
+  foodListPath?: string;
+  cleaningListPath?: string;
+}
+
+export function createVettingProfiles(options: VettingProfileOptions = {}): Record<ProductCategory, VettingProfile> {
+  const {
+    ewgSource,
+    foodListPath = process.env.FOOD_REFERENCE_LIST || DEFAULT_FOOD_REFERENCE_PATH,
+    cleaningListPath = process.env.CLEANING_REFERENCE_LIST || DEFAULT_CLEANING_REFERENCE_PATH,
+  } = options;
+
+  return {
+    skincare: {
+      category: "skincare",
+      researcher: "cosmetic ingredient safety researcher",
+      ingredientKind: "cosmetic ingredient",
+      applications: "cosmetics",
+      typicalUse: "typical cosmetic use levels",
+      statusGuidelines: {
+        safe: "Generally recognized as safe, low risk, well-studied with no major concerns (EWG score 1-4)",
+        caution: "Mixed evidence, potential concerns at high concentrations, needs careful consideration (EWG score 5-7)",
+        banned: "Known health risks, regulatory restrictions, or significant safety concerns (EWG score 8-10)",
+      },
+      referenceGuideline: "If an EWG score is provided, use it as the primary basis for the status.",
+      referenceSource: new EWGReferenceSource(ewgSource),
+      searchCitations: true,
+    },
+    food: {
+      category: "food",
+      researcher: "food additive safety researcher",
+      ingredientKind: "food ingredient",
+      applications: "foods and beverages",
+      typicalUse: "typical levels in food",
+      statusGuidelines: {
+        safe: "Generally recognized as safe (GRAS) or an approved food additive used within its limits, with no major concerns",
+        caution: "Approved with restrictions or required warnings, linked to sensitivities or intolerances, or under regulatory review",
+        banned: "Prohibited in food, approval revoked, or determined not to be GRAS",
+      },
+      referenceGuideline:
+        "If an FDA status is provided, use it as the primary basis for the status. EWG cosmetic scores do not apply to food.",
+      referenceSource: ReferenceListSource.load(foodListPath),
+      searchCitations: false,
+    },
+    cleaning: {
+      category: "cleaning",
+      researcher: "household cleaning product safety researcher",
+      ingredientKind: "cleaning product ingredient",
+      applications: "household cleaning products",
+      typicalUse: "typical household cleaning product levels",
+      statusGuidelines: {
+        safe: "Low hazard to people and the environment at typical use (e.g. a green circle on the EPA Safer Chemical Ingredients List)",
+        caution: "Irritant, sensitizer or environmental concerns, or hazardous when mixed with other cleaners (e.g. bleach with acids or ammonia)",
+        banned: "Known carcinogen, reproductive toxicant, severe respiratory hazard, or persistent environmental pollutant",
+      },
+      referenceGuideline: "If an EPA Safer Choice listing is provided, use it as the primary basis for the status.",
+      referenceSource: ReferenceListSource.load(cleaningListPath),
+      searchCitations: false,
+    },
+  };
+}
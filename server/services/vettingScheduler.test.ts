@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { DailyQuotaExceededError, TokenBucket, VettingScheduler } from "./vettingScheduler";
+
+describe("TokenBucket.tryTake", () => {
+  it("takes tokens while there are enough and never waits", () => {
+    const bucket = new TokenBucket(5, 5, 24 * 60 * 60 * 1000);
+    expect(bucket.tryTake(3)).toBe(true);
+    expect(bucket.tryTake(3)).toBe(false);
+    expect(bucket.tryTake(2)).toBe(true);
+  });
+});
+
+describe("VettingScheduler", () => {
+  it("fails at once when the daily quota is used up", async () => {
+    const scheduler = new VettingScheduler({
+      concurrency: 1,
+      rateLimits: { "google-cse": { requestsPerMinute: 60, requestsPerDay: 4 } },
+    });
+    let calls = 0;
+    const search = async () => ++calls;
+
+    await expect(scheduler.schedule("google-cse", search, 3)).resolves.toBe(1);
+    await expect(scheduler.schedule("google-cse", search, 3)).rejects.toBeInstanceOf(DailyQuotaExceededError);
+    expect(calls).toBe(1);
+  });
+
+  it("runs calls for buckets without a configured limit", async () => {
+    const scheduler = new VettingScheduler({ concurrency: 2, rateLimits: {} });
+    await expect(scheduler.schedule("unknown", async () => "done")).resolves.toBe("done");
+  });
+
+  it("stops starting items once a worker fails and waits for the rest to finish", async () => {
+    const scheduler = new VettingScheduler({ concurrency: 2, rateLimits: {} });
+    const started: number[] = [];
+    let inFlightFinished = false;
+
+    const run = scheduler.map([0, 1, 2, 3], async (item) => {
+      started.push(item);
+      if (item === 0) throw new Error("provider down");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlightFinished = true;
+      return item;
+    });
+
+    await expect(run).rejects.toThrow("provider down");
+    expect(inFlightFinished).toBe(true);
+    expect(started).toEqual([0, 1]);
+  });
+});
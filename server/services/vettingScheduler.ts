@@ -0,0 +1,265 @@
+/**
+ * Vetting Scheduler
+ * Runs ingredient analyses with bounded concurrency, per-provider token-bucket
+ * rate limits (Groq RPM, Gemini RPM, Google CSE quota), and a shared backoff
+ * that pauses every queue as soon as any call is rate limited (HTTP 429).
+ * Per-minute limits wait for a token; an exhausted daily quota fails at once
+ * with DailyQuotaExceededError, since its next token is minutes away.
+ */
+
+export interface RateLimitConfig {
+  requestsPerMinute: number;
+  requestsPerDay?: number;
+  burst?: number;
+}
+
+export interface VettingSchedulerOptions {
+  concurrency: number;
+  rateLimits: Record<string, RateLimitConfig>;
+  maxRetries?: number;
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+import { listProviders } from "./providers";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Raised by schedule() when the bucket's daily quota has no tokens left
+ */
+export class DailyQuotaExceededError extends Error {
+  constructor(readonly bucketKey: string) {
+    super(`${bucketKey} daily quota exhausted`);
+    this.name = "DailyQuotaExceededError";
+  }
+}
+
+interface Buckets {
+  perMinute: TokenBucket | null;
+  daily: TokenBucket | null;
+}
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills
+ * `refillTokens` per `refillIntervalMs`, continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private refillPerMs: number;
+
+  constructor(
+    private capacity: number,
+    refillTokens: number,
+    refillIntervalMs: number,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+    this.refillPerMs = refillTokens / refillIntervalMs;
+  }
+
+  async take(cost: number = 1): Promise<void> {
+    const needed = Math.min(cost, this.capacity);
+
+    while (true) {
+      this.refill();
+      if (this.tokens >= needed) {
+        this.tokens -= needed;
+        return;
+      }
+
+      await sleep(Math.ceil((needed - this.tokens) / this.refillPerMs));
+    }
+  }
+
+  /**
+   * Take the tokens if they are there now; never waits
+   */
+  tryTake(cost: number = 1): boolean {
+    const needed = Math.min(cost, this.capacity);
+    this.refill();
+    if (this.tokens < needed) {
+      return false;
+    }
+    this.tokens -= needed;
+    return true;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+export class VettingScheduler {
+  private concurrency: number;
+  private rateLimits: Record<string, RateLimitConfig>;
+  private maxRetries: number;
+  private baseBackoffMs: number;
+  private maxBackoffMs: number;
+  private buckets = new Map<string, Buckets>();
+  private backoffUntil = 0;
+
+  constructor(options: VettingSchedulerOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+    this.rateLimits = options.rateLimits;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseBackoffMs = options.baseBackoffMs ?? 2000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30000;
+  }
+
+  /**
+   * Build a scheduler from environment variables (e.g. GROQ_RPM), falling back
+   * to each registered provider's default (free-tier) limit
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): VettingScheduler {
+    const number = (value: string | undefined, fallback: number) => {
+      const parsed = parseInt(value || "", 10);
+      return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+    };
+
+    const rateLimits: Record<string, RateLimitConfig> = {
+      "google-cse": {
+        requestsPerMinute: number(env.GOOGLE_CSE_RPM, 60),
+        requestsPerDay: number(env.GOOGLE_CSE_DAILY_QUOTA, 100),
+      },
+    };
+    for (const provider of listProviders()) {
+      rateLimits[provider.type] = {
+        requestsPerMinute: number(env[`${provider.type.toUpperCase()}_RPM`], provider.defaultRequestsPerMinute),
+      };
+    }
+
+    return new VettingScheduler({
+      concurrency: number(env.VETTING_CONCURRENCY, 4),
+      rateLimits,
+    });
+  }
+
+  /**
+   * Run a rate-limited call. Waits for the shared backoff and a token from the
+   * named bucket; a 429 pushes the shared backoff forward and retries. Throws
+   * DailyQuotaExceededError instead of waiting when the daily quota is used up.
+   */
+  async schedule<T>(bucketKey: string, task: () => Promise<T>, cost: number = 1): Promise<T> {
+    const { perMinute, daily } = this.getBuckets(bucketKey);
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBackoff();
+      if (daily && !daily.tryTake(cost)) {
+        throw new DailyQuotaExceededError(bucketKey);
+      }
+      await perMinute?.take(cost);
+      // Another call may have been rate limited while this one waited for a token
+      await this.waitForBackoff();
+
+      try {
+        return await task();
+      } catch (error) {
+        if (!isRateLimitError(error) || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const delay = getRetryAfterMs(error)
+          ?? Math.min(this.baseBackoffMs * 2 ** attempt, this.maxBackoffMs);
+        this.backoffUntil = Math.max(this.backoffUntil, Date.now() + delay);
+        console.warn(`⚠️  ${bucketKey} rate limited. Pausing all vetting calls for ${Math.round(delay / 1000)}s (retry ${attempt + 1}/${this.maxRetries})`);
+      }
+    }
+  }
+
+  /**
+   * Map over items with at most `concurrency` workers in flight, preserving order.
+   * Once a worker throws no more items are started; the error is rethrown
+   * after the workers still in flight have finished.
+   */
+  async map<T, R>(items: T[], worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+    let failed = false;
+    let failure: unknown;
+
+    const runners = Array.from({ length: Math.min(this.concurrency, items.length) }, async () => {
+      while (!failed && nextIndex < items.length) {
+        const index = nextIndex++;
+        try {
+          results[index] = await worker(items[index], index);
+        } catch (error) {
+          if (!failed) {
+            failed = true;
+            failure = error;
+          }
+        }
+      }
+    });
+
+    await Promise.all(runners);
+    if (failed) {
+      throw failure;
+    }
+    return results;
+  }
+
+  private async waitForBackoff(): Promise<void> {
+    while (Date.now() < this.backoffUntil) {
+      await sleep(this.backoffUntil - Date.now());
+    }
+  }
+
+  private getBuckets(key: string): Buckets {
+    const existing = this.buckets.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const limit = this.rateLimits[key];
+    const buckets: Buckets = {
+      perMinute: limit ? new TokenBucket(limit.burst ?? limit.requestsPerMinute, limit.requestsPerMinute, MINUTE_MS) : null,
+      daily: limit?.requestsPerDay ? new TokenBucket(limit.requestsPerDay, limit.requestsPerDay, DAY_MS) : null,
+    };
+
+    this.buckets.set(key, buckets);
+    return buckets;
+  }
+}
+
+export function isRateLimitError(error: any): boolean {
+  if (!error) return false;
+  if (error.status === 429 || error.response?.status === 429) return true;
+  const message = String(error.message ?? "");
+  return /\b429\b|rate limit|too many requests|quota exceeded/i.test(message);
+}
+
+/**
+ * Honor server-provided retry hints: a Retry-After header (OpenAI, Groq)
+ * or a google.rpc.RetryInfo detail (Gemini)
+ */
+export function getRetryAfterMs(error: any): number | null {
+  try {
+    const headers = error.headers ?? error.response?.headers;
+    const retryAfter = typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : headers?.["retry-after"];
+    if (retryAfter) {
+      const seconds = parseFloat(retryAfter);
+      if (Number.isFinite(seconds)) return seconds * 1000;
+    }
+
+    if (Array.isArray(error.errorDetails)) {
+      for (const detail of error.errorDetails) {
+        if (detail["@type"] === "type.googleapis.com/google.rpc.RetryInfo") {
+          const seconds = parseFloat(detail.retryDelay?.replace(/s$/, "") || "10");
+          return seconds * 1000;
+        }
+      }
+    }
+  } catch {}
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,111 @@
+/**
+ * Vetting Setup
+ * Builds the AI vetting service from environment variables. Shared by the
+ * server and the scripts that vet outside a request (e.g. refresh:analyses),
+ * so both use the same provider chain and analysis storage.
+ */
+
+import type { AIProviderType } from "./aiProvider";
+import { AIVettingService } from "./aiVettingService";
+import { FixtureEWGService } from "./offlineFixtures";
+import type { ProviderMode } from "./providerChain";
+import { getProviderDefinition, listProviders, resolveProviderConfig } from "./providers";
+import { VettingScheduler } from "./vettingScheduler";
+
+export interface VettingSetup {
+  providerTypes: AIProviderType[];
+  providerConfigs: Partial<Record<AIProviderType, Record<string, unknown>>>;
+  mode: ProviderMode;
+  // Only the offline provider is in use, so nothing touches the network
+  isOffline: boolean;
+  googleApiKey?: string;
+  googleCxId?: string;
+}
+
+/**
+ * Resolve the provider chain. Unknown or unconfigured providers are skipped
+ * with a warning; with none left, vetting falls back to the offline fixtures.
+ */
+export function resolveVettingSetup(env: NodeJS.ProcessEnv = process.env): VettingSetup {
+  // Default to Groq for generous free tier (14,400 requests/day, 30 requests/minute)
+  // AI_PROVIDERS="groq,gemini,local" sets an ordered failover chain; AI_PROVIDER a single provider
+  const requestedProviders = (env.AI_PROVIDERS || env.AI_PROVIDER || "groq")
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+
+  // Validate AI provider configuration; each provider checks its own settings (API key, model, base URL)
+  const providerTypes: AIProviderType[] = [];
+  const providerConfigs: VettingSetup["providerConfigs"] = {};
+  for (const type of requestedProviders) {
+    if (!getProviderDefinition(type)) {
+      console.warn(`⚠️  Invalid AI provider "${type}". Available: ${listProviders().map((p) => p.type).join(", ")}.`);
+      continue;
+    }
+
+    const config = resolveProviderConfig(type, undefined, env);
+    if (config.ok) {
+      providerTypes.push(type as AIProviderType);
+      providerConfigs[type as AIProviderType] = config.config as Record<string, unknown>;
+    } else {
+      console.warn(`⚠️  AI provider "${type}" is not configured: ${config.error}.`);
+    }
+  }
+
+  if (providerTypes.length === 0) {
+    console.warn(`⚠️  No AI provider configured (${requestedProviders.join(", ")}). Vetting will use offline fixtures.`);
+    if (requestedProviders.includes("groq")) {
+      console.warn(`   💡 Get your free Groq API key at: https://console.groq.com`);
+      console.warn(`   💡 Add GROQ_API_KEY=your_key to your .env file`);
+      console.warn(`   💡 Or set AI_PROVIDER=local to use an Ollama/llama.cpp server`);
+    }
+    providerTypes.push("offline");
+  }
+
+  return {
+    providerTypes,
+    providerConfigs,
+    // AI_VETTING_MODE=consensus has the first AI_CONSENSUS_SIZE (2-3) providers vote on every ingredient
+    mode: env.AI_VETTING_MODE === "consensus" ? "consensus" : "failover",
+    isOffline: providerTypes.every((type) => type === "offline"),
+    googleApiKey: env.GOOGLE_API_KEY,
+    googleCxId: env.GOOGLE_CX_ID,
+  };
+}
+
+/**
+ * Create the AI vetting service, or null if it fails to initialize.
+ * An offline chain reads EWG scores from the same fixture file, and research
+ * and analysis storage are off.
+ */
+export function createAIVettingService(
+  setup: VettingSetup,
+  env: NodeJS.ProcessEnv = process.env,
+): AIVettingService | null {
+  try {
+    // The file backend always keeps analyses; Supabase only with USE_SUPABASE_STORAGE=true
+    const useAnalysisStorage =
+      (env.USE_SUPABASE_STORAGE === "true" || env.STORAGE_BACKEND === "file") && !setup.isOffline;
+    const service = new AIVettingService(
+      setup.providerTypes,
+      {
+        mode: setup.mode,
+        consensusSize: parseInt(env.AI_CONSENSUS_SIZE || "3", 10),
+        configs: setup.providerConfigs,
+      },
+      setup.isOffline ? undefined : setup.googleApiKey,
+      setup.isOffline ? undefined : setup.googleCxId,
+      useAnalysisStorage,
+      VettingScheduler.fromEnv(env),
+      setup.isOffline ? new FixtureEWGService(setup.providerConfigs.offline?.fixturesPath as string | undefined) : undefined,
+    );
+    console.log(`✅ AI Vetting Service initialized with ${setup.providerTypes.map((type) => type.toUpperCase()).join(" → ")} (${setup.mode})`);
+    if (setup.providerTypes.includes("groq")) {
+      console.log(`   📊 Groq free tier: 14,400 requests/day, 30 requests/minute`);
+    }
+    return service;
+  } catch (error) {
+    console.error("❌ Failed to initialize AI Vetting Service:", error);
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+import type { IngredientAttributes } from "../../shared/ingredientAttributes";
+import type { IngredientTag } from "../../shared/ingredientTags";
+import type { ProductCategory } from "../../shared/productCategories";
+import type { ConsensusDetails } from "../services/providerChain";
+
+export interface StoredAnalysis {
+  id: string;
+  ingredient_name: string;
+  // The vetting profile the analysis was made with; one row per name and category
+  category: ProductCategory;
+  status: "safe" | "caution" | "banned";
+  rationale: string;
+  description: string;
+  edge_cases: string;
+  source_url: string;
+  ewg_score: number | null;
+  ewg_data_availability: string | null;
+  research_sources: any | null;
+  suggested_matches: string[] | null;
+  confidence: number;
+  analysis_version: number;
+  provider: string | null;
+  consensus: ConsensusDetails | null;
+  needs_review: boolean;
+  tags: IngredientTag[];
+  attributes: IngredientAttributes | null;
+  created_at: string;
+  updated_at: string;
+  last_analyzed_at: string;
+}
+
+// Columns written on insert/update; id and timestamps are set by the store
+export type AnalysisRowInput = Omit<StoredAnalysis, "id" | "created_at" | "updated_at">;
+
+// Columns an update changes; the name and category identify the row
+export type AnalysisRowUpdate = Omit<AnalysisRowInput, "ingredient_name" | "category">;
+
+export type IngredientAliasType = "inci" | "common" | "cas";
+
+export interface StoredAlias {
+  alias: string;
+  canonical_name: string;
+  alias_type: IngredientAliasType;
+  created_at: string;
+}
+
+export interface ListAnalysesOptions {
+  needsReview?: boolean;
+  category?: ProductCategory;
+  offset: number;
+  limit: number;
+}
+
+export interface ListStaleAnalysesOptions {
+  // Analyses last run before this time are stale
+  analyzedBefore: string;
+  // ...as are analyses produced by a prompt version below this one, and
+  // placeholders saved when every provider failed (provider is null)
+  belowVersion: number;
+  limit: number;
+}
+
+// One re-analysis by the refresh worker; runs share a run_id
+export interface StoredRefresh {
+  id: string;
+  run_id: string;
+  ingredient_name: string;
+  category: ProductCategory;
+  previous_status: "safe" | "caution" | "banned";
+  // null when the re-analysis failed
+  new_status: "safe" | "caution" | "banned" | null;
+  status_changed: boolean;
+  previous_analyzed_at: string;
+  error: string | null;
+  created_at: string;
+}
+
+export type RefreshRowInput = Omit<StoredRefresh, "id" | "created_at">;
+
+export interface ListRefreshesOptions {
+  statusChanged?: boolean;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Row-level access to the ingredient_analyses, ingredient_aliases and
+ * ingredient_refreshes tables.
+ * IngredientAnalysisService and IngredientAliasService hold the logic;
+ * implementations only read and write rows (SupabaseAnalysisStore, or
+ * FileAnalysisStore with STORAGE_BACKEND=file). Names passed in are
+ * already normalized.
+ */
+export interface AnalysisStore {
+  getAnalysis(ingredientName: string, category: ProductCategory): Promise<StoredAnalysis | null>;
+  insertAnalysis(row: AnalysisRowInput): Promise<void>;
+  updateAnalysis(ingredientName: string, category: ProductCategory, row: AnalysisRowUpdate): Promise<void>;
+  // Removes the ingredient's analyses in every category
+  deleteAnalysis(ingredientName: string): Promise<void>;
+  // Most recently updated first
+  listAnalyses(options: ListAnalysesOptions): Promise<{ rows: StoredAnalysis[]; total: number }>;
+  // Least recently analyzed first
+  listStaleAnalyses(options: ListStaleAnalysesOptions): Promise<{ rows: StoredAnalysis[]; total: number }>;
+
+  listAliases(canonicalName?: string): Promise<StoredAlias[]>;
+  // Insert, or repoint an alias that already exists
+  upsertAlias(row: Omit<StoredAlias, "created_at">): Promise<StoredAlias>;
+  deleteAlias(alias: string): Promise<boolean>;
+  repointAliases(fromCanonical: string, toCanonical: string): Promise<void>;
+
+  insertRefreshes(rows: RefreshRowInput[]): Promise<void>;
+  // Newest first
+  listRefreshes(options: ListRefreshesOptions): Promise<{ rows: StoredRefresh[]; total: number }>;
+}
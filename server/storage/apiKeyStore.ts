@@ -0,0 +1,23 @@
+import type { ApiKey } from "../../shared/types";
+
+// An API key with the SHA-256 hash of its secret; the secret itself is never stored
+export interface StoredApiKey extends ApiKey {
+  keyHash: string;
+}
+
+// Fields set when a key is created; id and timestamps are set by the store
+export type ApiKeyInput = Omit<StoredApiKey, "id" | "createdAt" | "lastUsedAt" | "revokedAt">;
+
+/**
+ * Persistence for API keys (api_keys table).
+ * Implemented by SupabaseApiKeyStore and FileApiKeyStore.
+ */
+export interface ApiKeyStore {
+  insert(input: ApiKeyInput): Promise<ApiKey>;
+  findByHash(keyHash: string): Promise<StoredApiKey | null>;
+  // Newest first, revoked keys included
+  list(): Promise<ApiKey[]>;
+  // Returns null when the key does not exist
+  revoke(id: string): Promise<ApiKey | null>;
+  markUsed(id: string, usedAt: string): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import type { AuditEvent } from "../../shared/types";
+
+// Fields set when an event is recorded; id and createdAt are set by the store
+export type AuditEventInput = Omit<AuditEvent, "id" | "createdAt">;
+
+export interface ListAuditEventsOptions {
+  actorId?: string;
+  // Exact action ("product.update") or a target type prefix ("product.")
+  action?: string;
+  targetId?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Persistence for the audit log (audit_events table). Events are never
+ * updated or deleted. Implemented by SupabaseAuditStore and FileAuditStore.
+ */
+export interface AuditStore {
+  insert(event: AuditEventInput): Promise<AuditEvent>;
+  // Newest first
+  list(options: ListAuditEventsOptions): Promise<{ rows: AuditEvent[]; total: number }>;
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from "node:crypto";
+import type { ProductCategory } from "../../shared/productCategories";
+import type {
+  AnalysisRowInput,
+  AnalysisRowUpdate,
+  AnalysisStore,
+  ListAnalysesOptions,
+  ListRefreshesOptions,
+  ListStaleAnalysesOptions,
+  RefreshRowInput,
+  StoredAlias,
+  StoredAnalysis,
+  StoredRefresh,
+} from "./analysisStore";
+import { LocalDataFile } from "./localDataFile";
+
+/**
+ * AnalysisStore kept in the same local JSON file as FileStorage
+ */
+export class FileAnalysisStore implements AnalysisStore {
+  private file: LocalDataFile;
+
+  constructor(filePath?: string) {
+    this.file = LocalDataFile.open(filePath);
+  }
+
+  async getAnalysis(ingredientName: string, category: ProductCategory): Promise<StoredAnalysis | null> {
+    const { ingredientAnalyses } = await this.file.read();
+    const row = ingredientAnalyses.find((item) => item.ingredient_name === ingredientName && item.category === category);
+    return row ? structuredClone(row) : null;
+  }
+
+  async insertAnalysis(row: AnalysisRowInput): Promise<void> {
+    const now = new Date().toISOString();
+    await this.file.write((data) => {
+      if (data.ingredientAnalyses.some((item) => item.ingredient_name === row.ingredient_name && item.category === row.category)) {
+        throw new Error(`Failed to save analysis: "${row.ingredient_name}" (${row.category}) already exists`);
+      }
+      data.ingredientAnalyses.push({ ...row, id: randomUUID(), created_at: now, updated_at: now });
+    });
+  }
+
+  async updateAnalysis(ingredientName: string, category: ProductCategory, row: AnalysisRowUpdate): Promise<void> {
+    const now = new Date().toISOString();
+    await this.file.write((data) => {
+      const existing = data.ingredientAnalyses.find((item) => item.ingredient_name === ingredientName && item.category === category);
+      if (existing) {
+        Object.assign(existing, row, { updated_at: now });
+      }
+    });
+  }
+
+  async deleteAnalysis(ingredientName: string): Promise<void> {
+    await this.file.write((data) => {
+      data.ingredientAnalyses = data.ingredientAnalyses.filter((item) => item.ingredient_name !== ingredientName);
+    });
+  }
+
+  async listAnalyses(options: ListAnalysesOptions): Promise<{ rows: StoredAnalysis[]; total: number }> {
+    const { ingredientAnalyses } = await this.file.read();
+    const matching = ingredientAnalyses
+      .filter((row) => !options.needsReview || row.needs_review)
+      .filter((row) => !options.category || row.category === options.category)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+    return {
+      rows: structuredClone(matching.slice(options.offset, options.offset + options.limit)),
+      total: matching.length,
+    };
+  }
+
+  async listStaleAnalyses(options: ListStaleAnalysesOptions): Promise<{ rows: StoredAnalysis[]; total: number }> {
+    const { ingredientAnalyses } = await this.file.read();
+    const stale = ingredientAnalyses
+      .filter((row) =>
+        row.last_analyzed_at < options.analyzedBefore || row.analysis_version < options.belowVersion || !row.provider
+      )
+      .sort((a, b) => a.last_analyzed_at.localeCompare(b.last_analyzed_at));
+
+    return { rows: structuredClone(stale.slice(0, options.limit)), total: stale.length };
+  }
+
+  async listAliases(canonicalName?: string): Promise<StoredAlias[]> {
+    const { ingredientAliases } = await this.file.read();
+    return structuredClone(
+      ingredientAliases
+        .filter((row) => !canonicalName || row.canonical_name === canonicalName)
+        .sort((a, b) => a.canonical_name.localeCompare(b.canonical_name)),
+    );
+  }
+
+  async upsertAlias(row: Omit<StoredAlias, "created_at">): Promise<StoredAlias> {
+    return this.file.write((data) => {
+      const existing = data.ingredientAliases.find((item) => item.alias === row.alias);
+      if (existing) {
+        Object.assign(existing, row);
+        return structuredClone(existing);
+      }
+
+      const created = { ...row, created_at: new Date().toISOString() };
+      data.ingredientAliases.push(created);
+      return structuredClone(created);
+    });
+  }
+
+  async deleteAlias(alias: string): Promise<boolean> {
+    return this.file.write((data) => {
+      const count = data.ingredientAliases.length;
+      data.ingredientAliases = data.ingredientAliases.filter((item) => item.alias !== alias);
+      return data.ingredientAliases.length < count;
+    });
+  }
+
+  async repointAliases(fromCanonical: string, toCanonical: string): Promise<void> {
+    await this.file.write((data) => {
+      data.ingredientAliases.forEach((item) => {
+        if (item.canonical_name === fromCanonical) {
+          item.canonical_name = toCanonical;
+        }
+      });
+    });
+  }
+
+  async insertRefreshes(rows: RefreshRowInput[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    await this.file.write((data) => {
+      data.ingredientRefreshes.push(...rows.map((row) => ({ ...row, id: randomUUID(), created_at: now })));
+    });
+  }
+
+  async listRefreshes(options: ListRefreshesOptions): Promise<{ rows: StoredRefresh[]; total: number }> {
+    const { ingredientRefreshes } = await this.file.read();
+    const matching = ingredientRefreshes
+      .filter((row) => !options.statusChanged || row.status_changed)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return {
+      rows: structuredClone(matching.slice(options.offset, options.offset + options.limit)),
+      total: matching.length,
+    };
+  }
+}
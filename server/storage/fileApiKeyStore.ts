@@ -0,0 +1,68 @@
+import { randomUUID } from "node:crypto";
+import type { ApiKey } from "../../shared/types";
+import type { ApiKeyInput, ApiKeyStore, StoredApiKey } from "./apiKeyStore";
+import { LocalDataFile } from "./localDataFile";
+
+/**
+ * ApiKeyStore kept in the same local JSON file as FileStorage
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private file: LocalDataFile;
+
+  constructor(filePath?: string) {
+    this.file = LocalDataFile.open(filePath);
+  }
+
+  async insert(input: ApiKeyInput): Promise<ApiKey> {
+    const stored: StoredApiKey = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+
+    await this.file.write((data) => {
+      data.apiKeys.push(stored);
+    });
+    return toApiKey(stored);
+  }
+
+  async findByHash(keyHash: string): Promise<StoredApiKey | null> {
+    const { apiKeys } = await this.file.read();
+    const key = apiKeys.find((item) => item.keyHash === keyHash);
+    return key ? structuredClone(key) : null;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const { apiKeys } = await this.file.read();
+    return [...apiKeys]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(toApiKey);
+  }
+
+  async revoke(id: string): Promise<ApiKey | null> {
+    return this.file.write((data) => {
+      const key = data.apiKeys.find((item) => item.id === id);
+      if (!key) {
+        return null;
+      }
+
+      key.revokedAt ??= new Date().toISOString();
+      return toApiKey(key);
+    });
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<void> {
+    await this.file.write((data) => {
+      const key = data.apiKeys.find((item) => item.id === id);
+      if (key) {
+        key.lastUsedAt = usedAt;
+      }
+    });
+  }
+}
+
+function toApiKey({ keyHash: _keyHash, ...key }: StoredApiKey): ApiKey {
+  return structuredClone(key);
+}
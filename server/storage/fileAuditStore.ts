@@ -0,0 +1,48 @@
+import { randomUUID } from "node:crypto";
+import type { AuditEvent } from "../../shared/types";
+import type { AuditEventInput, AuditStore, ListAuditEventsOptions } from "./auditStore";
+import { LocalDataFile } from "./localDataFile";
+
+/**
+ * AuditStore kept in the same local JSON file as FileStorage
+ */
+export class FileAuditStore implements AuditStore {
+  private file: LocalDataFile;
+
+  constructor(filePath?: string) {
+    this.file = LocalDataFile.open(filePath);
+  }
+
+  async insert(input: AuditEventInput): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      ...input,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.file.write((data) => {
+      data.auditEvents.push(event);
+    });
+    return structuredClone(event);
+  }
+
+  async list(options: ListAuditEventsOptions): Promise<{ rows: AuditEvent[]; total: number }> {
+    const { auditEvents } = await this.file.read();
+    const matching = auditEvents
+      .filter((event) => !options.actorId || event.actorId === options.actorId)
+      .filter((event) => !options.action || matchesAction(event.action, options.action))
+      .filter((event) => !options.targetId || event.targetId === options.targetId)
+      .filter((event) => !options.from || event.createdAt >= options.from)
+      .filter((event) => !options.to || event.createdAt <= options.to)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      rows: structuredClone(matching.slice(options.offset, options.offset + options.limit)),
+      total: matching.length,
+    };
+  }
+}
+
+function matchesAction(action: string, filter: string): boolean {
+  return filter.endsWith(".") ? action.startsWith(filter) : action === filter;
+}
@@ -0,0 +1,75 @@
+import { randomUUID } from "node:crypto";
+import type { ImpactReview } from "../../shared/types";
+import type {
+  ImpactReviewChanges,
+  ImpactReviewInput,
+  ImpactReviewStore,
+  ListImpactReviewsOptions,
+} from "./impactReviewStore";
+import { LocalDataFile } from "./localDataFile";
+
+/**
+ * ImpactReviewStore kept in the same local JSON file as FileStorage
+ */
+export class FileImpactReviewStore implements ImpactReviewStore {
+  private file: LocalDataFile;
+
+  constructor(filePath?: string) {
+    this.file = LocalDataFile.open(filePath);
+  }
+
+  async getById(id: string): Promise<ImpactReview | null> {
+    const { impactReviews } = await this.file.read();
+    const review = impactReviews.find((item) => item.id === id);
+    return review ? structuredClone(review) : null;
+  }
+
+  async findOpen(productId: string, ingredientName: string): Promise<ImpactReview | null> {
+    const { impactReviews } = await this.file.read();
+    const review = impactReviews.find(
+      (item) => item.productId === productId && item.ingredientName === ingredientName && item.status === "open",
+    );
+    return review ? structuredClone(review) : null;
+  }
+
+  async insert(input: ImpactReviewInput): Promise<ImpactReview> {
+    const now = new Date().toISOString();
+    const review: ImpactReview = {
+      ...input,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      resolvedAt: null,
+      resolvedBy: null,
+    };
+
+    await this.file.write((data) => {
+      data.impactReviews.push(review);
+    });
+    return structuredClone(review);
+  }
+
+  async update(id: string, changes: ImpactReviewChanges): Promise<ImpactReview | null> {
+    return this.file.write((data) => {
+      const review = data.impactReviews.find((item) => item.id === id);
+      if (!review) {
+        return null;
+      }
+
+      Object.assign(review, changes, { updatedAt: new Date().toISOString() });
+      return structuredClone(review);
+    });
+  }
+
+  async list(options: ListImpactReviewsOptions): Promise<{ rows: ImpactReview[]; total: number }> {
+    const { impactReviews } = await this.file.read();
+    const matching = impactReviews
+      .filter((review) => !options.status || review.status === options.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      rows: structuredClone(matching.slice(options.offset, options.offset + options.limit)),
+      total: matching.length,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import type { SensitivityProfile } from "../../shared/sensitivities";
+import { LocalDataFile } from "./localDataFile";
+import type { SensitivityProfileStore } from "./sensitivityProfileStore";
+
+/**
+ * SensitivityProfileStore kept in the same local JSON file as FileStorage
+ */
+export class FileSensitivityProfileStore implements SensitivityProfileStore {
+  private file: LocalDataFile;
+
+  constructor(filePath?: string) {
+    this.file = LocalDataFile.open(filePath);
+  }
+
+  async get(userId: string): Promise<SensitivityProfile> {
+    const { sensitivityProfiles } = await this.file.read();
+    const stored = sensitivityProfiles.find((item) => item.userId === userId);
+    return stored
+      ? { sensitivities: [...stored.sensitivities], updatedAt: stored.updatedAt }
+      : { sensitivities: [], updatedAt: null };
+  }
+
+  async save(
+    userId: string,
+    _email: string | null,
+    sensitivities: SensitivityProfile["sensitivities"],
+  ): Promise<SensitivityProfile> {
+    const stored = { userId, sensitivities: [...sensitivities], updatedAt: new Date().toISOString() };
+
+    await this.file.write((data) => {
+      data.sensitivityProfiles = data.sensitivityProfiles.filter((item) => item.userId !== userId);
+      data.sensitivityProfiles.push(stored);
+    });
+    return { sensitivities: [...stored.sensitivities], updatedAt: stored.updatedAt };
+  }
+}
@@ -0,0 +1,294 @@
+import { randomUUID } from "node:crypto";
+import { isDeepStrictEqual } from "node:util";
+import { DEFAULT_PRODUCT_CATEGORY } from "../../shared/productCategories";
+import { Product, ProductRevision } from "../../shared/types";
+import { LocalDataFile, type LocalData } from "./localDataFile";
+import {
+  deriveOverallStatus,
+  normalizeIngredient,
+  toCreateProductInput,
+  toRevisionSnapshot,
+  type CreateProductInput,
+  type ListProductsOptions,
+  type ProductStorage,
+  type ReviewChanges,
+  type RevisionActor,
+  type UpdateProductInput,
+} from "./productStorage";
+
+/**
+ * ProductStorage kept in a local JSON file (STORAGE_BACKEND=file), for
+ * development and tests without a Supabase project. Behaves like
+ * SupabaseStorage, including draft and merge semantics.
+ */
+export class FileStorage implements ProductStorage {
+  private file: LocalDataFile;
+
+  constructor(filePath?: string) {
+    this.file = LocalDataFile.open(filePath);
+  }
+
+  async list(options: ListProductsOptions = {}): Promise<Product[]> {
+    const { includeUnpublished = false } = options;
+    const { products } = await this.file.read();
+
+    return products
+      .filter((product) => includeUnpublished || product.status === "published")
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((product) => structuredClone(product));
+  }
+
+  async getById(
+    id: string,
+    options: ListProductsOptions = {},
+  ): Promise<Product | null> {
+    const { includeUnpublished = false } = options;
+    const { products } = await this.file.read();
+
+    const product = products.find((item) => item.id === id);
+    if (!product || (!includeUnpublished && product.status !== "published")) {
+      return null;
+    }
+
+    return structuredClone(product);
+  }
+
+  async create(input: CreateProductInput, actor?: RevisionActor): Promise<Product> {
+    const now = new Date().toISOString();
+    const ingredients = (input.ingredients ?? []).map((ingredient) =>
+      normalizeIngredient(ingredient, now),
+    );
+    const status = input.status ?? "draft";
+
+    const product: Product = {
+      id: randomUUID(),
+      name: input.name,
+      brand: input.brand,
+      summary: input.summary,
+      imageUrl: input.imageUrl,
+      category: input.category ?? DEFAULT_PRODUCT_CATEGORY,
+      status,
+      overallStatus: input.overallStatus ?? deriveOverallStatus(ingredients),
+      createdAt: now,
+      updatedAt: now,
+      publishedAt: status === "published" ? now : null,
+      editedFromProductId: input.editedFromProductId ?? null,
+      reviewState: "needs_research",
+      assignedTo: null,
+      assignedToEmail: null,
+      ingredients,
+    };
+
+    await this.file.write((data) => {
+      data.products.push(product);
+      this.recordRevision(data, product, actor);
+    });
+
+    return structuredClone(product);
+  }
+
+  async update(id: string, input: UpdateProductInput, actor?: RevisionActor): Promise<Product | null> {
+    const now = new Date().toISOString();
+
+    const updated = await this.file.write((data) => {
+      const product = data.products.find((item) => item.id === id);
+      if (!product) {
+        return null;
+      }
+
+      if (input.name !== undefined) product.name = input.name;
+      if (input.brand !== undefined) product.brand = input.brand;
+      if (input.summary !== undefined) product.summary = input.summary;
+      if (input.imageUrl !== undefined) product.imageUrl = input.imageUrl;
+      if (input.category !== undefined) product.category = input.category;
+      if (input.status !== undefined) {
+        if (input.status === "published" && !product.publishedAt) {
+          product.publishedAt = now;
+        }
+        if (input.status === "draft") {
+          product.publishedAt = null;
+        }
+        product.status = input.status;
+      }
+      if (input.publishedAt !== undefined) {
+        product.publishedAt = input.publishedAt;
+      }
+
+      if (input.ingredients) {
+        product.ingredients = input.ingredients.map((ingredient) =>
+          normalizeIngredient(ingredient, now, product.ingredients),
+        );
+      }
+
+      // Use provided overallStatus if given (allows manual override)
+      if (input.overallStatus !== undefined) {
+        product.overallStatus = input.overallStatus;
+      } else if (input.ingredients) {
+        product.overallStatus = deriveOverallStatus(product.ingredients);
+      }
+
+      product.updatedAt = now;
+      this.recordRevision(data, product, actor);
+      return structuredClone(product);
+    });
+
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.file.write((data) => {
+      const index = data.products.findIndex((item) => item.id === id);
+      if (index === -1) {
+        return false;
+      }
+      data.products.splice(index, 1);
+      data.productRevisions = data.productRevisions.filter((revision) => revision.productId !== id);
+      data.impactReviews = data.impactReviews.filter((review) => review.productId !== id);
+      return true;
+    });
+  }
+
+  async createDraftFromProduct(id: string): Promise<Product | null> {
+    const now = new Date().toISOString();
+
+    return this.file.write((data) => {
+      const baseProduct = data.products.find((item) => item.id === id);
+      if (!baseProduct) {
+        return null;
+      }
+
+      const existingDraft = data.products.find(
+        (item) => item.editedFromProductId === id && item.status === "draft",
+      );
+      if (existingDraft) {
+        return structuredClone(existingDraft);
+      }
+
+      const draft: Product = {
+        ...structuredClone(baseProduct),
+        id: randomUUID(),
+        status: "draft",
+        createdAt: now,
+        updatedAt: now,
+        publishedAt: null,
+        editedFromProductId: id,
+        reviewState: "needs_research",
+        assignedTo: null,
+        assignedToEmail: null,
+        ingredients: baseProduct.ingredients.map((ing) => ({
+          ...ing,
+          id: randomUUID(),
+          createdAt: now,
+          updatedAt: now,
+        })),
+      };
+      data.products.push(draft);
+      return structuredClone(draft);
+    });
+  }
+
+  async mergeDraftIntoOriginal(draftId: string, actor?: RevisionActor): Promise<Product | null> {
+    const now = new Date().toISOString();
+
+    return this.file.write((data) => {
+      const draft = data.products.find((item) => item.id === draftId);
+      if (!draft || !draft.editedFromProductId) {
+        return null;
+      }
+
+      const original = data.products.find((item) => item.id === draft.editedFromProductId);
+      if (!original) {
+        return null;
+      }
+
+      original.name = draft.name;
+      original.brand = draft.brand;
+      original.summary = draft.summary;
+      original.imageUrl = draft.imageUrl;
+      original.category = draft.category;
+      original.overallStatus = draft.overallStatus;
+      original.status = "published";
+      original.publishedAt = original.publishedAt || now;
+      original.updatedAt = now;
+      original.ingredients = draft.ingredients.map((ing) => ({
+        ...ing,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+      data.products.splice(data.products.indexOf(draft), 1);
+      this.recordRevision(data, original, actor);
+      return structuredClone(original);
+    });
+  }
+
+  async updateReview(id: string, changes: ReviewChanges): Promise<Product | null> {
+    return this.file.write((data) => {
+      const product = data.products.find((item) => item.id === id);
+      if (!product) {
+        return null;
+      }
+
+      if (changes.reviewState !== undefined) product.reviewState = changes.reviewState;
+      if (changes.assignedTo !== undefined) product.assignedTo = changes.assignedTo;
+      if (changes.assignedToEmail !== undefined) product.assignedToEmail = changes.assignedToEmail;
+      product.updatedAt = new Date().toISOString();
+      return structuredClone(product);
+    });
+  }
+
+  async listRevisions(productId: string): Promise<ProductRevision[]> {
+    const { productRevisions } = await this.file.read();
+    return productRevisions
+      .filter((revision) => revision.productId === productId)
+      .sort((a, b) => b.revisionNumber - a.revisionNumber)
+      .map((revision) => structuredClone(revision));
+  }
+
+  async getRevision(productId: string, revisionNumber: number): Promise<ProductRevision | null> {
+    const { productRevisions } = await this.file.read();
+    const revision = productRevisions.find(
+      (item) => item.productId === productId && item.revisionNumber === revisionNumber,
+    );
+    return revision ? structuredClone(revision) : null;
+  }
+
+  async seed(products: Product[]): Promise<void> {
+    for (const product of products) {
+      try {
+        await this.create(toCreateProductInput(product));
+      } catch (error) {
+        console.error(`Error seeding product ${product.id}:`, error);
+        // Continue with other products
+      }
+    }
+  }
+
+  // Same rules as record_product_revision: published products only, and
+  // only when the content differs from the latest revision
+  private recordRevision(data: LocalData, product: Product, actor?: RevisionActor): void {
+    if (product.status !== "published") {
+      return;
+    }
+
+    const snapshot = toRevisionSnapshot(product);
+    const latest = data.productRevisions
+      .filter((revision) => revision.productId === product.id)
+      .sort((a, b) => b.revisionNumber - a.revisionNumber)[0];
+    if (latest && isDeepStrictEqual(latest.snapshot, snapshot)) {
+      return;
+    }
+
+    data.productRevisions.push({
+      id: randomUUID(),
+      productId: product.id,
+      revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+      snapshot,
+      publishedBy: actor?.id ?? null,
+      publishedByEmail: actor?.email ?? null,
+      changeNote: actor?.changeNote?.trim() || null,
+      publishedAt: new Date().toISOString(),
+    });
+  }
+}
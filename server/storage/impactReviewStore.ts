@@ -0,0 +1,26 @@
+import type { ImpactReview, ImpactReviewStatus } from "../../shared/types";
+
+// Fields set when a review is created; id and timestamps are set by the store
+export type ImpactReviewInput = Omit<ImpactReview, "id" | "createdAt" | "updatedAt" | "resolvedAt" | "resolvedBy">;
+
+export type ImpactReviewChanges = Partial<Omit<ImpactReview, "id" | "productId" | "ingredientName" | "createdAt" | "updatedAt">>;
+
+export interface ListImpactReviewsOptions {
+  status?: ImpactReviewStatus;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Persistence for the impact review queue (impact_reviews table).
+ * Implemented by SupabaseImpactReviewStore and FileImpactReviewStore.
+ */
+export interface ImpactReviewStore {
+  getById(id: string): Promise<ImpactReview | null>;
+  // The open review for a product and ingredient, if there is one
+  findOpen(productId: string, ingredientName: string): Promise<ImpactReview | null>;
+  insert(review: ImpactReviewInput): Promise<ImpactReview>;
+  update(id: string, changes: ImpactReviewChanges): Promise<ImpactReview | null>;
+  // Newest first
+  list(options: ListImpactReviewsOptions): Promise<{ rows: ImpactReview[]; total: number }>;
+}
@@ -0,0 +1,121 @@
+/**
+ * Storage backend selection
+ * STORAGE_BACKEND=supabase (default) uses the Supabase project;
+ * STORAGE_BACKEND=file keeps products, ingredients and ingredient analyses
+ * in a local JSON file (STORAGE_FILE_PATH, default .data/storage.json).
+ */
+
+import type { AnalysisStore } from "./analysisStore";
+import type { ApiKeyStore } from "./apiKeyStore";
+import type { AuditStore } from "./auditStore";
+import { FileAnalysisStore } from "./fileAnalysisStore";
+import { FileApiKeyStore } from "./fileApiKeyStore";
+import { FileAuditStore } from "./fileAuditStore";
+import { FileImpactReviewStore } from "./fileImpactReviewStore";
+import { FileSensitivityProfileStore } from "./fileSensitivityProfileStore";
+import { FileStorage } from "./fileStorage";
+import type { ImpactReviewStore } from "./impactReviewStore";
+import type { ProductStorage } from "./productStorage";
+import type { SensitivityProfileStore } from "./sensitivityProfileStore";
+import { SupabaseAnalysisStore } from "./supabaseAnalysisStore";
+import { SupabaseApiKeyStore } from "./supabaseApiKeyStore";
+import { SupabaseAuditStore } from "./supabaseAuditStore";
+import { SupabaseImpactReviewStore } from "./supabaseImpactReviewStore";
+import { SupabaseSensitivityProfileStore } from "./supabaseSensitivityProfileStore";
+import { SupabaseStorage } from "./supabaseStorage";
+
+export type StorageBackend = "supabase" | "file";
+
+export function getStorageBackend(env: NodeJS.ProcessEnv = process.env): StorageBackend {
+  const backend = (env.STORAGE_BACKEND || "supabase").trim().toLowerCase();
+  if (backend !== "supabase" && backend !== "file") {
+    throw new Error(`Unknown STORAGE_BACKEND "${env.STORAGE_BACKEND}". Use "supabase" or "file".`);
+  }
+  return backend;
+}
+
+export function createProductStorage(): ProductStorage {
+  return getStorageBackend() === "file" ? new FileStorage() : new SupabaseStorage();
+}
+
+/**
+ * Storage for ingredient analyses and aliases, or null when the Supabase
+ * backend is selected but not configured
+ */
+export function createAnalysisStore(): AnalysisStore | null {
+  if (getStorageBackend() === "file") {
+    return new FileAnalysisStore();
+  }
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return null;
+  }
+  return new SupabaseAnalysisStore();
+}
+
+/**
+ * Storage for the impact review queue, or null when the Supabase backend is
+ * selected but not configured
+ */
+export function createImpactReviewStore(): ImpactReviewStore | null {
+  if (getStorageBackend() === "file") {
+    return new FileImpactReviewStore();
+  }
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return null;
+  }
+  return new SupabaseImpactReviewStore();
+}
+
+/**
+ * Storage for API keys, or null when the Supabase backend is selected but
+ * not configured
+ */
+export function createApiKeyStore(): ApiKeyStore | null {
+  if (getStorageBackend() === "file") {
+    return new FileApiKeyStore();
+  }
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return null;
+  }
+  return new SupabaseApiKeyStore();
+}
+
+/**
+ * Storage for the audit log, or null when the Supabase backend is selected
+ * but not configured
+ */
+export function createAuditStore(): AuditStore | null {
+  if (getStorageBackend() === "file") {
+    return new FileAuditStore();
+  }
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return null;
+  }
+  return new SupabaseAuditStore();
+}
+
+/**
+ * Storage for consumers' sensitivity profiles, or null when the Supabase
+ * backend is selected but not configured
+ */
+export function createSensitivityProfileStore(): SensitivityProfileStore | null {
+  if (getStorageBackend() === "file") {
+    return new FileSensitivityProfileStore();
+  }
+
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return null;
+  }
+  return new SupabaseSensitivityProfileStore();
+}
+
+export type { AnalysisStore } from "./analysisStore";
+export type { ApiKeyStore } from "./apiKeyStore";
+export type { AuditEventInput, AuditStore, ListAuditEventsOptions } from "./auditStore";
+export type { ImpactReviewStore } from "./impactReviewStore";
+export type { ProductStorage } from "./productStorage";
+export type { SensitivityProfileStore } from "./sensitivityProfileStore";
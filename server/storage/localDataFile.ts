@@ -0,0 +1,103 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { DEFAULT_PRODUCT_CATEGORY } from "../../shared/productCategories";
+import type { Sensitivity } from "../../shared/sensitivities";
+import type { AuditEvent, ImpactReview, Product, ProductRevision } from "../../shared/types";
+import type { StoredAlias, StoredAnalysis, StoredRefresh } from "./analysisStore";
+import type { StoredApiKey } from "./apiKeyStore";
+
+export const DEFAULT_STORAGE_FILE_PATH = ".data/storage.json";
+
+/**
+ * Everything the file backend stores, in one JSON document. Products embed
+ * their ingredients; analyses and aliases keep the Supabase row shape so
+ * the admin API returns the same JSON from either backend.
+ */
+export interface LocalData {
+  products: Product[];
+  productRevisions: ProductRevision[];
+  ingredientAnalyses: StoredAnalysis[];
+  ingredientAliases: StoredAlias[];
+  ingredientRefreshes: StoredRefresh[];
+  impactReviews: ImpactReview[];
+  apiKeys: StoredApiKey[];
+  auditEvents: AuditEvent[];
+  sensitivityProfiles: { userId: string; sensitivities: Sensitivity[]; updatedAt: string }[];
+}
+
+const openFiles = new Map<string, LocalDataFile>();
+
+/**
+ * A JSON file read once into memory. Changes run one at a time and are
+ * written to a temp file and renamed over the original, so a crash never
+ * leaves a half-written file behind. Only safe for a single server process.
+ */
+export class LocalDataFile {
+  private data: Promise<LocalData> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor(readonly filePath: string) {}
+
+  static open(filePath: string = process.env.STORAGE_FILE_PATH || DEFAULT_STORAGE_FILE_PATH): LocalDataFile {
+    const resolved = path.resolve(filePath);
+    let file = openFiles.get(resolved);
+    if (!file) {
+      file = new LocalDataFile(resolved);
+      openFiles.set(resolved, file);
+    }
+    return file;
+  }
+
+  async read(): Promise<LocalData> {
+    if (!this.data) {
+      this.data = this.load();
+    }
+    return this.data;
+  }
+
+  /**
+   * Apply a change and save the file; `mutate` may change `data` in place
+   */
+  async write<T>(mutate: (data: LocalData) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const data = await this.read();
+      const result = mutate(data);
+      await this.save(data);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<LocalData> {
+    let json: Partial<LocalData> = {};
+    try {
+      json = JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw new Error(`Failed to read storage file ${this.filePath}: ${error instanceof Error ? error.message : error}`);
+      }
+      console.log(`💡 Creating local storage file at ${this.filePath}`);
+    }
+
+    return {
+      products: json.products ?? [],
+      productRevisions: json.productRevisions ?? [],
+      // Analyses and refreshes stored before categories are skincare
+      ingredientAnalyses: (json.ingredientAnalyses ?? []).map((row) => ({ ...row, category: row.category ?? DEFAULT_PRODUCT_CATEGORY })),
+      ingredientAliases: json.ingredientAliases ?? [],
+      ingredientRefreshes: (json.ingredientRefreshes ?? []).map((row) => ({ ...row, category: row.category ?? DEFAULT_PRODUCT_CATEGORY })),
+      impactReviews: json.impactReviews ?? [],
+      apiKeys: json.apiKeys ?? [],
+      auditEvents: json.auditEvents ?? [],
+      sensitivityProfiles: json.sensitivityProfiles ?? [],
+    };
+  }
+
+  private async save(data: LocalData): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,224 @@
+import { randomUUID } from "node:crypto";
+import type { IngredientAttributes } from "../../shared/ingredientAttributes";
+import type { IngredientTag } from "../../shared/ingredientTags";
+import { DEFAULT_PRODUCT_CATEGORY, type ProductCategory } from "../../shared/productCategories";
+import {
+  ConcentrationBasis,
+  ConcentrationHint,
+  Ingredient,
+  Product,
+  ProductRevision,
+  ProductRevisionSnapshot,
+  ProductStatus,
+  RegulatoryMatch,
+  ReviewState,
+  SafetyStatus,
+} from "../../shared/types";
+
+// Storage input types (previously defined in memStorage.ts)
+export interface CreateIngredientInput {
+  id?: string;
+  name: string;
+  status: SafetyStatus;
+  rationale: string;
+  sourceUrl: string;
+  originalStatus?: SafetyStatus;
+  isOverride?: boolean;
+  concentration?: ConcentrationHint | null;
+  position?: number | null;
+  concentrationBasis?: ConcentrationBasis | null;
+  regulatoryMatches?: RegulatoryMatch[] | null;
+  tags?: IngredientTag[] | null;
+  attributes?: IngredientAttributes | null;
+}
+
+export interface CreateProductInput {
+  name: string;
+  brand: string;
+  summary: string;
+  imageUrl: string;
+  category?: ProductCategory;
+  overallStatus?: SafetyStatus;
+  status?: ProductStatus;
+  ingredients?: CreateIngredientInput[];
+  editedFromProductId?: string | null;
+}
+
+export interface UpdateProductInput {
+  name?: string;
+  brand?: string;
+  summary?: string;
+  imageUrl?: string;
+  category?: ProductCategory;
+  overallStatus?: SafetyStatus;
+  status?: ProductStatus;
+  ingredients?: CreateIngredientInput[];
+  publishedAt?: string | null;
+}
+
+export interface ListProductsOptions {
+  includeUnpublished?: boolean;
+}
+
+// Review state and assignee of a draft; a null assignee unassigns it
+export interface ReviewChanges {
+  reviewState?: ReviewState;
+  assignedTo?: string | null;
+  assignedToEmail?: string | null;
+}
+
+// Who made a write and why, recorded on the revision it publishes
+export interface RevisionActor {
+  id?: string;
+  email?: string;
+  changeNote?: string;
+}
+
+/**
+ * Product persistence used by every product route. Implemented by
+ * SupabaseStorage and by FileStorage (STORAGE_BACKEND=file) for running
+ * without a Supabase project.
+ */
+export interface ProductStorage {
+  list(options?: ListProductsOptions): Promise<Product[]>;
+  getById(id: string, options?: ListProductsOptions): Promise<Product | null>;
+  // Writes that leave a product published record a new revision when its content changed
+  create(input: CreateProductInput, actor?: RevisionActor): Promise<Product>;
+  update(id: string, input: UpdateProductInput, actor?: RevisionActor): Promise<Product | null>;
+  delete(id: string): Promise<boolean>;
+  // Returns the product's existing draft if it already has one
+  createDraftFromProduct(id: string): Promise<Product | null>;
+  // Copies the draft onto its original, publishes it and deletes the draft
+  mergeDraftIntoOriginal(draftId: string, actor?: RevisionActor): Promise<Product | null>;
+  // Sets the editorial workflow fields of a draft without touching its content
+  updateReview(id: string, changes: ReviewChanges): Promise<Product | null>;
+  // Newest first
+  listRevisions(productId: string): Promise<ProductRevision[]>;
+  getRevision(productId: string, revisionNumber: number): Promise<ProductRevision | null>;
+  seed(products: Product[]): Promise<void>;
+}
+
+export function deriveOverallStatus(ingredients: Ingredient[]): SafetyStatus {
+  if (ingredients.some((ingredient) => ingredient.status === "banned")) {
+    return "banned";
+  }
+  if (ingredients.some((ingredient) => ingredient.status === "caution")) {
+    return "caution";
+  }
+  return "safe";
+}
+
+/**
+ * Fill in ids, timestamps and defaults for an ingredient being written,
+ * keeping what an existing ingredient with the same id already had
+ */
+export function normalizeIngredient(
+  ingredient: CreateIngredientInput,
+  now: string,
+  existing: Ingredient[] = [],
+): Ingredient {
+  const defaultSource = "https://example.com/research";
+  const existingIngredient = ingredient.id
+    ? existing.find((item) => item.id === ingredient.id)
+    : undefined;
+
+  const createdAt = existingIngredient?.createdAt ?? now;
+
+  return {
+    id: ingredient.id ?? randomUUID(),
+    name: ingredient.name,
+    status: ingredient.status,
+    rationale: ingredient.rationale,
+    sourceUrl:
+      ingredient.sourceUrl ||
+      existingIngredient?.sourceUrl ||
+      defaultSource,
+    originalStatus:
+      ingredient.originalStatus ??
+      existingIngredient?.originalStatus ??
+      ingredient.status,
+    isOverride:
+      ingredient.isOverride ??
+      existingIngredient?.isOverride ??
+      false,
+    concentration:
+      ingredient.concentration !== undefined
+        ? ingredient.concentration
+        : existingIngredient?.concentration ?? null,
+    position:
+      ingredient.position !== undefined
+        ? ingredient.position
+        : existingIngredient?.position ?? null,
+    concentrationBasis:
+      ingredient.concentrationBasis !== undefined
+        ? ingredient.concentrationBasis
+        : existingIngredient?.concentrationBasis ?? null,
+    regulatoryMatches:
+      ingredient.regulatoryMatches !== undefined
+        ? ingredient.regulatoryMatches
+        : existingIngredient?.regulatoryMatches ?? null,
+    tags:
+      ingredient.tags !== undefined
+        ? ingredient.tags
+        : existingIngredient?.tags ?? [],
+    attributes:
+      ingredient.attributes !== undefined
+        ? ingredient.attributes
+        : existingIngredient?.attributes ?? null,
+    createdAt,
+    updatedAt: now,
+  };
+}
+
+export function toCreateProductInput(product: Product): CreateProductInput {
+  return {
+    name: product.name,
+    brand: product.brand,
+    summary: product.summary,
+    imageUrl: product.imageUrl,
+    category: product.category,
+    overallStatus: product.overallStatus,
+    status: product.status,
+    editedFromProductId: product.editedFromProductId ?? null,
+    ingredients: product.ingredients.map((ing) => ({
+      id: ing.id,
+      name: ing.name,
+      status: ing.status,
+      rationale: ing.rationale,
+      sourceUrl: ing.sourceUrl,
+      originalStatus: ing.originalStatus,
+      isOverride: ing.isOverride,
+    })),
+  };
+}
+
+/**
+ * The published content of a product, in the same shape (and ingredient
+ * order) as record_product_revision builds in the database
+ */
+export function toRevisionSnapshot(product: Product): ProductRevisionSnapshot {
+  return {
+    name: product.name,
+    brand: product.brand,
+    summary: product.summary,
+    imageUrl: product.imageUrl,
+    category: product.category ?? DEFAULT_PRODUCT_CATEGORY,
+    overallStatus: product.overallStatus,
+    ingredients: [...product.ingredients]
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      .map((ing) => ({
+        name: ing.name,
+        status: ing.status,
+        rationale: ing.rationale,
+        sourceUrl: ing.sourceUrl,
+        originalStatus: ing.originalStatus ?? null,
+        isOverride: ing.isOverride ?? false,
+        concentration: ing.concentration ?? null,
+        position: ing.position ?? null,
+        concentrationBasis: ing.concentrationBasis ?? null,
+        regulatoryMatches: ing.regulatoryMatches ?? null,
+        tags: ing.tags ?? [],
+        attributes: ing.attributes ?? null,
+      })),
+  };
+}
@@ -0,0 +1,12 @@
+import type { SensitivityProfile } from "../../shared/sensitivities";
+
+/**
+ * Persistence for consumers' sensitivity profiles (user_profiles.sensitivities).
+ * Implemented by SupabaseSensitivityProfileStore and FileSensitivityProfileStore.
+ */
+export interface SensitivityProfileStore {
+  // An empty profile when the user has not saved one
+  get(userId: string): Promise<SensitivityProfile>;
+  // `email` fills in a user_profiles row for accounts that do not have one yet
+  save(userId: string, email: string | null, sensitivities: SensitivityProfile["sensitivities"]): Promise<SensitivityProfile>;
+}
@@ -0,0 +1,212 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { ProductCategory } from "../../shared/productCategories";
+import type {
+  AnalysisRowInput,
+  AnalysisRowUpdate,
+  AnalysisStore,
+  ListAnalysesOptions,
+  ListRefreshesOptions,
+  ListStaleAnalysesOptions,
+  RefreshRowInput,
+  StoredAlias,
+  StoredAnalysis,
+  StoredRefresh,
+} from "./analysisStore";
+
+export class SupabaseAnalysisStore implements AnalysisStore {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      throw new Error("Supabase URL and Service Role Key must be set in environment variables");
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
+  async getAnalysis(ingredientName: string, category: ProductCategory): Promise<StoredAnalysis | null> {
+    const { data, error } = await this.supabase
+      .from("ingredient_analyses")
+      .select("*")
+      .eq("ingredient_name", ingredientName)
+      .eq("category", category)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return data;
+  }
+
+  async insertAnalysis(row: AnalysisRowInput): Promise<void> {
+    const { error } = await this.supabase
+      .from("ingredient_analyses")
+      .insert(row);
+
+    if (error) {
+      throw new Error(`Failed to save analysis: ${error.message}`);
+    }
+  }
+
+  async updateAnalysis(ingredientName: string, category: ProductCategory, row: AnalysisRowUpdate): Promise<void> {
+    // updated_at is set automatically by trigger
+    const { error } = await this.supabase
+      .from("ingredient_analyses")
+      .update(row)
+      .eq("ingredient_name", ingredientName)
+      .eq("category", category);
+
+    if (error) {
+      throw new Error(`Failed to update analysis: ${error.message}`);
+    }
+  }
+
+  async deleteAnalysis(ingredientName: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("ingredient_analyses")
+      .delete()
+      .eq("ingredient_name", ingredientName);
+
+    if (error) {
+      throw new Error(`Failed to delete analysis: ${error.message}`);
+    }
+  }
+
+  async listAnalyses(options: ListAnalysesOptions): Promise<{ rows: StoredAnalysis[]; total: number }> {
+    let query = this.supabase
+      .from("ingredient_analyses")
+      .select("*", { count: "exact" });
+
+    if (options.needsReview) {
+      query = query.eq("needs_review", true);
+    }
+    if (options.category) {
+      query = query.eq("category", options.category);
+    }
+
+    const { data, error, count } = await query
+      .order("updated_at", { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list analyses: ${error.message}`);
+    }
+
+    return { rows: data || [], total: count || 0 };
+  }
+
+  async listStaleAnalyses(options: ListStaleAnalysesOptions): Promise<{ rows: StoredAnalysis[]; total: number }> {
+    const { data, error, count } = await this.supabase
+      .from("ingredient_analyses")
+      .select("*", { count: "exact" })
+      .or(`last_analyzed_at.lt."${options.analyzedBefore}",analysis_version.lt.${options.belowVersion},provider.is.null`)
+      .order("last_analyzed_at", { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list stale analyses: ${error.message}`);
+    }
+
+    return { rows: data || [], total: count || 0 };
+  }
+
+  async listAliases(canonicalName?: string): Promise<StoredAlias[]> {
+    let query = this.supabase
+      .from("ingredient_aliases")
+      .select("*")
+      .order("canonical_name", { ascending: true });
+
+    if (canonicalName) {
+      query = query.eq("canonical_name", canonicalName);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list aliases: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async upsertAlias(row: Omit<StoredAlias, "created_at">): Promise<StoredAlias> {
+    const { data, error } = await this.supabase
+      .from("ingredient_aliases")
+      .upsert(row, { onConflict: "alias" })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save alias: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async deleteAlias(alias: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("ingredient_aliases")
+      .delete()
+      .eq("alias", alias)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to delete alias: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async repointAliases(fromCanonical: string, toCanonical: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("ingredient_aliases")
+      .update({ canonical_name: toCanonical })
+      .eq("canonical_name", fromCanonical);
+
+    if (error) {
+      throw new Error(`Failed to repoint aliases: ${error.message}`);
+    }
+  }
+
+  async insertRefreshes(rows: RefreshRowInput[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from("ingredient_refreshes")
+      .insert(rows);
+
+    if (error) {
+      throw new Error(`Failed to save refresh log: ${error.message}`);
+    }
+  }
+
+  async listRefreshes(options: ListRefreshesOptions): Promise<{ rows: StoredRefresh[]; total: number }> {
+    let query = this.supabase
+      .from("ingredient_refreshes")
+      .select("*", { count: "exact" });
+
+    if (options.statusChanged) {
+      query = query.eq("status_changed", true);
+    }
+
+    const { data, error, count } = await query
+      .order("created_at", { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list refresh log: ${error.message}`);
+    }
+
+    return { rows: data || [], total: count || 0 };
+  }
+}
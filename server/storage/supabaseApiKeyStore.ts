@@ -0,0 +1,128 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { ApiKey } from "../../shared/types";
+import type { ApiKeyInput, ApiKeyStore, StoredApiKey } from "./apiKeyStore";
+
+export class SupabaseApiKeyStore implements ApiKeyStore {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      throw new Error("Supabase URL and Service Role Key must be set in environment variables");
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
+  async insert(input: ApiKeyInput): Promise<ApiKey> {
+    const { data, error } = await this.supabase
+      .from("api_keys")
+      .insert({
+        name: input.name,
+        key_prefix: input.prefix,
+        key_hash: input.keyHash,
+        scopes: input.scopes,
+        created_by: input.createdBy,
+        expires_at: input.expiresAt,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create API key: ${error.message}`);
+    }
+
+    return this.mapRowToKey(data);
+  }
+
+  async findByHash(keyHash: string): Promise<StoredApiKey | null> {
+    const { data, error } = await this.supabase
+      .from("api_keys")
+      .select("*")
+      .eq("key_hash", keyHash)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch API key: ${error.message}`);
+    }
+
+    return data ? { ...this.mapRowToKey(data), keyHash: data.key_hash } : null;
+  }
+
+  async list(): Promise<ApiKey[]> {
+    const { data, error } = await this.supabase
+      .from("api_keys")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list API keys: ${error.message}`);
+    }
+
+    return (data || []).map((row) => this.mapRowToKey(row));
+  }
+
+  async revoke(id: string): Promise<ApiKey | null> {
+    // Keep the first revocation time if the key was already revoked
+    const { data: existing, error: fetchError } = await this.supabase
+      .from("api_keys")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch API key: ${fetchError.message}`);
+    }
+    if (!existing) {
+      return null;
+    }
+    if (existing.revoked_at) {
+      return this.mapRowToKey(existing);
+    }
+
+    const { data, error } = await this.supabase
+      .from("api_keys")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to revoke API key: ${error.message}`);
+    }
+
+    return this.mapRowToKey(data);
+  }
+
+  async markUsed(id: string, usedAt: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("api_keys")
+      .update({ last_used_at: usedAt })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to update API key: ${error.message}`);
+    }
+  }
+
+  private mapRowToKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.key_prefix,
+      scopes: row.scopes ?? [],
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      lastUsedAt: row.last_used_at,
+      revokedAt: row.revoked_at,
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { AuditEvent } from "../../shared/types";
+import type { AuditEventInput, AuditStore, ListAuditEventsOptions } from "./auditStore";
+
+export class SupabaseAuditStore implements AuditStore {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      throw new Error("Supabase URL and Service Role Key must be set in environment variables");
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
+  async insert(input: AuditEventInput): Promise<AuditEvent> {
+    const { data, error } = await this.supabase
+      .from("audit_events")
+      .insert({
+        actor_id: input.actorId,
+        actor_email: input.actorEmail,
+        actor_role: input.actorRole,
+        action: input.action,
+        target_type: input.targetType,
+        target_id: input.targetId,
+        changes: input.changes,
+        method: input.method,
+        path: input.path,
+        status_code: input.statusCode,
+        ip: input.ip,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record audit event: ${error.message}`);
+    }
+
+    return this.mapRowToEvent(data);
+  }
+
+  async list(options: ListAuditEventsOptions): Promise<{ rows: AuditEvent[]; total: number }> {
+    let query = this.supabase
+      .from("audit_events")
+      .select("*", { count: "exact" })
+      .order("created_at", { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (options.actorId) {
+      query = query.eq("actor_id", options.actorId);
+    }
+    if (options.action) {
+      query = options.action.endsWith(".")
+        ? query.eq("target_type", options.action.slice(0, -1))
+        : query.eq("action", options.action);
+    }
+    if (options.targetId) {
+      query = query.eq("target_id", options.targetId);
+    }
+    if (options.from) {
+      query = query.gte("created_at", options.from);
+    }
+    if (options.to) {
+      query = query.lte("created_at", options.to);
+    }
+
+    const { data, error, count } = await query;
+    if (error) {
+      throw new Error(`Failed to list audit events: ${error.message}`);
+    }
+
+    return { rows: (data || []).map((row) => this.mapRowToEvent(row)), total: count || 0 };
+  }
+
+  private mapRowToEvent(row: any): AuditEvent {
+    return {
+      id: row.id,
+      actorId: row.actor_id,
+      actorEmail: row.actor_email,
+      actorRole: row.actor_role,
+      action: row.action,
+      targetType: row.target_type,
+      targetId: row.target_id,
+      changes: row.changes,
+      method: row.method,
+      path: row.path,
+      statusCode: row.status_code,
+      ip: row.ip,
+      createdAt: row.created_at,
+    };
+  }
+}
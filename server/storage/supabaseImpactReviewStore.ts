@@ -0,0 +1,148 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { ImpactReview } from "../../shared/types";
+import type {
+  ImpactReviewChanges,
+  ImpactReviewInput,
+  ImpactReviewStore,
+  ListImpactReviewsOptions,
+} from "./impactReviewStore";
+
+const COLUMNS: Record<keyof ImpactReviewChanges | "productId" | "ingredientName", string> = {
+  productId: "product_id",
+  ingredientName: "ingredient_name",
+  previousStatus: "previous_status",
+  newStatus: "new_status",
+  currentOverallStatus: "current_overall_status",
+  projectedOverallStatus: "projected_overall_status",
+  status: "status",
+  resolvedAt: "resolved_at",
+  resolvedBy: "resolved_by",
+};
+
+export class SupabaseImpactReviewStore implements ImpactReviewStore {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      throw new Error("Supabase URL and Service Role Key must be set in environment variables");
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
+  async getById(id: string): Promise<ImpactReview | null> {
+    const { data, error } = await this.supabase
+      .from("impact_reviews")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch impact review: ${error.message}`);
+    }
+
+    return data ? this.mapRowToReview(data) : null;
+  }
+
+  async findOpen(productId: string, ingredientName: string): Promise<ImpactReview | null> {
+    const { data, error } = await this.supabase
+      .from("impact_reviews")
+      .select("*")
+      .eq("product_id", productId)
+      .eq("ingredient_name", ingredientName)
+      .eq("status", "open")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch impact review: ${error.message}`);
+    }
+
+    return data ? this.mapRowToReview(data) : null;
+  }
+
+  async insert(review: ImpactReviewInput): Promise<ImpactReview> {
+    const { data, error } = await this.supabase
+      .from("impact_reviews")
+      .insert(this.mapToRow(review))
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create impact review: ${error.message}`);
+    }
+
+    return this.mapRowToReview(data);
+  }
+
+  async update(id: string, changes: ImpactReviewChanges): Promise<ImpactReview | null> {
+    // updated_at is set automatically by trigger
+    const { data, error } = await this.supabase
+      .from("impact_reviews")
+      .update(this.mapToRow(changes))
+      .eq("id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update impact review: ${error.message}`);
+    }
+
+    return data ? this.mapRowToReview(data) : null;
+  }
+
+  async list(options: ListImpactReviewsOptions): Promise<{ rows: ImpactReview[]; total: number }> {
+    let query = this.supabase
+      .from("impact_reviews")
+      .select("*", { count: "exact" });
+
+    if (options.status) {
+      query = query.eq("status", options.status);
+    }
+
+    const { data, error, count } = await query
+      .order("created_at", { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list impact reviews: ${error.message}`);
+    }
+
+    return { rows: (data || []).map((row) => this.mapRowToReview(row)), total: count || 0 };
+  }
+
+  private mapToRow(fields: Partial<ImpactReviewInput> & ImpactReviewChanges): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    Object.keys(fields).forEach((key) => {
+      const column = COLUMNS[key as keyof typeof COLUMNS];
+      if (column) {
+        row[column] = fields[key as keyof typeof fields];
+      }
+    });
+    return row;
+  }
+
+  private mapRowToReview(row: any): ImpactReview {
+    return {
+      id: row.id,
+      productId: row.product_id,
+      ingredientName: row.ingredient_name,
+      previousStatus: row.previous_status,
+      newStatus: row.new_status,
+      currentOverallStatus: row.current_overall_status,
+      projectedOverallStatus: row.projected_overall_status,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      resolvedAt: row.resolved_at,
+      resolvedBy: row.resolved_by,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { isSensitivity, type SensitivityProfile } from "../../shared/sensitivities";
+import type { SensitivityProfileStore } from "./sensitivityProfileStore";
+
+export class SupabaseSensitivityProfileStore implements SensitivityProfileStore {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      throw new Error("Supabase URL and Service Role Key must be set in environment variables");
+    }
+
+    this.supabase = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
+  async get(userId: string): Promise<SensitivityProfile> {
+    const { data, error } = await this.supabase
+      .from("user_profiles")
+      .select("sensitivities, sensitivities_updated_at")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch sensitivity profile: ${error.message}`);
+    }
+
+    return data ? this.mapRowToProfile(data) : { sensitivities: [], updatedAt: null };
+  }
+
+  async save(
+    userId: string,
+    email: string | null,
+    sensitivities: SensitivityProfile["sensitivities"],
+  ): Promise<SensitivityProfile> {
+    // Signed-up consumers may not have a user_profiles row yet; the role column
+    // is left out so an existing role is never changed (new rows get 'user')
+    const { data, error } = await this.supabase
+      .from("user_profiles")
+      .upsert(
+        {
+          id: userId,
+          ...(email ? { email } : {}),
+          sensitivities,
+          sensitivities_updated_at: new Date().toISOString(),
+        },
+        { onConflict: "id" },
+      )
+      .select("sensitivities, sensitivities_updated_at")
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save sensitivity profile: ${error.message}`);
+    }
+
+    return this.mapRowToProfile(data);
+  }
+
+  private mapRowToProfile(row: any): SensitivityProfile {
+    return {
+      sensitivities: (row.sensitivities ?? []).filter(isSensitivity),
+      updatedAt: row.sensitivities_updated_at ?? null,
+    };
+  }
+}
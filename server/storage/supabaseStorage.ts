@@ -1,50 +1,20 @@
-import { randomUUID } from "node:crypto";
 import { createClient } from "@supabase/supabase-js";
+import { DEFAULT_PRODUCT_CATEGORY } from "../../shared/productCategories";
+import { Ingredient, Product, ProductRevision } from "../../shared/types";
 import {
-  Ingredient,
-  Product,
-  ProductStatus,
-  SafetyStatus,
-} from "../../shared/types";
-
-// Storage input types (previously defined in memStorage.ts)
-export interface CreateIngredientInput {
-  id?: string;
-  name: string;
-  status: SafetyStatus;
-  rationale: string;
-  sourceUrl: string;
-  originalStatus?: SafetyStatus;
-  isOverride?: boolean;
-}
-
-export interface CreateProductInput {
-  name: string;
-  brand: string;
-  summary: string;
-  imageUrl: string;
-  overallStatus?: SafetyStatus;
-  status?: ProductStatus;
-  ingredients?: CreateIngredientInput[];
-  editedFromProductId?: string | null;
-}
-
-export interface UpdateProductInput {
-  name?: string;
-  brand?: string;
-  summary?: string;
-  imageUrl?: string;
-  overallStatus?: SafetyStatus;
-  status?: ProductStatus;
-  ingredients?: CreateIngredientInput[];
-  publishedAt?: string | null;
-}
-
-export interface ListProductsOptions {
-  includeUnpublished?: boolean;
-}
-
-export class SupabaseStorage {
+  deriveOverallStatus,
+  normalizeIngredient,
+  toCreateProductInput,
+  type CreateIngredientInput,
+  type CreateProductInput,
+  type ListProductsOptions,
+  type ProductStorage,
+  type ReviewChanges,
+  type RevisionActor,
+  type UpdateProductInput,
+} from "./productStorage";
+
+export class SupabaseStorage implements ProductStorage {
   private supabase;
 
   constructor() {
@@ -116,65 +86,37 @@ export class SupabaseStorage {
     return this.mapRowToProduct(data);
   }
 
-  async create(input: CreateProductInput): Promise<Product> {
+  async create(input: CreateProductInput, actor?: RevisionActor): Promise<Product> {
     const now = new Date().toISOString();
-    const productId = randomUUID();
 
     const ingredients = (input.ingredients ?? []).map((ingredient: CreateIngredientInput) =>
-      this.normalizeIngredient(ingredient, productId, now),
+      normalizeIngredient(ingredient, now),
     );
 
     const overallStatus =
-      input.overallStatus ?? this.deriveOverallStatus(ingredients);
+      input.overallStatus ?? deriveOverallStatus(ingredients);
     const status = input.status ?? "draft";
 
-    // Insert product
-    const { data: productData, error: productError } = await this.supabase
-      .from("products")
-      .insert({
-        id: productId,
+    // The product and its ingredients are inserted in one transaction
+    const { data: productId, error } = await this.supabase.rpc("create_product", {
+      p_product: {
         name: input.name,
         brand: input.brand,
         summary: input.summary,
         image_url: input.imageUrl,
+        category: input.category ?? DEFAULT_PRODUCT_CATEGORY,
         overall_status: overallStatus,
         status: status,
         published_at: status === "published" ? now : null,
         edited_from_product_id: input.editedFromProductId ?? null,
-      })
-      .select()
-      .single();
-
-    if (productError) {
-      console.error("Error creating product:", productError);
-      throw new Error(`Failed to create product: ${productError.message}`);
-    }
+      },
+      p_ingredients: ingredients.map((ing) => this.mapIngredientToRow(ing)),
+      p_actor: actor ?? null,
+    });
 
-    // Insert ingredients
-    if (ingredients.length > 0) {
-      const ingredientRows = ingredients.map((ing: Ingredient) => ({
-        id: ing.id,
-        product_id: productId,
-        name: ing.name,
-        status: ing.status,
-        rationale: ing.rationale,
-        source_url: ing.sourceUrl,
-        original_status: ing.originalStatus ?? null,
-        is_override: ing.isOverride ?? false,
-      }));
-
-      const { error: ingredientsError } = await this.supabase
-        .from("ingredients")
-        .insert(ingredientRows);
-
-      if (ingredientsError) {
-        console.error("Error creating ingredients:", ingredientsError);
-        // Try to clean up product
-        await this.supabase.from("products").delete().eq("id", productId);
-        throw new Error(
-          `Failed to create ingredients: ${ingredientsError.message}`,
-        );
-      }
+    if (error) {
+      console.error("Error creating product:", error);
+      throw new Error(`Failed to create product: ${error.message}`);
     }
 
     // Fetch complete product with ingredients
@@ -186,7 +128,7 @@ export class SupabaseStorage {
     return product;
   }
 
-  async update(id: string, input: UpdateProductInput): Promise<Product | null> {
+  async update(id: string, input: UpdateProductInput, actor?: RevisionActor): Promise<Product | null> {
     const existing = await this.getById(id, { includeUnpublished: true });
     if (!existing) {
       return null;
@@ -202,6 +144,7 @@ export class SupabaseStorage {
     if (input.brand !== undefined) updateData.brand = input.brand;
     if (input.summary !== undefined) updateData.summary = input.summary;
     if (input.imageUrl !== undefined) updateData.image_url = input.imageUrl;
+    if (input.category !== undefined) updateData.category = input.category;
     if (input.status !== undefined) {
       updateData.status = input.status;
       if (input.status === "published" && !existing.publishedAt) {
@@ -215,71 +158,34 @@ export class SupabaseStorage {
       updateData.published_at = input.publishedAt;
     }
 
+    const normalizedIngredients = input.ingredients?.map((ingredient: CreateIngredientInput) =>
+      normalizeIngredient(ingredient, now, existing.ingredients),
+    );
+
     // Use provided overallStatus if given (allows manual override)
     // Only auto-calculate if overallStatus is not provided
     if (input.overallStatus !== undefined) {
       updateData.overall_status = input.overallStatus;
-    } else if (input.ingredients) {
-      // Auto-calculate only if overallStatus was not provided
-      const normalizedIngredients = input.ingredients.map((ingredient: CreateIngredientInput) =>
-        this.normalizeIngredient(ingredient, id, now, existing.ingredients),
-      );
-      updateData.overall_status = this.deriveOverallStatus(normalizedIngredients);
+    } else if (normalizedIngredients) {
+      updateData.overall_status = deriveOverallStatus(normalizedIngredients);
     }
 
-    // Update product
-    if (Object.keys(updateData).length > 0) {
-      const { error: updateError } = await this.supabase
-        .from("products")
-        .update(updateData)
-        .eq("id", id);
-
-      if (updateError) {
-        console.error("Error updating product:", updateError);
-        throw new Error(`Failed to update product: ${updateError.message}`);
-      }
-    }
+    // Product fields and ingredients are updated in one transaction, so a failed
+    // ingredient write leaves the previous version intact
+    if (Object.keys(updateData).length > 0 || normalizedIngredients) {
+      const { data: found, error } = await this.supabase.rpc("update_product", {
+        p_product_id: id,
+        p_changes: updateData,
+        p_ingredients: normalizedIngredients?.map((ing) => this.mapIngredientToRow(ing)) ?? null,
+        p_actor: actor ?? null,
+      });
 
-    // Update ingredients if provided
-    if (input.ingredients) {
-      // Delete existing ingredients
-      const { error: deleteError } = await this.supabase
-        .from("ingredients")
-        .delete()
-        .eq("product_id", id);
-
-      if (deleteError) {
-        console.error("Error deleting ingredients:", deleteError);
-        throw new Error(`Failed to delete ingredients: ${deleteError.message}`);
+      if (error) {
+        console.error("Error updating product:", error);
+        throw new Error(`Failed to update product: ${error.message}`);
       }
-
-      // Insert new ingredients
-      const normalizedIngredients = input.ingredients.map((ingredient: CreateIngredientInput) =>
-        this.normalizeIngredient(ingredient, id, now, existing.ingredients),
-      );
-
-      if (normalizedIngredients.length > 0) {
-        const ingredientRows = normalizedIngredients.map((ing: Ingredient) => ({
-          id: ing.id,
-          product_id: id,
-          name: ing.name,
-          status: ing.status,
-          rationale: ing.rationale,
-          source_url: ing.sourceUrl,
-          original_status: ing.originalStatus ?? null,
-          is_override: ing.isOverride ?? false,
-        }));
-
-        const { error: insertError } = await this.supabase
-          .from("ingredients")
-          .insert(ingredientRows);
-
-        if (insertError) {
-          console.error("Error inserting ingredients:", insertError);
-          throw new Error(
-            `Failed to insert ingredients: ${insertError.message}`,
-          );
-        }
+      if (!found) {
+        return null;
       }
     }
 
@@ -311,72 +217,19 @@ export class SupabaseStorage {
   }
 
   async createDraftFromProduct(id: string): Promise<Product | null> {
-    const baseProduct = await this.getById(id, { includeUnpublished: true });
-    if (!baseProduct) {
-      return null;
-    }
-
-    // Check for existing draft
-    const { data: existingDrafts } = await this.supabase
-      .from("products")
-      .select("*")
-      .eq("edited_from_product_id", id)
-      .eq("status", "draft")
-      .limit(1);
-
-    if (existingDrafts && existingDrafts.length > 0) {
-      return await this.getById(existingDrafts[0].id, {
-        includeUnpublished: true,
-      });
-    }
-
-    // Create new draft
-    const now = new Date().toISOString();
-    const draftId = randomUUID();
-
-    const { error: productError } = await this.supabase
-      .from("products")
-      .insert({
-        id: draftId,
-        name: baseProduct.name,
-        brand: baseProduct.brand,
-        summary: baseProduct.summary,
-        image_url: baseProduct.imageUrl,
-        overall_status: baseProduct.overallStatus,
-        status: "draft",
-        published_at: null,
-        edited_from_product_id: id,
-      });
+    // Returns the existing draft if there is one; otherwise copies the product
+    // and its ingredients in one transaction
+    const { data: draftId, error } = await this.supabase.rpc("create_product_draft", {
+      p_product_id: id,
+    });
 
-    if (productError) {
-      console.error("Error creating draft:", productError);
-      throw new Error(`Failed to create draft: ${productError.message}`);
+    if (error) {
+      console.error("Error creating draft:", error);
+      throw new Error(`Failed to create draft: ${error.message}`);
     }
 
-    // Copy ingredients
-    if (baseProduct.ingredients.length > 0) {
-      const ingredientRows = baseProduct.ingredients.map((ing) => ({
-        id: randomUUID(),
-        product_id: draftId,
-        name: ing.name,
-        status: ing.status,
-        rationale: ing.rationale,
-        source_url: ing.sourceUrl,
-        original_status: ing.originalStatus ?? null,
-        is_override: ing.isOverride ?? false,
-      }));
-
-      const { error: ingredientsError } = await this.supabase
-        .from("ingredients")
-        .insert(ingredientRows);
-
-      if (ingredientsError) {
-        console.error("Error copying ingredients:", ingredientsError);
-        await this.supabase.from("products").delete().eq("id", draftId);
-        throw new Error(
-          `Failed to copy ingredients: ${ingredientsError.message}`,
-        );
-      }
+    if (!draftId) {
+      return null;
     }
 
     return await this.getById(draftId, { includeUnpublished: true });
@@ -385,24 +238,7 @@ export class SupabaseStorage {
   async seed(products: Product[]): Promise<void> {
     for (const product of products) {
       try {
-        await this.create({
-          name: product.name,
-          brand: product.brand,
-          summary: product.summary,
-          imageUrl: product.imageUrl,
-          overallStatus: product.overallStatus,
-          status: product.status,
-          editedFromProductId: product.editedFromProductId ?? null,
-          ingredients: product.ingredients.map((ing) => ({
-            id: ing.id,
-            name: ing.name,
-            status: ing.status,
-            rationale: ing.rationale,
-            sourceUrl: ing.sourceUrl,
-            originalStatus: ing.originalStatus,
-            isOverride: ing.isOverride,
-          })),
-        });
+        await this.create(toCreateProductInput(product));
       } catch (error) {
         console.error(`Error seeding product ${product.id}:`, error);
         // Continue with other products
@@ -410,133 +246,100 @@ export class SupabaseStorage {
     }
   }
 
-  async mergeDraftIntoOriginal(draftId: string): Promise<Product | null> {
-    // Get the draft product
-    const draft = await this.getById(draftId, { includeUnpublished: true });
-    if (!draft || !draft.editedFromProductId) {
-      return null;
+  async mergeDraftIntoOriginal(draftId: string, actor?: RevisionActor): Promise<Product | null> {
+    // Copies the draft onto the original, publishes it and deletes the draft in
+    // one transaction; on error the published version is left untouched
+    const { data: originalId, error } = await this.supabase.rpc("merge_product_draft", {
+      p_draft_id: draftId,
+      p_actor: actor ?? null,
+    });
+
+    if (error) {
+      console.error("Error merging draft:", error);
+      throw new Error(`Failed to merge draft: ${error.message}`);
     }
 
-    const originalId = draft.editedFromProductId;
-    const original = await this.getById(originalId, { includeUnpublished: true });
-    if (!original) {
+    if (!originalId) {
       return null;
     }
 
-    const now = new Date().toISOString();
-
-    // Update the original product with draft's data
-    const updateData: any = {
-      name: draft.name,
-      brand: draft.brand,
-      summary: draft.summary,
-      image_url: draft.imageUrl,
-      overall_status: draft.overallStatus,
-      status: "published",
-      published_at: original.publishedAt || now,
-    };
-
-    const { error: updateError } = await this.supabase
-      .from("products")
-      .update(updateData)
-      .eq("id", originalId);
-
-    if (updateError) {
-      console.error("Error updating original product:", updateError);
-      throw new Error(`Failed to update original product: ${updateError.message}`);
-    }
+    // Return the updated original product
+    return await this.getById(originalId, { includeUnpublished: true });
+  }
 
-    // Delete old ingredients for the original product
-    const { error: deleteIngredientsError } = await this.supabase
-      .from("ingredients")
-      .delete()
-      .eq("product_id", originalId);
+  async updateReview(id: string, changes: ReviewChanges): Promise<Product | null> {
+    const updateData: any = {};
+    if (changes.reviewState !== undefined) updateData.review_state = changes.reviewState;
+    if (changes.assignedTo !== undefined) updateData.assigned_to = changes.assignedTo;
+    if (changes.assignedToEmail !== undefined) updateData.assigned_to_email = changes.assignedToEmail;
 
-    if (deleteIngredientsError) {
-      console.error("Error deleting old ingredients:", deleteIngredientsError);
-      // Continue anyway - we'll try to insert new ones
-    }
+    if (Object.keys(updateData).length > 0) {
+      const { data, error } = await this.supabase
+        .from("products")
+        .update(updateData)
+        .eq("id", id)
+        .select("id");
 
-    // Insert draft's ingredients as the original's ingredients
-    if (draft.ingredients.length > 0) {
-      const ingredientRows = draft.ingredients.map((ing) => ({
-        id: randomUUID(),
-        product_id: originalId,
-        name: ing.name,
-        status: ing.status,
-        rationale: ing.rationale,
-        source_url: ing.sourceUrl,
-        original_status: ing.originalStatus ?? null,
-        is_override: ing.isOverride ?? false,
-      }));
-
-      const { error: ingredientsError } = await this.supabase
-        .from("ingredients")
-        .insert(ingredientRows);
-
-      if (ingredientsError) {
-        console.error("Error inserting ingredients:", ingredientsError);
-        throw new Error(`Failed to insert ingredients: ${ingredientsError.message}`);
+      if (error) {
+        console.error("Error updating review:", error);
+        throw new Error(`Failed to update review: ${error.message}`);
+      }
+      if (!data || data.length === 0) {
+        return null;
       }
     }
 
-    // Delete the draft product
-    const { error: deleteDraftError } = await this.supabase
-      .from("products")
-      .delete()
-      .eq("id", draftId);
+    return await this.getById(id, { includeUnpublished: true });
+  }
+
+  async listRevisions(productId: string): Promise<ProductRevision[]> {
+    const { data, error } = await this.supabase
+      .from("product_revisions")
+      .select("*")
+      .eq("product_id", productId)
+      .order("revision_number", { ascending: false });
 
-    if (deleteDraftError) {
-      console.error("Error deleting draft:", deleteDraftError);
-      // Continue anyway - the original has been updated
+    if (error) {
+      console.error("Error fetching revisions:", error);
+      throw new Error(`Failed to fetch revisions: ${error.message}`);
     }
 
-    // Return the updated original product
-    return await this.getById(originalId, { includeUnpublished: true });
+    return (data || []).map((row) => this.mapRowToRevision(row));
   }
 
-  private deriveOverallStatus(ingredients: Ingredient[]): SafetyStatus {
-    if (ingredients.some((ingredient) => ingredient.status === "banned")) {
-      return "banned";
-    }
-    if (ingredients.some((ingredient) => ingredient.status === "caution")) {
-      return "caution";
-    }
-    return "safe";
-  }
+  async getRevision(productId: string, revisionNumber: number): Promise<ProductRevision | null> {
+    const { data, error } = await this.supabase
+      .from("product_revisions")
+      .select("*")
+      .eq("product_id", productId)
+      .eq("revision_number", revisionNumber)
+      .maybeSingle();
 
-  private normalizeIngredient(
-    ingredient: CreateIngredientInput,
-    productId: string,
-    now: string,
-    existing: Ingredient[] = [],
-  ): Ingredient {
-    const defaultSource = "https://example.com/research";
-    const existingIngredient = ingredient.id
-      ? existing.find((item) => item.id === ingredient.id)
-      : undefined;
+    if (error) {
+      console.error("Error fetching revision:", error);
+      throw new Error(`Failed to fetch revision: ${error.message}`);
+    }
 
-    const createdAt = existingIngredient?.createdAt ?? now;
+    return data ? this.mapRowToRevision(data) : null;
+  }
 
+  private mapIngredientToRow(ingredient: Ingredient) {
     return {
-      id: ingredient.id ?? randomUUID(),
+      id: ingredient.id,
       name: ingredient.name,
       status: ingredient.status,
       rationale: ingredient.rationale,
-      sourceUrl:
-        ingredient.sourceUrl ||
-        existingIngredient?.sourceUrl ||
-        defaultSource,
-      originalStatus:
-        ingredient.originalStatus ??
-        existingIngredient?.originalStatus ??
-        ingredient.status,
-      isOverride:
-        ingredient.isOverride ??
-        existingIngredient?.isOverride ??
-        false,
-      createdAt,
-      updatedAt: now,
+      source_url: ingredient.sourceUrl,
+      original_status: ingredient.originalStatus ?? null,
+      is_override: ingredient.isOverride ?? false,
+      concentration_percent: ingredient.concentration?.percent ?? null,
+      concentration_qualifier: ingredient.concentration?.qualifier ?? null,
+      list_position: ingredient.position ?? null,
+      concentration_basis: ingredient.concentrationBasis ?? null,
+      regulatory_matches: ingredient.regulatoryMatches ?? null,
+      tags: ingredient.tags ?? [],
+      attributes: ingredient.attributes ?? null,
+      created_at: ingredient.createdAt,
     };
   }
 
@@ -547,12 +350,16 @@ export class SupabaseStorage {
       brand: row.brand,
       summary: row.summary,
       imageUrl: row.image_url,
+      category: row.category,
       status: row.status,
       overallStatus: row.overall_status,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       publishedAt: row.published_at,
       editedFromProductId: row.edited_from_product_id,
+      reviewState: row.review_state,
+      assignedTo: row.assigned_to,
+      assignedToEmail: row.assigned_to_email,
       ingredients: (row.ingredients || []).map((ing: any) => ({
         id: ing.id,
         name: ing.name,
@@ -561,10 +368,30 @@ export class SupabaseStorage {
         sourceUrl: ing.source_url,
         originalStatus: ing.original_status,
         isOverride: ing.is_override,
+        concentration: ing.concentration_percent !== null && ing.concentration_percent !== undefined
+          ? { percent: Number(ing.concentration_percent), qualifier: ing.concentration_qualifier ?? "exact" }
+          : null,
+        position: ing.list_position ?? null,
+        concentrationBasis: ing.concentration_basis ?? null,
+        regulatoryMatches: ing.regulatory_matches ?? null,
+        tags: ing.tags ?? [],
+        attributes: ing.attributes ?? null,
         createdAt: ing.created_at,
         updatedAt: ing.updated_at,
       })),
     };
   }
-}
 
+  private mapRowToRevision(row: any): ProductRevision {
+    return {
+      id: row.id,
+      productId: row.product_id,
+      revisionNumber: row.revision_number,
+      snapshot: row.snapshot,
+      publishedBy: row.published_by,
+      publishedByEmail: row.published_by_email,
+      changeNote: row.change_note,
+      publishedAt: row.published_at,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { IngredientContext } from "./types";
+import { findConcentrationThreshold, getStatusAtConcentration, rateAtConcentration } from "./concentrationThresholds";
+
+describe("findConcentrationThreshold", () => {
+  it("looks names up case-insensitively within the category", () => {
+    expect(findConcentrationThreshold(" Salicylic Acid ")?.safeMaxPercent).toBe(2);
+    expect(findConcentrationThreshold("Sodium Benzoate")).toBeNull();
+    expect(findConcentrationThreshold("Sodium Benzoate", "food")?.safeMaxPercent).toBe(0.1);
+  });
+});
+
+describe("getStatusAtConcentration", () => {
+  const salicylic = findConcentrationThreshold("salicylic acid")!;
+  const retinol = findConcentrationThreshold("retinol")!;
+
+  it("is safe up to and including the safe limit", () => {
+    expect(getStatusAtConcentration(salicylic, 2)).toBe("safe");
+    expect(getStatusAtConcentration(salicylic, 2.5)).toBe("caution");
+    expect(getStatusAtConcentration(salicylic, 3.5)).toBe("banned");
+  });
+
+  it("never bans without a caution limit", () => {
+    expect(getStatusAtConcentration(retinol, 5)).toBe("caution");
+  });
+});
+
+describe("rateAtConcentration", () => {
+  const context = (overrides: Partial<IngredientContext>): IngredientContext => ({
+    concentration: null,
+    position: null,
+    ingredientCount: null,
+    ...overrides,
+  });
+
+  it("keeps the analysis status when the label states no concentration", () => {
+    const { status, basis } = rateAtConcentration("Salicylic Acid", "caution", context({ position: 3, ingredientCount: 10 }));
+    expect(status).toBe("caution");
+    expect(basis.kind).toBe("typical");
+    expect(basis.summary).toContain("(listed 3 of 10)");
+  });
+
+  it("rates a stated concentration against the threshold", () => {
+    const { status, basis } = rateAtConcentration(
+      "Salicylic Acid",
+      "caution",
+      context({ concentration: { percent: 1, qualifier: "max" } }),
+    );
+    expect(status).toBe("safe");
+    expect(basis).toMatchObject({ kind: "threshold", analysisStatus: "caution" });
+    expect(basis.summary).toContain("Labeled at most 1%, within the 2% limit");
+  });
+
+  it("does not rate an upper bound above the limit as the amount", () => {
+    const bound = context({ concentration: { percent: 2, qualifier: "max" } });
+    const benzoate = rateAtConcentration("Sodium Benzoate", "safe", bound, "food");
+    expect(benzoate.status).toBe("safe");
+    expect(benzoate.basis.kind).toBe("typical");
+    expect(rateAtConcentration("Caffeine", "safe", bound, "food").status).toBe("safe");
+    // An exact amount above the limit still decides the status
+    const exact = context({ concentration: { percent: 2, qualifier: "exact" } });
+    expect(rateAtConcentration("Sodium Benzoate", "safe", exact, "food").status).toBe("banned");
+  });
+
+  it("keeps the analysis status for a stated concentration without a threshold", () => {
+    const { status, basis } = rateAtConcentration(
+      "Glycerin",
+      "safe",
+      context({ concentration: { percent: 5, qualifier: "exact" } }),
+    );
+    expect(status).toBe("safe");
+    expect(basis.kind).toBe("stated");
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Concentration Thresholds
+ * Ingredients whose rating depends on how much of them a product contains,
+ * with the limits that decide it, per product category. When the label states
+ * a concentration the threshold decides the status; otherwise the ingredient
+ * analysis stands and is treated as a rating at typical use levels.
+ */
+
+import { DEFAULT_PRODUCT_CATEGORY, type ProductCategory } from "./productCategories";
+import type {
+  ConcentrationBasis,
+  ConcentrationHint,
+  ConcentrationThreshold,
+  IngredientContext,
+  SafetyStatus,
+} from "./types";
+
+const SKINCARE_THRESHOLDS: ConcentrationThreshold[] = [
+  {
+    names: ["salicylic acid", "beta hydroxy acid"],
+    safeMaxPercent: 2,
+    cautionMaxPercent: 3,
+    reference: "EU Cosmetics Regulation Annex III (2% leave-on, 3% rinse-off)",
+  },
+  {
+    names: ["retinol", "retinyl palmitate", "retinyl acetate"],
+    safeMaxPercent: 0.3,
+    cautionMaxPercent: null,
+    reference: "EU Regulation 2024/996 (0.3% retinol equivalent in face products)",
+  },
+  {
+    names: ["glycolic acid", "lactic acid"],
+    safeMaxPercent: 10,
+    cautionMaxPercent: 30,
+    reference: "CIR alpha hydroxy acid assessment (10% consumer use, 30% salon use)",
+  },
+  {
+    names: ["benzoyl peroxide"],
+    safeMaxPercent: 5,
+    cautionMaxPercent: 10,
+    reference: "FDA OTC acne monograph (2.5% to 10%)",
+  },
+  {
+    names: ["niacinamide"],
+    safeMaxPercent: 5,
+    cautionMaxPercent: null,
+    reference: "CIR niacinamide assessment",
+  },
+  {
+    names: ["kojic acid"],
+    safeMaxPercent: 1,
+    cautionMaxPercent: null,
+    reference: "SCCS opinion on kojic acid (1% in face and hand products)",
+  },
+  {
+    names: ["phenoxyethanol"],
+    safeMaxPercent: 1,
+    cautionMaxPercent: 1,
+    reference: "EU Cosmetics Regulation Annex V (1% maximum)",
+  },
+  {
+    names: ["triclosan"],
+    safeMaxPercent: 0.3,
+    cautionMaxPercent: 0.3,
+    reference: "EU Cosmetics Regulation Annex V (0.3% maximum)",
+  },
+  {
+    names: ["methylisothiazolinone"],
+    safeMaxPercent: 0.0015,
+    cautionMaxPercent: 0.0015,
+    reference: "EU Cosmetics Regulation Annex V (0.0015% in rinse-off products only)",
+  },
+  {
+    names: ["benzophenone-3", "oxybenzone"],
+    safeMaxPercent: 2.2,
+    cautionMaxPercent: 6,
+    reference: "EU Regulation 2022/1176 (2.2% body products, 6% face products)",
+  },
+  {
+    names: ["homosalate"],
+    safeMaxPercent: 7.34,
+    cautionMaxPercent: 7.34,
+    reference: "EU Regulation 2022/2195 (7.34% in face products)",
+  },
+  {
+    names: ["titanium dioxide", "zinc oxide"],
+    safeMaxPercent: 25,
+    cautionMaxPercent: 25,
+    reference: "EU Cosmetics Regulation Annex VI (25% maximum as a UV filter)",
+  },
+];
+
+const FOOD_THRESHOLDS: ConcentrationThreshold[] = [
+  {
+    names: ["sodium benzoate", "benzoic acid"],
+    safeMaxPercent: 0.1,
+    cautionMaxPercent: 0.1,
+    reference: "21 CFR 184.1733 and 184.1021 (0.1% maximum as GRAS)",
+  },
+  {
+    names: ["sodium nitrite"],
+    safeMaxPercent: 0.02,
+    cautionMaxPercent: 0.02,
+    reference: "21 CFR 172.175 (200 ppm in cured meat and fish)",
+  },
+  {
+    names: ["caffeine"],
+    safeMaxPercent: 0.02,
+    cautionMaxPercent: null,
+    reference: "21 CFR 182.1180 (0.02% in cola-type beverages)",
+  },
+];
+
+const CLEANING_THRESHOLDS: ConcentrationThreshold[] = [
+  {
+    names: ["sodium hypochlorite"],
+    safeMaxPercent: 8.25,
+    cautionMaxPercent: 12.5,
+    reference: "EPA-registered household bleach (up to 8.25%; 12.5% industrial strength)",
+  },
+  {
+    names: ["sodium hydroxide", "potassium hydroxide"],
+    safeMaxPercent: 2,
+    cautionMaxPercent: 10,
+    reference: "16 CFR 1500.129 (caustic poison labeling at 10% or more)",
+  },
+  {
+    names: ["ammonium hydroxide", "ammonia"],
+    safeMaxPercent: 5,
+    cautionMaxPercent: null,
+    reference: "16 CFR 1500.129 (caustic poison labeling at 5% or more)",
+  },
+  {
+    names: ["hydrogen peroxide"],
+    safeMaxPercent: 3,
+    cautionMaxPercent: 8,
+    reference: "3% household grade; DOT oxidizer classification above 8%",
+  },
+];
+
+export const CONCENTRATION_THRESHOLDS: Record<ProductCategory, ConcentrationThreshold[]> = {
+  skincare: SKINCARE_THRESHOLDS,
+  food: FOOD_THRESHOLDS,
+  cleaning: CLEANING_THRESHOLDS,
+};
+
+export function findConcentrationThreshold(
+  ingredientName: string,
+  category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
+): ConcentrationThreshold | null {
+  const name = ingredientName.trim().toLowerCase();
+  return CONCENTRATION_THRESHOLDS[category].find((threshold) => threshold.names.includes(name)) ?? null;
+}
+
+export function getStatusAtConcentration(threshold: ConcentrationThreshold, percent: number): SafetyStatus {
+  if (percent <= threshold.safeMaxPercent) return "safe";
+  if (threshold.cautionMaxPercent === null || percent <= threshold.cautionMaxPercent) return "caution";
+  return "banned";
+}
+
+/**
+ * The status of an ingredient in one product, and the concentration it
+ * applies to. "max" concentrations ("less than 1%") within the safe limit are
+ * safe; above it the analysis stands, since the real amount may be lower.
+ */
+export function rateAtConcentration(
+  ingredientName: string,
+  analysisStatus: SafetyStatus,
+  context: IngredientContext | null | undefined,
+  category: ProductCategory = DEFAULT_PRODUCT_CATEGORY,
+): { status: SafetyStatus; basis: ConcentrationBasis } {
+  const threshold = findConcentrationThreshold(ingredientName, category);
+  const concentration = context?.concentration ?? null;
+  const positionNote = formatPosition(context);
+
+  if (!concentration) {
+    const limitNote = threshold ? ` Safe up to ${threshold.safeMaxPercent}%. Source: ${threshold.reference}.` : "";
+    return {
+      status: analysisStatus,
+      basis: {
+        kind: "typical",
+        analysisStatus,
+        threshold,
+        summary: `No concentration on the label${positionNote}; rated at typical use levels.${limitNote}`,
+      },
+    };
+  }
+
+  const amount = formatConcentration(concentration);
+  if (!threshold) {
+    return {
+      status: analysisStatus,
+      basis: {
+        kind: "stated",
+        analysisStatus,
+        threshold: null,
+        summary: `Labeled ${amount}${positionNote}; no known limit applies, so it is rated at typical use levels.`,
+      },
+    };
+  }
+
+  const status = getStatusAtConcentration(threshold, concentration.percent);
+  if (concentration.qualifier === "max" && status !== "safe") {
+    // "2% or less" bounds the amount without stating it, so only an exact
+    // concentration above the limit overrides the analysis
+    return {
+      status: analysisStatus,
+      basis: {
+        kind: "typical",
+        analysisStatus,
+        threshold,
+        summary: `Labeled ${amount}, which may be above the ${threshold.safeMaxPercent}% limit for safe use${positionNote}; rated at typical use levels. Source: ${threshold.reference}.`,
+      },
+    };
+  }
+
+  const limit =
+    status === "safe"
+      ? `within the ${threshold.safeMaxPercent}% limit for safe use`
+      : status === "caution"
+        ? `above the ${threshold.safeMaxPercent}% limit for safe use`
+        : `above the ${threshold.cautionMaxPercent}% maximum`;
+
+  return {
+    status,
+    basis: {
+      kind: "threshold",
+      analysisStatus,
+      threshold,
+      summary: `Labeled ${amount}, ${limit}. Source: ${threshold.reference}.`,
+    },
+  };
+}
+
+export function formatConcentration(concentration: ConcentrationHint): string {
+  return concentration.qualifier === "max" ? `at most ${concentration.percent}%` : `${concentration.percent}%`;
+}
+
+function formatPosition(context: IngredientContext | null | undefined): string {
+  if (!context?.position) return "";
+  return context.ingredientCount
+    ? ` (listed ${context.position} of ${context.ingredientCount})`
+    : ` (listed ${context.position})`;
+}
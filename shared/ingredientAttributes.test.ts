@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { emptyAttributes, mergeAttributes, tagsFromAttributes, withKnownAttributes } from "./ingredientAttributes";
+
+describe("mergeAttributes", () => {
+  it("takes function and origin from the first provider that gives one", () => {
+    const merged = mergeAttributes(
+      { ...emptyAttributes(), origin: "plant" },
+      { ...emptyAttributes(), function: "emollient", origin: "synthetic" },
+    );
+    expect(merged).toMatchObject({ function: "emollient", origin: "plant" });
+  });
+
+  it("keeps the most cautious allergen, comedogenic and pregnancy answer", () => {
+    const merged = mergeAttributes(
+      { ...emptyAttributes(), comedogenicRating: 1, pregnancyCaution: true },
+      { ...emptyAttributes(), comedogenicRating: 4, allergen: true },
+      emptyAttributes(),
+    );
+    expect(merged).toMatchObject({ allergen: true, comedogenicRating: 4, pregnancyCaution: true });
+  });
+
+  it("leaves the rating unknown when no provider gives one", () => {
+    expect(mergeAttributes(emptyAttributes(), emptyAttributes()).comedogenicRating).toBeNull();
+  });
+});
+
+describe("tagsFromAttributes", () => {
+  it("tags what the attributes imply", () => {
+    expect(
+      tagsFromAttributes({
+        function: "fragrance",
+        origin: "animal",
+        allergen: true,
+        comedogenicRating: 3,
+        pregnancyCaution: false,
+      }),
+    ).toEqual(["allergen", "fragrance", "comedogenic", "animal-derived"]);
+  });
+
+  it("does not tag ratings below the comedogenic threshold", () => {
+    expect(tagsFromAttributes({ ...emptyAttributes(), comedogenicRating: 2 })).toEqual([]);
+  });
+});
+
+describe("withKnownAttributes", () => {
+  it("fills in what the tags and name tell", () => {
+    expect(withKnownAttributes(emptyAttributes(), "Retinyl Palmitate", ["animal-derived", "allergen"])).toMatchObject({
+      origin: "animal",
+      allergen: true,
+      pregnancyCaution: true,
+    });
+  });
+});
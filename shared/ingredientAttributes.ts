@@ -0,0 +1,166 @@
+/**
+ * Ingredient Attributes
+ * Structured facts about an ingredient that vetting records alongside its
+ * rating: what it does in the formula, where it comes from, whether it is a
+ * known allergen, how likely it is to clog pores and whether it is advised
+ * against during pregnancy. The AI answers them; the keyword lists here and in
+ * shared/ingredientTags.ts fill in what well-known ingredients are known to be.
+ */
+
+import { wordPattern, type IngredientTag } from "./ingredientTags";
+
+export type IngredientFunction =
+  | "preservative"
+  | "surfactant"
+  | "emollient"
+  | "humectant"
+  | "emulsifier"
+  | "thickener"
+  | "solvent"
+  | "fragrance"
+  | "colorant"
+  | "antioxidant"
+  | "uv-filter"
+  | "active"
+  | "ph-adjuster"
+  | "other";
+
+export const INGREDIENT_FUNCTIONS: IngredientFunction[] = [
+  "preservative",
+  "surfactant",
+  "emollient",
+  "humectant",
+  "emulsifier",
+  "thickener",
+  "solvent",
+  "fragrance",
+  "colorant",
+  "antioxidant",
+  "uv-filter",
+  "active",
+  "ph-adjuster",
+  "other",
+];
+
+export const INGREDIENT_FUNCTION_LABELS: Record<IngredientFunction, string> = {
+  preservative: "Preservative",
+  surfactant: "Surfactant",
+  emollient: "Emollient",
+  humectant: "Humectant",
+  emulsifier: "Emulsifier",
+  thickener: "Thickener",
+  solvent: "Solvent",
+  fragrance: "Fragrance",
+  colorant: "Colorant",
+  antioxidant: "Antioxidant",
+  "uv-filter": "UV filter",
+  active: "Active ingredient",
+  "ph-adjuster": "pH adjuster",
+  other: "Other",
+};
+
+export type IngredientOrigin = "synthetic" | "plant" | "animal" | "mineral";
+
+export const INGREDIENT_ORIGINS: IngredientOrigin[] = ["synthetic", "plant", "animal", "mineral"];
+
+export const INGREDIENT_ORIGIN_LABELS: Record<IngredientOrigin, string> = {
+  synthetic: "Synthetic",
+  plant: "Plant-derived",
+  animal: "Animal-derived",
+  mineral: "Mineral",
+};
+
+export interface IngredientAttributes {
+  function: IngredientFunction | null;
+  origin: IngredientOrigin | null;
+  allergen: boolean;
+  // 0 (does not clog pores) to 5 (very likely to); null when unknown
+  comedogenicRating: number | null;
+  pregnancyCaution: boolean;
+}
+
+// A rating from which the ingredient counts as comedogenic
+export const COMEDOGENIC_THRESHOLD = 3;
+
+// Ingredients commonly advised against during pregnancy
+export const PREGNANCY_CAUTION_NAMES = [
+  "retinol",
+  "retinal",
+  "retinaldehyde",
+  "retinyl palmitate",
+  "retinyl acetate",
+  "tretinoin",
+  "adapalene",
+  "tazarotene",
+  "hydroquinone",
+  "formaldehyde",
+  "toluene",
+  "dibutyl phthalate",
+  "diethylhexyl phthalate",
+];
+
+const PREGNANCY_PATTERN = wordPattern(PREGNANCY_CAUTION_NAMES);
+
+export function emptyAttributes(): IngredientAttributes {
+  return { function: null, origin: null, allergen: false, comedogenicRating: null, pregnancyCaution: false };
+}
+
+export function isIngredientFunction(value: unknown): value is IngredientFunction {
+  return typeof value === "string" && (INGREDIENT_FUNCTIONS as string[]).includes(value);
+}
+
+export function isIngredientOrigin(value: unknown): value is IngredientOrigin {
+  return typeof value === "string" && (INGREDIENT_ORIGINS as string[]).includes(value);
+}
+
+/**
+ * Whether the pregnancy keyword list names the ingredient
+ */
+export function isKnownPregnancyCaution(ingredientName: string): boolean {
+  return PREGNANCY_PATTERN.test(ingredientName.toLowerCase());
+}
+
+/**
+ * Fill in what the ingredient's tags and name already tell, e.g. a beeswax
+ * analysis without an origin is animal-derived
+ */
+export function withKnownAttributes(
+  attributes: IngredientAttributes,
+  ingredientName: string,
+  tags: IngredientTag[],
+): IngredientAttributes {
+  return {
+    function: attributes.function ?? (tags.includes("fragrance") ? "fragrance" : null),
+    origin: attributes.origin ?? (tags.includes("animal-derived") ? "animal" : null),
+    allergen: attributes.allergen || tags.includes("allergen"),
+    comedogenicRating: attributes.comedogenicRating,
+    pregnancyCaution: attributes.pregnancyCaution || isKnownPregnancyCaution(ingredientName),
+  };
+}
+
+/**
+ * The tags the attributes imply, so tag-based checks see the AI's attributes too
+ */
+export function tagsFromAttributes(attributes: IngredientAttributes): IngredientTag[] {
+  const tags: IngredientTag[] = [];
+  if (attributes.allergen) tags.push("allergen");
+  if (attributes.function === "fragrance") tags.push("fragrance");
+  if ((attributes.comedogenicRating ?? 0) >= COMEDOGENIC_THRESHOLD) tags.push("comedogenic");
+  if (attributes.origin === "animal") tags.push("animal-derived");
+  return tags;
+}
+
+/**
+ * Combine several providers' attributes: function and origin from the first
+ * that gives one, and the most cautious allergen, comedogenic and pregnancy answer
+ */
+export function mergeAttributes(...list: IngredientAttributes[]): IngredientAttributes {
+  const ratings = list.map((attributes) => attributes.comedogenicRating).filter((rating): rating is number => rating !== null);
+  return {
+    function: list.find((attributes) => attributes.function)?.function ?? null,
+    origin: list.find((attributes) => attributes.origin)?.origin ?? null,
+    allergen: list.some((attributes) => attributes.allergen),
+    comedogenicRating: ratings.length > 0 ? Math.max(...ratings) : null,
+    pregnancyCaution: list.some((attributes) => attributes.pregnancyCaution),
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { parseIngredientList, parseIngredientName } from "./ingredientParser";
+
+const names = (text: string) => parseIngredientList(text).map((entry) => entry.name);
+
+describe("parseIngredientList", () => {
+  it("returns nothing for empty input", () => {
+    expect(parseIngredientList("")).toEqual([]);
+    expect(parseIngredientList("   \n ")).toEqual([]);
+  });
+
+  it("strips the header and numbers entries in label order", () => {
+    const entries = parseIngredientList("Ingredients: Water, Glycerin, Niacinamide.");
+    expect(entries.map((entry) => [entry.name, entry.position])).toEqual([
+      ["Water", 1],
+      ["Glycerin", 2],
+      ["Niacinamide", 3],
+    ]);
+  });
+
+  it("keeps commas inside chemical names", () => {
+    expect(names("Water, 1,2-Hexanediol, Glycerin")).toEqual(["Water", "1,2-Hexanediol", "Glycerin"]);
+  });
+
+  it("treats parenthetical and slash synonyms as aliases", () => {
+    const [water, aqua] = parseIngredientList("Water (Aqua), Aqua/Water/Eau");
+    expect(water).toMatchObject({ name: "Water", aliases: ["Aqua"] });
+    expect(aqua).toMatchObject({ name: "Aqua", aliases: ["Water", "Eau"] });
+  });
+
+  it("does not split slashed names with spaces", () => {
+    expect(names("Caprylic/Capric Triglyceride")).toEqual(["Caprylic/Capric Triglyceride"]);
+  });
+
+  it("merges duplicates into the first entry", () => {
+    const entries = parseIngredientList("Water (Aqua), Glycerin, water (Eau)");
+    expect(entries).toHaveLength(2);
+    expect(entries[0].aliases).toEqual(["Aqua", "Eau"]);
+  });
+
+  it("keeps abbreviations that end in a period in one entry", () => {
+    expect(names("Water, Vit. E, Rosemary Leaf Ext., Glycerin")).toEqual([
+      "Water",
+      "Vit. E",
+      "Rosemary Leaf Ext",
+      "Glycerin",
+    ]);
+    expect(names("Water, FD&C Yellow No. 5")).toEqual(["Water", "FD&C Yellow No. 5"]);
+  });
+
+  it("still splits on a period that ends a sentence", () => {
+    expect(names("Water. Glycerin")).toEqual(["Water", "Glycerin"]);
+  });
+
+  it("resolves footnote markers to their definitions", () => {
+    const [aloe, glycerin] = parseIngredientList("Aloe Leaf Juice*, Glycerin†\n*Organic");
+    expect(aloe).toMatchObject({ name: "Aloe Leaf Juice", footnotes: ["Organic"] });
+    // A marker without a definition is kept as is
+    expect(glycerin.footnotes).toEqual(["†"]);
+  });
+
+  it("reads several footnote definitions on one line", () => {
+    const [aloe, cocoa] = parseIngredientList("Aloe Leaf Juice*, Cocoa Butter*†\n*Organic †Certified Fair Trade");
+    expect(aloe.footnotes).toEqual(["Organic"]);
+    expect(cocoa.footnotes).toEqual(["Organic", "Certified Fair Trade"]);
+  });
+
+  it("reads percentage annotations", () => {
+    const [salicylic, retinol] = parseIngredientList("Salicylic Acid 2%, Retinol (<0.5%)");
+    expect(salicylic).toMatchObject({ name: "Salicylic Acid", concentration: { percent: 2, qualifier: "exact" } });
+    expect(retinol).toMatchObject({ name: "Retinol", concentration: { percent: 0.5, qualifier: "max" } });
+  });
+
+  it("applies a 'Contains 2% or less of' section to the rest of the list", () => {
+    const entries = parseIngredientList("Water, Sugar, Contains 2% or less of: Salt, Citric Acid");
+    expect(entries[0].concentration).toBeNull();
+    expect(entries.slice(2).map((entry) => entry.concentration)).toEqual([
+      { percent: 2, qualifier: "max" },
+      { percent: 2, qualifier: "max" },
+    ]);
+  });
+
+  it("marks may-contain colorants", () => {
+    const entries = parseIngredientList("Talc, Mica [+/- May Contain: CI 77891, CI 77491]");
+    expect(entries.map((entry) => [entry.name, entry.mayContain])).toEqual([
+      ["Talc", false],
+      ["Mica", false],
+      ["CI 77891", true],
+      ["CI 77491", true],
+    ]);
+  });
+
+  it("splits (and) blends", () => {
+    expect(names("Water, Glycerin (and) Xanthan Gum")).toEqual(["Water", "Glycerin", "Xanthan Gum"]);
+  });
+
+  it("keeps a plain 'and' or '&' in the name", () => {
+    expect(names("Potatoes, Sunflower Oil, Salt and Pepper Extract")).toEqual([
+      "Potatoes",
+      "Sunflower Oil",
+      "Salt and Pepper Extract",
+    ]);
+    expect(names("Potatoes, Salt & Vinegar Seasoning")).toEqual(["Potatoes", "Salt & Vinegar Seasoning"]);
+  });
+
+  it("keeps interior parentheticals in INCI names", () => {
+    const [shea, jojoba] = parseIngredientList(
+      "Butyrospermum Parkii (Shea) Butter, Simmondsia Chinensis (Jojoba) Seed Oil (Jojoba Oil)",
+    );
+    expect(shea).toMatchObject({ name: "Butyrospermum Parkii (Shea) Butter", aliases: [] });
+    expect(jojoba).toMatchObject({ name: "Simmondsia Chinensis (Jojoba) Seed Oil", aliases: ["Jojoba Oil"] });
+  });
+
+  it("records descriptors as qualifiers rather than aliases", () => {
+    const [zinc] = parseIngredientList("Zinc Oxide (nano)");
+    expect(zinc).toMatchObject({ name: "Zinc Oxide", aliases: [], qualifiers: ["nano"] });
+  });
+});
+
+describe("parseIngredientName", () => {
+  it("parses a single name with its synonym", () => {
+    expect(parseIngredientName("Water (Aqua)")).toMatchObject({ name: "Water", aliases: ["Aqua"] });
+  });
+
+  it("uses the synonym when the name is entirely parenthetical", () => {
+    expect(parseIngredientName("(Aqua)")?.name).toBe("Aqua");
+  });
+
+  it("returns null for an empty name", () => {
+    expect(parseIngredientName(" ; ")).toBeNull();
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * INCI Ingredient List Parser
+ * Turns a pasted label ingredient list into structured entries.
+ *
+ * Handles the conventions found on cosmetic and food labels:
+ * - Trailing parenthetical and slash synonyms: "Water (Aqua)", "Aqua/Water/Eau";
+ *   interior ones stay in the name: "Butyrospermum Parkii (Shea) Butter"
+ * - Commas inside chemical names: "1,2-Hexanediol"
+ * - "May contain (+/-):" and "[+/- ...]" colorant sections
+ * - Footnote markers ("Glycerin*") and their definitions ("*Organic"),
+ *   several to a line ("*Organic †Fair Trade")
+ * - Abbreviations that end in a period: "Vit. E", "Rosemary Leaf Ext."
+ * - Percentage annotations: "Salicylic Acid 2%", "Contains 2% or less of:"
+ * - "(and)" blend joiners; a plain "and" stays in the name: "Salt and Pepper Extract"
+ */
+
+import type { ConcentrationHint, ParsedIngredient } from "./types";
+
+interface Segment {
+  text: string;
+  mayContain: boolean;
+  maxPercent: number | null;
+}
+
+const HEADER_PATTERN =
+  /^(?:(?:active|inactive|other|full)\s+)?(?:ingredients?|inci(?:\s+list)?|composition)\s*(?:\([^)]*\))?\s*:\s*/i;
+const MAY_CONTAIN_PATTERN =
+  /^(?:\+\/-|±)?\s*may\s+contain\s*(?:\(\s*\+\/-\s*\)|\[\s*\+\/-\s*\]|\+\/-|±)?\s*:?\s*/i;
+const PLUS_MINUS_PATTERN = /^(?:\(\s*\+\/-\s*\)|\+\/-|±)\s*:?\s*/;
+const LESS_THAN_PATTERN =
+  /^contains\s+(?:less\s+than\s+)?(\d+(?:\.\d+)?)\s*%\s*(?:or\s+less\s+)?of\s*:?\s*/i;
+const FOOTNOTE_DEFINITION_PATTERN = /^(\*{1,3}|[†‡°¹²³⁴])\s*([A-Za-z].*)$/;
+// One marker and its definition, up to the next marker on the same line
+const FOOTNOTE_ENTRY_PATTERN = /(\*{1,3}|[†‡°¹²³⁴])\s*([^*†‡°¹²³⁴]+)/g;
+const FOOTNOTE_MARKER_PATTERN = /\*{1,3}|[†‡°¹²³⁴]/g;
+// Words a label abbreviates with a period that does not end the entry
+const ABBREVIATIONS = new Set(["vit", "ext", "extr", "sod", "pot", "hydr", "max", "min", "approx", "incl", "st", "no"]);
+const PERCENT_PATTERN =
+  /\(?\s*(<|≤|less\s+than|max\.?|up\s+to)?\s*(\d+(?:[.,]\d+)?)\s*%\s*\)?/i;
+const DESCRIPTORS = new Set([
+  "nano",
+  "organic",
+  "certified organic",
+  "natural",
+  "vegetable",
+  "non-gmo",
+  "vegan",
+]);
+
+/**
+ * Parse a raw ingredient list into ordered, de-duplicated entries
+ */
+export function parseIngredientList(text: string): ParsedIngredient[] {
+  if (!text || !text.trim()) {
+    return [];
+  }
+
+  const normalized = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[•·]/g, ",")
+    .replace(/\\/g, "/");
+
+  const footnoteDefinitions = new Map<string, string>();
+  const segments: Segment[] = [];
+  let mayContain = false;
+  let maxPercent: number | null = null;
+
+  for (const rawSegment of splitTopLevel(normalized)) {
+    let segment = rawSegment.trim();
+    if (!segment) continue;
+
+    if (FOOTNOTE_DEFINITION_PATTERN.test(segment)) {
+      for (const [, marker, definition] of Array.from(segment.matchAll(FOOTNOTE_ENTRY_PATTERN))) {
+        footnoteDefinitions.set(marker, definition.trim());
+      }
+      continue;
+    }
+
+    segment = segment.replace(HEADER_PATTERN, "");
+
+    const lessThan = segment.match(LESS_THAN_PATTERN);
+    if (lessThan) {
+      maxPercent = parseFloat(lessThan[1]);
+      segment = segment.slice(lessThan[0].length);
+    }
+
+    // Bracketed colorant block: "[+/- May Contain: CI 77891, CI 77491]",
+    // either on its own or trailing the last ingredient
+    const bracketed = segment.match(/^([\s\S]*?)\s*\[([^[\]]*)\]$/);
+    if (bracketed && isMayContainBlock(bracketed[2])) {
+      segment = bracketed[1];
+      const inner = stripMayContainPrefix(bracketed[2].trim());
+      const colorants = splitTopLevel(inner)
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .map((text) => ({ text, mayContain: true, maxPercent }));
+
+      if (segment.trim()) {
+        segments.push({ text: segment.trim(), mayContain, maxPercent });
+      }
+      segments.push(...colorants);
+      continue;
+    }
+
+    if (MAY_CONTAIN_PATTERN.test(segment) || PLUS_MINUS_PATTERN.test(segment)) {
+      mayContain = true;
+      segment = stripMayContainPrefix(segment);
+    }
+
+    if (segment.trim()) {
+      segments.push({ text: segment.trim(), mayContain, maxPercent });
+    }
+  }
+
+  const entries: ParsedIngredient[] = [];
+  const byName = new Map<string, ParsedIngredient>();
+
+  segments.forEach((segment) => {
+    // INCI blends are joined with "(and)"; a plain "and" or "&" is part of the
+    // name ("Salt and Pepper Extract")
+    for (const part of segment.text.split(/\s*\(and\)\s*/i)) {
+      const entry = parseEntry(part, segment, footnoteDefinitions);
+      if (!entry) continue;
+
+      const key = entry.name.toLowerCase();
+      const existing = byName.get(key);
+      if (existing) {
+        for (const alias of entry.aliases) {
+          if (!existing.aliases.some((a) => a.toLowerCase() === alias.toLowerCase())) {
+            existing.aliases.push(alias);
+          }
+        }
+        continue;
+      }
+
+      entry.position = entries.length + 1;
+      byName.set(key, entry);
+      entries.push(entry);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Parse a single ingredient name, e.g. when resolving one name typed by an editor
+ */
+export function parseIngredientName(name: string): ParsedIngredient | null {
+  return parseEntry(name, { text: name, mayContain: false, maxPercent: null }, new Map());
+}
+
+function parseEntry(
+  raw: string,
+  segment: Segment,
+  footnoteDefinitions: Map<string, string>,
+): ParsedIngredient | null {
+  let text = raw.trim().replace(/[.;:]+$/, "").trim();
+  if (!text) return null;
+
+  // Footnote markers ("Glycerin*", "Aloe Leaf Juice†")
+  const markers = text.match(FOOTNOTE_MARKER_PATTERN) ?? [];
+  text = text.replace(FOOTNOTE_MARKER_PATTERN, "").trim();
+  const footnotes = Array.from(new Set(markers)).map(
+    (marker) => footnoteDefinitions.get(marker) ?? marker,
+  );
+
+  // Percentage annotations ("2%", "(<1%)")
+  let concentration: ConcentrationHint | null = null;
+  const percent = text.match(PERCENT_PATTERN);
+  if (percent) {
+    concentration = {
+      percent: parseFloat(percent[2].replace(",", ".")),
+      qualifier: percent[1] ? "max" : "exact",
+    };
+    text = (text.slice(0, percent.index) + text.slice((percent.index ?? 0) + percent[0].length)).trim();
+  } else if (segment.maxPercent !== null) {
+    concentration = { percent: segment.maxPercent, qualifier: "max" };
+  }
+
+  // Trailing parenthetical synonyms ("Water (Aqua)") and descriptors ("(nano)").
+  // Interior ones are part of the INCI name ("Butyrospermum Parkii (Shea) Butter").
+  const aliases: string[] = [];
+  const qualifiers: string[] = [];
+  text = text.replace(/[([]\s*[)\]]/g, " ").replace(/\s+/g, " ").trim();
+  let trailing: RegExpMatchArray | null;
+  while ((trailing = text.match(/[([]([^()[\]]*)[)\]]$/))) {
+    const candidates = trailing[1].split(/[,/]/).map((value) => value.trim()).filter(Boolean);
+    qualifiers.unshift(...candidates.filter((value) => DESCRIPTORS.has(value.toLowerCase())).map((value) => value.toLowerCase()));
+    aliases.unshift(...candidates.filter((value) => !DESCRIPTORS.has(value.toLowerCase())));
+    text = text.slice(0, trailing.index).trim();
+  }
+
+  // Slash synonyms ("Aqua/Water/Eau") but not "Caprylic/Capric Triglyceride"
+  if (text.includes("/")) {
+    const parts = text.split("/").map((part) => part.trim()).filter(Boolean);
+    if (parts.length > 1 && parts.every((part) => !/\s/.test(part) && part.length > 1)) {
+      text = parts[0];
+      aliases.unshift(...parts.slice(1));
+    }
+  }
+
+  text = text.replace(/^[-–—:,\s]+|[-–—:,\s]+$/g, "");
+  if (!text || !/[A-Za-z0-9]/.test(text)) {
+    // Name was entirely parenthetical, e.g. "(Aqua)"
+    if (aliases.length === 0) return null;
+    text = aliases.shift() as string;
+  }
+
+  return {
+    name: text,
+    aliases: Array.from(new Set(aliases)),
+    position: 0,
+    concentration,
+    footnotes,
+    qualifiers,
+    mayContain: segment.mayContain,
+    raw: raw.trim(),
+  };
+}
+
+/**
+ * Split on list separators that are not nested in brackets.
+ * Commas between digits ("1,2-Hexanediol"), decimal points and the periods
+ * of abbreviations ("Vit. E") are preserved.
+ */
+function splitTopLevel(text: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const prev = text[i - 1] ?? "";
+    const next = text[i + 1] ?? "";
+
+    if (char === "(" || char === "[") depth++;
+    if ((char === ")" || char === "]") && depth > 0) depth--;
+
+    const isSeparator =
+      depth === 0 &&
+      (char === "\n" ||
+        char === ";" ||
+        (char === "," && !(/\d/.test(prev) && /\d/.test(next))) ||
+        (char === "." && (next === "" || /\s/.test(next)) && !endsWithAbbreviation(current)));
+
+    if (isSeparator) {
+      result.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  result.push(current);
+  return result;
+}
+
+function endsWithAbbreviation(text: string): boolean {
+  const word = text.match(/([A-Za-z]+)$/)?.[1];
+  return word !== undefined && ABBREVIATIONS.has(word.toLowerCase());
+}
+
+function isMayContainBlock(text: string): boolean {
+  const trimmed = text.trim();
+  return MAY_CONTAIN_PATTERN.test(trimmed) || PLUS_MINUS_PATTERN.test(trimmed);
+}
+
+function stripMayContainPrefix(text: string): string {
+  return text.replace(MAY_CONTAIN_PATTERN, "").replace(PLUS_MINUS_PATTERN, "").trim();
+}
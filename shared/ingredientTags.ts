@@ -0,0 +1,191 @@
+/**
+ * Ingredient Tags
+ * Properties of an ingredient that matter to some people regardless of its
+ * safety rating: known allergens, fragrance, pore-clogging (comedogenic) and
+ * animal-derived ingredients. Vetting asks the AI for tags and adds the ones
+ * these keyword lists know, so well-known ingredients are always tagged.
+ * Consumer sensitivity profiles (shared/sensitivities.ts) are matched
+ * against them.
+ */
+
+export type IngredientTag = "allergen" | "fragrance" | "comedogenic" | "animal-derived";
+
+export const INGREDIENT_TAGS: IngredientTag[] = ["allergen", "fragrance", "comedogenic", "animal-derived"];
+
+export const INGREDIENT_TAG_LABELS: Record<IngredientTag, string> = {
+  allergen: "Known allergen",
+  fragrance: "Fragrance",
+  comedogenic: "Comedogenic",
+  "animal-derived": "Animal-derived",
+};
+
+// Common and INCI names of tree nuts and peanuts
+export const NUT_NAMES = [
+  "almond",
+  "prunus amygdalus dulcis",
+  "peanut",
+  "arachis hypogaea",
+  "walnut",
+  "juglans regia",
+  "hazelnut",
+  "corylus avellana",
+  "macadamia",
+  "cashew",
+  "anacardium occidentale",
+  "pecan",
+  "carya illinoinensis",
+  "pistachio",
+  "pistacia vera",
+  "brazil nut",
+  "bertholletia excelsa",
+];
+
+// The fragrance allergens EU Cosmetics Regulation Annex III requires on the label
+const FRAGRANCE_ALLERGENS = [
+  "limonene",
+  "linalool",
+  "citral",
+  "geraniol",
+  "eugenol",
+  "isoeugenol",
+  "coumarin",
+  "citronellol",
+  "cinnamal",
+  "cinnamyl alcohol",
+  "hydroxycitronellal",
+  "amyl cinnamal",
+  "amylcinnamyl alcohol",
+  "benzyl salicylate",
+  "benzyl benzoate",
+  "benzyl cinnamate",
+  "farnesol",
+  "hexyl cinnamal",
+  "butylphenyl methylpropional",
+  "alpha-isomethyl ionone",
+  "anise alcohol",
+  "methyl 2-octynoate",
+  "evernia prunastri",
+  "evernia furfuracea",
+];
+
+const KNOWN_TAGS: Record<IngredientTag, string[]> = {
+  allergen: [
+    ...FRAGRANCE_ALLERGENS,
+    ...NUT_NAMES,
+    "methylisothiazolinone",
+    "methylchloroisothiazolinone",
+    "p-phenylenediamine",
+    "formaldehyde",
+    "quaternium-15",
+    "dmdm hydantoin",
+    "cocamidopropyl betaine",
+    "lanolin",
+    "propolis",
+    "myroxylon pereirae",
+    "balsam of peru",
+    // Food allergens
+    "milk",
+    "casein",
+    "whey",
+    "egg",
+    "soy",
+    "soybean",
+    "glycine soja",
+    "wheat",
+    "triticum vulgare",
+    "sesame",
+    "sesamum indicum",
+    "fish",
+    "shellfish",
+  ],
+  fragrance: [...FRAGRANCE_ALLERGENS, "fragrance", "parfum", "perfume", "essential oil"],
+  comedogenic: [
+    "isopropyl myristate",
+    "isopropyl palmitate",
+    "isopropyl isostearate",
+    "myristyl myristate",
+    "myristyl lactate",
+    "laureth-4",
+    "oleth-3",
+    "acetylated lanolin",
+    "cocoa butter",
+    "theobroma cacao seed butter",
+    "coconut oil",
+    "cocos nucifera oil",
+    "wheat germ oil",
+    "triticum vulgare germ oil",
+    "flaxseed oil",
+    "linum usitatissimum seed oil",
+    "algae extract",
+    "carrageenan",
+    "decyl oleate",
+    "ethylhexyl palmitate",
+    "isocetyl stearate",
+    "sodium lauryl sulfate",
+  ],
+  "animal-derived": [
+    "lanolin",
+    "beeswax",
+    "cera alba",
+    "honey",
+    "mel",
+    "propolis",
+    "royal jelly",
+    "carmine",
+    "ci 75470",
+    "cochineal",
+    "collagen",
+    "elastin",
+    "keratin",
+    "silk",
+    "sericin",
+    "milk",
+    "lactose",
+    "casein",
+    "whey",
+    "gelatin",
+    "tallow",
+    "sodium tallowate",
+    "squalene",
+    "shellac",
+    "guanine",
+    "snail secretion filtrate",
+    "egg",
+    "fish oil",
+    "chitosan",
+    "emu oil",
+    "mink oil",
+  ],
+};
+
+const KNOWN_TAG_PATTERNS = INGREDIENT_TAGS.map((tag) => ({ tag, pattern: wordPattern(KNOWN_TAGS[tag]) }));
+
+export function isIngredientTag(value: unknown): value is IngredientTag {
+  return typeof value === "string" && (INGREDIENT_TAGS as string[]).includes(value);
+}
+
+/**
+ * The tags the keyword lists give an ingredient, e.g. "Sweet Almond Oil" is
+ * an allergen and "Parfum (Fragrance)" is fragrance
+ */
+export function findKnownTags(ingredientName: string): IngredientTag[] {
+  const name = ingredientName.toLowerCase();
+  return KNOWN_TAG_PATTERNS.filter(({ pattern }) => pattern.test(name)).map(({ tag }) => tag);
+}
+
+/**
+ * Every tag in any of the lists, once each, in INGREDIENT_TAGS order
+ */
+export function mergeTags(...lists: (IngredientTag[] | null | undefined)[]): IngredientTag[] {
+  const tags = new Set(lists.flatMap((list) => list ?? []));
+  return INGREDIENT_TAGS.filter((tag) => tags.has(tag));
+}
+
+/**
+ * Matches lowercase text containing any of the names as whole words, so
+ * "mel" does not match "caramel"
+ */
+export function wordPattern(names: string[]): RegExp {
+  const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(^|[^a-z0-9])(${escaped.join("|")})($|[^a-z0-9])`);
+}
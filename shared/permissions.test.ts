@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { getPermissions, getRolesWith, getScopePermissions, hasPermission } from "./permissions";
+
+describe("permissions", () => {
+  it("gives each role the permissions of the roles below it", () => {
+    expect(getPermissions("viewer")).toEqual(["dashboard:view"]);
+    expect(getPermissions("editor")).toEqual(expect.arrayContaining(getPermissions("viewer")));
+    expect(getPermissions("reviewer")).toEqual(expect.arrayContaining(getPermissions("editor")));
+    expect(getPermissions("admin")).toEqual(expect.arrayContaining(getPermissions("reviewer")));
+  });
+
+  it("gives signed-up accounts and unknown roles nothing", () => {
+    expect(getPermissions("user")).toEqual([]);
+    expect(getPermissions("superuser")).toEqual([]);
+    expect(getPermissions(null)).toEqual([]);
+  });
+
+  it("keeps publishing and user management away from editors", () => {
+    expect(hasPermission("editor", "drafts:edit")).toBe(true);
+    expect(hasPermission("editor", "products:publish")).toBe(false);
+    expect(hasPermission("reviewer", "users:manage")).toBe(false);
+    expect(getRolesWith("users:manage")).toEqual(["admin"]);
+  });
+
+  it("maps API key scopes to permissions without duplicates", () => {
+    expect(getScopePermissions(["read:drafts"])).toEqual(["dashboard:view"]);
+    expect(getScopePermissions(["write:products", "write:products"])).toEqual(["drafts:edit", "products:publish"]);
+    expect(getScopePermissions([])).toEqual([]);
+  });
+});
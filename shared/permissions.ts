@@ -0,0 +1,85 @@
+/**
+ * Roles and Permissions
+ * What each user_profiles.role may do. The server checks these with
+ * requirePermission and the client uses the same matrix to hide what the
+ * signed-in user cannot do.
+ */
+
+export type Role = "admin" | "reviewer" | "editor" | "viewer" | "user";
+
+export const ROLES: Role[] = ["admin", "reviewer", "editor", "viewer", "user"];
+
+export type Permission =
+  // See drafts, revision history, queues and stored analyses
+  | "dashboard:view"
+  // Create and edit drafts, move them through review and assign them
+  | "drafts:edit"
+  | "vetting:run"
+  // Approve a draft or request changes
+  | "drafts:review"
+  // Publish, merge drafts, edit published products and close impact reviews
+  | "products:publish"
+  // Aliases, merges and re-analysis of stored ingredient analyses
+  | "analyses:manage"
+  | "products:delete"
+  | "users:manage"
+  // Read the audit log (actors' emails and IP addresses)
+  | "audit:view";
+
+// GET /api/me
+export interface CurrentUser {
+  id: string;
+  email: string | null;
+  // "api_key" when authenticated with a scoped API key
+  role: Role | "api_key";
+  permissions: Permission[];
+}
+
+const VIEWER: Permission[] = ["dashboard:view"];
+const EDITOR: Permission[] = [...VIEWER, "drafts:edit", "vetting:run"];
+const REVIEWER: Permission[] = [...EDITOR, "drafts:review", "products:publish", "analyses:manage"];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [...REVIEWER, "products:delete", "users:manage", "audit:view"],
+  reviewer: REVIEWER,
+  editor: EDITOR,
+  viewer: VIEWER,
+  // Signed-up accounts have no access until an admin gives them a role
+  user: [],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+export function getPermissions(role: string | null | undefined): Permission[] {
+  return isRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
+
+// Scopes of an API key; each grants the permissions it maps to
+export type ApiKeyScope = "read:drafts" | "write:products" | "vet";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["read:drafts", "write:products", "vet"];
+
+export const SCOPE_PERMISSIONS: Record<ApiKeyScope, Permission[]> = {
+  "read:drafts": ["dashboard:view"],
+  "write:products": ["drafts:edit", "products:publish"],
+  vet: ["vetting:run"],
+};
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === "string" && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+export function getScopePermissions(scopes: ApiKeyScope[]): Permission[] {
+  return Array.from(new Set(scopes.flatMap((scope) => SCOPE_PERMISSIONS[scope])));
+}
+
+// Roles that hold the permission, e.g. for listing who drafts can be assigned to
+export function getRolesWith(permission: Permission): Role[] {
+  return ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
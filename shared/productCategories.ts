@@ -0,0 +1,24 @@
+/**
+ * Product Categories
+ * What kind of product is being vetted. The category selects the vetting
+ * profile on the server (server/services/vettingProfiles.ts): the prompt,
+ * the reference data consulted before the AI and the concentration
+ * thresholds that apply.
+ */
+
+export type ProductCategory = "skincare" | "food" | "cleaning";
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = ["skincare", "food", "cleaning"];
+
+// Products created before categories existed are skincare
+export const DEFAULT_PRODUCT_CATEGORY: ProductCategory = "skincare";
+
+export const PRODUCT_CATEGORY_LABELS: Record<ProductCategory, string> = {
+  skincare: "Skincare",
+  food: "Food",
+  cleaning: "Cleaning supplies",
+};
+
+export function isProductCategory(value: unknown): value is ProductCategory {
+  return typeof value === "string" && (PRODUCT_CATEGORIES as string[]).includes(value);
+}
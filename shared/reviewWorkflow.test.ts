@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { Product } from "./types";
+import { canTransition, changesReviewedContent, getReviewState } from "./reviewWorkflow";
+
+const draft: Product = {
+  id: "draft",
+  name: "Daily Moisturizer",
+  brand: "Acme",
+  summary: "",
+  imageUrl: "",
+  status: "draft",
+  overallStatus: "safe",
+  reviewState: "approved",
+  createdAt: "",
+  updatedAt: "",
+  ingredients: [
+    { id: "1", name: "Water", status: "safe", rationale: "Solvent", sourceUrl: "", createdAt: "", updatedAt: "" },
+  ],
+};
+
+describe("review workflow", () => {
+  it("treats drafts without a state as needing research", () => {
+    expect(getReviewState({})).toBe("needs_research");
+  });
+
+  it("only allows the listed transitions", () => {
+    expect(canTransition("needs_research", "in_review")).toBe(true);
+    expect(canTransition("needs_research", "approved")).toBe(false);
+    expect(canTransition("approved", "in_review")).toBe(true);
+  });
+});
+
+describe("changesReviewedContent", () => {
+  it("ignores fields left out or resent unchanged", () => {
+    expect(changesReviewedContent(draft, {})).toBe(false);
+    expect(changesReviewedContent(draft, { name: "Daily Moisturizer", ingredients: draft.ingredients })).toBe(false);
+  });
+
+  it("detects changed fields and ingredients", () => {
+    expect(changesReviewedContent(draft, { summary: "Now with SPF" })).toBe(true);
+    expect(changesReviewedContent(draft, {
+      ingredients: [{ name: "Water", status: "caution", rationale: "Solvent", sourceUrl: "" }],
+    })).toBe(true);
+  });
+});
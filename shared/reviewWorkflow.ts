@@ -0,0 +1,66 @@
+/**
+ * Review Workflow
+ * The editorial states a draft moves through before it is published, and
+ * which moves between them are allowed. Shared so the dashboard only offers
+ * the transitions the server accepts.
+ */
+
+import type { Ingredient, Product, ReviewState } from "./types";
+
+export const REVIEW_STATES: ReviewState[] = ["needs_research", "in_review", "changes_requested", "approved"];
+
+export const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  needs_research: "Needs research",
+  in_review: "In review",
+  changes_requested: "Changes requested",
+  approved: "Approved",
+};
+
+// Moving a draft into these states needs the drafts:review permission
+export const REVIEWER_STATES: ReviewState[] = ["changes_requested", "approved"];
+
+const TRANSITIONS: Record<ReviewState, ReviewState[]> = {
+  needs_research: ["in_review"],
+  in_review: ["changes_requested", "approved", "needs_research"],
+  changes_requested: ["in_review", "needs_research"],
+  // Reopening an approved draft sends it back to review
+  approved: ["in_review", "changes_requested"],
+};
+
+export function isReviewState(value: unknown): value is ReviewState {
+  return typeof value === "string" && (REVIEW_STATES as string[]).includes(value);
+}
+
+// Drafts stored before the workflow existed have no state yet
+export function getReviewState(product: Pick<Product, "reviewState">): ReviewState {
+  return product.reviewState ?? "needs_research";
+}
+
+export function getNextReviewStates(state: ReviewState): ReviewState[] {
+  return TRANSITIONS[state];
+}
+
+export function canTransition(from: ReviewState, to: ReviewState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// The content a reviewer approves; changing any of it reopens the review
+export type ReviewedContent = Partial<Pick<Product, "name" | "brand" | "summary" | "imageUrl" | "category" | "overallStatus">> & {
+  ingredients?: Pick<Ingredient, "name" | "status" | "rationale" | "sourceUrl">[];
+};
+
+const CONTENT_FIELDS = ["name", "brand", "summary", "imageUrl", "category", "overallStatus"] as const;
+
+const ingredientContent = (ingredients: NonNullable<ReviewedContent["ingredients"]>) =>
+  JSON.stringify(ingredients.map(({ name, status, rationale, sourceUrl }) => [name, status, rationale, sourceUrl]));
+
+/**
+ * Whether an update changes what was reviewed. Fields left out of the update
+ * count as unchanged.
+ */
+export function changesReviewedContent(product: Product, changes: ReviewedContent): boolean {
+  if (CONTENT_FIELDS.some((field) => changes[field] !== undefined && changes[field] !== product[field])) {
+    return true;
+  }
+  return changes.ingredients !== undefined && ingredientContent(changes.ingredients) !== ingredientContent(product.ingredients);
+}
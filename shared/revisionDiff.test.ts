@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { ProductRevision, ProductRevisionIngredient, ProductRevisionSnapshot } from "./types";
+import { buildChangelog, diffRevisions } from "./revisionDiff";
+
+const water: ProductRevisionIngredient = { name: "Water", status: "safe", rationale: "Solvent", sourceUrl: "" };
+const retinol: ProductRevisionIngredient = {
+  name: "Retinol",
+  status: "caution",
+  rationale: "Irritating at high levels",
+  sourceUrl: "",
+  concentration: { percent: 0.5, qualifier: "exact" },
+};
+
+const snapshot: ProductRevisionSnapshot = {
+  name: "Night Serum",
+  brand: "Acme",
+  summary: "",
+  imageUrl: "",
+  category: "skincare",
+  overallStatus: "caution",
+  ingredients: [retinol, water],
+};
+
+const revision = (revisionNumber: number, changes: Partial<ProductRevisionSnapshot> = {}): ProductRevision => ({
+  id: String(revisionNumber),
+  productId: "product",
+  revisionNumber,
+  snapshot: { ...snapshot, ...changes },
+  publishedAt: `2026-01-0${revisionNumber}T00:00:00.000Z`,
+});
+
+describe("diffRevisions", () => {
+  it("lists every ingredient as added for the first revision", () => {
+    const diff = diffRevisions(null, revision(1));
+    expect(diff.fromRevision).toBeNull();
+    expect(diff.fields).toEqual([]);
+    expect(diff.addedIngredients.map((ingredient) => ingredient.name)).toEqual(["Retinol", "Water"]);
+  });
+
+  it("reports changed fields, including the category", () => {
+    const diff = diffRevisions(revision(1), revision(2, { summary: "Reformulated", category: "cleaning" }));
+    expect(diff.fields).toEqual([
+      { field: "summary", before: "", after: "Reformulated" },
+      { field: "category", before: "skincare", after: "cleaning" },
+    ]);
+  });
+
+  it("treats a revision without a category as skincare", () => {
+    expect(diffRevisions(revision(1, { category: undefined }), revision(2)).fields).toEqual([]);
+  });
+
+  it("matches ingredients by name regardless of case", () => {
+    const diff = diffRevisions(revision(1), revision(2, {
+      ingredients: [retinol, { ...water, name: "water" }, { ...water, name: "Glycerin" }],
+    }));
+    expect(diff.addedIngredients.map((ingredient) => ingredient.name)).toEqual(["Glycerin"]);
+    expect(diff.removedIngredients).toEqual([]);
+    expect(diff.changedIngredients).toEqual([]);
+  });
+
+  it("reports re-rated ingredients and concentration changes", () => {
+    const diff = diffRevisions(revision(1), revision(2, {
+      ingredients: [{ ...retinol, status: "banned", concentration: { percent: 1, qualifier: "exact" } }, water],
+    }));
+    expect(diff.changedIngredients).toHaveLength(1);
+    expect(diff.changedIngredients[0].fields).toEqual(["status", "concentration"]);
+  });
+
+  it("does not compare concentrations a revision did not record", () => {
+    const { concentration: _, ...unrecorded } = retinol;
+    const diff = diffRevisions(revision(1, { ingredients: [unrecorded, water] }), revision(2));
+    expect(diff.changedIngredients).toEqual([]);
+  });
+});
+
+describe("buildChangelog", () => {
+  it("lists status changes newest first and skips wording-only revisions", () => {
+    const changelog = buildChangelog([
+      revision(1),
+      revision(2, { summary: "Typo fixed" }),
+      revision(3, { overallStatus: "banned", ingredients: [{ ...retinol, status: "banned" }, water] }),
+    ]);
+
+    expect(changelog.map((entry) => entry.revisionNumber)).toEqual([3, 1]);
+    expect(changelog[0].overallStatus).toEqual({ before: "caution", after: "banned" });
+    expect(changelog[0].ingredients).toEqual([{ name: "Retinol", before: "caution", after: "banned" }]);
+    expect(changelog[1].ingredients).toEqual([]);
+  });
+});
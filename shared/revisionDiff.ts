@@ -0,0 +1,122 @@
+/**
+ * Product Revision Diff
+ * Compares two published versions of a product: changed product fields, and
+ * ingredients added, removed or re-rated (matched by name, case-insensitive),
+ * and builds the public changelog from a product's revisions.
+ */
+
+import { DEFAULT_PRODUCT_CATEGORY } from "./productCategories";
+import type {
+  ProductChangelogEntry,
+  ProductRevision,
+  ProductRevisionDiff,
+  ProductRevisionIngredient,
+  ProductRevisionSnapshot,
+  RevisionField,
+  RevisionIngredientChange,
+} from "./types";
+
+const REVISION_FIELDS: RevisionField[] = ["name", "brand", "summary", "imageUrl", "category", "overallStatus"];
+const INGREDIENT_FIELDS: RevisionIngredientChange["fields"] = ["status", "rationale", "sourceUrl", "concentration"];
+
+const ingredientKey = (ingredient: ProductRevisionIngredient) => ingredient.name.toLowerCase().trim();
+
+// Revisions recorded before categories were snapshotted are skincare
+const fieldValue = (snapshot: ProductRevisionSnapshot, field: RevisionField): string =>
+  field === "category" ? snapshot.category ?? DEFAULT_PRODUCT_CATEGORY : snapshot[field];
+
+function ingredientFieldChanged(
+  before: ProductRevisionIngredient,
+  after: ProductRevisionIngredient,
+  field: RevisionIngredientChange["fields"][number],
+): boolean {
+  if (field !== "concentration") {
+    return before[field] !== after[field];
+  }
+  // Older revisions did not record concentrations, so there is nothing to compare
+  if (before.concentration === undefined || after.concentration === undefined) {
+    return false;
+  }
+  return before.concentration?.percent !== after.concentration?.percent
+    || before.concentration?.qualifier !== after.concentration?.qualifier;
+}
+
+/**
+ * Diff `to` against `from`; with no `from`, every ingredient counts as added
+ */
+export function diffRevisions(from: ProductRevision | null, to: ProductRevision): ProductRevisionDiff {
+  const before = from?.snapshot;
+  const after = to.snapshot;
+
+  const fields = before
+    ? REVISION_FIELDS
+        .filter((field) => fieldValue(before, field) !== fieldValue(after, field))
+        .map((field) => ({ field, before: fieldValue(before, field), after: fieldValue(after, field) }))
+    : [];
+
+  const previous = new Map((before?.ingredients ?? []).map((ingredient) => [ingredientKey(ingredient), ingredient]));
+  const current = new Map(after.ingredients.map((ingredient) => [ingredientKey(ingredient), ingredient]));
+
+  const addedIngredients = after.ingredients.filter((ingredient) => !previous.has(ingredientKey(ingredient)));
+  const removedIngredients = (before?.ingredients ?? []).filter((ingredient) => !current.has(ingredientKey(ingredient)));
+
+  const changedIngredients: RevisionIngredientChange[] = [];
+  after.ingredients.forEach((ingredient) => {
+    const old = previous.get(ingredientKey(ingredient));
+    if (!old) return;
+
+    const changed = INGREDIENT_FIELDS.filter((field) => ingredientFieldChanged(old, ingredient, field));
+    if (changed.length > 0) {
+      changedIngredients.push({ name: ingredient.name, before: old, after: ingredient, fields: changed });
+    }
+  });
+
+  return {
+    fromRevision: from?.revisionNumber ?? null,
+    toRevision: to.revisionNumber,
+    fields,
+    addedIngredients,
+    removedIngredients,
+    changedIngredients,
+  };
+}
+
+/**
+ * Status changes across a product's revisions, newest first. Leaves out
+ * publisher details and revisions that only changed wording.
+ */
+export function buildChangelog(revisions: ProductRevision[]): ProductChangelogEntry[] {
+  const ordered = [...revisions].sort((a, b) => a.revisionNumber - b.revisionNumber);
+  const entries: ProductChangelogEntry[] = [];
+
+  ordered.forEach((revision, index) => {
+    const previous = index > 0 ? ordered[index - 1] : null;
+    const diff = diffRevisions(previous, revision);
+
+    const overallChanged = !previous || previous.snapshot.overallStatus !== revision.snapshot.overallStatus;
+    const ingredients = [
+      ...diff.changedIngredients
+        .filter((change) => change.fields.includes("status"))
+        .map((change) => ({ name: change.name, before: change.before.status, after: change.after.status })),
+      // The first revision's ingredients are all "added"; its overall verdict says enough
+      ...(previous ? diff.addedIngredients.map((ingredient) => ({ name: ingredient.name, before: null, after: ingredient.status })) : []),
+      ...diff.removedIngredients.map((ingredient) => ({ name: ingredient.name, before: ingredient.status, after: null })),
+    ];
+
+    if (!overallChanged && ingredients.length === 0) {
+      return;
+    }
+
+    entries.push({
+      revisionNumber: revision.revisionNumber,
+      publishedAt: revision.publishedAt,
+      changeNote: revision.changeNote ?? null,
+      overallStatus: overallChanged
+        ? { before: previous?.snapshot.overallStatus ?? null, after: revision.snapshot.overallStatus }
+        : null,
+      ingredients,
+    });
+  });
+
+  return entries.reverse();
+}
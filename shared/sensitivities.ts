@@ -0,0 +1,81 @@
+/**
+ * Sensitivity Profiles
+ * What a signed-in consumer wants to avoid. ProductDetail checks each
+ * ingredient against the profile using its tags (shared/ingredientTags.ts),
+ * attributes (shared/ingredientAttributes.ts), name and regulatory matches,
+ * and highlights the conflicts.
+ */
+
+import { isKnownPregnancyCaution, type IngredientAttributes } from "./ingredientAttributes";
+import { NUT_NAMES, wordPattern, type IngredientTag } from "./ingredientTags";
+import type { RegulatoryMatch } from "./types";
+
+export type Sensitivity = "pregnancy" | "fragrance-sensitivity" | "nut-allergy" | "acne-prone" | "vegan";
+
+export const SENSITIVITIES: Sensitivity[] = ["pregnancy", "fragrance-sensitivity", "nut-allergy", "acne-prone", "vegan"];
+
+export const SENSITIVITY_LABELS: Record<Sensitivity, string> = {
+  pregnancy: "Pregnant or breastfeeding",
+  "fragrance-sensitivity": "Fragrance sensitivity",
+  "nut-allergy": "Nut allergy",
+  "acne-prone": "Acne-prone skin",
+  vegan: "Vegan",
+};
+
+// GET and PUT /api/me/sensitivities
+export interface SensitivityProfile {
+  sensitivities: Sensitivity[];
+  // null until the profile is first saved
+  updatedAt: string | null;
+}
+
+export interface SensitivityConflict {
+  sensitivity: Sensitivity;
+  reason: string;
+}
+
+// The ingredient fields conflicts are decided from
+export interface SensitivityCheckedIngredient {
+  name: string;
+  tags?: IngredientTag[] | null;
+  attributes?: IngredientAttributes | null;
+  regulatoryMatches?: RegulatoryMatch[] | null;
+}
+
+const NUT_PATTERN = wordPattern(NUT_NAMES);
+
+export function isSensitivity(value: unknown): value is Sensitivity {
+  return typeof value === "string" && (SENSITIVITIES as string[]).includes(value);
+}
+
+/**
+ * The profile's sensitivities the ingredient conflicts with, and why
+ */
+export function findSensitivityConflicts(
+  ingredient: SensitivityCheckedIngredient,
+  sensitivities: Sensitivity[],
+): SensitivityConflict[] {
+  const name = ingredient.name.toLowerCase();
+  const tags = ingredient.tags ?? [];
+
+  return sensitivities.flatMap((sensitivity): SensitivityConflict[] => {
+    switch (sensitivity) {
+      case "pregnancy": {
+        if (ingredient.attributes?.pregnancyCaution || isKnownPregnancyCaution(name)) {
+          return [{ sensitivity, reason: "Commonly advised against during pregnancy" }];
+        }
+        // Prop 65 lists reproductive and developmental toxicants
+        const developmental = ingredient.regulatoryMatches?.find((match) => /developmental|reproductive/i.test(match.reference));
+        return developmental ? [{ sensitivity, reason: `Listed as a reproductive toxicant (${developmental.listName})` }] : [];
+      }
+      case "fragrance-sensitivity":
+        return tags.includes("fragrance") ? [{ sensitivity, reason: "Fragrance ingredient" }] : [];
+      case "nut-allergy":
+        return NUT_PATTERN.test(name) ? [{ sensitivity, reason: "Derived from tree nuts or peanuts" }] : [];
+      case "acne-prone":
+        return tags.includes("comedogenic") ? [{ sensitivity, reason: "Can clog pores" }] : [];
+      case "vegan":
+        return tags.includes("animal-derived") ? [{ sensitivity, reason: "Animal-derived" }] : [];
+    }
+  });
+}
@@ -1,7 +1,15 @@
+import type { ApiKeyScope, Role } from "./permissions";
+import type { ProductCategory } from "./productCategories";
+import type { IngredientAttributes } from "./ingredientAttributes";
+import type { IngredientTag } from "./ingredientTags";
+
 export type SafetyStatus = "safe" | "caution" | "banned";
 
 export type ProductStatus = "draft" | "published";
 
+// Editorial workflow of a draft before it is published
+export type ReviewState = "needs_research" | "in_review" | "changes_requested" | "approved";
+
 export interface Ingredient {
   id: string;
   name: string;
@@ -10,6 +18,13 @@ export interface Ingredient {
   sourceUrl: string;
   originalStatus?: SafetyStatus;
   isOverride?: boolean;
+  needsReview?: boolean; // AI providers disagreed or failed; an editor must confirm the status
+  concentration?: ConcentrationHint | null; // As stated on the label, e.g. "Salicylic Acid 2%"
+  position?: number | null; // 1-based position in the label's ingredient list
+  concentrationBasis?: ConcentrationBasis | null; // The concentration the status applies to
+  regulatoryMatches?: RegulatoryMatch[] | null; // Regulatory lists the ingredient is on
+  tags?: IngredientTag[] | null; // Allergen, fragrance, comedogenic, animal-derived
+  attributes?: IngredientAttributes | null; // Function, origin, allergen, comedogenic rating, pregnancy caution
   createdAt: string;
   updatedAt: string;
 }
@@ -20,17 +35,91 @@ export interface Product {
   brand: string;
   summary: string;
   imageUrl: string;
+  // Picks the vetting profile; missing on products stored before categories (skincare)
+  category?: ProductCategory;
   status: ProductStatus;
   overallStatus: SafetyStatus;
   createdAt: string;
   updatedAt: string;
   publishedAt?: string | null;
   editedFromProductId?: string | null;
+  // Only meaningful while the product is a draft
+  reviewState?: ReviewState;
+  assignedTo?: string | null;
+  assignedToEmail?: string | null;
   ingredients: Ingredient[];
 }
 
+export interface ConcentrationHint {
+  percent: number;
+  qualifier: "exact" | "max";
+}
+
+// Where an ingredient sits in one product, passed to the AI prompt and the rating
+export interface IngredientContext {
+  concentration: ConcentrationHint | null;
+  // 1-based; above 1% ingredients are listed in descending order of concentration
+  position: number | null;
+  ingredientCount: number | null;
+}
+
+// Known concentration limits for an ingredient (shared/concentrationThresholds.ts)
+export interface ConcentrationThreshold {
+  names: string[];
+  // At or below: safe
+  safeMaxPercent: number;
+  // At or below: caution, above: banned; null when no concentration makes it banned
+  cautionMaxPercent: number | null;
+  reference: string;
+}
+
+// Why an ingredient has its status at this concentration
+export interface ConcentrationBasis {
+  // threshold: a known limit decided the status at the label concentration;
+  // stated: the label states a concentration without a known limit, rated at
+  // typical use levels;
+  // typical: no concentration on the label, or only an upper bound above the
+  // limit, rated at typical use levels
+  kind: "threshold" | "stated" | "typical";
+  // Status of the ingredient analysis before any threshold was applied
+  analysisStatus: SafetyStatus;
+  threshold: ConcentrationThreshold | null;
+  summary: string;
+}
+
+// What being on a regulatory list does to an ingredient's status
+// ban: always banned; warn: at least caution; note: cited without changing the status
+export type RegulatoryEffect = "ban" | "warn" | "note";
+
+// An ingredient found on a regulatory list (see server/services/regulatoryLists.ts)
+export interface RegulatoryMatch {
+  listId: string;
+  listName: string;
+  listVersion: string;
+  effect: RegulatoryEffect;
+  // The entry's citation, e.g. "21 CFR 700.18"
+  reference: string;
+  // Restrictions that apply, e.g. maximum concentrations
+  conditions: string | null;
+  matchedBy: "name" | "alias" | "cas";
+  matchedValue: string;
+}
+
+export interface ParsedIngredient {
+  name: string;
+  aliases: string[];
+  position: number;
+  concentration: ConcentrationHint | null;
+  footnotes: string[];
+  qualifiers: string[];
+  mayContain: boolean;
+  raw: string;
+}
+
 export interface VetIngredientsRequest {
   ingredientsText: string;
+  // Defaults to skincare
+  category?: ProductCategory;
 }
 
 export interface VetIngredientResult {
@@ -39,3 +128,223 @@ export interface VetIngredientResult {
   ingredients: Ingredient[];
 }
 
+
+// Events sent by POST /api/vet-ingredients/stream (Server-Sent Events)
+export interface VetStreamIngredientEvent {
+  index: number;
+  ingredient: Ingredient & { ewgScore?: number | null; confidence?: number };
+}
+
+export interface VetStreamErrorEvent {
+  index: number;
+  name: string;
+  error: string;
+}
+
+export interface VetStreamSummaryEvent {
+  overallStatus: SafetyStatus;
+  summary: string;
+  total: number;
+  failed: number;
+}
+
+export interface VetStreamEventMap {
+  ingredient: VetStreamIngredientEvent;
+  "ingredient-error": VetStreamErrorEvent;
+  summary: VetStreamSummaryEvent;
+  error: { error: string; details?: string };
+}
+
+export type VetJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface VetJobItem {
+  name: string;
+  concentration?: ConcentrationHint | null;
+  position?: number | null;
+  status: "pending" | "completed" | "failed";
+  result?: Ingredient;
+  // Why the ingredient could not be analyzed; the rest of the job still runs
+  error?: string;
+}
+
+export interface VetJob {
+  id: string;
+  status: VetJobStatus;
+  total: number;
+  // Items analyzed; failed items are not counted
+  completed: number;
+  category?: ProductCategory;
+  // req.user.id of whoever started the job; only they can poll it
+  createdBy?: string | null;
+  items: VetJobItem[];
+  result?: VetIngredientResult | null;
+  error?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string | null;
+}
+
+// A published version of a product, as stored in product_revisions
+export interface ProductRevisionIngredient {
+  name: string;
+  status: SafetyStatus;
+  rationale: string;
+  sourceUrl: string;
+  originalStatus?: SafetyStatus | null;
+  isOverride?: boolean;
+  // Missing on revisions recorded before they were snapshotted
+  concentration?: ConcentrationHint | null;
+  position?: number | null;
+  concentrationBasis?: ConcentrationBasis | null;
+  regulatoryMatches?: RegulatoryMatch[] | null;
+  tags?: IngredientTag[];
+  attributes?: IngredientAttributes | null;
+}
+
+export interface ProductRevisionSnapshot {
+  name: string;
+  brand: string;
+  summary: string;
+  imageUrl: string;
+  // Missing on revisions recorded before categories were snapshotted (skincare)
+  category?: ProductCategory;
+  overallStatus: SafetyStatus;
+  ingredients: ProductRevisionIngredient[];
+}
+
+export interface ProductRevision {
+  id: string;
+  productId: string;
+  revisionNumber: number;
+  snapshot: ProductRevisionSnapshot;
+  publishedBy?: string | null;
+  publishedByEmail?: string | null;
+  changeNote?: string | null;
+  publishedAt: string;
+}
+
+export type RevisionField = "name" | "brand" | "summary" | "imageUrl" | "category" | "overallStatus";
+
+export interface RevisionFieldChange {
+  field: RevisionField;
+  before: string;
+  after: string;
+}
+
+export interface RevisionIngredientChange {
+  name: string;
+  before: ProductRevisionIngredient;
+  after: ProductRevisionIngredient;
+  fields: ("status" | "rationale" | "sourceUrl" | "concentration")[];
+}
+
+export interface ProductRevisionDiff {
+  // null when `to` is the first revision
+  fromRevision: number | null;
+  toRevision: number;
+  fields: RevisionFieldChange[];
+  addedIngredients: ProductRevisionIngredient[];
+  removedIngredients: ProductRevisionIngredient[];
+  changedIngredients: RevisionIngredientChange[];
+}
+
+// Public changelog: revisions where the overall verdict or an ingredient's
+// status changed (the first revision is always included)
+export interface ProductChangelogIngredient {
+  name: string;
+  // null when the ingredient was added or removed
+  before: SafetyStatus | null;
+  after: SafetyStatus | null;
+}
+
+export interface ProductChangelogEntry {
+  revisionNumber: number;
+  publishedAt: string;
+  changeNote: string | null;
+  overallStatus: { before: SafetyStatus | null; after: SafetyStatus } | null;
+  ingredients: ProductChangelogIngredient[];
+}
+
+// Review queue entry created when a re-analysis changes the status of an
+// ingredient used in a published product
+export type ImpactReviewStatus = "open" | "resolved" | "dismissed";
+
+export interface ImpactReview {
+  id: string;
+  productId: string;
+  // Canonical name of the re-analyzed ingredient
+  ingredientName: string;
+  previousStatus: SafetyStatus;
+  newStatus: SafetyStatus;
+  // The product's verdict when the change was detected, and the verdict it
+  // would have with the new ingredient status
+  currentOverallStatus: SafetyStatus;
+  projectedOverallStatus: SafetyStatus;
+  status: ImpactReviewStatus;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+export interface ImpactReviewListItem extends ImpactReview {
+  productName: string;
+  productBrand: string;
+}
+
+// A user drafts can be assigned to
+export interface Editor {
+  id: string;
+  email: string | null;
+}
+
+// A key for programmatic access; the secret is only returned when it is created
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, to tell keys apart
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// One field of an audited record before and after the action
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// A record of an administrative action (audit_events)
+export interface AuditEvent {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  // Role, or "api_key" for a scoped API key
+  actorRole: string | null;
+  // e.g. "product.update"; the part before the dot is the target type
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  // Changed fields, or null when there is nothing to compare (e.g. a create without a body)
+  changes: Record<string, AuditFieldChange> | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip: string | null;
+  createdAt: string;
+}
+
+// An account in user_profiles, as listed on the user management screen
+export interface ManagedUser {
+  id: string;
+  email: string;
+  role: Role;
+  createdAt: string;
+  updatedAt: string;
+  // Deactivated accounts cannot sign in
+  deactivatedAt: string | null;
+}
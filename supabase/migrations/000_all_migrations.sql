@@ -170,6 +170,1577 @@ CREATE POLICY "Service role full access"
   FOR ALL
   USING (auth.jwt() ->> 'role' = 'service_role');
 
+-- ============================================
+-- MIGRATION 4: Ingredient Aliases
+-- ============================================
+
+-- Create ingredient_aliases table mapping INCI names, common names and CAS numbers
+-- to the canonical ingredient name used as the key in ingredient_analyses
+CREATE TABLE IF NOT EXISTS ingredient_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alias TEXT NOT NULL UNIQUE,
+  canonical_name TEXT NOT NULL,
+  alias_type TEXT NOT NULL DEFAULT 'inci' CHECK (alias_type IN ('inci', 'common', 'cas')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (alias <> canonical_name)
+);
+
+-- Create index for reverse lookups (all aliases of an ingredient)
+CREATE INDEX IF NOT EXISTS idx_ingredient_aliases_canonical_name ON ingredient_aliases(canonical_name);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_ingredient_aliases_updated_at ON ingredient_aliases;
+CREATE TRIGGER update_ingredient_aliases_updated_at
+  BEFORE UPDATE ON ingredient_aliases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the most common label synonyms
+INSERT INTO ingredient_aliases (alias, canonical_name, alias_type) VALUES
+  ('aqua', 'water', 'inci'),
+  ('eau', 'water', 'common'),
+  ('7732-18-5', 'water', 'cas'),
+  ('parfum', 'fragrance', 'inci'),
+  ('glycerine', 'glycerin', 'common'),
+  ('56-81-5', 'glycerin', 'cas'),
+  ('vitamin e', 'tocopherol', 'common'),
+  ('59-02-9', 'tocopherol', 'cas'),
+  ('122-99-6', 'phenoxyethanol', 'cas')
+ON CONFLICT (alias) DO NOTHING;
+
+-- ============================================
+-- MIGRATION 5: Vetting Jobs
+-- ============================================
+
+-- Create vetting_jobs table for background ingredient vetting runs.
+-- items holds one entry per ingredient ({ name, status, result }) so clients
+-- can show partial results while the job is still running.
+CREATE TABLE IF NOT EXISTS vetting_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  total INTEGER NOT NULL DEFAULT 0,
+  completed INTEGER NOT NULL DEFAULT 0,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index for finding unfinished jobs
+CREATE INDEX IF NOT EXISTS idx_vetting_jobs_status ON vetting_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_vetting_jobs_created_at ON vetting_jobs(created_at DESC);
+
+-- Create trigger for updated_at
+DROP TRIGGER IF EXISTS update_vetting_jobs_updated_at ON vetting_jobs;
+CREATE TRIGGER update_vetting_jobs_updated_at
+  BEFORE UPDATE ON vetting_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- MIGRATION 6: Analysis Consensus
+-- ============================================
+
+-- Record which AI provider produced each analysis and, when several providers
+-- were asked (failover or consensus voting), their votes and failures.
+-- needs_review flags analyses where providers disagreed or every provider failed.
+ALTER TABLE ingredient_analyses
+  ADD COLUMN IF NOT EXISTS provider TEXT,
+  ADD COLUMN IF NOT EXISTS consensus JSONB,
+  ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Create partial index for the editorial review queue
+CREATE INDEX IF NOT EXISTS idx_ingredient_analyses_needs_review ON ingredient_analyses(needs_review) WHERE needs_review;
+
+-- ============================================
+-- MIGRATION 7: Product Write Functions
+-- ============================================
+
+-- Transactional product writes.
+-- Each function runs in the transaction of its RPC call, so a product and its
+-- ingredients are written together or not at all: a failed ingredient insert
+-- rolls back the product change instead of leaving a product with no ingredients.
+
+-- Replace all ingredients of a product with the given JSON array of rows
+-- ({ id?, name, status, rationale, source_url, original_status?, is_override?, created_at? })
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (id, product_id, name, status, rationale, source_url, original_status, is_override, created_at)
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a product and its ingredients; returns the new product id
+CREATE OR REPLACE FUNCTION create_product(p_product JSONB, p_ingredients JSONB DEFAULT '[]'::jsonb)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID := COALESCE((p_product->>'id')::uuid, gen_random_uuid());
+BEGIN
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (
+    v_product_id,
+    p_product->>'name',
+    p_product->>'brand',
+    p_product->>'summary',
+    p_product->>'image_url',
+    (p_product->>'overall_status')::safety_status_enum,
+    COALESCE((p_product->>'status')::product_status_enum, 'draft'),
+    (p_product->>'published_at')::timestamptz,
+    (p_product->>'edited_from_product_id')::uuid
+  );
+
+  PERFORM replace_product_ingredients(v_product_id, p_ingredients);
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Update the columns present in p_changes and, when p_ingredients is not null,
+-- replace the ingredients; returns false when the product does not exist
+CREATE OR REPLACE FUNCTION update_product(p_product_id UUID, p_changes JSONB, p_ingredients JSONB DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_changes IS NOT NULL AND p_changes <> '{}'::jsonb THEN
+    UPDATE products SET
+      name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      brand = CASE WHEN p_changes ? 'brand' THEN p_changes->>'brand' ELSE brand END,
+      summary = CASE WHEN p_changes ? 'summary' THEN p_changes->>'summary' ELSE summary END,
+      image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+      overall_status = CASE WHEN p_changes ? 'overall_status' THEN (p_changes->>'overall_status')::safety_status_enum ELSE overall_status END,
+      status = CASE WHEN p_changes ? 'status' THEN (p_changes->>'status')::product_status_enum ELSE status END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END
+    WHERE id = p_product_id;
+  END IF;
+
+  IF p_ingredients IS NOT NULL THEN
+    PERFORM replace_product_ingredients(p_product_id, p_ingredients);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an editable draft copy of a product, or return its existing draft;
+-- returns null when the product does not exist
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (product_id, name, status, rationale, source_url, original_status, is_override)
+  SELECT v_draft_id, name, status, rationale, source_url, original_status, is_override
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy a draft onto the product it was created from, publish it and delete the
+-- draft; returns the original product id, or null when the draft is invalid
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (product_id, name, status, rationale, source_url, original_status, is_override)
+  SELECT v_original.id, name, status, rationale, source_url, original_status, is_override
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the server (service role) writes products
+REVOKE EXECUTE ON FUNCTION replace_product_ingredients(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_product(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_product(UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_product_draft(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION merge_product_draft(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- MIGRATION 8: Product Revisions
+-- ============================================
+
+-- Create product_revisions table: one immutable snapshot per published version of
+-- a product (product fields and ingredients), so a report can be shown as it
+-- read on any date. Snapshots use the API's camelCase field names.
+CREATE TABLE IF NOT EXISTS product_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  published_by UUID,
+  published_by_email TEXT,
+  published_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (product_id, revision_number)
+);
+
+-- Create index for listing a product's history
+CREATE INDEX IF NOT EXISTS idx_product_revisions_product_id ON product_revisions(product_id, revision_number DESC);
+
+-- Snapshot a published product as its next revision. Does nothing for drafts,
+-- or when the content is unchanged since the latest revision.
+-- p_actor: { id?, email? } of the admin who published
+CREATE OR REPLACE FUNCTION record_product_revision(p_product_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_snapshot JSONB;
+  v_latest product_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  IF NOT FOUND OR v_product.status <> 'published' THEN
+    RETURN;
+  END IF;
+
+  v_snapshot := jsonb_build_object(
+    'name', v_product.name,
+    'brand', v_product.brand,
+    'summary', v_product.summary,
+    'imageUrl', v_product.image_url,
+    'overallStatus', v_product.overall_status,
+    'ingredients', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', i.name,
+        'status', i.status,
+        'rationale', i.rationale,
+        'sourceUrl', i.source_url,
+        'originalStatus', i.original_status,
+        'isOverride', i.is_override
+      ) ORDER BY i.name)
+      FROM ingredients i
+      WHERE i.product_id = p_product_id
+    ), '[]'::jsonb)
+  );
+
+  SELECT * INTO v_latest FROM product_revisions
+  WHERE product_id = p_product_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.snapshot = v_snapshot THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO product_revisions (product_id, revision_number, snapshot, published_by, published_by_email)
+  VALUES (
+    p_product_id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_snapshot,
+    -- API-key sessions have no user id
+    CASE WHEN (p_actor->>'id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (p_actor->>'id')::uuid END,
+    p_actor->>'email'
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Product writes record a revision in the same transaction. The signatures gain
+-- p_actor, so the versions from 007_product_write_functions.sql are replaced.
+DROP FUNCTION IF EXISTS create_product(JSONB, JSONB);
+DROP FUNCTION IF EXISTS update_product(UUID, JSONB, JSONB);
+DROP FUNCTION IF EXISTS merge_product_draft(UUID);
+
+CREATE OR REPLACE FUNCTION create_product(p_product JSONB, p_ingredients JSONB DEFAULT '[]'::jsonb, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID := COALESCE((p_product->>'id')::uuid, gen_random_uuid());
+BEGIN
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (
+    v_product_id,
+    p_product->>'name',
+    p_product->>'brand',
+    p_product->>'summary',
+    p_product->>'image_url',
+    (p_product->>'overall_status')::safety_status_enum,
+    COALESCE((p_product->>'status')::product_status_enum, 'draft'),
+    (p_product->>'published_at')::timestamptz,
+    (p_product->>'edited_from_product_id')::uuid
+  );
+
+  PERFORM replace_product_ingredients(v_product_id, p_ingredients);
+  PERFORM record_product_revision(v_product_id, p_actor);
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_product(p_product_id UUID, p_changes JSONB, p_ingredients JSONB DEFAULT NULL, p_actor JSONB DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_changes IS NOT NULL AND p_changes <> '{}'::jsonb THEN
+    UPDATE products SET
+      name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      brand = CASE WHEN p_changes ? 'brand' THEN p_changes->>'brand' ELSE brand END,
+      summary = CASE WHEN p_changes ? 'summary' THEN p_changes->>'summary' ELSE summary END,
+      image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+      overall_status = CASE WHEN p_changes ? 'overall_status' THEN (p_changes->>'overall_status')::safety_status_enum ELSE overall_status END,
+      status = CASE WHEN p_changes ? 'status' THEN (p_changes->>'status')::product_status_enum ELSE status END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END
+    WHERE id = p_product_id;
+  END IF;
+
+  IF p_ingredients IS NOT NULL THEN
+    PERFORM replace_product_ingredients(p_product_id, p_ingredients);
+  END IF;
+
+  PERFORM record_product_revision(p_product_id, p_actor);
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (product_id, name, status, rationale, source_url, original_status, is_override)
+  SELECT v_original.id, name, status, rationale, source_url, original_status, is_override
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Products published before revisions existed get their current version as revision 1
+INSERT INTO product_revisions (product_id, revision_number, snapshot, published_at)
+SELECT
+  p.id,
+  1,
+  jsonb_build_object(
+    'name', p.name,
+    'brand', p.brand,
+    'summary', p.summary,
+    'imageUrl', p.image_url,
+    'overallStatus', p.overall_status,
+    'ingredients', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', i.name,
+        'status', i.status,
+        'rationale', i.rationale,
+        'sourceUrl', i.source_url,
+        'originalStatus', i.original_status,
+        'isOverride', i.is_override
+      ) ORDER BY i.name)
+      FROM ingredients i
+      WHERE i.product_id = p.id
+    ), '[]'::jsonb)
+  ),
+  COALESCE(p.published_at, p.updated_at)
+FROM products p
+WHERE p.status = 'published'
+  AND NOT EXISTS (SELECT 1 FROM product_revisions r WHERE r.product_id = p.id);
+
+-- Only the server (service role) writes products
+REVOKE EXECUTE ON FUNCTION record_product_revision(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_product(JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_product(UUID, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION merge_product_draft(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- MIGRATION 9: Revision Change Notes
+-- ============================================
+
+-- Editor's note on why a published report changed, shown in the public changelog
+ALTER TABLE product_revisions ADD COLUMN IF NOT EXISTS change_note TEXT;
+
+-- Same as 008_product_revisions.sql, plus the change note.
+-- p_actor: { id?, email?, changeNote? } of the admin who published
+CREATE OR REPLACE FUNCTION record_product_revision(p_product_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_snapshot JSONB;
+  v_latest product_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  IF NOT FOUND OR v_product.status <> 'published' THEN
+    RETURN;
+  END IF;
+
+  v_snapshot := jsonb_build_object(
+    'name', v_product.name,
+    'brand', v_product.brand,
+    'summary', v_product.summary,
+    'imageUrl', v_product.image_url,
+    'overallStatus', v_product.overall_status,
+    'ingredients', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', i.name,
+        'status', i.status,
+        'rationale', i.rationale,
+        'sourceUrl', i.source_url,
+        'originalStatus', i.original_status,
+        'isOverride', i.is_override
+      ) ORDER BY i.name)
+      FROM ingredients i
+      WHERE i.product_id = p_product_id
+    ), '[]'::jsonb)
+  );
+
+  SELECT * INTO v_latest FROM product_revisions
+  WHERE product_id = p_product_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.snapshot = v_snapshot THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO product_revisions (product_id, revision_number, snapshot, published_by, published_by_email, change_note)
+  VALUES (
+    p_product_id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_snapshot,
+    -- API-key sessions have no user id
+    CASE WHEN (p_actor->>'id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (p_actor->>'id')::uuid END,
+    p_actor->>'email',
+    NULLIF(TRIM(p_actor->>'changeNote'), '')
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_product_revision(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- MIGRATION 10: Ingredient Refreshes
+-- ============================================
+
+-- Create ingredient_refreshes table: one row per analysis re-run by the
+-- scheduled refresh worker, recording whether the ingredient's status changed
+CREATE TABLE IF NOT EXISTS ingredient_refreshes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL,
+  ingredient_name TEXT NOT NULL,
+  previous_status safety_status_enum NOT NULL,
+  -- NULL when the re-analysis failed (see error)
+  new_status safety_status_enum,
+  status_changed BOOLEAN NOT NULL DEFAULT false,
+  previous_analyzed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the admin log and for finding status changes
+CREATE INDEX IF NOT EXISTS idx_ingredient_refreshes_created_at ON ingredient_refreshes(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingredient_refreshes_status_changed ON ingredient_refreshes(status_changed) WHERE status_changed;
+
+-- Create index for picking the least recently analyzed rows
+CREATE INDEX IF NOT EXISTS idx_ingredient_analyses_last_analyzed_at ON ingredient_analyses(last_analyzed_at);
+
+-- ============================================
+-- MIGRATION 11: Impact Reviews
+-- ============================================
+
+-- Create impact_reviews table: review queue of published products whose rating
+-- may be outdated because a re-analysis changed one of their ingredients' status
+CREATE TABLE IF NOT EXISTS impact_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  -- Canonical name the ingredient's analysis is stored under
+  ingredient_name TEXT NOT NULL,
+  previous_status safety_status_enum NOT NULL,
+  new_status safety_status_enum NOT NULL,
+  current_overall_status safety_status_enum NOT NULL,
+  projected_overall_status safety_status_enum NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by TEXT
+);
+
+-- At most one open review per product and ingredient
+CREATE UNIQUE INDEX IF NOT EXISTS idx_impact_reviews_open
+  ON impact_reviews(product_id, ingredient_name)
+  WHERE status = 'open';
+
+-- Create index for listing the queue
+CREATE INDEX IF NOT EXISTS idx_impact_reviews_status_created_at ON impact_reviews(status, created_at DESC);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_impact_reviews_updated_at
+  BEFORE UPDATE ON impact_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- MIGRATION 12: Draft Review Workflow
+-- ============================================
+
+-- Editorial review workflow for drafts: each draft moves through
+-- needs_research -> in_review -> changes_requested / approved before it is
+-- published, and can be assigned to an editor. Published products keep the
+-- columns but they are not used.
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS review_state TEXT NOT NULL DEFAULT 'needs_research'
+    CHECK (review_state IN ('needs_research', 'in_review', 'changes_requested', 'approved')),
+  -- Id of the assigned editor (user_profiles.id), with their email for display
+  ADD COLUMN IF NOT EXISTS assigned_to TEXT,
+  ADD COLUMN IF NOT EXISTS assigned_to_email TEXT;
+
+-- Create index for the review queue
+CREATE INDEX IF NOT EXISTS idx_products_review_queue ON products(status, assigned_to, review_state);
+
+-- ============================================
+-- MIGRATION 13: Granular Roles
+-- ============================================
+
+-- Granular roles: editors write drafts and run vetting, reviewers also approve
+-- and publish, admins also delete products and manage users; viewers can only
+-- look. 'user' (the default for new sign-ups) has no access.
+-- The permission matrix lives in shared/permissions.ts.
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('admin', 'reviewer', 'editor', 'viewer', 'user'));
+
+-- ============================================
+-- MIGRATION 14: User Deactivation
+-- ============================================
+
+-- Deactivated accounts: set when an admin deactivates a user from the user
+-- management screen. The user is also banned in Supabase Auth; requireAuth
+-- rejects profiles with this set so tokens issued earlier stop working too.
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Users must not be able to clear their own deactivation, so the update policy
+-- from 003 also pins deactivated_at
+DROP POLICY IF EXISTS "Users can update own profile" ON user_profiles;
+CREATE POLICY "Users can update own profile"
+  ON user_profiles
+  FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id
+    AND role = (SELECT role FROM user_profiles WHERE id = auth.uid())
+    AND deactivated_at IS NOT DISTINCT FROM (SELECT deactivated_at FROM user_profiles WHERE id = auth.uid())
+  );
+
+-- ============================================
+-- MIGRATION 15: API Keys
+-- ============================================
+
+-- Create api_keys table: scoped, revocable keys for integrations. Only the
+-- SHA-256 hash of each key is stored; key_prefix identifies it in the admin UI.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  -- Any of read:drafts, write:products, vet
+  scopes TEXT[] NOT NULL CHECK (scopes <@ ARRAY['read:drafts', 'write:products', 'vet']::TEXT[] AND cardinality(scopes) > 0),
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index for listing keys
+CREATE INDEX IF NOT EXISTS idx_api_keys_created_at ON api_keys(created_at DESC);
+
+-- Only the server reads and writes keys, with the service role (which bypasses
+-- RLS); with RLS on and no policies, the anon and authenticated roles see nothing
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON api_keys FROM anon, authenticated;
+
+-- ============================================
+-- MIGRATION 16: Audit Events
+-- ============================================
+
+-- Create audit_events table: who did what to which record, written by the
+-- audit middleware after each successful administrative request. Rows are
+-- never updated or deleted.
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- User id, "admin" for ADMIN_API_KEY or "api-key:<id>" for a scoped API key
+  actor_id TEXT,
+  actor_email TEXT,
+  actor_role TEXT,
+  -- e.g. product.update; target_type is the part before the dot
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  -- { field: { before, after } } for the fields the action changed
+  changes JSONB,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  status_code INTEGER NOT NULL,
+  ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the audit log filters
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events(action, created_at DESC);
+
+-- Only the server reads and writes the log, with the service role (which
+-- bypasses RLS). Rows are never changed, so not even the service role may
+-- update or delete them.
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON audit_events FROM anon, authenticated;
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_events FROM service_role;
+
+-- ============================================
+-- MIGRATION 17: Ingredient Concentration
+-- ============================================
+
+-- Concentration-aware ratings: the concentration and list position of each
+-- ingredient as printed on the label, and what concentration its status
+-- applies to (see shared/concentrationThresholds.ts).
+ALTER TABLE ingredients
+  ADD COLUMN IF NOT EXISTS concentration_percent NUMERIC CHECK (concentration_percent >= 0 AND concentration_percent <= 100),
+  -- exact ("2%") or max ("less than 1%")
+  ADD COLUMN IF NOT EXISTS concentration_qualifier TEXT CHECK (concentration_qualifier IN ('exact', 'max')),
+  -- 1-based position in the label's ingredient list
+  ADD COLUMN IF NOT EXISTS list_position INTEGER,
+  -- { kind, analysisStatus, threshold, summary }
+  ADD COLUMN IF NOT EXISTS concentration_basis JSONB;
+
+-- Same as 007_product_write_functions.sql, plus the concentration columns
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (
+    id, product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, created_at
+  )
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    i.concentration_percent,
+    i.concentration_qualifier,
+    i.list_position,
+    i.concentration_basis,
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    concentration_percent NUMERIC,
+    concentration_qualifier TEXT,
+    list_position INTEGER,
+    concentration_basis JSONB,
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 007_product_write_functions.sql, copying the concentration columns
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 008_product_revisions.sql, copying the concentration columns
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- MIGRATION 18: Product Category
+-- ============================================
+
+-- Product categories: which vetting profile (prompt, reference source and
+-- concentration thresholds) a product is vetted with. See
+-- shared/productCategories.ts and server/services/vettingProfiles.ts.
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
+
+CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
+
+-- Background vetting jobs run with the category they were started with
+ALTER TABLE vetting_jobs
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
+
+-- Same as 008_product_revisions.sql, plus the category
+CREATE OR REPLACE FUNCTION create_product(p_product JSONB, p_ingredients JSONB DEFAULT '[]'::jsonb, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID := COALESCE((p_product->>'id')::uuid, gen_random_uuid());
+BEGIN
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (
+    v_product_id,
+    p_product->>'name',
+    p_product->>'brand',
+    p_product->>'summary',
+    p_product->>'image_url',
+    COALESCE(p_product->>'category', 'skincare'),
+    (p_product->>'overall_status')::safety_status_enum,
+    COALESCE((p_product->>'status')::product_status_enum, 'draft'),
+    (p_product->>'published_at')::timestamptz,
+    (p_product->>'edited_from_product_id')::uuid
+  );
+
+  PERFORM replace_product_ingredients(v_product_id, p_ingredients);
+  PERFORM record_product_revision(v_product_id, p_actor);
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 008_product_revisions.sql, plus the category
+CREATE OR REPLACE FUNCTION update_product(p_product_id UUID, p_changes JSONB, p_ingredients JSONB DEFAULT NULL, p_actor JSONB DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_changes IS NOT NULL AND p_changes <> '{}'::jsonb THEN
+    UPDATE products SET
+      name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      brand = CASE WHEN p_changes ? 'brand' THEN p_changes->>'brand' ELSE brand END,
+      summary = CASE WHEN p_changes ? 'summary' THEN p_changes->>'summary' ELSE summary END,
+      image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+      category = CASE WHEN p_changes ? 'category' THEN p_changes->>'category' ELSE category END,
+      overall_status = CASE WHEN p_changes ? 'overall_status' THEN (p_changes->>'overall_status')::safety_status_enum ELSE overall_status END,
+      status = CASE WHEN p_changes ? 'status' THEN (p_changes->>'status')::product_status_enum ELSE status END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END
+    WHERE id = p_product_id;
+  END IF;
+
+  IF p_ingredients IS NOT NULL THEN
+    PERFORM replace_product_ingredients(p_product_id, p_ingredients);
+  END IF;
+
+  PERFORM record_product_revision(p_product_id, p_actor);
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 017_ingredient_concentration.sql, copying the category
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.category, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 017_ingredient_concentration.sql, copying the category
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    category = v_draft.category,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- MIGRATION 19: Regulatory Matches
+-- ============================================
+
+-- Regulatory list matches (see server/services/regulatoryLists.ts): the lists
+-- an ingredient was found on when it was vetted, with the regulation cited.
+ALTER TABLE ingredients
+  -- [{ listId, listName, listVersion, effect, reference, conditions, matchedBy, matchedValue }]
+  ADD COLUMN IF NOT EXISTS regulatory_matches JSONB;
+
+-- Same as 017_ingredient_concentration.sql, plus regulatory_matches
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (
+    id, product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, created_at
+  )
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    i.concentration_percent,
+    i.concentration_qualifier,
+    i.list_position,
+    i.concentration_basis,
+    i.regulatory_matches,
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    concentration_percent NUMERIC,
+    concentration_qualifier TEXT,
+    list_position INTEGER,
+    concentration_basis JSONB,
+    regulatory_matches JSONB,
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 018_product_category.sql, copying regulatory_matches
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.category, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 018_product_category.sql, copying regulatory_matches
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    category = v_draft.category,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- MIGRATION 20: Ingredient Tags and Sensitivity Profiles
+-- ============================================
+
+-- Ingredient tags (see shared/ingredientTags.ts) and consumer sensitivity
+-- profiles (see shared/sensitivities.ts). Vetting tags each analysis; product
+-- ingredients keep the tags they were vetted with.
+ALTER TABLE ingredient_analyses
+  -- allergen, fragrance, comedogenic, animal-derived
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_ingredient_analyses_tags ON ingredient_analyses USING GIN (tags);
+
+ALTER TABLE ingredients
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE user_profiles
+  -- pregnancy, fragrance-sensitivity, nut-allergy, acne-prone, vegan
+  ADD COLUMN IF NOT EXISTS sensitivities TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS sensitivities_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Same as 019_regulatory_matches.sql, plus tags
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (
+    id, product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags, created_at
+  )
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    i.concentration_percent,
+    i.concentration_qualifier,
+    i.list_position,
+    i.concentration_basis,
+    i.regulatory_matches,
+    COALESCE(i.tags, '{}'),
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    concentration_percent NUMERIC,
+    concentration_qualifier TEXT,
+    list_position INTEGER,
+    concentration_basis JSONB,
+    regulatory_matches JSONB,
+    tags TEXT[],
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 019_regulatory_matches.sql, copying tags
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.category, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 019_regulatory_matches.sql, copying tags
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    category = v_draft.category,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- MIGRATION 21: Ingredient Attributes
+-- ============================================
+
+-- Structured ingredient attributes (see shared/ingredientAttributes.ts):
+-- { function, origin, allergen, comedogenicRating, pregnancyCaution }.
+-- Vetting stores them with each analysis; product ingredients keep the
+-- attributes they were vetted with.
+ALTER TABLE ingredient_analyses
+  ADD COLUMN IF NOT EXISTS attributes JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_ingredient_analyses_attributes ON ingredient_analyses USING GIN (attributes jsonb_path_ops);
+
+ALTER TABLE ingredients
+  ADD COLUMN IF NOT EXISTS attributes JSONB;
+
+-- Same as 020_ingredient_tags_and_sensitivities.sql, plus attributes
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (
+    id, product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags, attributes, created_at
+  )
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    i.concentration_percent,
+    i.concentration_qualifier,
+    i.list_position,
+    i.concentration_basis,
+    i.regulatory_matches,
+    COALESCE(i.tags, '{}'),
+    i.attributes,
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    concentration_percent NUMERIC,
+    concentration_qualifier TEXT,
+    list_position INTEGER,
+    concentration_basis JSONB,
+    regulatory_matches JSONB,
+    tags TEXT[],
+    attributes JSONB,
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 020_ingredient_tags_and_sensitivities.sql, copying attributes
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.category, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags, attributes
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags, attributes
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 020_ingredient_tags_and_sensitivities.sql, copying attributes
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    category = v_draft.category,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags, attributes
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags, attributes
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- MIGRATION 22: Revision Snapshot Fields
+-- ============================================
+
+-- Same as 009_revision_change_notes.sql, plus the product category and each
+-- ingredient's label concentration, list position, concentration basis,
+-- regulatory matches, tags and attributes, so revisions and their diffs
+-- cover everything a published report shows.
+-- p_actor: { id?, email?, changeNote? } of the admin who published
+CREATE OR REPLACE FUNCTION record_product_revision(p_product_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_snapshot JSONB;
+  v_latest product_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  IF NOT FOUND OR v_product.status <> 'published' THEN
+    RETURN;
+  END IF;
+
+  v_snapshot := jsonb_build_object(
+    'name', v_product.name,
+    'brand', v_product.brand,
+    'summary', v_product.summary,
+    'imageUrl', v_product.image_url,
+    'category', v_product.category,
+    'overallStatus', v_product.overall_status,
+    'ingredients', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', i.name,
+        'status', i.status,
+        'rationale', i.rationale,
+        'sourceUrl', i.source_url,
+        'originalStatus', i.original_status,
+        'isOverride', i.is_override,
+        'concentration', CASE WHEN i.concentration_percent IS NULL THEN NULL
+          ELSE jsonb_build_object('percent', i.concentration_percent, 'qualifier', COALESCE(i.concentration_qualifier, 'exact')) END,
+        'position', i.list_position,
+        'concentrationBasis', i.concentration_basis,
+        'regulatoryMatches', i.regulatory_matches,
+        'tags', to_jsonb(i.tags),
+        'attributes', i.attributes
+      ) ORDER BY i.name)
+      FROM ingredients i
+      WHERE i.product_id = p_product_id
+    ), '[]'::jsonb)
+  );
+
+  SELECT * INTO v_latest FROM product_revisions
+  WHERE product_id = p_product_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.snapshot = v_snapshot THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO product_revisions (product_id, revision_number, snapshot, published_by, published_by_email, change_note)
+  VALUES (
+    p_product_id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_snapshot,
+    -- API-key sessions have no user id
+    CASE WHEN (p_actor->>'id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (p_actor->>'id')::uuid END,
+    p_actor->>'email',
+    NULLIF(TRIM(p_actor->>'changeNote'), '')
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_product_revision(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- MIGRATION 23: Analysis Category
+-- ============================================
+
+-- Stored analyses are kept per product category: the food and cleaning
+-- profiles rate an ingredient with their own prompt, reference source and
+-- thresholds, so a skincare rating is not reused for them. Analyses stored
+-- before categories were made with the skincare profile.
+ALTER TABLE ingredient_analyses
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
+
+ALTER TABLE ingredient_analyses DROP CONSTRAINT IF EXISTS ingredient_analyses_ingredient_name_key;
+ALTER TABLE ingredient_analyses DROP CONSTRAINT IF EXISTS ingredient_analyses_name_category_key;
+ALTER TABLE ingredient_analyses ADD CONSTRAINT ingredient_analyses_name_category_key UNIQUE (ingredient_name, category);
+
+-- Refresh log entries record which category's analysis was re-run
+ALTER TABLE ingredient_refreshes
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
+
+-- ============================================
+-- MIGRATION 24: Vetting Job Owner
+-- ============================================
+
+-- Vetting jobs record who started them; only they can poll the job.
+-- Holds req.user.id: a user id, "api-key:<id>" or "admin".
+ALTER TABLE vetting_jobs ADD COLUMN IF NOT EXISTS created_by TEXT;
+
 -- ============================================
 -- VERIFICATION QUERIES
 -- Run these to verify setup:
@@ -178,8 +1749,8 @@ CREATE POLICY "Service role full access"
 -- Check tables exist
 -- SELECT table_name FROM information_schema.tables 
 -- WHERE table_schema = 'public' 
--- AND table_name IN ('products', 'ingredients', 'ingredient_analyses', 'user_profiles');
+-- AND table_name IN ('products', 'ingredients', 'ingredient_analyses', 'user_profiles', 'ingredient_aliases', 'vetting_jobs', 'product_revisions', 'ingredient_refreshes', 'impact_reviews', 'api_keys', 'audit_events');
 
--- Check admin users
--- SELECT id, email, role FROM user_profiles WHERE role = 'admin';
+-- Check staff users
+-- SELECT id, email, role FROM user_profiles WHERE role <> 'user';
 
@@ -0,0 +1,33 @@
+-- Create ingredient_aliases table mapping INCI names, common names and CAS numbers
+-- to the canonical ingredient name used as the key in ingredient_analyses
+CREATE TABLE ingredient_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alias TEXT NOT NULL UNIQUE,
+  canonical_name TEXT NOT NULL,
+  alias_type TEXT NOT NULL DEFAULT 'inci' CHECK (alias_type IN ('inci', 'common', 'cas')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (alias <> canonical_name)
+);
+
+-- Create index for reverse lookups (all aliases of an ingredient)
+CREATE INDEX idx_ingredient_aliases_canonical_name ON ingredient_aliases(canonical_name);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_ingredient_aliases_updated_at
+  BEFORE UPDATE ON ingredient_aliases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the most common label synonyms
+INSERT INTO ingredient_aliases (alias, canonical_name, alias_type) VALUES
+  ('aqua', 'water', 'inci'),
+  ('eau', 'water', 'common'),
+  ('7732-18-5', 'water', 'cas'),
+  ('parfum', 'fragrance', 'inci'),
+  ('glycerine', 'glycerin', 'common'),
+  ('56-81-5', 'glycerin', 'cas'),
+  ('vitamin e', 'tocopherol', 'common'),
+  ('59-02-9', 'tocopherol', 'cas'),
+  ('122-99-6', 'phenoxyethanol', 'cas')
+ON CONFLICT (alias) DO NOTHING;
@@ -0,0 +1,25 @@
+-- Create vetting_jobs table for background ingredient vetting runs.
+-- items holds one entry per ingredient ({ name, status, result }) so clients
+-- can show partial results while the job is still running.
+CREATE TABLE vetting_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  total INTEGER NOT NULL DEFAULT 0,
+  completed INTEGER NOT NULL DEFAULT 0,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index for finding unfinished jobs
+CREATE INDEX idx_vetting_jobs_status ON vetting_jobs(status);
+CREATE INDEX idx_vetting_jobs_created_at ON vetting_jobs(created_at DESC);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_vetting_jobs_updated_at
+  BEFORE UPDATE ON vetting_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,10 @@
+-- Record which AI provider produced each analysis and, when several providers
+-- were asked (failover or consensus voting), their votes and failures.
+-- needs_review flags analyses where providers disagreed or every provider failed.
+ALTER TABLE ingredient_analyses
+  ADD COLUMN provider TEXT,
+  ADD COLUMN consensus JSONB,
+  ADD COLUMN needs_review BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Create partial index for the editorial review queue
+CREATE INDEX idx_ingredient_analyses_needs_review ON ingredient_analyses(needs_review) WHERE needs_review;
@@ -0,0 +1,173 @@
+-- Transactional product writes.
+-- Each function runs in the transaction of its RPC call, so a product and its
+-- ingredients are written together or not at all: a failed ingredient insert
+-- rolls back the product change instead of leaving a product with no ingredients.
+
+-- Replace all ingredients of a product with the given JSON array of rows
+-- ({ id?, name, status, rationale, source_url, original_status?, is_override?, created_at? })
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (id, product_id, name, status, rationale, source_url, original_status, is_override, created_at)
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create a product and its ingredients; returns the new product id
+CREATE OR REPLACE FUNCTION create_product(p_product JSONB, p_ingredients JSONB DEFAULT '[]'::jsonb)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID := COALESCE((p_product->>'id')::uuid, gen_random_uuid());
+BEGIN
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (
+    v_product_id,
+    p_product->>'name',
+    p_product->>'brand',
+    p_product->>'summary',
+    p_product->>'image_url',
+    (p_product->>'overall_status')::safety_status_enum,
+    COALESCE((p_product->>'status')::product_status_enum, 'draft'),
+    (p_product->>'published_at')::timestamptz,
+    (p_product->>'edited_from_product_id')::uuid
+  );
+
+  PERFORM replace_product_ingredients(v_product_id, p_ingredients);
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Update the columns present in p_changes and, when p_ingredients is not null,
+-- replace the ingredients; returns false when the product does not exist
+CREATE OR REPLACE FUNCTION update_product(p_product_id UUID, p_changes JSONB, p_ingredients JSONB DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_changes IS NOT NULL AND p_changes <> '{}'::jsonb THEN
+    UPDATE products SET
+      name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      brand = CASE WHEN p_changes ? 'brand' THEN p_changes->>'brand' ELSE brand END,
+      summary = CASE WHEN p_changes ? 'summary' THEN p_changes->>'summary' ELSE summary END,
+      image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+      overall_status = CASE WHEN p_changes ? 'overall_status' THEN (p_changes->>'overall_status')::safety_status_enum ELSE overall_status END,
+      status = CASE WHEN p_changes ? 'status' THEN (p_changes->>'status')::product_status_enum ELSE status END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END
+    WHERE id = p_product_id;
+  END IF;
+
+  IF p_ingredients IS NOT NULL THEN
+    PERFORM replace_product_ingredients(p_product_id, p_ingredients);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an editable draft copy of a product, or return its existing draft;
+-- returns null when the product does not exist
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (product_id, name, status, rationale, source_url, original_status, is_override)
+  SELECT v_draft_id, name, status, rationale, source_url, original_status, is_override
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy a draft onto the product it was created from, publish it and delete the
+-- draft; returns the original product id, or null when the draft is invalid
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (product_id, name, status, rationale, source_url, original_status, is_override)
+  SELECT v_original.id, name, status, rationale, source_url, original_status, is_override
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the server (service role) writes products
+REVOKE EXECUTE ON FUNCTION replace_product_ingredients(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_product(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_product(UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_product_draft(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION merge_product_draft(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,209 @@
+-- Create product_revisions table: one immutable snapshot per published version of
+-- a product (product fields and ingredients), so a report can be shown as it
+-- read on any date. Snapshots use the API's camelCase field names.
+CREATE TABLE IF NOT EXISTS product_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  snapshot JSONB NOT NULL,
+  published_by UUID,
+  published_by_email TEXT,
+  published_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (product_id, revision_number)
+);
+
+-- Create index for listing a product's history
+CREATE INDEX IF NOT EXISTS idx_product_revisions_product_id ON product_revisions(product_id, revision_number DESC);
+
+-- Snapshot a published product as its next revision. Does nothing for drafts,
+-- or when the content is unchanged since the latest revision.
+-- p_actor: { id?, email? } of the admin who published
+CREATE OR REPLACE FUNCTION record_product_revision(p_product_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_snapshot JSONB;
+  v_latest product_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  IF NOT FOUND OR v_product.status <> 'published' THEN
+    RETURN;
+  END IF;
+
+  v_snapshot := jsonb_build_object(
+    'name', v_product.name,
+    'brand', v_product.brand,
+    'summary', v_product.summary,
+    'imageUrl', v_product.image_url,
+    'overallStatus', v_product.overall_status,
+    'ingredients', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', i.name,
+        'status', i.status,
+        'rationale', i.rationale,
+        'sourceUrl', i.source_url,
+        'originalStatus', i.original_status,
+        'isOverride', i.is_override
+      ) ORDER BY i.name)
+      FROM ingredients i
+      WHERE i.product_id = p_product_id
+    ), '[]'::jsonb)
+  );
+
+  SELECT * INTO v_latest FROM product_revisions
+  WHERE product_id = p_product_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.snapshot = v_snapshot THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO product_revisions (product_id, revision_number, snapshot, published_by, published_by_email)
+  VALUES (
+    p_product_id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_snapshot,
+    -- API-key sessions have no user id
+    CASE WHEN (p_actor->>'id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (p_actor->>'id')::uuid END,
+    p_actor->>'email'
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Product writes record a revision in the same transaction. The signatures gain
+-- p_actor, so the versions from 007_product_write_functions.sql are replaced.
+DROP FUNCTION IF EXISTS create_product(JSONB, JSONB);
+DROP FUNCTION IF EXISTS update_product(UUID, JSONB, JSONB);
+DROP FUNCTION IF EXISTS merge_product_draft(UUID);
+
+CREATE OR REPLACE FUNCTION create_product(p_product JSONB, p_ingredients JSONB DEFAULT '[]'::jsonb, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID := COALESCE((p_product->>'id')::uuid, gen_random_uuid());
+BEGIN
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (
+    v_product_id,
+    p_product->>'name',
+    p_product->>'brand',
+    p_product->>'summary',
+    p_product->>'image_url',
+    (p_product->>'overall_status')::safety_status_enum,
+    COALESCE((p_product->>'status')::product_status_enum, 'draft'),
+    (p_product->>'published_at')::timestamptz,
+    (p_product->>'edited_from_product_id')::uuid
+  );
+
+  PERFORM replace_product_ingredients(v_product_id, p_ingredients);
+  PERFORM record_product_revision(v_product_id, p_actor);
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_product(p_product_id UUID, p_changes JSONB, p_ingredients JSONB DEFAULT NULL, p_actor JSONB DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_changes IS NOT NULL AND p_changes <> '{}'::jsonb THEN
+    UPDATE products SET
+      name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      brand = CASE WHEN p_changes ? 'brand' THEN p_changes->>'brand' ELSE brand END,
+      summary = CASE WHEN p_changes ? 'summary' THEN p_changes->>'summary' ELSE summary END,
+      image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+      overall_status = CASE WHEN p_changes ? 'overall_status' THEN (p_changes->>'overall_status')::safety_status_enum ELSE overall_status END,
+      status = CASE WHEN p_changes ? 'status' THEN (p_changes->>'status')::product_status_enum ELSE status END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END
+    WHERE id = p_product_id;
+  END IF;
+
+  IF p_ingredients IS NOT NULL THEN
+    PERFORM replace_product_ingredients(p_product_id, p_ingredients);
+  END IF;
+
+  PERFORM record_product_revision(p_product_id, p_actor);
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (product_id, name, status, rationale, source_url, original_status, is_override)
+  SELECT v_original.id, name, status, rationale, source_url, original_status, is_override
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Products published before revisions existed get their current version as revision 1
+INSERT INTO product_revisions (product_id, revision_number, snapshot, published_at)
+SELECT
+  p.id,
+  1,
+  jsonb_build_object(
+    'name', p.name,
+    'brand', p.brand,
+    'summary', p.summary,
+    'imageUrl', p.image_url,
+    'overallStatus', p.overall_status,
+    'ingredients', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', i.name,
+        'status', i.status,
+        'rationale', i.rationale,
+        'sourceUrl', i.source_url,
+        'originalStatus', i.original_status,
+        'isOverride', i.is_override
+      ) ORDER BY i.name)
+      FROM ingredients i
+      WHERE i.product_id = p.id
+    ), '[]'::jsonb)
+  ),
+  COALESCE(p.published_at, p.updated_at)
+FROM products p
+WHERE p.status = 'published'
+  AND NOT EXISTS (SELECT 1 FROM product_revisions r WHERE r.product_id = p.id);
+
+-- Only the server (service role) writes products
+REVOKE EXECUTE ON FUNCTION record_product_revision(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_product(JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_product(UUID, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION merge_product_draft(UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,61 @@
+-- Editor's note on why a published report changed, shown in the public changelog
+ALTER TABLE product_revisions ADD COLUMN IF NOT EXISTS change_note TEXT;
+
+-- Same as 008_product_revisions.sql, plus the change note.
+-- p_actor: { id?, email?, changeNote? } of the admin who published
+CREATE OR REPLACE FUNCTION record_product_revision(p_product_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_snapshot JSONB;
+  v_latest product_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_product FROM products WHERE id = p_product_id;
+  IF NOT FOUND OR v_product.status <> 'published' THEN
+    RETURN;
+  END IF;
+
+  v_snapshot := jsonb_build_object(
+    'name', v_product.name,
+    'brand', v_product.brand,
+    'summary', v_product.summary,
+    'imageUrl', v_product.image_url,
+    'overallStatus', v_product.overall_status,
+    'ingredients', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', i.name,
+        'status', i.status,
+        'rationale', i.rationale,
+        'sourceUrl', i.source_url,
+        'originalStatus', i.original_status,
+        'isOverride', i.is_override
+      ) ORDER BY i.name)
+      FROM ingredients i
+      WHERE i.product_id = p_product_id
+    ), '[]'::jsonb)
+  );
+
+  SELECT * INTO v_latest FROM product_revisions
+  WHERE product_id = p_product_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.snapshot = v_snapshot THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO product_revisions (product_id, revision_number, snapshot, published_by, published_by_email, change_note)
+  VALUES (
+    p_product_id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_snapshot,
+    -- API-key sessions have no user id
+    CASE WHEN (p_actor->>'id') ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN (p_actor->>'id')::uuid END,
+    p_actor->>'email',
+    NULLIF(TRIM(p_actor->>'changeNote'), '')
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_product_revision(UUID, JSONB) FROM PUBLIC, anon, authenticated;
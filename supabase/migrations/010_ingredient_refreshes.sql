@@ -0,0 +1,21 @@
+-- Create ingredient_refreshes table: one row per analysis re-run by the
+-- scheduled refresh worker, recording whether the ingredient's status changed
+CREATE TABLE IF NOT EXISTS ingredient_refreshes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL,
+  ingredient_name TEXT NOT NULL,
+  previous_status safety_status_enum NOT NULL,
+  -- NULL when the re-analysis failed (see error)
+  new_status safety_status_enum,
+  status_changed BOOLEAN NOT NULL DEFAULT false,
+  previous_analyzed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the admin log and for finding status changes
+CREATE INDEX IF NOT EXISTS idx_ingredient_refreshes_created_at ON ingredient_refreshes(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingredient_refreshes_status_changed ON ingredient_refreshes(status_changed) WHERE status_changed;
+
+-- Create index for picking the least recently analyzed rows
+CREATE INDEX IF NOT EXISTS idx_ingredient_analyses_last_analyzed_at ON ingredient_analyses(last_analyzed_at);
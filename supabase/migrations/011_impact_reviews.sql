@@ -0,0 +1,31 @@
+-- Create impact_reviews table: review queue of published products whose rating
+-- may be outdated because a re-analysis changed one of their ingredients' status
+CREATE TABLE IF NOT EXISTS impact_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  -- Canonical name the ingredient's analysis is stored under
+  ingredient_name TEXT NOT NULL,
+  previous_status safety_status_enum NOT NULL,
+  new_status safety_status_enum NOT NULL,
+  current_overall_status safety_status_enum NOT NULL,
+  projected_overall_status safety_status_enum NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by TEXT
+);
+
+-- At most one open review per product and ingredient
+CREATE UNIQUE INDEX IF NOT EXISTS idx_impact_reviews_open
+  ON impact_reviews(product_id, ingredient_name)
+  WHERE status = 'open';
+
+-- Create index for listing the queue
+CREATE INDEX IF NOT EXISTS idx_impact_reviews_status_created_at ON impact_reviews(status, created_at DESC);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_impact_reviews_updated_at
+  BEFORE UPDATE ON impact_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,13 @@
+-- Editorial review workflow for drafts: each draft moves through
+-- needs_research -> in_review -> changes_requested / approved before it is
+-- published, and can be assigned to an editor. Published products keep the
+-- columns but they are not used.
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS review_state TEXT NOT NULL DEFAULT 'needs_research'
+    CHECK (review_state IN ('needs_research', 'in_review', 'changes_requested', 'approved')),
+  -- Id of the assigned editor (user_profiles.id), with their email for display
+  ADD COLUMN IF NOT EXISTS assigned_to TEXT,
+  ADD COLUMN IF NOT EXISTS assigned_to_email TEXT;
+
+-- Create index for the review queue
+CREATE INDEX IF NOT EXISTS idx_products_review_queue ON products(status, assigned_to, review_state);
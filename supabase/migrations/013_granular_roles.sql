@@ -0,0 +1,7 @@
+-- Granular roles: editors write drafts and run vetting, reviewers also approve
+-- and publish, admins also delete products and manage users; viewers can only
+-- look. 'user' (the default for new sign-ups) has no access.
+-- The permission matrix lives in shared/permissions.ts.
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('admin', 'reviewer', 'editor', 'viewer', 'user'));
@@ -0,0 +1,17 @@
+-- Deactivated accounts: set when an admin deactivates a user from the user
+-- management screen. The user is also banned in Supabase Auth; requireAuth
+-- rejects profiles with this set so tokens issued earlier stop working too.
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Users must not be able to clear their own deactivation, so the update policy
+-- from 003 also pins deactivated_at
+DROP POLICY IF EXISTS "Users can update own profile" ON user_profiles;
+CREATE POLICY "Users can update own profile"
+  ON user_profiles
+  FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id
+    AND role = (SELECT role FROM user_profiles WHERE id = auth.uid())
+    AND deactivated_at IS NOT DISTINCT FROM (SELECT deactivated_at FROM user_profiles WHERE id = auth.uid())
+  );
@@ -0,0 +1,23 @@
+-- Create api_keys table: scoped, revocable keys for integrations. Only the
+-- SHA-256 hash of each key is stored; key_prefix identifies it in the admin UI.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  -- Any of read:drafts, write:products, vet
+  scopes TEXT[] NOT NULL CHECK (scopes <@ ARRAY['read:drafts', 'write:products', 'vet']::TEXT[] AND cardinality(scopes) > 0),
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create index for listing keys
+CREATE INDEX IF NOT EXISTS idx_api_keys_created_at ON api_keys(created_at DESC);
+
+-- Only the server reads and writes keys, with the service role (which bypasses
+-- RLS); with RLS on and no policies, the anon and authenticated roles see nothing
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON api_keys FROM anon, authenticated;
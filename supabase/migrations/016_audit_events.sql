@@ -0,0 +1,34 @@
+-- Create audit_events table: who did what to which record, written by the
+-- audit middleware after each successful administrative request. Rows are
+-- never updated or deleted.
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- User id, "admin" for ADMIN_API_KEY or "api-key:<id>" for a scoped API key
+  actor_id TEXT,
+  actor_email TEXT,
+  actor_role TEXT,
+  -- e.g. product.update; target_type is the part before the dot
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  -- { field: { before, after } } for the fields the action changed
+  changes JSONB,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  status_code INTEGER NOT NULL,
+  ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for the audit log filters
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events(action, created_at DESC);
+
+-- Only the server reads and writes the log, with the service role (which
+-- bypasses RLS). Rows are never changed, so not even the service role may
+-- update or delete them.
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON audit_events FROM anon, authenticated;
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_events FROM service_role;
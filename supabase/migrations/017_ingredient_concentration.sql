@@ -0,0 +1,138 @@
+-- Concentration-aware ratings: the concentration and list position of each
+-- ingredient as printed on the label, and what concentration its status
+-- applies to (see shared/concentrationThresholds.ts).
+ALTER TABLE ingredients
+  ADD COLUMN IF NOT EXISTS concentration_percent NUMERIC CHECK (concentration_percent >= 0 AND concentration_percent <= 100),
+  -- exact ("2%") or max ("less than 1%")
+  ADD COLUMN IF NOT EXISTS concentration_qualifier TEXT CHECK (concentration_qualifier IN ('exact', 'max')),
+  -- 1-based position in the label's ingredient list
+  ADD COLUMN IF NOT EXISTS list_position INTEGER,
+  -- { kind, analysisStatus, threshold, summary }
+  ADD COLUMN IF NOT EXISTS concentration_basis JSONB;
+
+-- Same as 007_product_write_functions.sql, plus the concentration columns
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (
+    id, product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, created_at
+  )
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    i.concentration_percent,
+    i.concentration_qualifier,
+    i.list_position,
+    i.concentration_basis,
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    concentration_percent NUMERIC,
+    concentration_qualifier TEXT,
+    list_position INTEGER,
+    concentration_basis JSONB,
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 007_product_write_functions.sql, copying the concentration columns
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 008_product_revisions.sql, copying the concentration columns
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
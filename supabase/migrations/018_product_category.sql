@@ -0,0 +1,155 @@
+-- Product categories: which vetting profile (prompt, reference source and
+-- concentration thresholds) a product is vetted with. See
+-- shared/productCategories.ts and server/services/vettingProfiles.ts.
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
+
+CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
+
+-- Background vetting jobs run with the category they were started with
+ALTER TABLE vetting_jobs
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
+
+-- Same as 008_product_revisions.sql, plus the category
+CREATE OR REPLACE FUNCTION create_product(p_product JSONB, p_ingredients JSONB DEFAULT '[]'::jsonb, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_product_id UUID := COALESCE((p_product->>'id')::uuid, gen_random_uuid());
+BEGIN
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (
+    v_product_id,
+    p_product->>'name',
+    p_product->>'brand',
+    p_product->>'summary',
+    p_product->>'image_url',
+    COALESCE(p_product->>'category', 'skincare'),
+    (p_product->>'overall_status')::safety_status_enum,
+    COALESCE((p_product->>'status')::product_status_enum, 'draft'),
+    (p_product->>'published_at')::timestamptz,
+    (p_product->>'edited_from_product_id')::uuid
+  );
+
+  PERFORM replace_product_ingredients(v_product_id, p_ingredients);
+  PERFORM record_product_revision(v_product_id, p_actor);
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 008_product_revisions.sql, plus the category
+CREATE OR REPLACE FUNCTION update_product(p_product_id UUID, p_changes JSONB, p_ingredients JSONB DEFAULT NULL, p_actor JSONB DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_changes IS NOT NULL AND p_changes <> '{}'::jsonb THEN
+    UPDATE products SET
+      name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      brand = CASE WHEN p_changes ? 'brand' THEN p_changes->>'brand' ELSE brand END,
+      summary = CASE WHEN p_changes ? 'summary' THEN p_changes->>'summary' ELSE summary END,
+      image_url = CASE WHEN p_changes ? 'image_url' THEN p_changes->>'image_url' ELSE image_url END,
+      category = CASE WHEN p_changes ? 'category' THEN p_changes->>'category' ELSE category END,
+      overall_status = CASE WHEN p_changes ? 'overall_status' THEN (p_changes->>'overall_status')::safety_status_enum ELSE overall_status END,
+      status = CASE WHEN p_changes ? 'status' THEN (p_changes->>'status')::product_status_enum ELSE status END,
+      published_at = CASE WHEN p_changes ? 'published_at' THEN (p_changes->>'published_at')::timestamptz ELSE published_at END
+    WHERE id = p_product_id;
+  END IF;
+
+  IF p_ingredients IS NOT NULL THEN
+    PERFORM replace_product_ingredients(p_product_id, p_ingredients);
+  END IF;
+
+  PERFORM record_product_revision(p_product_id, p_actor);
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 017_ingredient_concentration.sql, copying the category
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.category, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 017_ingredient_concentration.sql, copying the category
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    category = v_draft.category,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
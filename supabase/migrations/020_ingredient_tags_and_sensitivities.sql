@@ -0,0 +1,148 @@
+-- Ingredient tags (see shared/ingredientTags.ts) and consumer sensitivity
+-- profiles (see shared/sensitivities.ts). Vetting tags each analysis; product
+-- ingredients keep the tags they were vetted with.
+ALTER TABLE ingredient_analyses
+  -- allergen, fragrance, comedogenic, animal-derived
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_ingredient_analyses_tags ON ingredient_analyses USING GIN (tags);
+
+ALTER TABLE ingredients
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE user_profiles
+  -- pregnancy, fragrance-sensitivity, nut-allergy, acne-prone, vegan
+  ADD COLUMN IF NOT EXISTS sensitivities TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS sensitivities_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Same as 019_regulatory_matches.sql, plus tags
+CREATE OR REPLACE FUNCTION replace_product_ingredients(p_product_id UUID, p_ingredients JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM ingredients WHERE product_id = p_product_id;
+
+  INSERT INTO ingredients (
+    id, product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags, created_at
+  )
+  SELECT
+    COALESCE(i.id, gen_random_uuid()),
+    p_product_id,
+    i.name,
+    i.status,
+    i.rationale,
+    i.source_url,
+    i.original_status,
+    COALESCE(i.is_override, false),
+    i.concentration_percent,
+    i.concentration_qualifier,
+    i.list_position,
+    i.concentration_basis,
+    i.regulatory_matches,
+    COALESCE(i.tags, '{}'),
+    COALESCE(i.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_ingredients, '[]'::jsonb)) AS i(
+    id UUID,
+    name TEXT,
+    status safety_status_enum,
+    rationale TEXT,
+    source_url TEXT,
+    original_status safety_status_enum,
+    is_override BOOLEAN,
+    concentration_percent NUMERIC,
+    concentration_qualifier TEXT,
+    list_position INTEGER,
+    concentration_basis JSONB,
+    regulatory_matches JSONB,
+    tags TEXT[],
+    created_at TIMESTAMP WITH TIME ZONE
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 019_regulatory_matches.sql, copying tags
+CREATE OR REPLACE FUNCTION create_product_draft(p_product_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_base products%ROWTYPE;
+  v_draft_id UUID;
+BEGIN
+  -- Locking the base product keeps two concurrent requests from creating two drafts
+  SELECT * INTO v_base FROM products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO v_draft_id FROM products
+  WHERE edited_from_product_id = p_product_id AND status = 'draft'
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_draft_id IS NOT NULL THEN
+    RETURN v_draft_id;
+  END IF;
+
+  v_draft_id := gen_random_uuid();
+  INSERT INTO products (id, name, brand, summary, image_url, category, overall_status, status, published_at, edited_from_product_id)
+  VALUES (v_draft_id, v_base.name, v_base.brand, v_base.summary, v_base.image_url, v_base.category, v_base.overall_status, 'draft', NULL, p_product_id);
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  )
+  SELECT
+    v_draft_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  FROM ingredients
+  WHERE product_id = p_product_id;
+
+  RETURN v_draft_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 019_regulatory_matches.sql, copying tags
+CREATE OR REPLACE FUNCTION merge_product_draft(p_draft_id UUID, p_actor JSONB DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_draft products%ROWTYPE;
+  v_original products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_draft FROM products WHERE id = p_draft_id FOR UPDATE;
+  IF NOT FOUND OR v_draft.edited_from_product_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_original FROM products WHERE id = v_draft.edited_from_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE products SET
+    name = v_draft.name,
+    brand = v_draft.brand,
+    summary = v_draft.summary,
+    image_url = v_draft.image_url,
+    category = v_draft.category,
+    overall_status = v_draft.overall_status,
+    status = 'published',
+    published_at = COALESCE(v_original.published_at, NOW())
+  WHERE id = v_original.id;
+
+  DELETE FROM ingredients WHERE product_id = v_original.id;
+
+  INSERT INTO ingredients (
+    product_id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  )
+  SELECT
+    v_original.id, name, status, rationale, source_url, original_status, is_override,
+    concentration_percent, concentration_qualifier, list_position, concentration_basis, regulatory_matches, tags
+  FROM ingredients
+  WHERE product_id = p_draft_id;
+
+  -- Draft ingredients are removed by ON DELETE CASCADE
+  DELETE FROM products WHERE id = p_draft_id;
+
+  PERFORM record_product_revision(v_original.id, p_actor);
+  RETURN v_original.id;
+END;
+$$ LANGUAGE plpgsql;
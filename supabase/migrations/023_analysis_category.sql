@@ -0,0 +1,14 @@
+-- Stored analyses are kept per product category: the food and cleaning
+-- profiles rate an ingredient with their own prompt, reference source and
+-- thresholds, so a skincare rating is not reused for them. Analyses stored
+-- before categories were made with the skincare profile.
+ALTER TABLE ingredient_analyses
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
+
+ALTER TABLE ingredient_analyses DROP CONSTRAINT IF EXISTS ingredient_analyses_ingredient_name_key;
+ALTER TABLE ingredient_analyses DROP CONSTRAINT IF EXISTS ingredient_analyses_name_category_key;
+ALTER TABLE ingredient_analyses ADD CONSTRAINT ingredient_analyses_name_category_key UNIQUE (ingredient_name, category);
+
+-- Refresh log entries record which category's analysis was re-run
+ALTER TABLE ingredient_refreshes
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'skincare' CHECK (category IN ('skincare', 'food', 'cleaning'));
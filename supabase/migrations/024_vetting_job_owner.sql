@@ -0,0 +1,3 @@
+-- Vetting jobs record who started them; only they can poll the job.
+-- Holds req.user.id: a user id, "api-key:<id>" or "admin".
+ALTER TABLE vetting_jobs ADD COLUMN IF NOT EXISTS created_by TEXT;